@@ -0,0 +1,73 @@
+/**
+ * Published calendar feeds: rebuilt whenever the itinerary or the trip's name changes,
+ * and removed when the owner turns the subscription off or makes a new link
+ */
+import type { DocumentReference } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { onDocumentWritten } from 'firebase-functions/firestore';
+import { buildTripCalendar, getCalendarFeedPath } from '../../src/services/calendar';
+import type { ItineraryItem, Trip } from '../../src/types';
+import { tripDoc } from './paths';
+
+const TRIP_PATH = 'artifacts/{appId}/public/data/trips/{tripId}';
+
+function feedFile(tripId: string, token: string) {
+  return getStorage().bucket().file(getCalendarFeedPath(tripId, token));
+}
+
+/**
+ * The token of the trip's live feed, or '' when it has none - including trips that are gone or
+ * in the trash, whose feed must not come back
+ */
+async function getFeedToken(tripRef: DocumentReference): Promise<string> {
+  const trip = (await tripRef.get()).data() as Trip | undefined;
+  if (!trip || trip.deletedAt) return '';
+  return trip.calendarFeedToken || '';
+}
+
+/**
+ * Write the trip's calendar to its current feed location. Reads the trip and itinerary as they
+ * are now rather than what triggered the run, so a burst of edits ends with the latest state.
+ */
+async function publishFeed(appId: string, tripId: string): Promise<void> {
+  const tripRef = tripDoc(appId, tripId);
+  const tripSnap = await tripRef.get();
+  const trip = tripSnap.data() as Trip | undefined;
+  if (!trip?.calendarFeedToken || trip.deletedAt) return;
+
+  const itinerary = await tripRef.collection('itinerary').get();
+  const items = itinerary.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as ItineraryItem);
+
+  const file = feedFile(tripId, trip.calendarFeedToken);
+  await file.save(buildTripCalendar(trip.name, items), {
+    resumable: false,
+    contentType: 'text/calendar; charset=utf-8',
+    metadata: { cacheControl: 'public, max-age=300' },
+  });
+
+  // The trip may have been trashed, deleted or given a new link while this ran (deleting a trip
+  // fires this for every item). Take the file down again rather than leave it published.
+  if ((await getFeedToken(tripRef)) !== trip.calendarFeedToken) {
+    await file.delete({ ignoreNotFound: true });
+  }
+}
+
+export const publishTripCalendarFeed = onDocumentWritten(TRIP_PATH, async (event) => {
+  const before = event.data?.before.data() as Trip | undefined;
+  const after = event.data?.after.data() as Trip | undefined;
+  const oldToken = before?.calendarFeedToken || '';
+  const newToken = after?.calendarFeedToken || '';
+
+  // Turned off, replaced by a new link, trashed or deleted: the old link stops working
+  if (oldToken && oldToken !== newToken) {
+    await feedFile(event.params.tripId, oldToken).delete({ ignoreNotFound: true });
+  }
+  // Only the name and the token show up in the feed - other trip edits don't change it
+  if (newToken && (newToken !== oldToken || before?.name !== after?.name)) {
+    await publishFeed(event.params.appId, event.params.tripId);
+  }
+});
+
+export const publishItineraryCalendarFeed = onDocumentWritten(`${TRIP_PATH}/itinerary/{itemId}`, async (event) => {
+  await publishFeed(event.params.appId, event.params.tripId);
+});
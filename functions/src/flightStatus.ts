@@ -0,0 +1,72 @@
+/**
+ * Live flight status: one scheduled poll of the flight data provider for every trip's flights
+ * on their day of travel, saved onto the items for members' apps to pick up
+ */
+import { getFirestore, type DocumentReference } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { defineSecret } from 'firebase-functions/params';
+import { onSchedule } from 'firebase-functions/scheduler';
+import { createAeroDataBoxProvider } from '../../src/services/aeroDataBox';
+import type { FlightInfo } from '../../src/services/flight';
+import { FLIGHT_STATUS_POLL_MINUTES, getFlightStatusUpdate, isFlightTrackable } from '../../src/services/flightStatus';
+import { shiftDate } from '../../src/services/trips';
+import type { ItineraryItem, Trip } from '../../src/types';
+
+const aeroDataBoxApiKey = defineSecret('AERODATABOX_API_KEY');
+
+/**
+ * Days (YYYY-MM-DD, local to departure) a flight being tracked now can be on. Local dates run
+ * from a day behind UTC to a day ahead, and long flights are tracked into the next day.
+ */
+function getTravelDays(now: number): string[] {
+  const today = new Date(now).toISOString().slice(0, 10);
+  return [-2, -1, 0, 1].map((offset) => shiftDate(today, offset));
+}
+
+export const trackFlightStatus = onSchedule(
+  { schedule: `every ${FLIGHT_STATUS_POLL_MINUTES} minutes`, secrets: [aeroDataBoxApiKey] },
+  async () => {
+    const now = Date.now();
+    const snapshot = await getFirestore()
+      .collectionGroup('itinerary')
+      .where('day', 'in', getTravelDays(now))
+      .get();
+    const flights = snapshot.docs
+      .map((docSnap) => ({ ref: docSnap.ref, item: { ...docSnap.data(), id: docSnap.id } as ItineraryItem }))
+      .filter(({ item }) => isFlightTrackable(item, now));
+    if (flights.length === 0) return;
+
+    // Trips in the trash aren't tracked
+    const tripRefs = [...new Map(flights.map(({ ref }) => [ref.parent.parent!.path, ref.parent.parent!])).values()];
+    const trips = await getFirestore().getAll(...tripRefs);
+    const activeTrips = new Set(
+      trips.filter((tripSnap) => tripSnap.exists && !(tripSnap.data() as Trip).deletedAt).map((tripSnap) => tripSnap.ref.path)
+    );
+
+    // Members of different trips on the same flight share one lookup
+    const provider = createAeroDataBoxProvider(aeroDataBoxApiKey.value());
+    const lookups = new Map<string, Promise<FlightInfo | null>>();
+    const lookupFlight = (item: ItineraryItem) => {
+      const key = `${item.flightNumber}|${item.day}`;
+      if (!lookups.has(key)) lookups.set(key, provider.lookupFlight(item.flightNumber!, item.day));
+      return lookups.get(key)!;
+    };
+
+    const updates: [DocumentReference, ItineraryItem['flightStatus']][] = [];
+    for (const { ref, item } of flights) {
+      if (!activeTrips.has(ref.parent.parent!.path)) continue;
+      try {
+        const info = await lookupFlight(item);
+        const flightStatus = info ? getFlightStatusUpdate(item, info, now) : null;
+        if (flightStatus) updates.push([ref, flightStatus]);
+      } catch (err) {
+        logger.error(`Error checking status of ${item.flightNumber} (${ref.path}):`, err);
+      }
+    }
+
+    // Items deleted since the query are skipped
+    await Promise.all(updates.map(([ref, flightStatus]) => ref.update({ flightStatus }).catch((err) => {
+      logger.error(`Error saving flight status for ${ref.path}:`, err);
+    })));
+  }
+);
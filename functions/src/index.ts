@@ -0,0 +1,10 @@
+/**
+ * Cloud Functions for work that has to finish whether or not anyone has the app open
+ */
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { deleteTrip, purgeTrash } from './tripDeletion';
+export { publishTripCalendarFeed, publishItineraryCalendarFeed } from './calendarFeed';
+export { trackFlightStatus } from './flightStatus';
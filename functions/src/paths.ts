@@ -0,0 +1,20 @@
+/**
+ * Firestore locations, mirroring src/hooks/useFirebasePaths.ts. The app ID comes from the
+ * caller or the triggering document, so one deployment serves every app ID.
+ */
+import { getFirestore, type DocumentReference } from 'firebase-admin/firestore';
+
+// Document IDs the app generates - anything else could point outside the app's data
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidId(id: unknown): id is string {
+  return typeof id === 'string' && ID_PATTERN.test(id);
+}
+
+export function tripDoc(appId: string, tripId: string): DocumentReference {
+  return getFirestore().doc(`artifacts/${appId}/public/data/trips/${tripId}`);
+}
+
+export function joinCodeDoc(appId: string, code: string): DocumentReference {
+  return getFirestore().doc(`artifacts/${appId}/public/data/joinCodes/${code}`);
+}
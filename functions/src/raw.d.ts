@@ -0,0 +1,6 @@
+// Vite's ?raw imports in the shared app services (reference data). The functions never need
+// that data, so it isn't bundled; the shared code they use manages without it.
+declare module '*?raw' {
+  const content: string;
+  export default content;
+}
@@ -0,0 +1,74 @@
+/**
+ * Permanent trip deletion: on the owner's request, and for trips left in the trash
+ * past the retention period
+ */
+import { getFirestore, type DocumentReference } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { logger } from 'firebase-functions';
+import { HttpsError, onCall } from 'firebase-functions/https';
+import { onSchedule } from 'firebase-functions/scheduler';
+import { getCalendarFeedPath } from '../../src/services/calendar';
+import { TRASH_RETENTION_DAYS } from '../../src/services/trips';
+import type { Trip } from '../../src/types';
+import { isValidId, joinCodeDoc, tripDoc } from './paths';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Delete a trip with everything under it, its invite code and its published calendar feed.
+ * recursiveDelete removes the subcollections before the trip, so a failure part-way leaves
+ * the trip in place to retry. The feed goes last: deleting the itinerary fires the feed
+ * trigger, which may still have been publishing.
+ */
+async function deleteTripData(tripRef: DocumentReference, trip: Trip): Promise<void> {
+  if (trip.joinCode) {
+    // Trips sit at artifacts/{appId}/public/data/trips
+    const appId = tripRef.parent.parent!.parent.parent!.id;
+    await joinCodeDoc(appId, trip.joinCode).delete();
+  }
+  await getFirestore().recursiveDelete(tripRef);
+  if (trip.calendarFeedToken) {
+    await getStorage()
+      .bucket()
+      .file(getCalendarFeedPath(tripRef.id, trip.calendarFeedToken))
+      .delete({ ignoreNotFound: true });
+  }
+}
+
+/**
+ * Owner's "Delete forever" from the trash
+ */
+export const deleteTrip = onCall<{ appId: string; tripId: string }>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'Sign in to delete a trip');
+
+  const { appId, tripId } = request.data ?? {};
+  if (!isValidId(appId) || !isValidId(tripId)) throw new HttpsError('invalid-argument', 'Unknown trip');
+
+  const tripRef = tripDoc(appId, tripId);
+  const snapshot = await tripRef.get();
+  // Already gone - a retry after the delete went through
+  if (!snapshot.exists) return;
+
+  const trip = snapshot.data() as Trip;
+  if (trip.ownerId !== uid) throw new HttpsError('permission-denied', 'Only the owner can delete a trip');
+
+  await deleteTripData(tripRef, trip);
+});
+
+/**
+ * Daily purge of trips that have been in the trash for the retention period
+ */
+export const purgeTrash = onSchedule('every day 03:00', async () => {
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * MS_PER_DAY;
+  const snapshot = await getFirestore().collectionGroup('trips').where('deletedAt', '<=', cutoff).get();
+
+  // One trip failing shouldn't hold up the rest; it's picked up again tomorrow
+  for (const docSnap of snapshot.docs) {
+    try {
+      await deleteTripData(docSnap.ref, docSnap.data() as Trip);
+    } catch (err) {
+      logger.error(`Error purging trashed trip ${docSnap.ref.path}:`, err);
+    }
+  }
+});
@@ -0,0 +1,228 @@
+/**
+ * Refresh the bundled airport and airline dataset (src/data/*.dat).
+ *
+ * Airports come from OurAirports (current codes and coordinates), with time zones taken from
+ * OpenFlights - matched by ICAO code, or from the nearest OpenFlights airport otherwise.
+ * OpenFlights airports whose codes OurAirports doesn't have are added as they are.
+ * Airlines come from OpenFlights. Both are written in OpenFlights CSV format.
+ *
+ * Usage: npm run refresh:reference-data
+ */
+import { writeFile } from 'node:fs/promises';
+
+const SOURCES = {
+  ourAirports: 'https://davidmegginson.github.io/ourairports-data/airports.csv',
+  ourAirportsCountries: 'https://davidmegginson.github.io/ourairports-data/countries.csv',
+  openFlightsAirports: 'https://raw.githubusercontent.com/jpatokal/openflights/master/data/airports.dat',
+  openFlightsAirlines: 'https://raw.githubusercontent.com/jpatokal/openflights/master/data/airlines.dat',
+};
+
+const OUTPUT = {
+  airports: new URL('../src/data/airports.dat', import.meta.url),
+  airlines: new URL('../src/data/airlines.dat', import.meta.url),
+};
+
+// Airports without an IATA code are only kept if they're this big (ICAO-only airfields run to tens of thousands)
+const ICAO_ONLY_TYPES = new Set(['large_airport', 'medium_airport']);
+
+// Beyond this no OpenFlights airport is close enough to borrow its time zone from
+const MAX_ZONE_DISTANCE_KM = 800;
+
+async function download(url) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Download failed (${response.status}): ${url}`);
+  return response.text();
+}
+
+/**
+ * Parse CSV text into rows of fields (quoted fields may contain commas, quotes and newlines)
+ */
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value !== '')) rows.push(row);
+  return rows;
+}
+
+/**
+ * Rows of a CSV with a header line, as objects keyed by column name
+ */
+function parseCsvWithHeader(text) {
+  const [header, ...rows] = parseCsv(text);
+  return rows.map((row) => Object.fromEntries(header.map((name, index) => [name, row[index] ?? ''])));
+}
+
+function isMissing(value) {
+  return value === undefined || value === '' || value === '\\N' || value === '-';
+}
+
+function distanceKm(lat1, lng1, lat2, lng2) {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * One OpenFlights CSV line: strings quoted, numbers bare, missing values as \N
+ */
+function toOpenFlightsLine(values) {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined || value === '') return '\\N';
+      if (typeof value === 'number') return String(value);
+      return `"${String(value).replace(/"/g, '""')}"`;
+    })
+    .join(',');
+}
+
+async function main() {
+  console.log('Downloading...');
+  const [ourAirportsText, countriesText, openFlightsAirportsText, openFlightsAirlinesText] = await Promise.all([
+    download(SOURCES.ourAirports),
+    download(SOURCES.ourAirportsCountries),
+    download(SOURCES.openFlightsAirports),
+    download(SOURCES.openFlightsAirlines),
+  ]);
+
+  const countryNames = new Map(parseCsvWithHeader(countriesText).map((country) => [country.code, country.name]));
+
+  // OpenFlights airports that have a time zone: [id, name, city, country, iata, icao, lat, lng, alt, offset, dst, tz, ...]
+  const openFlightsAirports = parseCsv(openFlightsAirportsText).filter((row) => !isMissing(row[11]));
+  const zoned = openFlightsAirports.map((row) => ({ icao: row[5], lat: Number(row[6]), lng: Number(row[7]), tz: row[11] }));
+  const zoneByIcao = new Map(zoned.filter((airport) => !isMissing(airport.icao)).map((airport) => [airport.icao, airport.tz]));
+
+  const findZone = (icao, lat, lng) => {
+    if (zoneByIcao.has(icao)) return zoneByIcao.get(icao);
+    let nearest = null;
+    for (const airport of zoned) {
+      const distance = distanceKm(lat, lng, airport.lat, airport.lng);
+      if (!nearest || distance < nearest.distance) nearest = { tz: airport.tz, distance };
+    }
+    return nearest && nearest.distance <= MAX_ZONE_DISTANCE_KM ? nearest.tz : null;
+  };
+
+  const airportLines = [];
+  const codes = new Set();
+  let withoutZone = 0;
+  for (const airport of parseCsvWithHeader(ourAirportsText)) {
+    if (airport.type === 'closed') continue;
+    const iata = isMissing(airport.iata_code) ? '' : airport.iata_code.toUpperCase();
+    const icaoCandidate = (airport.icao_code || airport.gps_code || airport.ident || '').toUpperCase();
+    const icao = /^[A-Z]{4}$/.test(icaoCandidate) ? icaoCandidate : '';
+    if (!iata && !(icao && ICAO_ONLY_TYPES.has(airport.type))) continue;
+
+    const lat = Number(airport.latitude_deg);
+    const lng = Number(airport.longitude_deg);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+
+    const tz = findZone(icao, lat, lng);
+    if (!tz) {
+      withoutZone++;
+      continue;
+    }
+
+    if (iata) codes.add(iata);
+    if (icao) codes.add(icao);
+    airportLines.push(toOpenFlightsLine([
+      Number(airport.id),
+      airport.name,
+      airport.municipality,
+      countryNames.get(airport.iso_country) || airport.iso_country,
+      iata,
+      icao,
+      lat,
+      lng,
+      Number(airport.elevation_ft) || null,
+      null,
+      null,
+      tz,
+      'airport',
+      'OurAirports',
+    ]));
+  }
+
+  let fromOpenFlights = 0;
+  for (const row of openFlightsAirports) {
+    const iata = /^[A-Z]{3}$/.test(row[4]) ? row[4] : '';
+    const icao = /^[A-Z]{4}$/.test(row[5]) ? row[5] : '';
+    if (!iata || codes.has(iata) || (icao && codes.has(icao))) continue;
+    codes.add(iata);
+    fromOpenFlights++;
+    airportLines.push(toOpenFlightsLine([
+      Number(row[0]),
+      row[1],
+      isMissing(row[2]) ? null : row[2],
+      isMissing(row[3]) ? null : row[3],
+      iata,
+      icao,
+      Number(row[6]),
+      Number(row[7]),
+      Number(row[8]) || null,
+      null,
+      null,
+      row[11],
+      'airport',
+      'OpenFlights',
+    ]));
+  }
+
+  // OpenFlights airlines: [id, name, alias, iata, icao, callsign, country, active].
+  // Codes are checked because the file uses placeholders like "N/A" and "-" for missing ones.
+  const airlineLines = parseCsv(openFlightsAirlinesText).flatMap((row) => {
+    const iata = /^[A-Z0-9]{2}$/.test(row[3]) ? row[3] : null;
+    const icao = /^[A-Z]{3}$/.test(row[4]) ? row[4] : null;
+    if (row[7] !== 'Y' || (!iata && !icao)) return [];
+    return [toOpenFlightsLine([
+      Number(row[0]),
+      row[1],
+      isMissing(row[2]) ? null : row[2],
+      iata,
+      icao,
+      isMissing(row[5]) ? null : row[5],
+      isMissing(row[6]) ? null : row[6],
+      'Y',
+    ])];
+  });
+
+  await writeFile(OUTPUT.airports, `${airportLines.join('\n')}\n`);
+  await writeFile(OUTPUT.airlines, `${airlineLines.join('\n')}\n`);
+  console.log(`Wrote ${airportLines.length} airports (${fromOpenFlights} only in OpenFlights, ${withoutZone} skipped without a time zone)`);
+  console.log(`Wrote ${airlineLines.length} airlines`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -5,28 +5,23 @@ import { Plane } from 'lucide-react';
 
 import { Dashboard } from './pages/Dashboard';
 import { TripView } from './pages/TripView';
-import {
-  auth,
-  signInAnonymously,
-  onAuthStateChanged,
-  db,
-  appId,
-  doc,
-  updateDoc,
-  onSnapshot
-} from './config/firebase';
+import { SignIn } from './pages/SignIn';
+import { FailedWritesBanner } from './components/FailedWritesBanner';
+import { useAuth, useJoinTrip } from './hooks';
+import { parseJoinCode } from './services/invites';
 
 // App version - update this with each deployment
 const APP_VERSION = '1.4.0';
 
 // Wrapper component for Dashboard with navigation
-function DashboardRoute({ user }: { user: User }) {
+function DashboardRoute({ user, onAccountChanged }: { user: User; onAccountChanged: () => void }) {
   const navigate = useNavigate();
 
   return (
     <Dashboard
       user={user}
       onOpenTrip={(tripId) => navigate(`/trip/${tripId}`)}
+      onAccountChanged={onAccountChanged}
     />
   );
 }
@@ -50,54 +45,45 @@ function TripViewRoute({ user }: { user: User }) {
   );
 }
 
-// Wrapper component for joining a trip via shareable link
+// Wrapper component for joining a trip via an invite link
 function JoinTripRoute({ user }: { user: User }) {
-  const { tripId } = useParams<{ tripId: string }>();
+  const { code } = useParams<{ code: string }>();
   const navigate = useNavigate();
-  const [status, setStatus] = useState<'joining' | 'success' | 'error'>('joining');
+  const { joinTrip } = useJoinTrip(user.uid);
+  const [status, setStatus] = useState<'joining' | 'success' | 'pending' | 'error'>('joining');
+  const [errorMessage, setErrorMessage] = useState('');
 
   useEffect(() => {
-    if (!tripId) {
+    if (!code) {
       navigate('/');
       return;
     }
 
-    const tripRef = doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId);
-    
-    const unsub = onSnapshot(
-      tripRef,
-      async (docSnap) => {
-        if (docSnap.exists()) {
-          const data = docSnap.data();
-          const members = data.members || [];
-          
-          if (!members.includes(user.uid)) {
-            try {
-              await updateDoc(tripRef, {
-                members: [...members, user.uid]
-              });
-            } catch (error) {
-              console.error('Error joining trip:', error);
-            }
-          }
-          
-          setStatus('success');
-          // Navigate to the trip after a brief moment
-          setTimeout(() => navigate(`/trip/${tripId}`), 500);
-        } else {
-          setStatus('error');
+    let cancelled = false;
+    let redirectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    joinTrip(parseJoinCode(code))
+      .then((result) => {
+        if (cancelled) return;
+        if (result.status === 'pending') {
+          setStatus('pending');
+          return;
         }
-        unsub();
-      },
-      (error) => {
-        console.error('Error fetching trip:', error);
+        setStatus('success');
+        // Navigate to the trip after a brief moment
+        redirectTimer = setTimeout(() => navigate(`/trip/${result.tripId}`), 500);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setErrorMessage(error instanceof Error ? error.message : 'This link may be invalid or expired.');
         setStatus('error');
-        unsub();
-      }
-    );
+      });
 
-    return () => unsub();
-  }, [tripId, user.uid, navigate]);
+    return () => {
+      cancelled = true;
+      clearTimeout(redirectTimer);
+    };
+  }, [code, joinTrip, navigate]);
 
   if (status === 'joining') {
     return (
@@ -110,14 +96,20 @@ function JoinTripRoute({ user }: { user: User }) {
     );
   }
 
-  if (status === 'error') {
+  if (status === 'error' || status === 'pending') {
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-slate-50 text-slate-600">
-        <div className="text-red-500 mb-4">
+        <div className={`${status === 'error' ? 'text-red-500' : 'text-amber-500'} mb-4`}>
           <Plane className="w-8 h-8" />
         </div>
-        <p className="text-lg font-medium mb-2">Trip not found</p>
-        <p className="text-sm text-slate-400 mb-4">This link may be invalid or the trip may have been deleted.</p>
+        <p className="text-lg font-medium mb-2">
+          {status === 'error' ? "Couldn't join trip" : 'Request sent'}
+        </p>
+        <p className="text-sm text-slate-400 mb-4 text-center max-w-sm px-4">
+          {status === 'error'
+            ? errorMessage
+            : 'The organizer needs to approve your request. The trip will appear on your dashboard once approved.'}
+        </p>
         <button
           onClick={() => navigate('/')}
           className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
@@ -140,27 +132,9 @@ function JoinTripRoute({ user }: { user: User }) {
 
 // Main App with auth handling
 function AppContent() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const initAuth = async () => {
-      try {
-        await signInAnonymously(auth);
-      } catch (error) {
-        console.error('Auth failed:', error);
-      }
-    };
-    initAuth();
+  const { user, isLoading, refreshUser } = useAuth();
 
-    const unsubscribe = onAuthStateChanged(auth, (u) => {
-      setUser(u);
-      setLoading(false);
-    });
-    return () => unsubscribe();
-  }, []);
-
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen bg-slate-50 text-slate-400">
         <div className="animate-spin mr-2">
@@ -171,21 +145,20 @@ function AppContent() {
     );
   }
 
+  // Signed out - the requested route (e.g. an invite link) resumes after signing in
   if (!user) {
-    return (
-      <div className="p-4 text-center">
-        Authentication Error. Please refresh.
-      </div>
-    );
+    return <SignIn onSignedIn={refreshUser} />;
   }
 
   return (
     <div className="min-h-screen bg-slate-100 font-sans text-slate-800">
       <Routes>
-        <Route path="/" element={<DashboardRoute user={user} />} />
+        <Route path="/" element={<DashboardRoute user={user} onAccountChanged={refreshUser} />} />
         <Route path="/trip/:id" element={<TripViewRoute user={user} />} />
-        <Route path="/join/:tripId" element={<JoinTripRoute user={user} />} />
+        <Route path="/join/:code" element={<JoinTripRoute user={user} />} />
       </Routes>
+
+      <FailedWritesBanner />
       
       {/* Version indicator */}
       <div className="fixed bottom-2 left-2 text-xs text-slate-400 bg-white/80 px-2 py-1 rounded shadow-sm">
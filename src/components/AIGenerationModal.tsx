@@ -89,6 +89,7 @@ export const AIGenerationModal = memo(function AIGenerationModal({
         day: item.day,
         endDay: item.endDay, // For multi-day lodging (check-out date)
         time: item.time,
+        endTime: item.endTime,
         location: item.location,
         category: item.category,
         type: item.type,
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { X, LogOut, Mail, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+
+import { useUserProfile } from '../hooks';
+import {
+  getAccountLabel,
+  getAuthErrorMessage,
+  linkGuestWithEmail,
+  linkGuestWithGoogle,
+  signOutUser
+} from '../services/auth';
+import { MemberAvatar } from './MemberAvatar';
+
+interface AccountModalProps {
+  user: User;
+  onClose: () => void;
+  onAccountChanged: () => void;
+}
+
+/**
+ * Account modal - edit the profile, upgrade a guest to a permanent account, sign out
+ */
+export function AccountModal({ user, onClose, onAccountChanged }: AccountModalProps) {
+  const { profile, isLoading, saveProfile } = useUserProfile(user.uid);
+
+  // Profile fields start from the loaded profile until edited
+  const [displayName, setDisplayName] = useState<string | null>(null);
+  const [photoURL, setPhotoURL] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const nameValue = displayName ?? profile?.displayName ?? '';
+  const photoValue = photoURL ?? profile?.photoURL ?? '';
+  const hasProfileChanges =
+    nameValue.trim() !== (profile?.displayName || '') || photoValue.trim() !== (profile?.photoURL || '');
+
+  const runAction = async (key: string, action: () => Promise<unknown>, successMessage?: string) => {
+    setError('');
+    setMessage('');
+    setBusyAction(key);
+    try {
+      await action();
+      if (successMessage) setMessage(successMessage);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof FirebaseError || !(err instanceof Error) ? getAuthErrorMessage(err) : err.message);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSaveProfile = () => {
+    if (!nameValue.trim()) {
+      setError('Please enter a display name');
+      return;
+    }
+    runAction('profile', async () => {
+      await saveProfile({ displayName: nameValue.trim(), photoURL: photoValue.trim() });
+      setDisplayName(null);
+      setPhotoURL(null);
+    }, 'Profile saved.');
+  };
+
+  const handleLinkGoogle = () => {
+    runAction('google', async () => {
+      await linkGuestWithGoogle(user);
+      onAccountChanged();
+    }, 'Account created. Your trips are now saved to your Google account.');
+  };
+
+  const handleLinkEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction('email', async () => {
+      await linkGuestWithEmail(user, email, password);
+      setPassword('');
+      onAccountChanged();
+    }, 'Account created. Sign in with this email on any device to see your trips.');
+  };
+
+  const handleSignOut = () => {
+    const warning = user.isAnonymous
+      ? 'You are signed in as a guest. Signing out will lose access to all your trips unless you create an account first. Sign out anyway?'
+      : 'Sign out of TravelSync?';
+    if (!confirm(warning)) return;
+    runAction('sign-out', signOutUser);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800">Account</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="p-3 bg-green-50 border border-green-200 text-green-700 rounded-lg text-sm">
+              {message}
+            </div>
+          )}
+
+          {/* Profile */}
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-3">Profile</h3>
+            {isLoading ? (
+              <div className="flex items-center text-sm text-slate-400">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Loading profile...
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center space-x-4 mb-3">
+                  <MemberAvatar name={nameValue || 'You'} photoURL={photoValue} size="lg" />
+                  <div className="flex-1 space-y-2">
+                    <input
+                      className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                      placeholder="Display name"
+                      value={nameValue}
+                      onChange={(e) => setDisplayName(e.target.value)}
+                      maxLength={50}
+                      disabled={!!busyAction}
+                    />
+                    <input
+                      className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                      placeholder="Avatar image URL (optional)"
+                      value={photoValue}
+                      onChange={(e) => setPhotoURL(e.target.value)}
+                      disabled={!!busyAction}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mb-3">Trip members see this name and picture.</p>
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleSaveProfile}
+                    disabled={!!busyAction || !hasProfileChanges}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm flex items-center"
+                  >
+                    {busyAction === 'profile' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Profile
+                  </button>
+                </div>
+              </>
+            )}
+          </section>
+
+          {/* Sign-in method */}
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-3">Sign-in</h3>
+            {user.isAnonymous ? (
+              <div className="space-y-3">
+                <div className="flex items-start p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <ShieldAlert className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+                  <span>
+                    You're using a guest account. Your trips are only saved in this browser.
+                    Create an account to keep them and use them on other devices.
+                  </span>
+                </div>
+                <button
+                  onClick={handleLinkGoogle}
+                  disabled={!!busyAction}
+                  className="w-full flex items-center justify-center px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 text-sm font-medium text-slate-700 disabled:opacity-50"
+                >
+                  {busyAction === 'google' ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <span className="w-4 h-4 mr-2 font-bold text-indigo-600 leading-4">G</span>
+                  )}
+                  Continue with Google
+                </button>
+                <form onSubmit={handleLinkEmail} className="space-y-2">
+                  <input
+                    type="email"
+                    className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                    placeholder="Email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    autoComplete="email"
+                    disabled={!!busyAction}
+                  />
+                  <input
+                    type="password"
+                    className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                    placeholder="Password (at least 6 characters)"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                    disabled={!!busyAction}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!!busyAction || !email || !password}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                  >
+                    {busyAction === 'email' ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Mail className="w-4 h-4 mr-2" />
+                    )}
+                    Create account with email
+                  </button>
+                </form>
+              </div>
+            ) : (
+              <div className="flex items-center p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700">
+                <ShieldCheck className="w-4 h-4 mr-2 text-green-600 shrink-0" />
+                <span className="truncate">Signed in as {getAccountLabel(user)}</span>
+              </div>
+            )}
+          </section>
+
+          {/* Sign out */}
+          <section className="pt-4 border-t border-slate-200">
+            <button
+              onClick={handleSignOut}
+              disabled={!!busyAction}
+              className="flex items-center px-4 py-2 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+            >
+              <LogOut className="w-4 h-4 mr-2" /> Sign out
+            </button>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { memo, useState, useMemo } from 'react';
+import { X, Check } from 'lucide-react';
+import type { Expense, ExpenseSplitType } from '../types';
+import { validateExpenseSplit } from '../services/expenses';
+
+// Expense category options
+const EXPENSE_CATEGORIES = [
+  { value: 'food', label: 'Food & Drink' },
+  { value: 'lodging', label: 'Lodging' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'activities', label: 'Activities' },
+  { value: 'shopping', label: 'Shopping' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+const SPLIT_TYPES: Array<{ value: ExpenseSplitType; label: string }> = [
+  { value: 'equal', label: 'Equally' },
+  { value: 'percentage', label: 'By %' },
+  { value: 'exact', label: 'Exact' },
+];
+
+interface AddEditExpenseModalProps {
+  expense: Expense | null;
+  members: string[];
+  currentUserId: string;
+  defaultDate?: string;
+  getMemberName: (uid: string) => string;
+  onClose: () => void;
+  onSave: (data: Partial<Expense>) => Promise<void>;
+}
+
+/**
+ * Modal for recording a shared expense: who paid, and how the cost is split.
+ * Mount it fresh for each expense (form state is initialized once from props).
+ */
+export const AddEditExpenseModal = memo(function AddEditExpenseModal({
+  expense,
+  members,
+  currentUserId,
+  defaultDate,
+  getMemberName,
+  onClose,
+  onSave,
+}: AddEditExpenseModalProps) {
+  const [description, setDescription] = useState(expense?.description || '');
+  const [amount, setAmount] = useState(expense ? expense.amount.toString() : '');
+  const [date, setDate] = useState(expense?.date || defaultDate || '');
+  const [category, setCategory] = useState(expense?.category || 'food');
+  const [payer, setPayer] = useState(expense?.payer || currentUserId);
+  const [splitType, setSplitType] = useState<ExpenseSplitType>(expense?.splitType || 'equal');
+  const [participants, setParticipants] = useState<string[]>(
+    expense?.participants?.length ? expense.participants : members
+  );
+  // Split values are kept as strings while editing
+  const [splitValues, setSplitValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(expense?.splits || {}).map(([uid, value]) => [uid, value.toString()])
+    )
+  );
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Members of the ledger - includes former members still referenced by this expense
+  const ledgerMembers = useMemo(() => {
+    const all = new Set(members);
+    if (expense) {
+      all.add(expense.payer);
+      expense.participants?.forEach((uid) => all.add(uid));
+    }
+    return Array.from(all);
+  }, [members, expense]);
+
+  const toggleParticipant = (uid: string) => {
+    setParticipants((prev) =>
+      prev.includes(uid) ? prev.filter((p) => p !== uid) : [...prev, uid]
+    );
+  };
+
+  // Build the expense data from the form
+  const buildExpenseData = (): Partial<Expense> => {
+    const data: Partial<Expense> = {
+      description: description.trim(),
+      amount: parseFloat(amount) || 0,
+      date,
+      category,
+      payer,
+      splitType,
+      participants,
+    };
+
+    if (splitType !== 'equal') {
+      data.splits = Object.fromEntries(
+        participants.map((uid) => [uid, parseFloat(splitValues[uid] || '0') || 0])
+      );
+    } else {
+      data.splits = {};
+    }
+
+    return data;
+  };
+
+  const handleSave = async () => {
+    if (!description.trim()) {
+      setError('Please enter a description');
+      return;
+    }
+
+    const data = buildExpenseData();
+    const splitError = validateExpenseSplit(data);
+    if (splitError) {
+      setError(splitError);
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+    try {
+      await onSave(data);
+      onClose();
+    } catch (err) {
+      console.error('Error saving expense:', err);
+      setError('Failed to save expense. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">
+            {expense ? 'Edit Expense' : 'Add Expense'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Description */}
+        <div className="mb-3">
+          <label className="text-xs text-slate-500 mb-1 block">Description *</label>
+          <input
+            type="text"
+            className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+            placeholder="e.g., Dinner at Le Marais"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        {/* Amount & Date */}
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="text-xs text-slate-500 mb-1 block">Amount *</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-slate-500 mb-1 block">Date</label>
+            <input
+              type="date"
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Category & Payer */}
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="text-xs text-slate-500 mb-1 block">Category</label>
+            <select
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+            >
+              {EXPENSE_CATEGORIES.map((cat) => (
+                <option key={cat.value} value={cat.value}>
+                  {cat.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-slate-500 mb-1 block">Paid by</label>
+            <select
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+              value={payer}
+              onChange={(e) => setPayer(e.target.value)}
+            >
+              {ledgerMembers.map((uid) => (
+                <option key={uid} value={uid}>
+                  {getMemberName(uid)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Split */}
+        <div className="mb-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-slate-700">Split</label>
+            <div className="flex bg-slate-100 rounded-lg p-1">
+              {SPLIT_TYPES.map((type) => (
+                <button
+                  key={type.value}
+                  onClick={() => setSplitType(type.value)}
+                  className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                    splitType === type.value
+                      ? 'bg-white text-indigo-600 shadow-sm'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {ledgerMembers.map((uid) => {
+              const isIncluded = participants.includes(uid);
+              return (
+                <div key={uid} className="flex items-center space-x-2">
+                  <button
+                    onClick={() => toggleParticipant(uid)}
+                    className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all shrink-0 ${
+                      isIncluded
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'border-slate-300 hover:border-slate-400'
+                    }`}
+                  >
+                    {isIncluded && <Check className="w-3 h-3" />}
+                  </button>
+                  <span className={`flex-1 text-sm truncate ${isIncluded ? 'text-slate-700' : 'text-slate-400'}`}>
+                    {getMemberName(uid)}
+                  </span>
+                  {splitType !== 'equal' && isIncluded && (
+                    <div className="flex items-center">
+                      <input
+                        type="number"
+                        step={splitType === 'percentage' ? '1' : '0.01'}
+                        min="0"
+                        className="w-24 p-1.5 border border-slate-300 rounded-lg text-sm text-right"
+                        placeholder={splitType === 'percentage' ? '0' : '0.00'}
+                        value={splitValues[uid] || ''}
+                        onChange={(e) => setSplitValues((prev) => ({ ...prev, [uid]: e.target.value }))}
+                      />
+                      <span className="ml-1 text-xs text-slate-400 w-3">
+                        {splitType === 'percentage' ? '%' : ''}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg"
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : expense ? 'Save Changes' : 'Add Expense'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -10,6 +10,11 @@ import {
   AlertCircle
 } from 'lucide-react';
 import type { ItineraryFormState } from '../hooks';
+import { shiftDate } from '../services/trips';
+import { addMinutesToTime, formatDuration, getDurationMinutes } from '../services/timezones';
+
+// Quick picks for how long an activity takes, in minutes
+const DURATION_PRESETS = [30, 60, 90, 120, 180];
 
 // Category options
 const CATEGORIES = [
@@ -161,6 +166,55 @@ export const AddEditItemModal = memo(function AddEditItemModal({
           )}
         </div>
 
+        {/* End time - activities only (lodging has check-out, flights an arrival) */}
+        {form.type === 'activity' && !isLodging && (
+          <div className="mb-3">
+            <label className="text-xs text-slate-500 mb-1 block">End Time (optional)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                className="w-32 p-2 border border-slate-300 rounded-lg text-sm"
+                value={form.endTime}
+                onChange={(e) => onSetField('endTime', e.target.value)}
+              />
+              {form.time && (
+                <div className="flex flex-wrap gap-1">
+                  {DURATION_PRESETS.map((minutes) => (
+                    <button
+                      key={minutes}
+                      type="button"
+                      onClick={() => onSetField('endTime', addMinutesToTime(form.time, minutes))}
+                      className={`px-2 py-1 rounded-md text-xs ${
+                        form.endTime && getDurationMinutes(form.time, form.endTime) === minutes
+                          ? 'bg-indigo-100 text-indigo-700'
+                          : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      {formatDuration(minutes)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {form.time && form.endTime && (
+              <p className="text-xs text-slate-400 mt-1">
+                Takes {formatDuration(getDurationMinutes(form.time, form.endTime))}
+                {form.endTime < form.time && ' (ends after midnight)'}
+              </p>
+            )}
+            {form.time && (
+              <label className="flex items-center space-x-2 mt-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.fixedTime}
+                  onChange={(e) => onSetField('fixedTime', e.target.checked)}
+                />
+                <span>Booked for this time (e.g., a reservation) - optimizing the route won't move it</span>
+              </label>
+            )}
+          </div>
+        )}
+
         {/* Location - only for non-flight items */}
         {form.type !== 'flight' && (
           <div className="mb-3">
@@ -379,6 +433,17 @@ export const AddEditItemModal = memo(function AddEditItemModal({
                   />
                 </div>
               </div>
+              <div className="mt-3">
+                <label className="text-xs text-slate-500 mb-1 block">Arrival Date (overnight flights)</label>
+                <input
+                  type="date"
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                  value={form.arrivalDay}
+                  min={form.day ? shiftDate(form.day, -1) : undefined}
+                  onChange={(e) => onSetField('arrivalDay', e.target.value)}
+                />
+                <p className="text-xs text-slate-400 mt-1">Leave empty to work it out from the times.</p>
+              </div>
             </div>
 
             {/* Flight Summary Card */}
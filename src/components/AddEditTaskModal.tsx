@@ -0,0 +1,161 @@
+import { memo, useState } from 'react';
+import { X } from 'lucide-react';
+import type { Task, ItineraryItem } from '../types';
+
+interface AddEditTaskModalProps {
+  task: Task | null;
+  members: string[];
+  items: ItineraryItem[];
+  getMemberName: (uid: string) => string;
+  formatDate: (dateStr: string) => string;
+  onClose: () => void;
+  onSave: (data: Partial<Task>) => Promise<void>;
+}
+
+/**
+ * Modal for adding or editing a checklist task.
+ * Mount it fresh for each task (form state is initialized once from props).
+ */
+export const AddEditTaskModal = memo(function AddEditTaskModal({
+  task,
+  members,
+  items,
+  getMemberName,
+  formatDate,
+  onClose,
+  onSave,
+}: AddEditTaskModalProps) {
+  const [text, setText] = useState(task?.text || '');
+  const [assignee, setAssignee] = useState(task?.assignee || '');
+  const [dueDate, setDueDate] = useState(task?.dueDate || '');
+  const [itemId, setItemId] = useState(task?.itemId || '');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!text.trim()) {
+      setError('Please describe the task');
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+    try {
+      // Empty strings clear the optional fields
+      await onSave({
+        text: text.trim(),
+        assignee,
+        dueDate,
+        itemId,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving task:', err);
+      setError('Failed to save task. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">
+            {task ? 'Edit Task' : 'Add Task'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Task */}
+        <div className="mb-3">
+          <label className="text-xs text-slate-500 mb-1 block">Task *</label>
+          <input
+            type="text"
+            className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+            placeholder="e.g., Apply for Japan visa"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+        </div>
+
+        {/* Assignee & Due date */}
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="text-xs text-slate-500 mb-1 block">Assignee</label>
+            <select
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+            >
+              <option value="">Unassigned</option>
+              {members.map((uid) => (
+                <option key={uid} value={uid}>
+                  {getMemberName(uid)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-slate-500 mb-1 block">Due Date</label>
+            <input
+              type="date"
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Linked itinerary item */}
+        <div className="mb-4">
+          <label className="text-xs text-slate-500 mb-1 block">Related Itinerary Item</label>
+          <select
+            className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+            value={itemId}
+            onChange={(e) => setItemId(e.target.value)}
+          >
+            <option value="">None</option>
+            {items.map((item) => (
+              <option key={item.id} value={item.id}>
+                {formatDate(item.day)} - {item.type === 'flight'
+                  ? `${item.airline || ''} ${item.flightNumber || item.location}`.trim()
+                  : item.location}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg"
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : task ? 'Save Changes' : 'Add Task'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { X, Download, Link2, CalendarPlus, Loader2, Ban } from 'lucide-react';
+
+import type { Trip } from '../types';
+import { useCalendarFeed } from '../hooks';
+import { isTripOwner } from '../services/permissions';
+
+interface CalendarExportModalProps {
+  trip: Trip;
+  currentUserId: string;
+  onClose: () => void;
+}
+
+/**
+ * Calendar export modal - download the itinerary as an .ics file, or subscribe to it
+ */
+export function CalendarExportModal({ trip, currentUserId, onClose }: CalendarExportModalProps) {
+  const { feedUrl, subscribeUrl, downloadCalendar, enableFeed, disableFeed } = useCalendarFeed(trip);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const isOwner = isTripOwner(trip, currentUserId);
+
+  const runAction = async (key: string, action: () => Promise<unknown>) => {
+    setError('');
+    setBusyAction(key);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const copyFeedUrl = (url: string) => {
+    navigator.clipboard
+      .writeText(url)
+      .then(() => alert('Calendar link copied to clipboard!'))
+      .catch(() => alert(`Subscribe to this link: ${url}`));
+  };
+
+  const handleDisable = () => {
+    if (!confirm('Turn off the calendar subscription? Calendars subscribed to it will stop updating.')) return;
+    runAction('disable', disableFeed);
+  };
+
+  const handleReset = () => {
+    if (!confirm('Create a new link? Calendars subscribed to the current link will stop updating.')) return;
+    runAction('reset', async () => {
+      await disableFeed();
+      await enableFeed();
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800">Add to Calendar</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* One-off download */}
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Download</h3>
+            <p className="text-xs text-slate-500 mb-3">
+              A snapshot of the itinerary to import into any calendar app. Later changes won't appear.
+            </p>
+            <button
+              onClick={() => runAction('download', downloadCalendar)}
+              disabled={!!busyAction}
+              className="flex items-center px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 text-sm text-slate-700 disabled:opacity-50"
+            >
+              {busyAction === 'download' ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              Download .ics file
+            </button>
+          </section>
+
+          {/* Subscription */}
+          <section className="pt-4 border-t border-slate-200">
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Subscribe</h3>
+            <p className="text-xs text-slate-500 mb-3">
+              Your calendar app checks this link for changes. It updates shortly after the itinerary does.
+            </p>
+
+            {feedUrl && subscribeUrl ? (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    readOnly
+                    value={feedUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 p-2 border border-slate-300 rounded-lg text-xs text-slate-600 bg-slate-50"
+                  />
+                  <button
+                    onClick={() => copyFeedUrl(feedUrl)}
+                    className="flex items-center text-xs text-indigo-600 hover:text-indigo-700 font-medium shrink-0"
+                  >
+                    <Link2 className="w-3.5 h-3.5 mr-1" /> Copy
+                  </button>
+                </div>
+                <a
+                  href={subscribeUrl}
+                  className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+                >
+                  <CalendarPlus className="w-4 h-4 mr-2" /> Subscribe in calendar app
+                </a>
+                <p className="text-xs text-amber-700">
+                  Anyone with this link can see the itinerary.
+                </p>
+                {isOwner && (
+                  <div className="flex items-center space-x-4">
+                    <button
+                      onClick={handleReset}
+                      disabled={!!busyAction}
+                      className="text-xs text-indigo-600 hover:text-indigo-700 font-medium disabled:opacity-50"
+                    >
+                      {busyAction === 'reset' ? 'Creating...' : 'Create new link'}
+                    </button>
+                    <button
+                      onClick={handleDisable}
+                      disabled={!!busyAction}
+                      className="flex items-center text-xs text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                    >
+                      <Ban className="w-3.5 h-3.5 mr-1" /> Turn off
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : isOwner ? (
+              <button
+                onClick={() => runAction('enable', enableFeed)}
+                disabled={!!busyAction}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm disabled:opacity-50"
+              >
+                {busyAction === 'enable' ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                )}
+                Turn on calendar subscription
+              </button>
+            ) : (
+              <p className="text-sm text-slate-500">The trip owner can turn on a calendar subscription link.</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
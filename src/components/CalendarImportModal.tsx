@@ -0,0 +1,222 @@
+import { memo, useState, useCallback, useRef } from 'react';
+import { X, CalendarDays, Upload, Plane, Loader2, AlertTriangle } from 'lucide-react';
+import type { Trip, ItineraryItem, CalendarImportDraft } from '../types';
+import { parseCalendarFile } from '../services/calendarImport';
+
+interface CalendarImportModalProps {
+  isOpen: boolean;
+  trip: Trip;
+  existingItems: ItineraryItem[];
+  onClose: () => void;
+  onAddItems: (items: Partial<ItineraryItem>[]) => Promise<void>;
+  formatDate: (dateStr: string) => string;
+}
+
+/**
+ * Import bookings from .ics files: preview the events, pick which ones to add
+ */
+export const CalendarImportModal = memo(function CalendarImportModal({
+  isOpen,
+  trip,
+  existingItems,
+  onClose,
+  onAddItems,
+  formatDate,
+}: CalendarImportModalProps) {
+  const [drafts, setDrafts] = useState<CalendarImportDraft[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Events outside the trip dates are shown but not selected by default
+  const isOutsideTrip = useCallback((item: Partial<ItineraryItem>) => {
+    const day = item.day || '';
+    return (!!trip.startDate && day < trip.startDate) || (!!trip.endDate && day > trip.endDate);
+  }, [trip.startDate, trip.endDate]);
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const parsed = await parseCalendarFile(event.target?.result as string, existingItems);
+        setFileName(file.name);
+        setDrafts(parsed);
+        setSelected(new Set(
+          parsed.filter((draft) => !draft.isDuplicate && !isOutsideTrip(draft.item)).map((draft) => draft.key)
+        ));
+        setError(parsed.length === 0 ? 'No events found in this file.' : '');
+      } catch (err) {
+        console.error('Error reading calendar file:', err);
+        setError('Could not read this file.');
+      }
+    };
+    reader.onerror = () => setError('Could not read this file.');
+    reader.readAsText(file);
+    e.target.value = '';
+  }, [existingItems, isOutsideTrip]);
+
+  const toggleDraft = useCallback((key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const handleClose = useCallback(() => {
+    setDrafts([]);
+    setSelected(new Set());
+    setFileName('');
+    setError('');
+    onClose();
+  }, [onClose]);
+
+  const handleAddItems = useCallback(async () => {
+    setIsSubmitting(true);
+    try {
+      await onAddItems(drafts.filter((draft) => selected.has(draft.key)).map((draft) => draft.item));
+      handleClose();
+    } catch (err) {
+      console.error('Error adding items:', err);
+      setError('Failed to add items. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [drafts, selected, onAddItems, handleClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl p-6 w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center space-x-2">
+            <div className="p-2 bg-indigo-600 rounded-lg">
+              <CalendarDays className="w-5 h-5 text-white" />
+            </div>
+            <h2 className="text-xl font-bold">Import from Calendar</h2>
+          </div>
+          <button onClick={handleClose} className="p-1 hover:bg-slate-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".ics,text/calendar"
+          onChange={handleFileChange}
+        />
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {drafts.length === 0 ? (
+          <>
+            <p className="text-sm text-slate-500 mb-4">
+              Choose a calendar file (.ics) from a hotel, train, flight or restaurant confirmation.
+              You can review the events before anything is added.
+            </p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-8 border-2 border-dashed border-slate-300 rounded-lg text-slate-500 hover:border-indigo-400 hover:text-indigo-600 flex flex-col items-center transition-colors"
+            >
+              <Upload className="w-6 h-6 mb-2" />
+              <span className="text-sm font-medium">Choose .ics file</span>
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-3 text-sm">
+              <span className="text-slate-600 truncate">
+                {drafts.length} event{drafts.length !== 1 ? 's' : ''} in <strong>{fileName}</strong>
+              </span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-xs text-indigo-600 hover:text-indigo-700 font-medium shrink-0 ml-2"
+              >
+                Choose another file
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-2 pr-2 mb-4">
+              {drafts.map(({ key, item, isDuplicate }) => {
+                const outside = isOutsideTrip(item);
+                return (
+                  <label
+                    key={key}
+                    className={`flex items-start p-3 rounded-lg border cursor-pointer transition-colors ${
+                      selected.has(key) ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-200'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={selected.has(key)}
+                      onChange={() => toggleDraft(key)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-slate-800 text-sm truncate flex items-center">
+                          {item.type === 'flight' && <Plane className="w-3.5 h-3.5 mr-1 text-sky-600 shrink-0" />}
+                          {item.type === 'flight' && item.flightNumber
+                            ? `${item.flightNumber} ${item.location}${item.arrivalLocation ? ` → ${item.arrivalLocation}` : ''}`
+                            : item.location}
+                        </span>
+                        <span className="text-xs text-slate-500 shrink-0 ml-2">
+                          {item.time}
+                          {item.arrivalTime && ` - ${item.arrivalTime}`}
+                        </span>
+                      </div>
+                      <div className="text-xs text-indigo-600 mt-1">
+                        {formatDate(item.day || '')}
+                        {item.endDay && ` → ${formatDate(item.endDay)}`}
+                        {' • '}
+                        {item.type === 'flight' ? 'flight' : item.category}
+                      </div>
+                      {(isDuplicate || outside) && (
+                        <p className="text-xs text-amber-700 mt-1 flex items-center">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {isDuplicate ? 'Already in the itinerary' : 'Outside the trip dates'}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+
+            {/* Actions */}
+            <div className="flex space-x-2">
+              <button
+                onClick={handleClose}
+                className="flex-1 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAddItems}
+                disabled={isSubmitting || selected.size === 0}
+                className="flex-1 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm flex items-center justify-center"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Add {selected.size} item{selected.size !== 1 ? 's' : ''}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,254 @@
+import { useState, useCallback } from 'react';
+import {
+  Plus,
+  Receipt,
+  Trash2,
+  ArrowRight,
+  Loader2,
+  Wallet,
+  CheckCircle
+} from 'lucide-react';
+
+import type { Trip, Expense } from '../types';
+import { useExpenses } from '../hooks';
+import { formatAmount, getExpenseParticipants } from '../services/expenses';
+import { canEditTrip } from '../services/permissions';
+import { AddEditExpenseModal } from './AddEditExpenseModal';
+
+interface ExpensesPanelProps {
+  tripId: string;
+  trip: Trip;
+  currentUserId: string;
+  getMemberName: (uid: string) => string;
+}
+
+const SPLIT_LABELS: Record<string, string> = {
+  equal: 'split equally',
+  percentage: 'split by %',
+  exact: 'exact amounts',
+};
+
+/**
+ * Shared expense ledger for a trip - records who paid what,
+ * shows each member's net balance and who owes whom
+ */
+export function ExpensesPanel({ tripId, trip, currentUserId, getMemberName }: ExpensesPanelProps) {
+  const members = trip.members || [];
+  const canEdit = canEditTrip(trip, currentUserId);
+  const {
+    expenses,
+    isLoading,
+    totalSpent,
+    balances,
+    settlements,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+  } = useExpenses(tripId, members);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+
+  const formatDate = useCallback((dateStr: string) => {
+    const date = new Date(dateStr + 'T00:00:00');
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }, []);
+
+  const openAddModal = useCallback(() => {
+    setEditingExpense(null);
+    setShowModal(true);
+  }, []);
+
+  const openEditModal = useCallback((expense: Expense) => {
+    setEditingExpense(expense);
+    setShowModal(true);
+  }, []);
+
+  const closeModal = useCallback(() => {
+    setShowModal(false);
+    setEditingExpense(null);
+  }, []);
+
+  const handleSave = useCallback(async (data: Partial<Expense>) => {
+    if (editingExpense) {
+      await updateExpense(editingExpense.id, data);
+    } else {
+      await addExpense(data);
+    }
+  }, [editingExpense, updateExpense, addExpense]);
+
+  const handleDelete = useCallback(async (expense: Expense) => {
+    try {
+      await deleteExpense(expense.id);
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+    }
+  }, [deleteExpense]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-6 h-6 animate-spin text-indigo-600 mr-2" />
+        <span className="text-slate-500">Loading expenses...</span>
+      </div>
+    );
+  }
+
+  const myBalance = balances.find((b) => b.uid === currentUserId)?.balance || 0;
+  const visibleBalances = balances.filter((b) => b.paid > 0 || b.owed > 0);
+
+  return (
+    <div className="pb-20">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-700">Expenses</h2>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add Expense
+          </button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="bg-white rounded-xl border border-slate-200 p-4">
+          <p className="text-xs text-slate-500">Total spent</p>
+          <p className="text-xl font-bold text-slate-800">{formatAmount(totalSpent)}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-slate-200 p-4">
+          <p className="text-xs text-slate-500">Your balance</p>
+          <p className={`text-xl font-bold ${
+            myBalance > 0 ? 'text-green-600' : myBalance < 0 ? 'text-red-600' : 'text-slate-800'
+          }`}>
+            {myBalance > 0 ? '+' : ''}{formatAmount(myBalance)}
+          </p>
+          <p className="text-xs text-slate-400">
+            {myBalance > 0 ? 'you are owed' : myBalance < 0 ? 'you owe' : 'all settled'}
+          </p>
+        </div>
+      </div>
+
+      {expenses.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          {/* Balances */}
+          <div className="bg-white rounded-xl border border-slate-200 p-4">
+            <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center">
+              <Wallet className="w-4 h-4 mr-2 text-indigo-500" /> Balances
+            </h3>
+            <div className="space-y-2">
+              {visibleBalances.map((b) => (
+                <div key={b.uid} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-600 truncate">{getMemberName(b.uid)}</span>
+                  <span className={`font-medium ${
+                    b.balance > 0 ? 'text-green-600' : b.balance < 0 ? 'text-red-600' : 'text-slate-400'
+                  }`}>
+                    {b.balance > 0 ? '+' : ''}{formatAmount(b.balance)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Settle up */}
+          <div className="bg-white rounded-xl border border-slate-200 p-4">
+            <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center">
+              <CheckCircle className="w-4 h-4 mr-2 text-indigo-500" /> Settle up
+            </h3>
+            {settlements.length === 0 ? (
+              <p className="text-sm text-slate-400">Everyone is settled up</p>
+            ) : (
+              <div className="space-y-2">
+                {settlements.map((s) => (
+                  <div key={`${s.from}-${s.to}`} className="flex items-center text-sm">
+                    <span className="text-slate-700 truncate">{getMemberName(s.from)}</span>
+                    <ArrowRight className="w-3.5 h-3.5 mx-2 text-slate-400 shrink-0" />
+                    <span className="text-slate-700 truncate flex-1">{getMemberName(s.to)}</span>
+                    <span className="font-semibold text-slate-800">{formatAmount(s.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {expenses.length === 0 && (
+        <div className="text-center py-16 bg-white rounded-xl border border-dashed border-slate-300">
+          <Receipt className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+          <p className="text-slate-400 mb-4">No expenses recorded yet</p>
+          {canEdit && (
+            <button
+              onClick={openAddModal}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+            >
+              Add your first expense
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Expense List */}
+      <div className="space-y-2">
+        {expenses.map((expense) => {
+          const participants = getExpenseParticipants(expense, members);
+          return (
+            <div
+              key={expense.id}
+              onClick={canEdit ? () => openEditModal(expense) : undefined}
+              className={`bg-white rounded-xl border border-slate-200 p-3 transition-all group ${
+                canEdit ? 'cursor-pointer hover:border-slate-300 hover:shadow-sm' : ''
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="min-w-0 flex-1">
+                  <p className="font-semibold text-slate-800 truncate">{expense.description}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {getMemberName(expense.payer)} paid
+                    {' • '}
+                    {participants.length} {participants.length === 1 ? 'person' : 'people'},{' '}
+                    {SPLIT_LABELS[expense.splitType || 'equal']}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0 ml-2">
+                  <div className="text-right">
+                    <p className="font-bold text-slate-800">{formatAmount(expense.amount)}</p>
+                    <p className="text-xs text-slate-400 capitalize">
+                      {expense.date ? `${formatDate(expense.date)} • ` : ''}{expense.category}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(expense); }}
+                      className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors md:opacity-0 md:group-hover:opacity-100"
+                      title="Delete expense"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Add/Edit Modal - remounted per expense so the form starts fresh */}
+      {showModal && (
+        <AddEditExpenseModal
+          key={editingExpense?.id || 'new'}
+          expense={editingExpense}
+          members={members}
+          currentUserId={currentUserId}
+          defaultDate={trip.startDate}
+          getMemberName={getMemberName}
+          onClose={closeModal}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { AlertTriangle, X } from 'lucide-react';
+import { useFailedQueuedWrites } from '../hooks';
+
+/**
+ * Tells the user when edits made offline were rejected once they synced, and undone
+ */
+export function FailedWritesBanner() {
+  const { failedWrites, dismiss } = useFailedQueuedWrites();
+  if (failedWrites === 0) return null;
+
+  return (
+    <div className="fixed top-2 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-1rem)] max-w-md flex items-start p-3 bg-red-50 border border-red-200 rounded-lg shadow-lg text-sm">
+      <AlertTriangle className="w-4 h-4 text-red-600 mr-2 mt-0.5 shrink-0" />
+      <p className="flex-1 text-red-800">
+        {failedWrites} change{failedWrites !== 1 ? 's' : ''} made while offline couldn't be saved and
+        {failedWrites !== 1 ? ' have' : ' has'} been undone. Please check and try again.
+      </p>
+      <button
+        onClick={dismiss}
+        className="p-1 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-md shrink-0"
+        title="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
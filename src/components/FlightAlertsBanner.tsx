@@ -0,0 +1,45 @@
+import { memo } from 'react';
+import { BellRing, X } from 'lucide-react';
+import type { FlightAlert } from '../hooks';
+
+interface FlightAlertsBannerProps {
+  alerts: FlightAlert[];
+  onView: (itemId: string) => void;
+  onDismiss: (alert: FlightAlert) => void;
+}
+
+/**
+ * Changes to the trip's flights (delays, gate changes, cancellations) the user hasn't dismissed
+ */
+export const FlightAlertsBanner = memo(function FlightAlertsBanner({ alerts, onView, onDismiss }: FlightAlertsBannerProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      {alerts.map((alert) => (
+        <div
+          key={`${alert.itemId}-${alert.alertAt}`}
+          className="flex items-start p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm"
+        >
+          <BellRing className="w-4 h-4 text-amber-600 mr-2 mt-0.5 shrink-0" />
+          <button
+            onClick={() => onView(alert.itemId)}
+            className="flex-1 text-left text-amber-900 hover:underline"
+          >
+            {alert.message}
+            <span className="block text-xs text-amber-700 mt-0.5">
+              {new Date(alert.alertAt).toLocaleString('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </button>
+          <button
+            onClick={() => onDismiss(alert)}
+            className="p-1 text-amber-500 hover:text-amber-700 hover:bg-amber-100 rounded-md shrink-0"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+});
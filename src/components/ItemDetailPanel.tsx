@@ -22,9 +22,13 @@ import {
   PlaneLanding,
   ChevronUp,
   ChevronDown,
-  Navigation
+  Navigation,
+  UserRound,
+  BellRing
 } from 'lucide-react';
 import type { ItineraryItem } from '../types';
+import { getFlightStatusLabel, type FlightStatusTone } from '../services/flightStatus';
+import { formatDuration, getDurationMinutes, type ItemTimeField } from '../services/timezones';
 
 // Category icon mapping
 const CATEGORY_ICONS = {
@@ -48,13 +52,22 @@ const CATEGORY_COLORS: Record<string, string> = {
   flight: '#0EA5E9',
 };
 
+const STATUS_TONE_CLASSES: Record<FlightStatusTone, string> = {
+  green: 'bg-green-100 text-green-700',
+  amber: 'bg-amber-100 text-amber-800',
+  red: 'bg-red-100 text-red-700',
+  sky: 'bg-sky-100 text-sky-700',
+};
+
 interface ItemDetailPanelProps {
   item: ItineraryItem | null;
   isOpen: boolean;
   onClose: () => void;
-  onEdit: (item: ItineraryItem) => void;
+  onEdit?: (item: ItineraryItem) => void;
   onDelete?: (item: ItineraryItem) => void;
   formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
+  getMemberName?: (uid: string) => string; // shows who added and last edited the item
 }
 
 // Helper to parse stored place details
@@ -89,6 +102,8 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
   onEdit,
   onDelete,
   formatDate,
+  formatTime,
+  getMemberName,
 }: ItemDetailPanelProps) {
   const [isHoursExpanded, setIsHoursExpanded] = useState(false);
 
@@ -109,6 +124,8 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
     ? Math.ceil((new Date(item.endDay!).getTime() - new Date(item.day).getTime()) / (1000 * 60 * 60 * 24))
     : 0;
 
+  const flightStatus = isFlight ? getFlightStatusLabel(item) : null;
+
   const CategoryIcon = isFlight
     ? Plane
     : CATEGORY_ICONS[item.category as keyof typeof CATEGORY_ICONS] || MapPin;
@@ -184,12 +201,14 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
             </div>
             
             <div className="flex items-center space-x-1 shrink-0">
-              <button
-                onClick={() => onEdit(item)}
-                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
-              >
-                <Edit2 className="w-4 h-4" />
-              </button>
+              {onEdit && (
+                <button
+                  onClick={() => onEdit(item)}
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+              )}
               {onDelete && (
                 <button
                   onClick={() => onDelete(item)}
@@ -224,7 +243,7 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
                     {item.departureAirportName || item.location}
                   </p>
                   {item.time && (
-                    <p className="text-sm font-semibold text-sky-600 mt-1">{item.time}</p>
+                    <p className="text-sm font-semibold text-sky-600 mt-1">{formatTime(item)}</p>
                   )}
                 </div>
 
@@ -247,13 +266,61 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
                     {item.arrivalAirportName || item.arrivalLocation}
                   </p>
                   {item.arrivalTime && (
-                    <p className="text-sm font-semibold text-sky-600 mt-1">{item.arrivalTime}</p>
+                    <p className="text-sm font-semibold text-sky-600 mt-1">{formatTime(item, 'arrivalTime')}</p>
                   )}
                 </div>
               </div>
             </div>
           )}
 
+          {/* Live Flight Status */}
+          {isFlight && flightStatus && item.flightStatus && (
+            <div className="p-4 border-b border-slate-100 space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_TONE_CLASSES[flightStatus.tone]}`}>
+                  {flightStatus.label}
+                </span>
+                <span className="text-xs text-slate-400">
+                  Updated {new Date(item.flightStatus.updatedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              {item.flightStatus.revisedDepartureTime && (
+                <p className="text-slate-700">
+                  Now departs <span className="font-semibold">{formatTime({ ...item, time: item.flightStatus.revisedDepartureTime })}</span>
+                </p>
+              )}
+              {item.flightStatus.revisedArrivalTime && (
+                <p className="text-slate-700">
+                  Now lands{' '}
+                  <span className="font-semibold">
+                    {formatTime({
+                      ...item,
+                      time: item.flightStatus.revisedDepartureTime || item.time,
+                      arrivalTime: item.flightStatus.revisedArrivalTime,
+                      arrivalDay: '',
+                    }, 'arrivalTime')}
+                  </span>
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2 text-xs text-slate-600">
+                <div>
+                  <p className="text-slate-400">Departure</p>
+                  <p>Terminal {item.flightStatus.departureTerminal || '-'} · Gate {item.flightStatus.departureGate || '-'}</p>
+                </div>
+                <div>
+                  <p className="text-slate-400">Arrival</p>
+                  <p>Terminal {item.flightStatus.arrivalTerminal || '-'} · Gate {item.flightStatus.arrivalGate || '-'}</p>
+                </div>
+              </div>
+              {item.flightStatus.alert && (
+                <p className="flex items-start text-xs text-amber-800 bg-amber-50 rounded-lg p-2">
+                  <BellRing className="w-3.5 h-3.5 mr-1.5 mt-0.5 shrink-0" />
+                  {item.flightStatus.alert}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Date & Time */}
           <div className="p-4 border-b border-slate-100">
             <div className="flex items-center space-x-3 text-slate-700">
@@ -271,7 +338,15 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
             {item.time && !isFlight && (
               <div className="flex items-center space-x-3 text-slate-700 mt-2">
                 <Clock className="w-5 h-5 text-slate-400" />
-                <p className="font-medium">{item.time}</p>
+                <div>
+                  <p className="font-medium">
+                    {formatTime(item)}
+                    {item.endTime && ` – ${formatTime(item, 'endTime')}`}
+                  </p>
+                  {item.endTime && (
+                    <p className="text-sm text-slate-500">{formatDuration(getDurationMinutes(item.time, item.endTime))}</p>
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -357,6 +432,27 @@ export const ItemDetailPanel = memo(function ItemDetailPanel({
               <p className="text-sm text-slate-600 whitespace-pre-wrap">{item.notes}</p>
             </div>
           )}
+
+          {/* Authorship */}
+          {getMemberName && (item.createdBy || item.updatedBy) && (
+            <div className="px-4 py-3 flex items-start space-x-2 text-xs text-slate-400">
+              <UserRound className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <div>
+                {item.createdBy && <p>Added by {getMemberName(item.createdBy)}</p>}
+                {item.updatedBy && (
+                  <p>
+                    Last updated by {getMemberName(item.updatedBy!)}
+                    {item.updatedAt && ` on ${new Date(item.updatedAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Action Bar */}
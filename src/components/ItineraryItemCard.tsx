@@ -19,9 +19,15 @@ import {
   PlaneLanding,
   Star,
   Navigation,
-  CalendarDays
+  CalendarDays,
+  AlertTriangle,
+  GripVertical
 } from 'lucide-react';
 import type { ItineraryItem, DisplayItineraryItem } from '../types';
+import { SHORT_LAYOVER_MINUTES } from '../services/journeys';
+import { getFlightStatusLabel, type FlightStatusTone } from '../services/flightStatus';
+import type { ScheduleWarning } from '../services/scheduleChecks';
+import { formatDuration, type ItemTimeField } from '../services/timezones';
 
 // Category icon mapping
 const CATEGORY_ICONS = {
@@ -64,12 +70,15 @@ function parsePlaceDescription(description: string | undefined): {
 
 interface ItineraryItemCardProps {
   item: DisplayItineraryItem;
-  onToggleComplete: (item: ItineraryItem) => void;
+  onToggleComplete?: (item: ItineraryItem) => void;
   onEdit?: (item: ItineraryItem) => void;
   onDelete?: (item: ItineraryItem) => void;
   onGenerateAI?: (location: string) => void;
   onViewDetails?: (item: ItineraryItem) => void;
   formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
+  warnings?: ScheduleWarning[]; // schedule problems involving this item on this day
+  onDragStart?: (item: DisplayItineraryItem, event: React.PointerEvent<HTMLElement>) => void; // shows a drag handle on activities
 }
 
 /**
@@ -108,18 +117,115 @@ const LodgingPhaseCard = memo(function LodgingPhaseCard({
   );
 });
 
+const STATUS_TONE_CLASSES: Record<FlightStatusTone, string> = {
+  green: 'bg-green-100 text-green-700',
+  amber: 'bg-amber-100 text-amber-800',
+  red: 'bg-red-100 text-red-700',
+  sky: 'bg-sky-100 text-sky-700',
+};
+
+/**
+ * Live status of one flight: status chip, terminals and gates
+ */
+function FlightLegStatus({ leg }: { leg: ItineraryItem }) {
+  const status = getFlightStatusLabel(leg);
+  const info = leg.flightStatus;
+  if (!status || !info) return null;
+
+  const departure = [info.departureTerminal && `Terminal ${info.departureTerminal}`, info.departureGate && `Gate ${info.departureGate}`]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div className="flex items-center flex-wrap gap-x-2 gap-y-1 mt-1.5 text-xs">
+      <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_TONE_CLASSES[status.tone]}`}>
+        {status.label}
+      </span>
+      {departure && <span className="text-slate-600">{departure}</span>}
+    </div>
+  );
+}
+
+/**
+ * One flight's route: departure airport and time → arrival airport and time.
+ * Revised times replace scheduled ones, which are shown struck through.
+ */
+function FlightLegRoute({
+  leg,
+  formatTime,
+}: {
+  leg: ItineraryItem;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
+}) {
+  // The leg with its revised times, so they're formatted like the scheduled ones
+  const { revisedDepartureTime, revisedArrivalTime } = leg.flightStatus || {};
+  const revisedDeparture = revisedDepartureTime ? { ...leg, time: revisedDepartureTime } : null;
+  // Work out the landing day afresh, as a delay can push it past midnight
+  const revisedArrival = revisedArrivalTime
+    ? { ...leg, time: revisedDepartureTime || leg.time, arrivalTime: revisedArrivalTime, arrivalDay: '' }
+    : null;
+
+  return (
+    <div className="flex items-center bg-white/60 rounded-lg px-3 py-2">
+      <div className="text-center">
+        <PlaneTakeoff className="w-4 h-4 text-sky-500 mx-auto" />
+        <p className="font-bold text-slate-800">
+          {leg.departureAirportCode || leg.location?.slice(0, 3).toUpperCase()}
+        </p>
+        {leg.time && (
+          <p className={`text-xs ${revisedDeparture ? 'text-slate-400 line-through' : 'text-sky-600'}`}>{formatTime(leg)}</p>
+        )}
+        {revisedDeparture && <p className="text-xs font-semibold text-amber-700">{formatTime(revisedDeparture)}</p>}
+      </div>
+
+      <div className="flex-1 flex items-center justify-center px-3">
+        <div className="h-px bg-sky-300 flex-1" />
+        <span className="mx-2 text-sky-400">→</span>
+        <div className="h-px bg-sky-300 flex-1" />
+      </div>
+
+      <div className="text-center">
+        <PlaneLanding className="w-4 h-4 text-sky-500 mx-auto" />
+        <p className="font-bold text-slate-800">
+          {leg.arrivalAirportCode || leg.arrivalLocation?.slice(0, 3).toUpperCase()}
+        </p>
+        {leg.arrivalTime && (
+          <p className={`text-xs ${revisedArrival ? 'text-slate-400 line-through' : 'text-sky-600'}`}>
+            {formatTime(leg, 'arrivalTime')}
+          </p>
+        )}
+        {revisedArrival && <p className="text-xs font-semibold text-amber-700">{formatTime(revisedArrival, 'arrivalTime')}</p>}
+      </div>
+    </div>
+  );
+}
+
 /**
- * Flight card with distinctive sky-blue styling
+ * Flight card with distinctive sky-blue styling. Connecting flights show as one card
+ * with a row per leg and the layover between them.
  */
 const FlightCard = memo(function FlightCard({
   item,
   onToggleComplete,
   onViewDetails,
+  formatDate,
+  formatTime,
 }: {
   item: DisplayItineraryItem;
-  onToggleComplete: (item: ItineraryItem) => void;
+  onToggleComplete?: (item: ItineraryItem) => void;
   onViewDetails?: (item: ItineraryItem) => void;
+  formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
 }) {
+  const legs = item.journey?.legs || [item];
+  const layovers = item.journey?.layovers || [];
+  const isMultiLeg = legs.length > 1;
+
+  // Ticking the card ticks every leg that isn't already in the same state
+  const handleToggle = () => {
+    legs.filter((leg) => !!leg.completed === !!item.completed).forEach((leg) => onToggleComplete?.(leg));
+  };
+
   return (
     <div
       onClick={() => onViewDetails?.(item)}
@@ -130,7 +236,8 @@ const FlightCard = memo(function FlightCard({
       <div className="flex items-start space-x-3">
         {/* Checkbox */}
         <button
-          onClick={(e) => { e.stopPropagation(); onToggleComplete(item); }}
+          onClick={(e) => { e.stopPropagation(); handleToggle(); }}
+          disabled={!onToggleComplete}
           className={`mt-0.5 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all shrink-0 ${
             item.completed
               ? 'bg-green-500 border-green-500 text-white'
@@ -144,35 +251,45 @@ const FlightCard = memo(function FlightCard({
           {/* Flight header */}
           <div className="flex items-center space-x-2">
             <Plane className="w-4 h-4 text-sky-600" />
-            <span className="font-semibold text-sky-800">
-              {item.airline} {item.flightNumber}
+            <span className="font-semibold text-sky-800 truncate">
+              {legs.map((leg) => `${leg.airline || ''} ${leg.flightNumber || ''}`.trim()).filter(Boolean).join(' + ')}
             </span>
+            {item.flightPhase && item.journey && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-700 shrink-0">
+                {item.flightPhase === 'departure'
+                  ? `Lands ${formatDate(item.journey.arrivalDay)}`
+                  : `Departed ${formatDate(item.journey.departureDay)}`}
+              </span>
+            )}
           </div>
 
-          {/* Flight route */}
-          <div className="flex items-center mt-2 bg-white/60 rounded-lg px-3 py-2">
-            <div className="text-center">
-              <PlaneTakeoff className="w-4 h-4 text-sky-500 mx-auto" />
-              <p className="font-bold text-slate-800">
-                {item.departureAirportCode || item.location?.slice(0, 3).toUpperCase()}
-              </p>
-              {item.time && <p className="text-xs text-sky-600">{item.time}</p>}
-            </div>
-            
-            <div className="flex-1 flex items-center justify-center px-3">
-              <div className="h-px bg-sky-300 flex-1" />
-              <span className="mx-2 text-sky-400">→</span>
-              <div className="h-px bg-sky-300 flex-1" />
-            </div>
-            
-            <div className="text-center">
-              <PlaneLanding className="w-4 h-4 text-sky-500 mx-auto" />
-              <p className="font-bold text-slate-800">
-                {item.arrivalAirportCode || item.arrivalLocation?.slice(0, 3).toUpperCase()}
-              </p>
-              {item.arrivalTime && <p className="text-xs text-sky-600">{item.arrivalTime}</p>}
+          {/* Flight route - one row per leg */}
+          {legs.map((leg, index) => (
+            <div key={leg.id}>
+              {index > 0 && (
+                <div className="flex justify-center my-1">
+                  <span
+                    className={`flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                      layovers[index - 1] < SHORT_LAYOVER_MINUTES
+                        ? 'bg-amber-100 text-amber-800'
+                        : 'bg-sky-100 text-sky-700'
+                    }`}
+                  >
+                    <Clock className="w-3 h-3 mr-1" />
+                    {formatDuration(layovers[index - 1])} layover
+                    {(leg.departureAirportCode || leg.location) && ` in ${leg.departureAirportCode || leg.location}`}
+                  </span>
+                </div>
+              )}
+              <div
+                className={index === 0 ? 'mt-2' : ''}
+                onClick={isMultiLeg ? (e) => { e.stopPropagation(); onViewDetails?.(leg); } : undefined}
+              >
+                <FlightLegRoute leg={leg} formatTime={formatTime} />
+                <FlightLegStatus leg={leg} />
+              </div>
             </div>
-          </div>
+          ))}
 
           {/* Notes */}
           {item.notes && (
@@ -192,11 +309,13 @@ const LodgingCheckInCard = memo(function LodgingCheckInCard({
   onToggleComplete,
   onViewDetails,
   formatDate,
+  formatTime,
 }: {
   item: DisplayItineraryItem;
-  onToggleComplete: (item: ItineraryItem) => void;
+  onToggleComplete?: (item: ItineraryItem) => void;
   onViewDetails?: (item: ItineraryItem) => void;
   formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
 }) {
   const details = useMemo(() => parsePlaceDescription(item.placeDescription), [item.placeDescription]);
   const isMultiDay = item.endDay && item.endDay !== item.day;
@@ -223,7 +342,8 @@ const LodgingCheckInCard = memo(function LodgingCheckInCard({
         <div className="flex items-start space-x-3">
           {/* Checkbox */}
           <button
-            onClick={(e) => { e.stopPropagation(); onToggleComplete(item); }}
+            onClick={(e) => { e.stopPropagation(); onToggleComplete?.(item); }}
+            disabled={!onToggleComplete}
             className={`mt-0.5 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all shrink-0 ${
               item.completed
                 ? 'bg-green-500 border-green-500 text-white'
@@ -260,7 +380,7 @@ const LodgingCheckInCard = memo(function LodgingCheckInCard({
               {item.time && (
                 <span className="flex items-center">
                   <Clock className="w-3 h-3 mr-1" />
-                  {item.time}
+                  {formatTime(item)}
                 </span>
               )}
               {details?.rating && (
@@ -307,12 +427,16 @@ const ActivityCard = memo(function ActivityCard({
   item,
   onToggleComplete,
   onViewDetails,
+  onDragStart,
   formatDate,
+  formatTime,
 }: {
   item: DisplayItineraryItem;
-  onToggleComplete: (item: ItineraryItem) => void;
+  onToggleComplete?: (item: ItineraryItem) => void;
   onViewDetails?: (item: ItineraryItem) => void;
+  onDragStart?: (item: DisplayItineraryItem, event: React.PointerEvent<HTMLElement>) => void;
   formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
 }) {
   const details = useMemo(() => parsePlaceDescription(item.placeDescription), [item.placeDescription]);
   const categoryColor = CATEGORY_COLORS[item.category || 'sightseeing'] || '#6366F1';
@@ -335,9 +459,22 @@ const ActivityCard = memo(function ActivityCard({
     >
       <div className="p-3">
         <div className="flex items-start space-x-3">
+          {/* Drag handle - touch-none so dragging on a phone doesn't scroll the page */}
+          {onDragStart && (
+            <button
+              onPointerDown={(e) => { e.stopPropagation(); onDragStart(item, e); }}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-0.5 -mx-1.5 text-slate-300 hover:text-slate-500 cursor-grab touch-none shrink-0"
+              title="Drag to move"
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+          )}
+
           {/* Checkbox */}
           <button
-            onClick={(e) => { e.stopPropagation(); onToggleComplete(item); }}
+            onClick={(e) => { e.stopPropagation(); onToggleComplete?.(item); }}
+            disabled={!onToggleComplete}
             className={`mt-0.5 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all shrink-0 ${
               item.completed
                 ? 'bg-green-500 border-green-500 text-white'
@@ -372,7 +509,8 @@ const ActivityCard = memo(function ActivityCard({
               {item.time && (
                 <span className="flex items-center">
                   <Clock className="w-3 h-3 mr-1" />
-                  {item.time}
+                  {formatTime(item)}
+                  {item.endTime && ` – ${formatTime(item, 'endTime')}`}
                 </span>
               )}
               {details?.address && (
@@ -410,14 +548,35 @@ const ActivityCard = memo(function ActivityCard({
 });
 
 /**
- * Main item card component - routes to appropriate card type
+ * Schedule problems shown under a card
  */
-export const ItineraryItemCard = memo(function ItineraryItemCard({
+function ScheduleWarningList({ warnings }: { warnings: ScheduleWarning[] }) {
+  return (
+    <div className="mt-1 space-y-1">
+      {warnings.map((warning) => (
+        <div
+          key={warning.id}
+          className="flex items-start px-3 py-1.5 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800"
+        >
+          <AlertTriangle className="w-3.5 h-3.5 mr-1.5 mt-px shrink-0 text-amber-500" />
+          {warning.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The card for an item's type and lodging phase
+ */
+function ItemCardForType({
   item,
   onToggleComplete,
   onViewDetails,
+  onDragStart,
   formatDate,
-}: ItineraryItemCardProps) {
+  formatTime,
+}: Omit<ItineraryItemCardProps, 'warnings'>) {
   const lodgingPhase = item.lodgingPhase;
   
   // Compact card for staying/check-out phases
@@ -438,6 +597,8 @@ export const ItineraryItemCard = memo(function ItineraryItemCard({
         item={item}
         onToggleComplete={onToggleComplete}
         onViewDetails={onViewDetails}
+        formatDate={formatDate}
+        formatTime={formatTime}
       />
     );
   }
@@ -450,6 +611,7 @@ export const ItineraryItemCard = memo(function ItineraryItemCard({
         onToggleComplete={onToggleComplete}
         onViewDetails={onViewDetails}
         formatDate={formatDate}
+        formatTime={formatTime}
       />
     );
   }
@@ -460,7 +622,26 @@ export const ItineraryItemCard = memo(function ItineraryItemCard({
       item={item}
       onToggleComplete={onToggleComplete}
       onViewDetails={onViewDetails}
+      onDragStart={onDragStart}
       formatDate={formatDate}
+      formatTime={formatTime}
     />
   );
+}
+
+/**
+ * Main item card component, with any schedule warnings below it
+ */
+export const ItineraryItemCard = memo(function ItineraryItemCard({
+  warnings,
+  ...props
+}: ItineraryItemCardProps) {
+  if (!warnings || warnings.length === 0) return <ItemCardForType {...props} />;
+
+  return (
+    <div>
+      <ItemCardForType {...props} />
+      <ScheduleWarningList warnings={warnings} />
+    </div>
+  );
 });
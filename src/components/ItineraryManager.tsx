@@ -1,45 +1,82 @@
-import { useState, useCallback, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useImperativeHandle, forwardRef } from 'react';
 import { useJsApiLoader } from '@react-google-maps/api';
 import {
   MapPin,
   List,
   Map as MapIcon,
-  Loader2
+  Loader2,
+  Globe,
+  Coffee,
+  CalendarClock,
+  Footprints,
+  TramFront,
+  Car,
+  Route
 } from 'lucide-react';
 
-import type { Trip, ItineraryItem } from '../types';
-import { useItineraryItems, useItineraryForm, usePlaceEnrichment } from '../hooks';
+import type { Trip, ItineraryItem, DisplayItineraryItem } from '../types';
+import {
+  useItineraryItems,
+  useItineraryForm,
+  usePlaceEnrichment,
+  useTimeZoneBackfill,
+  useFlightAlerts,
+  useListDragDrop,
+  useTravelLegs,
+} from '../hooks';
 import { geocodeAddress } from '../services/geocoding';
 import { enrichItemWithPlaceDetails, formatPlaceDetailsForStorage } from '../services/places';
+import { formatDayLabel, formatDuration, formatItemTime, getDeviceTimeZone, getTimeZoneLabel, type ItemTimeField } from '../services/timezones';
+import { checkSchedule, getScheduleWarningKey, groupWarningsByItem } from '../services/scheduleChecks';
+import { getDayTimeline, type TimelineEntry } from '../services/timeline';
+import { planItemMove, type DropTarget } from '../services/rescheduling';
+import { describeTravelLeg, getLateMinutes } from '../services/travelLegs';
+import type { TravelMode } from '../services/routing';
+import { canOptimizeDay, optimizeDayRoute, type RoutePlan } from '../services/routeOptimization';
 
 import { ItineraryItemCard } from './ItineraryItemCard';
 import { ItineraryMapView } from './ItineraryMapView';
+import { ItineraryTimelineView, type RescheduleUpdates } from './ItineraryTimelineView';
 import { AddEditItemModal } from './AddEditItemModal';
 import { AIGenerationModal } from './AIGenerationModal';
+import { CalendarImportModal } from './CalendarImportModal';
 import { ItemDetailPanel } from './ItemDetailPanel';
+import { FlightAlertsBanner } from './FlightAlertsBanner';
+import { ScheduleWarningsPanel } from './ScheduleWarningsPanel';
+import { RouteOptimizationModal } from './RouteOptimizationModal';
 
 // Google Maps API Key
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
 
+const TRAVEL_MODE_ICONS: Record<TravelMode, React.ComponentType<{ className?: string }>> = {
+  walk: Footprints,
+  transit: TramFront,
+  drive: Car,
+};
+
 // Libraries to load - defined outside component to prevent reloading
 const GOOGLE_MAPS_LIBRARIES: ("places")[] = ["places"];
 
 interface ItineraryManagerProps {
   tripId: string;
   trip: Trip;
+  currentUserId: string;
+  getMemberName: (uid: string) => string;
+  canEdit?: boolean; // false for viewers - hides all editing controls
 }
 
 // Methods exposed to parent via ref
 export interface ItineraryManagerHandle {
   openAddModal: () => void;
   openAIModal: () => void;
+  openImportModal: () => void;
 }
 
 /**
  * Refactored ItineraryManager - now ~300 lines instead of 1140!
  * Uses custom hooks for state management and extracted components for UI.
  */
-export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryManagerProps>(function ItineraryManager({ tripId, trip }, ref) {
+export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryManagerProps>(function ItineraryManager({ tripId, trip, currentUserId, getMemberName, canEdit = true }, ref) {
   // Load Google Maps API with Places library immediately on page load
   const { isLoaded: isMapsApiLoaded } = useJsApiLoader({
     googleMapsApiKey: GOOGLE_MAPS_API_KEY,
@@ -66,14 +103,44 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
     toggleComplete,
     addItemsBatch,
     updateItemsBatch,
-  } = useItineraryItems(tripId);
+  } = useItineraryItems(tripId, currentUserId);
+
+  // Background enrichment isn't a member's edit, so it skips the updatedBy stamp
+  const saveEnrichment = useCallback(
+    (itemId: string, updates: Partial<ItineraryItem>) => updateItemsBatch([{ id: itemId, data: updates }]),
+    [updateItemsBatch]
+  );
+
+  // Give items saved before time zones were recorded their zone
+  useTimeZoneBackfill(items, updateItemsBatch, canEdit && !isLoading);
+
+  // Live status for flights on their day of travel, kept up to date on the items by the
+  // trackFlightStatus function; changes reach members as alerts
+  const { alerts: flightAlerts, dismissAlert: dismissFlightAlert } = useFlightAlerts(items);
+
+  // Getting from each item to the next, shown between the cards and drawn on the map
+  const travelLegs = useTravelLegs(tripId, itemsByDay, canEdit);
+
+  // Overlaps, tight airport connections and the like, shown on the cards and summarized above the list
+  const scheduleWarnings = useMemo(
+    () => checkSchedule(itemsByDay, { startDate: trip.startDate, endDate: trip.endDate }, travelLegs),
+    [itemsByDay, trip.startDate, trip.endDate, travelLegs]
+  );
+  const warningsByItem = useMemo(() => groupWarningsByItem(scheduleWarnings), [scheduleWarnings]);
+
+  // Each day's items with the free time between them
+  const timelineByDay = useMemo(() => {
+    const timelines: Record<string, TimelineEntry[]> = {};
+    for (const day of sortedDays) timelines[day] = getDayTimeline(itemsByDay[day]);
+    return timelines;
+  }, [itemsByDay, sortedDays]);
 
   // Automatically enrich items with Google Places data
   usePlaceEnrichment({
     items,
     apiKey: GOOGLE_MAPS_API_KEY,
-    onUpdateItem: updateItem,
-    enabled: isMapsApiLoaded && !!GOOGLE_MAPS_API_KEY,
+    onUpdateItem: saveEnrichment,
+    enabled: isMapsApiLoaded && !!GOOGLE_MAPS_API_KEY && canEdit,
   });
 
   const {
@@ -94,19 +161,39 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
   // UI state
   const [showAddModal, setShowAddModal] = useState(false);
   const [showAIModal, setShowAIModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedItem, setSelectedItem] = useState<ItineraryItem | null>(null);
   const [aiDestination, setAiDestination] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [viewMode, setViewMode] = useState<'list' | 'timeline' | 'map'>('list');
   const [isBatchGeocoding, setIsBatchGeocoding] = useState(false);
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null);
+  const [isApplyingRoute, setIsApplyingRoute] = useState(false);
+  // Show times in this device's zone instead of where each item happens
+  const [showHomeTime, setShowHomeTime] = useState(false);
 
-  // Memoized date formatter
+  // Memoized date formatter - dates are calendar days, the same in every zone
   const formatDate = useCallback((dateStr: string) => {
-    const date = new Date(dateStr + 'T00:00:00');
-    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+    return formatDayLabel(dateStr, { weekday: 'short', month: 'short', day: 'numeric' });
   }, []);
 
+  // Memoized time formatter for an item's time or a flight's arrival
+  const formatTime = useCallback((item: ItineraryItem, field: ItemTimeField = 'time') => {
+    return formatItemTime(item, field, showHomeTime ? getDeviceTimeZone() : null);
+  }, [showHomeTime]);
+
+  // The home time toggle only matters once some item is in another zone
+  const homeTimeZone = getDeviceTimeZone();
+  const hasOtherZones = items.some((item) =>
+    (item.timeZone && item.timeZone !== homeTimeZone) || (item.arrivalTimeZone && item.arrivalTimeZone !== homeTimeZone)
+  );
+
+  // The selected item as it is now, so live changes (e.g. flight status) show in the open panel
+  const currentSelectedItem = selectedItem
+    ? items.find((item) => item.id === selectedItem.id) || selectedItem
+    : null;
+
   // Open add modal with default date
   const openAddModal = useCallback(() => {
     resetForm(trip.startDate);
@@ -131,6 +218,12 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
     setShowDetailModal(true);
   }, []);
 
+  // Open the item an alert or schedule warning is about
+  const viewItemById = useCallback((itemId: string) => {
+    const item = items.find((entry) => entry.id === itemId);
+    if (item) openDetailModal(item);
+  }, [items, openDetailModal]);
+
   // Close detail modal
   const closeDetailModal = useCallback(() => {
     setShowDetailModal(false);
@@ -201,6 +294,78 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
     }
   }, [isValid, toItemData, editingItem, updateItem, addItem, closeAddModal]);
 
+  // Save an item dragged to another time or day on the timeline
+  const handleReschedule = useCallback(async (item: ItineraryItem, updates: RescheduleUpdates) => {
+    try {
+      await updateItem(item.id, updates);
+    } catch (error) {
+      console.error('Error rescheduling item:', error);
+      alert('Failed to move item. Please try again.');
+    }
+  }, [updateItem]);
+
+  // Save where an item was placed by hand on the map
+  const handlePlaceItem = useCallback(async (item: ItineraryItem, position: { lat: number; lng: number }) => {
+    try {
+      await updateItem(item.id, { lat: position.lat, lng: position.lng });
+    } catch (error) {
+      console.error('Error placing item:', error);
+      alert('Failed to save location. Please try again.');
+    }
+  }, [updateItem]);
+
+  // Drop a card dragged in the list: re-time it for its new place and push back what it runs into,
+  // all in one batch (stamped as this member's edit, since the batch update doesn't)
+  const handleListDrop = useCallback(async (item: DisplayItineraryItem, target: DropTarget) => {
+    const moves = planItemMove(item, itemsByDay[target.day] || [], target);
+    if (moves.length === 0) return;
+
+    const updatedAt = Date.now();
+    try {
+      await updateItemsBatch(moves.map(({ id, data }) => ({ id, data: { ...data, updatedBy: currentUserId, updatedAt } })));
+    } catch (error) {
+      console.error('Error moving item:', error);
+      alert('Failed to move item. Please try again.');
+    }
+  }, [itemsByDay, updateItemsBatch, currentUserId]);
+
+  const { drag: listDrag, startDrag: startListDrag } = useListDragDrop(handleListDrop);
+
+  // Preview a day's stops in the shortest order; applying it re-times them in one batch
+  const openRouteOptimization = useCallback((day: string) => {
+    const plan = optimizeDayRoute(day, itemsByDay[day] || []);
+    if (!plan) {
+      alert("This day's stops are already in the shortest order.");
+      return;
+    }
+    setRoutePlan(plan);
+  }, [itemsByDay]);
+
+  const applyRoutePlan = useCallback(async () => {
+    if (!routePlan) return;
+    setIsApplyingRoute(true);
+    const updatedAt = Date.now();
+    try {
+      await updateItemsBatch(routePlan.moves.map(({ id, data }) => ({ id, data: { ...data, updatedBy: currentUserId, updatedAt } })));
+      setRoutePlan(null);
+    } catch (error) {
+      console.error('Error optimizing route:', error);
+      alert('Failed to reorder the day. Please try again.');
+    } finally {
+      setIsApplyingRoute(false);
+    }
+  }, [routePlan, updateItemsBatch, currentUserId]);
+
+  // Where the dragged card would land: the new day and time, and the card to show the drop line above
+  const listDropPreview = listDrag?.target
+    ? planItemMove(listDrag.item, itemsByDay[listDrag.target.day] || [], listDrag.target)[0]
+    : undefined;
+  const getDropLineBefore = (day: string): string | null => {
+    if (!listDrag?.target || listDrag.target.day !== day) return null;
+    const others = itemsByDay[day].filter((item) => item.id !== listDrag.item.id);
+    return others[listDrag.target.index]?.id || 'end';
+  };
+
   // Handle delete with confirmation (already in hook, but wrapper for UI)
   const handleDelete = useCallback(async (item: ItineraryItem) => {
     try {
@@ -220,6 +385,7 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
   useImperativeHandle(ref, () => ({
     openAddModal,
     openAIModal: () => openAIModal(),
+    openImportModal: () => setShowImportModal(true),
   }), [openAddModal, openAIModal]);
 
   // Close AI modal
@@ -228,7 +394,9 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
     setAiDestination('');
   }, []);
 
-  // Add AI-generated items using batch write (FAST!)
+  const closeImportModal = useCallback(() => setShowImportModal(false), []);
+
+  // Add AI-generated or imported items using batch write (FAST!)
   const handleAddAIItems = useCallback(async (newItems: Partial<ItineraryItem>[]) => {
     await addItemsBatch(newItems);
   }, [addItemsBatch]);
@@ -320,6 +488,16 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
             >
               <List className="w-3.5 h-3.5 mr-1" /> List
             </button>
+            <button
+              onClick={() => setViewMode('timeline')}
+              className={`flex items-center px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                viewMode === 'timeline'
+                  ? 'bg-white text-indigo-600 shadow-sm'
+                  : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <CalendarClock className="w-3.5 h-3.5 mr-1" /> Timeline
+            </button>
             <button
               onClick={() => setViewMode('map')}
               className={`flex items-center px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
@@ -332,20 +510,39 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
             </button>
           </div>
         </div>
+        {hasOtherZones && (
+          <button
+            onClick={() => setShowHomeTime((prev) => !prev)}
+            className={`flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              showHomeTime ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-100'
+            }`}
+            title={showHomeTime ? 'Showing times in your time zone' : 'Showing local times where each item happens'}
+          >
+            <Globe className="w-3.5 h-3.5 mr-1" />
+            {showHomeTime ? `Home time (${getTimeZoneLabel(homeTimeZone)})` : 'Local time'}
+          </button>
+        )}
       </div>
 
+      <FlightAlertsBanner alerts={flightAlerts} onView={viewItemById} onDismiss={dismissFlightAlert} />
+
       {/* Map View */}
       {viewMode === 'map' && (
         <div className="flex-1 min-h-0">
           {GOOGLE_MAPS_API_KEY ? (
             <ItineraryMapView
+              tripId={tripId}
               items={items}
               tripStartDate={trip.startDate}
               tripEndDate={trip.endDate}
-              onEdit={openEditModal}
-              onGeocodeItems={handleBatchGeocode}
+              onEdit={canEdit ? openEditModal : undefined}
+              onGeocodeItems={canEdit ? handleBatchGeocode : undefined}
               isGeocoding={isBatchGeocoding}
               googleMapsApiKey={GOOGLE_MAPS_API_KEY}
+              getMemberName={getMemberName}
+              formatTime={formatTime}
+              travelLegs={travelLegs}
+              onPlaceItem={canEdit ? handlePlaceItem : undefined}
             />
           ) : (
             <div className="flex flex-col items-center justify-center h-full bg-white rounded-xl border border-dashed border-slate-300 p-8">
@@ -360,6 +557,18 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
         </div>
       )}
 
+      {/* Timeline View */}
+      {viewMode === 'timeline' && (
+        <ItineraryTimelineView
+          itemsByDay={itemsByDay}
+          tripStartDate={trip.startDate}
+          tripEndDate={trip.endDate}
+          onViewDetails={openDetailModal}
+          onReschedule={canEdit ? handleReschedule : undefined}
+          formatDate={formatDate}
+        />
+      )}
+
       {/* List View */}
       {viewMode === 'list' && (
         <>
@@ -368,37 +577,107 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
             <div className="text-center py-16 bg-white rounded-xl border border-dashed border-slate-300">
               <MapPin className="w-12 h-12 mx-auto mb-4 text-slate-300" />
               <p className="text-slate-400 mb-4">No items in your itinerary yet</p>
-              <button
-                onClick={openAddModal}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
-              >
-                Add your first item
-              </button>
+              {canEdit && (
+                <button
+                  onClick={openAddModal}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+                >
+                  Add your first item
+                </button>
+              )}
             </div>
           )}
 
+          <ScheduleWarningsPanel warnings={scheduleWarnings} onView={viewItemById} formatDate={formatDate} />
+
           {/* Itinerary List - Now using memoized components */}
-          {sortedDays.map((day) => (
-            <div key={day} className="mb-6">
-              <h3 className="text-sm font-semibold text-indigo-600 mb-2 sticky top-0 bg-slate-50 py-2">
-                {formatDate(day)}
-              </h3>
-              <div className="space-y-2">
-                {itemsByDay[day].map((item) => (
-                  <ItineraryItemCard
-                    key={`${item.id}-${item.displayDay}`}
-                    item={item}
-                    onToggleComplete={toggleComplete}
-                    onEdit={openEditModal}
-                    onDelete={handleDelete}
-                    onGenerateAI={openAIModal}
-                    onViewDetails={openDetailModal}
-                    formatDate={formatDate}
-                  />
-                ))}
+          {sortedDays.map((day) => {
+            const dropLineBefore = getDropLineBefore(day);
+            return (
+              <div key={day} data-drop-day={day} className="mb-6">
+                <h3 className="text-sm font-semibold text-indigo-600 mb-2 sticky top-0 bg-slate-50 py-2 flex items-center justify-between">
+                  <span>{formatDate(day)}</span>
+                  {canEdit && canOptimizeDay(itemsByDay[day]) && (
+                    <button
+                      onClick={() => openRouteOptimization(day)}
+                      className="flex items-center text-xs font-medium text-slate-500 hover:text-indigo-600"
+                    >
+                      <Route className="w-3.5 h-3.5 mr-1" />
+                      Optimize route
+                    </button>
+                  )}
+                </h3>
+                <div className="space-y-2">
+                  {timelineByDay[day].map((entry) => {
+                    if (entry.kind === 'free') {
+                      return (
+                        <div
+                          key={`free-${entry.start}`}
+                          className="flex items-center ml-5 pl-3 py-1 border-l-2 border-dashed border-slate-200 text-xs text-slate-400"
+                        >
+                          <Coffee className="w-3.5 h-3.5 mr-1.5" />
+                          Free time · {formatDuration(entry.minutes)}
+                        </div>
+                      );
+                    }
+                    const { item } = entry;
+                    const leg = travelLegs[day]?.find((candidate) => candidate.toItemId === item.id);
+                    const LegIcon = leg ? TRAVEL_MODE_ICONS[leg.mode] : null;
+                    const lateMinutes = leg ? getLateMinutes(leg) : 0;
+                    return (
+                      <div
+                        key={`${item.id}-${item.displayDay}`}
+                        data-drop-item={item.id}
+                        className={listDrag?.item.id === item.id ? 'opacity-40' : undefined}
+                      >
+                        {dropLineBefore === item.id && <div className="h-0.5 mb-2 bg-indigo-500 rounded-full" />}
+                        {leg && LegIcon && (
+                          <div
+                            className={`flex items-center ml-5 mb-2 pl-3 py-1 border-l-2 border-slate-200 text-xs ${
+                              lateMinutes > 0 ? 'text-amber-600' : 'text-slate-400'
+                            }`}
+                          >
+                            <LegIcon className="w-3.5 h-3.5 mr-1.5" />
+                            {describeTravelLeg(leg)}
+                            {lateMinutes > 0 && ` · arrives ${formatDuration(lateMinutes)} late`}
+                          </div>
+                        )}
+                        <ItineraryItemCard
+                          item={item}
+                          onToggleComplete={canEdit ? toggleComplete : undefined}
+                          onEdit={canEdit ? openEditModal : undefined}
+                          onDelete={canEdit ? handleDelete : undefined}
+                          onGenerateAI={canEdit ? openAIModal : undefined}
+                          onViewDetails={openDetailModal}
+                          onDragStart={canEdit ? startListDrag : undefined}
+                          formatDate={formatDate}
+                          formatTime={formatTime}
+                          warnings={warningsByItem.get(getScheduleWarningKey(item.id, item.displayDay))}
+                        />
+                      </div>
+                    );
+                  })}
+                  {dropLineBefore === 'end' && <div className="h-0.5 bg-indigo-500 rounded-full" />}
+                </div>
               </div>
+            );
+          })}
+
+          {/* Card following the pointer while dragging, with where it will land */}
+          {listDrag && (
+            <div
+              className="fixed z-50 pointer-events-none px-3 py-2 bg-white border border-indigo-300 rounded-lg shadow-lg text-sm"
+              style={{ left: listDrag.x + 12, top: listDrag.y + 12 }}
+            >
+              <span className="font-medium text-slate-800">{listDrag.item.location}</span>
+              {listDropPreview && (
+                <span className="block text-xs text-indigo-600">
+                  {formatDate(listDropPreview.data.day || listDrag.item.day)}
+                  {listDropPreview.data.time && ` at ${listDropPreview.data.time}`}
+                </span>
+              )}
             </div>
-          ))}
+          )}
         </>
       )}
 
@@ -431,14 +710,38 @@ export const ItineraryManager = forwardRef<ItineraryManagerHandle, ItineraryMana
         formatDate={formatDate}
       />
 
+      {/* Calendar Import Modal */}
+      <CalendarImportModal
+        isOpen={showImportModal}
+        trip={trip}
+        existingItems={items}
+        onClose={closeImportModal}
+        onAddItems={handleAddAIItems}
+        formatDate={formatDate}
+      />
+
+      {/* Route Optimization Preview */}
+      {routePlan && (
+        <RouteOptimizationModal
+          plan={routePlan}
+          isApplying={isApplyingRoute}
+          onApply={applyRoutePlan}
+          onClose={() => setRoutePlan(null)}
+          formatDate={formatDate}
+          formatTime={formatTime}
+        />
+      )}
+
       {/* Item Detail Panel */}
       <ItemDetailPanel
-        item={selectedItem}
+        item={currentSelectedItem}
         isOpen={showDetailModal}
         onClose={closeDetailModal}
-        onEdit={editFromDetail}
-        onDelete={handleDelete}
+        onEdit={canEdit ? editFromDetail : undefined}
+        onDelete={canEdit ? handleDelete : undefined}
         formatDate={formatDate}
+        formatTime={formatTime}
+        getMemberName={getMemberName}
       />
     </div>
   );
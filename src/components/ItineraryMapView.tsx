@@ -3,6 +3,7 @@ import {
   GoogleMap,
   useJsApiLoader,
   Marker,
+  MarkerClusterer,
   Polyline
 } from '@react-google-maps/api';
 import {
@@ -17,25 +18,51 @@ import {
   Car,
   Music,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Check,
+  Plane,
+  CloudDownload,
+  CloudCheck
 } from 'lucide-react';
 
 import type { ItineraryItem } from '../types';
+import { formatDayLabel, getItemStartInstant, type ItemTimeField } from '../services/timezones';
+import type { TravelMode } from '../services/routing';
+import type { TravelLeg } from '../services/travelLegs';
+import { loadReferenceData, type Airport } from '../services/referenceData';
+import { getTripRoute } from '../services/tripRoute';
+import { getStaticMapUrl } from '../services/offline';
+import { useMapSnapshots, useOnlineStatus } from '../hooks';
 import { ItemDetailPanel } from './ItemDetailPanel';
+import { UnplacedItemsTray } from './UnplacedItemsTray';
+import { OfflineMapSnapshots } from './OfflineMapSnapshots';
 
 // Define libraries outside component to prevent reloading
 const MAPS_LIBRARIES: ("places")[] = ["places"];
 
 interface ItineraryMapViewProps {
+  tripId: string;
   items: ItineraryItem[];
   tripStartDate?: string;
   tripEndDate?: string;
-  onEdit: (item: ItineraryItem) => void;
+  onEdit?: (item: ItineraryItem) => void;
   onGeocodeItems?: (items: ItineraryItem[]) => Promise<void>;
   isGeocoding?: boolean;
   googleMapsApiKey: string;
+  getMemberName?: (uid: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
+  travelLegs?: Record<string, TravelLeg[]>; // by day, from useTravelLegs
+  onPlaceItem?: (item: ItineraryItem, position: google.maps.LatLngLiteral) => Promise<void>;
 }
 
+type CompletionFilter = 'all' | 'todo' | 'done';
+
+const COMPLETION_FILTERS: Array<{ value: CompletionFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'todo', label: 'To do' },
+  { value: 'done', label: 'Done' },
+];
+
 const CATEGORY_COLORS: Record<string, string> = {
   sightseeing: '#8B5CF6', // violet
   food: '#F97316', // orange
@@ -56,6 +83,34 @@ const CATEGORY_ICONS: Record<string, React.ComponentType<{ className?: string }>
   entertainment: Music,
 };
 
+// Walking routes are dotted; transit and driving are solid lines in their own colors
+const TRAVEL_MODE_LINES: Record<TravelMode, google.maps.PolylineOptions> = {
+  walk: {
+    strokeOpacity: 0,
+    icons: [{
+      icon: { path: 'M 0,-1 0,1', strokeColor: '#6366F1', strokeOpacity: 0.8, scale: 3 },
+      offset: '0',
+      repeat: '12px',
+    }],
+  },
+  transit: { strokeColor: '#6366F1', strokeOpacity: 0.7, strokeWeight: 4 },
+  drive: { strokeColor: '#475569', strokeOpacity: 0.7, strokeWeight: 4 },
+};
+
+// Cluster markers: an indigo circle with the count in it
+const CLUSTER_STYLES = [{
+  url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40"><circle cx="20" cy="20" r="17" fill="#6366F1" fill-opacity="0.9" stroke="#ffffff" stroke-width="3"/></svg>'
+  )}`,
+  width: 40,
+  height: 40,
+  textColor: '#ffffff',
+  textSize: 12,
+}];
+
+// Past this zoom level every marker is shown on its own
+const CLUSTER_MAX_ZOOM = 15;
+
 const mapContainerStyle = {
   width: '100%',
   height: '100%',
@@ -82,6 +137,7 @@ const mapOptions: google.maps.MapOptions = {
 };
 
 export function ItineraryMapView({
+  tripId,
   items,
   tripStartDate,
   tripEndDate,
@@ -89,11 +145,24 @@ export function ItineraryMapView({
   onGeocodeItems,
   isGeocoding = false,
   googleMapsApiKey,
+  getMemberName,
+  formatTime,
+  travelLegs,
+  onPlaceItem,
 }: ItineraryMapViewProps) {
   const [selectedItem, setSelectedItem] = useState<ItineraryItem | null>(null);
   const [selectedDay, setSelectedDay] = useState<string | 'all'>('all');
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [showDetailPanel, setShowDetailPanel] = useState(false);
+  const [hiddenCategories, setHiddenCategories] = useState<Set<string>>(() => new Set());
+  const [completionFilter, setCompletionFilter] = useState<CompletionFilter>('all');
+  const [showUnplacedTray, setShowUnplacedTray] = useState(false);
+  // Item being placed by hand, and where its pin is so far
+  const [placing, setPlacing] = useState<{ item: ItineraryItem; position: google.maps.LatLngLiteral } | null>(null);
+  const [isSavingPlace, setIsSavingPlace] = useState(false);
+  // Whole-trip layer: flights between airports and ground transport between cities
+  const [showTripRoute, setShowTripRoute] = useState(false);
+  const [airportsByCode, setAirportsByCode] = useState<Map<string, Airport> | null>(null);
 
   const { isLoaded, loadError } = useJsApiLoader({
     googleMapsApiKey,
@@ -101,6 +170,10 @@ export function ItineraryMapView({
     libraries: MAPS_LIBRARIES,
   });
 
+  const isOnline = useOnlineStatus();
+  // Day maps saved as images, shown instead of the map when it can't load offline
+  const { snapshots, savingDay, saveDay, removeSnapshot } = useMapSnapshots(tripId, googleMapsApiKey);
+
   // Handle marker click
   const handleMarkerClick = useCallback((item: ItineraryItem) => {
     setSelectedItem(item);
@@ -121,7 +194,7 @@ export function ItineraryMapView({
   // Handle editing from detail panel
   const handleEdit = useCallback((item: ItineraryItem) => {
     handleCloseDetailPanel();
-    onEdit(item);
+    onEdit?.(item);
   }, [handleCloseDetailPanel, onEdit]);
 
   // Get unique days from items
@@ -144,21 +217,86 @@ export function ItineraryMapView({
     return result;
   }, [tripStartDate, tripEndDate, days]);
 
-  // Filter items by selected day
+  // Filter items by selected day, category and whether they're done
   const filteredItems = useMemo(() => {
-    if (selectedDay === 'all') return items;
-    return items.filter((item) => item.day === selectedDay);
-  }, [items, selectedDay]);
+    return items.filter((item) => {
+      if (selectedDay !== 'all' && item.day !== selectedDay) return false;
+      if (item.type !== 'flight' && hiddenCategories.has(item.category || 'sightseeing')) return false;
+      if (completionFilter === 'todo' && item.completed) return false;
+      if (completionFilter === 'done' && !item.completed) return false;
+      return true;
+    });
+  }, [items, selectedDay, hiddenCategories, completionFilter]);
+
+  const toggleCategory = useCallback((category: string) => {
+    setHiddenCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  }, []);
 
   // Items with coordinates (exclude flights from map display)
   const mappableItems = useMemo(() => {
     return filteredItems.filter((item) => item.lat && item.lng && item.type !== 'flight');
   }, [filteredItems]);
 
-  // Points for map bounds - all mappable items (flights already excluded)
+  // Items that could be on the map but have no coordinates yet
+  const unplacedItems = useMemo(() => {
+    return filteredItems.filter((item) => item.type !== 'flight' && (!item.lat || !item.lng));
+  }, [filteredItems]);
+
+  // Start placing an item, with its pin in the middle of the map to drag from
+  const startPlacing = useCallback((item: ItineraryItem) => {
+    const center = map?.getCenter()?.toJSON() ?? defaultCenter;
+    setPlacing({ item, position: center });
+  }, [map]);
+
+  const handleMapClick = useCallback((event: google.maps.MapMouseEvent) => {
+    const position = event.latLng?.toJSON();
+    if (!position) return;
+    setPlacing((prev) => (prev ? { ...prev, position } : prev));
+  }, []);
+
+  const savePlacing = useCallback(async () => {
+    if (!placing || !onPlaceItem) return;
+    setIsSavingPlace(true);
+    try {
+      await onPlaceItem(placing.item, placing.position);
+      setPlacing(null);
+    } finally {
+      setIsSavingPlace(false);
+    }
+  }, [placing, onPlaceItem]);
+
+  // Airports for flights saved without coordinates, loaded the first time the trip route is shown
+  useEffect(() => {
+    if (!showTripRoute || airportsByCode) return;
+    let cancelled = false;
+    loadReferenceData()
+      .then((data) => {
+        if (!cancelled) setAirportsByCode(data.airportsByCode);
+      })
+      .catch((err) => console.error('Error loading airports:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [showTripRoute, airportsByCode]);
+
+  const tripRoute = useMemo(() => {
+    return showTripRoute ? getTripRoute(items, airportsByCode) : null;
+  }, [showTripRoute, items, airportsByCode]);
+
+  // Points for map bounds - all mappable items (flights already excluded), and the whole
+  // trip's route when it's shown
   const boundsPoints = useMemo(() => {
-    return mappableItems.map((item) => ({ lat: item.lat!, lng: item.lng! }));
-  }, [mappableItems]);
+    const points = mappableItems.map((item) => ({ lat: item.lat!, lng: item.lng! }));
+    for (const segment of tripRoute?.segments ?? []) {
+      points.push({ lat: segment.from.lat, lng: segment.from.lng }, { lat: segment.to.lat, lng: segment.to.lng });
+    }
+    return points;
+  }, [mappableItems, tripRoute]);
 
 
   // Calculate map center based on activity density
@@ -182,11 +320,37 @@ export function ItineraryMapView({
     return mappableItems
       .sort((a, b) => {
         if (a.day !== b.day) return a.day.localeCompare(b.day);
-        return a.time.localeCompare(b.time);
+        return getItemStartInstant(a) - getItemStartInstant(b);
       })
       .map((item) => ({ lat: item.lat!, lng: item.lng! }));
   }, [mappableItems, selectedDay]);
 
+  // What a saved map of the selected day shows: all its places in order, whatever the filters
+  const snapshotStops = useMemo(() => {
+    if (selectedDay === 'all') return [];
+    return items
+      .filter((item) => item.day === selectedDay && item.type !== 'flight' && item.lat !== undefined && item.lng !== undefined)
+      .sort((a, b) => getItemStartInstant(a) - getItemStartInstant(b));
+  }, [items, selectedDay]);
+  const daySnapshot = snapshots.find((snapshot) => snapshot.day === selectedDay);
+  const isDaySnapshotCurrent = !!daySnapshot && daySnapshot.url === getStaticMapUrl(snapshotStops, googleMapsApiKey);
+
+  const handleSaveDay = useCallback(async () => {
+    if (selectedDay === 'all') return;
+    try {
+      await saveDay(selectedDay, snapshotStops);
+    } catch (err) {
+      console.error('Error saving day for offline use:', err);
+      alert('Failed to save the map for offline use. Please try again.');
+    }
+  }, [selectedDay, snapshotStops, saveDay]);
+
+  // Routes between the day's stops - the straight path above stands in when there are none
+  const dayLegs = useMemo(() => {
+    if (selectedDay === 'all') return [];
+    return travelLegs?.[selectedDay] ?? [];
+  }, [travelLegs, selectedDay]);
+
   // Fit bounds when items change - focus on activity area, not flights
   useEffect(() => {
     if (map && boundsPoints.length > 0) {
@@ -207,13 +371,11 @@ export function ItineraryMapView({
   }, []);
 
   const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr + 'T00:00:00');
-    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+    return formatDayLabel(dateStr, { weekday: 'short', month: 'short', day: 'numeric' });
   };
 
   const formatShortDate = (dateStr: string) => {
-    const date = new Date(dateStr + 'T00:00:00');
-    return date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+    return formatDayLabel(dateStr, { weekday: 'short', day: 'numeric' });
   };
 
   const navigateDay = (direction: 'prev' | 'next') => {
@@ -255,6 +417,10 @@ export function ItineraryMapView({
     };
   };
 
+  if (!isOnline && !isLoaded) {
+    return <OfflineMapSnapshots snapshots={snapshots} onRemove={removeSnapshot} formatDate={formatDate} />;
+  }
+
   if (loadError) {
     return (
       <div className="flex flex-col items-center justify-center h-full bg-slate-50 rounded-xl p-8">
@@ -294,10 +460,59 @@ export function ItineraryMapView({
           zoom={12}
           onLoad={onLoad}
           onUnmount={onUnmount}
-          options={mobileMapOptions}
+          onClick={placing ? handleMapClick : undefined}
+          options={placing ? { ...mobileMapOptions, draggableCursor: 'crosshair' } : mobileMapOptions}
         >
+          {/* Trip route - flights as great-circle arcs, ground transport as straight lines */}
+          {tripRoute?.segments.map((segment) => (
+            <Polyline
+              key={`trip-${segment.item.id}`}
+              path={[segment.from, segment.to]}
+              onClick={() => {
+                setSelectedItem(segment.item);
+                setShowDetailPanel(true);
+              }}
+              options={segment.kind === 'flight'
+                ? {
+                  strokeColor: '#4F46E5',
+                  strokeOpacity: 0.8,
+                  strokeWeight: 2,
+                  geodesic: true,
+                  icons: [{ icon: { path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW, scale: 2.5 }, offset: '50%' }],
+                }
+                : { strokeColor: '#0D9488', strokeOpacity: 0.8, strokeWeight: 3 }}
+            />
+          ))}
+          {tripRoute?.airports.map((airport) => (
+            <Marker
+              key={`airport-${airport.code || `${airport.lat},${airport.lng}`}`}
+              position={airport}
+              title={airport.name}
+              zIndex={500}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                fillColor: '#ffffff',
+                fillOpacity: 1,
+                strokeColor: '#4F46E5',
+                strokeWeight: 2,
+                scale: 6,
+                labelOrigin: new google.maps.Point(0, -2.5),
+              }}
+              label={airport.code ? { text: airport.code, color: '#312E81', fontSize: '10px', fontWeight: 'bold' } : undefined}
+            />
+          ))}
+
+          {/* Routes between the day's stops */}
+          {dayLegs.map((leg) => (
+            <Polyline
+              key={`${leg.fromItemId}-${leg.toItemId}`}
+              path={leg.route.path}
+              options={{ ...TRAVEL_MODE_LINES[leg.mode], geodesic: leg.route.estimated }}
+            />
+          ))}
+
           {/* Polyline connecting non-flight locations */}
-          {path.length > 1 && (
+          {dayLegs.length === 0 && path.length > 1 && (
             <Polyline
               path={path}
               options={{
@@ -309,21 +524,41 @@ export function ItineraryMapView({
             />
           )}
 
-          {/* Markers for locations */}
-          {mappableItems.map((item, index) => (
+          {/* Markers for locations, clustered where they crowd together */}
+          <MarkerClusterer styles={CLUSTER_STYLES} maxZoom={CLUSTER_MAX_ZOOM} averageCenter>
+            {(clusterer) => (
+              <>
+                {mappableItems.map((item, index) => (
+                  <Marker
+                    key={item.id}
+                    position={{ lat: item.lat!, lng: item.lng! }}
+                    icon={createMarkerIcon(item)}
+                    label={{
+                      text: String(index + 1),
+                      color: '#ffffff',
+                      fontSize: '11px',
+                      fontWeight: 'bold',
+                    }}
+                    clusterer={clusterer}
+                    onClick={() => handleMarkerClick(item)}
+                  />
+                ))}
+              </>
+            )}
+          </MarkerClusterer>
+
+          {/* Pin for the item being placed - moved by clicking the map or dragging it */}
+          {placing && (
             <Marker
-              key={item.id}
-              position={{ lat: item.lat!, lng: item.lng! }}
-              icon={createMarkerIcon(item)}
-              label={{
-                text: String(index + 1),
-                color: '#ffffff',
-                fontSize: '11px',
-                fontWeight: 'bold',
+              position={placing.position}
+              draggable
+              zIndex={1000}
+              onDragEnd={(event) => {
+                const position = event.latLng?.toJSON();
+                if (position) setPlacing((prev) => (prev ? { ...prev, position } : prev));
               }}
-              onClick={() => handleMarkerClick(item)}
             />
-          ))}
+          )}
 
         </GoogleMap>
 
@@ -332,60 +567,91 @@ export function ItineraryMapView({
           item={selectedItem}
           isOpen={showDetailPanel}
           onClose={handleCloseDetailPanel}
-          onEdit={handleEdit}
+          onEdit={onEdit ? handleEdit : undefined}
           formatDate={formatDate}
+          formatTime={formatTime}
+          getMemberName={getMemberName}
         />
 
         {/* Items without coordinates warning - mobile optimized */}
-        {filteredItems.length > 0 && mappableItems.length < filteredItems.length && (
+        {!showUnplacedTray && unplacedItems.length > 0 && (
           <div className="absolute top-2 left-2 right-2 md:top-4 md:left-4 md:right-4 bg-amber-50 border border-amber-200 rounded-lg p-2 md:p-3 shadow-sm">
             <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
               <p className="text-xs text-amber-700 flex items-center">
                 <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
-                <span className="hidden md:inline">{filteredItems.length - mappableItems.length} item(s) cannot be shown on map (missing coordinates)</span>
-                <span className="md:hidden">{filteredItems.length - mappableItems.length} missing location(s)</span>
+                <span className="hidden md:inline">{unplacedItems.length} item(s) cannot be shown on map (missing coordinates)</span>
+                <span className="md:hidden">{unplacedItems.length} missing location(s)</span>
               </p>
-              {onGeocodeItems && (
-                <button
-                  onClick={() => {
-                    const itemsToGeocode = filteredItems.filter(item => !item.lat || !item.lng);
-                    onGeocodeItems(itemsToGeocode);
-                  }}
-                  disabled={isGeocoding}
-                  className="w-full md:w-auto px-3 py-1.5 bg-amber-600 text-white text-xs font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center whitespace-nowrap"
-                >
-                  {isGeocoding ? (
-                    <>
-                      <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
-                      Detecting...
-                    </>
-                  ) : (
-                    <>
-                      <MapPin className="w-3 h-3 mr-1.5" />
-                      Auto-detect
-                    </>
-                  )}
-                </button>
-              )}
+              <div className="flex flex-col md:flex-row gap-2">
+                {onPlaceItem && (
+                  <button
+                    onClick={() => setShowUnplacedTray(true)}
+                    className="w-full md:w-auto px-3 py-1.5 bg-white border border-amber-300 text-amber-700 text-xs font-medium rounded-lg hover:bg-amber-100 flex items-center justify-center whitespace-nowrap"
+                  >
+                    <MapPin className="w-3 h-3 mr-1.5" />
+                    Place by hand
+                  </button>
+                )}
+                {onGeocodeItems && (
+                  <button
+                    onClick={() => onGeocodeItems(unplacedItems)}
+                    disabled={isGeocoding}
+                    className="w-full md:w-auto px-3 py-1.5 bg-amber-600 text-white text-xs font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center whitespace-nowrap"
+                  >
+                    {isGeocoding ? (
+                      <>
+                        <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                        Detecting...
+                      </>
+                    ) : (
+                      <>
+                        <MapPin className="w-3 h-3 mr-1.5" />
+                        Auto-detect
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         )}
 
-        {/* Legend - Hidden on mobile, visible on tablet and up */}
-        <div className="hidden md:block absolute bottom-4 right-4 bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border border-slate-200">
-          <p className="text-xs font-medium text-slate-600 mb-2">Categories</p>
-          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
-            {Object.entries(CATEGORY_COLORS).slice(0, 6).map(([category, color]) => (
-              <div key={category} className="flex items-center space-x-1.5">
-                <div
-                  className="w-2.5 h-2.5 rounded-full"
-                  style={{ backgroundColor: color }}
-                />
-                <span className="text-xs text-slate-500 capitalize">{category}</span>
-              </div>
-            ))}
+        {/* Items to place by hand */}
+        {showUnplacedTray && (
+          <UnplacedItemsTray
+            items={unplacedItems}
+            placingItemId={placing?.item.id ?? null}
+            onPlace={startPlacing}
+            onClose={() => {
+              setShowUnplacedTray(false);
+              setPlacing(null);
+            }}
+            formatDate={formatDate}
+            formatTime={formatTime}
+          />
+        )}
+
+        {/* Confirm where the item being placed goes */}
+        {placing && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-white rounded-lg shadow-lg border border-slate-200 px-3 py-2 z-10">
+            <span className="text-xs text-slate-600 max-w-[10rem] truncate">{placing.item.location}</span>
+            <button
+              onClick={() => setPlacing(null)}
+              disabled={isSavingPlace}
+              className="px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={savePlacing}
+              disabled={isSavingPlace}
+              className="px-2 py-1 bg-indigo-600 text-white text-xs font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50 flex items-center"
+            >
+              {isSavingPlace ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Check className="w-3 h-3 mr-1" />}
+              Save location
+            </button>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Timeline Navigation - Mobile optimized */}
@@ -456,13 +722,74 @@ export function ItineraryMapView({
           })}
         </div>
 
+        {/* Filters - category toggles (also the map's legend) and done/not done */}
+        <div className="flex flex-wrap items-center gap-1.5 mt-2">
+          {Object.entries(CATEGORY_COLORS).map(([category, color]) => {
+            const isHidden = hiddenCategories.has(category);
+            return (
+              <button
+                key={category}
+                onClick={() => toggleCategory(category)}
+                className={`flex items-center px-2 py-1 rounded-full text-xs capitalize transition-colors touch-manipulation ${
+                  isHidden ? 'bg-slate-50 text-slate-400 line-through' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                <span
+                  className="w-2.5 h-2.5 rounded-full mr-1.5"
+                  style={{ backgroundColor: isHidden ? '#CBD5E1' : color }}
+                />
+                {category}
+              </button>
+            );
+          })}
+          <button
+            onClick={() => setShowTripRoute((shown) => !shown)}
+            className={`flex items-center px-2 py-1 rounded-full text-xs transition-colors touch-manipulation ${
+              showTripRoute ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+            }`}
+          >
+            <Plane className="w-3 h-3 mr-1.5" />
+            Trip route
+          </button>
+          {selectedDay !== 'all' && snapshotStops.length > 0 && (
+            <button
+              onClick={handleSaveDay}
+              disabled={!isOnline || savingDay !== null || isDaySnapshotCurrent}
+              title={isDaySnapshotCurrent ? 'This day\'s map is saved on this device' : 'Save a picture of this day\'s map to see offline'}
+              className="flex items-center px-2 py-1 rounded-full text-xs bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:hover:bg-slate-100 disabled:opacity-60 transition-colors touch-manipulation"
+            >
+              {savingDay === selectedDay ? (
+                <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+              ) : isDaySnapshotCurrent ? (
+                <CloudCheck className="w-3 h-3 mr-1.5" />
+              ) : (
+                <CloudDownload className="w-3 h-3 mr-1.5" />
+              )}
+              {isDaySnapshotCurrent ? 'Saved offline' : daySnapshot ? 'Update offline map' : 'Save offline'}
+            </button>
+          )}
+          <div className="flex ml-auto bg-slate-100 rounded-full p-0.5">
+            {COMPLETION_FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setCompletionFilter(value)}
+                className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                  completionFilter === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Day Items List - Improved for mobile (excludes flights) */}
         {selectedDay !== 'all' && filteredItems.filter(i => i.type !== 'flight').length > 0 && (
           <div className="mt-2 md:mt-3 pt-2 md:pt-3 border-t border-slate-100">
             <div className="space-y-1.5 md:space-y-2 max-h-32 md:max-h-40 overflow-y-auto">
               {filteredItems
                 .filter((item) => item.type !== 'flight')
-                .sort((a, b) => a.time.localeCompare(b.time))
+                .sort((a, b) => getItemStartInstant(a) - getItemStartInstant(b))
                 .map((item, index) => {
                   const IconComponent = getCategoryIcon(item);
                   return (
@@ -491,7 +818,7 @@ export function ItineraryMapView({
                           {item.location}
                         </p>
                         <div className="flex items-center text-xs text-slate-400">
-                          {item.time && <span>{item.time}</span>}
+                          {item.time && <span>{formatTime(item)}</span>}
                           {!item.lat && !item.lng && (
                             <span className="ml-2 text-amber-500 text-[11px]">No location</span>
                           )}
@@ -0,0 +1,371 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Home, Plane } from 'lucide-react';
+import type { DisplayItineraryItem, ItineraryItem } from '../types';
+import { getDayGridLayout, type DayGridLayout, type TimelineBlock } from '../services/timeline';
+import { addMinutesToTime, getDeviceTimeZone, instantToZonedTime } from '../services/timezones';
+import { daysBetween, shiftDate } from '../services/trips';
+
+const HOUR_HEIGHT = 48; // px
+const MINUTES_PER_DAY = 24 * 60;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Dragging moves items in steps of this many minutes
+const SNAP_MINUTES = 15;
+
+// Pointer movement smaller than this is a click, not a drag
+const DRAG_THRESHOLD_PX = 4;
+
+// The grid opens scrolled to this hour
+const FIRST_VISIBLE_HOUR = 7;
+
+// Blocks are at least this tall so short items stay readable
+const MIN_BLOCK_HEIGHT = 20;
+
+const CATEGORY_COLORS: Record<string, string> = {
+  sightseeing: '#8B5CF6',
+  food: '#F97316',
+  lodging: '#F59E0B',
+  nature: '#22C55E',
+  shopping: '#EC4899',
+  transport: '#6366F1',
+  entertainment: '#EAB308',
+  flight: '#0EA5E9',
+};
+
+type TimelineScope = 'day' | 'trip';
+
+export type RescheduleUpdates = Pick<ItineraryItem, 'day' | 'time' | 'endTime'>;
+
+interface ItineraryTimelineViewProps {
+  itemsByDay: Record<string, DisplayItineraryItem[]>;
+  tripStartDate: string;
+  tripEndDate: string;
+  onViewDetails: (item: ItineraryItem) => void;
+  onReschedule?: (item: ItineraryItem, updates: RescheduleUpdates) => void;
+  formatDate: (dateStr: string) => string;
+}
+
+/**
+ * A block being dragged: moved to another time (and in the trip grid, another day),
+ * or resized from its bottom edge to change when it ends
+ */
+interface DragState {
+  block: TimelineBlock;
+  day: string;
+  mode: 'move' | 'resize';
+  pointerId: number;
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  deltaMinutes: number;
+  deltaDays: number;
+  moved: boolean;
+}
+
+function minutesToTime(minutes: number): string {
+  return addMinutesToTime('00:00', minutes);
+}
+
+function getBlockTitle(item: DisplayItineraryItem): string {
+  if (!item.journey) return item.location;
+  const legs = item.journey.legs;
+  const from = legs[0].departureAirportCode || legs[0].location;
+  const to = legs[legs.length - 1].arrivalAirportCode || legs[legs.length - 1].arrivalLocation;
+  return `${from} → ${to}`;
+}
+
+/**
+ * Only activities can be dragged - flight times are set by the airline and stays span days
+ */
+function isDraggable(block: TimelineBlock): boolean {
+  return block.item.type === 'activity' && block.item.category !== 'lodging' && !block.item.isVirtual;
+}
+
+/**
+ * What a finished drag changes, or null if the item ends up where it was
+ */
+function getRescheduleUpdates(drag: DragState, days: string[]): RescheduleUpdates | null {
+  const { item, endMinute } = drag.block;
+  if (drag.mode === 'resize') {
+    if (drag.deltaMinutes === 0) return null;
+    return { day: item.day, time: item.time, endTime: minutesToTime(endMinute + drag.deltaMinutes) };
+  }
+
+  const day = days[days.indexOf(drag.day) + drag.deltaDays] || item.day;
+  if (drag.deltaMinutes === 0 && day === item.day) return null;
+  return {
+    day,
+    time: addMinutesToTime(item.time, drag.deltaMinutes),
+    // Moving keeps the length; an open-ended item stays open-ended
+    endTime: item.endTime ? addMinutesToTime(item.endTime, drag.deltaMinutes) : '',
+  };
+}
+
+/**
+ * Itinerary as an hour grid: one day at a time, or every day of the trip side by side.
+ * Flights are drawn as blocks spanning the time in the air, stays as bands behind the day.
+ */
+export const ItineraryTimelineView = memo(function ItineraryTimelineView({
+  itemsByDay,
+  tripStartDate,
+  tripEndDate,
+  onViewDetails,
+  onReschedule,
+  formatDate,
+}: ItineraryTimelineViewProps) {
+  const [scope, setScope] = useState<TimelineScope>('day');
+  const [today] = useState(() => instantToZonedTime(Date.now(), getDeviceTimeZone()).day);
+  const [selectedDay, setSelectedDay] = useState('');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Every day of the trip, plus any day with items outside it
+  const days = useMemo(() => {
+    const tripDays = tripStartDate && tripEndDate && tripEndDate >= tripStartDate
+      ? Array.from({ length: daysBetween(tripStartDate, tripEndDate) + 1 }, (_, index) => shiftDate(tripStartDate, index))
+      : [];
+    return [...new Set([...tripDays, ...Object.keys(itemsByDay)])].sort();
+  }, [itemsByDay, tripStartDate, tripEndDate]);
+
+  const layouts = useMemo(() => {
+    const result: Record<string, DayGridLayout> = {};
+    for (const day of days) result[day] = getDayGridLayout(itemsByDay[day] || []);
+    return result;
+  }, [days, itemsByDay]);
+
+  // Open on today during the trip, otherwise its first day
+  const activeDay = days.includes(selectedDay) ? selectedDay : days.includes(today) ? today : days[0];
+  const activeIndex = days.indexOf(activeDay);
+  const visibleDays = scope === 'day' ? (activeDay ? [activeDay] : []) : days;
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+  }, [scope]);
+
+  const startDrag = (event: React.PointerEvent<HTMLElement>, block: TimelineBlock, day: string, mode: DragState['mode']) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      block,
+      day,
+      mode,
+      pointerId: event.pointerId,
+      originX: event.clientX,
+      originY: event.clientY,
+      columnWidth: event.currentTarget.closest<HTMLElement>('[data-day]')?.offsetWidth || 0,
+      deltaMinutes: 0,
+      deltaDays: 0,
+      moved: false,
+    });
+  };
+
+  const moveDrag = (event: React.PointerEvent<HTMLElement>) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const dx = event.clientX - drag.originX;
+    const dy = event.clientY - drag.originY;
+    const { startMinute, endMinute } = drag.block;
+
+    const snapped = Math.round((dy / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    const deltaMinutes = drag.mode === 'resize'
+      ? Math.min(Math.max(snapped, startMinute + SNAP_MINUTES - endMinute), MINUTES_PER_DAY - endMinute)
+      : Math.min(Math.max(snapped, -startMinute), MINUTES_PER_DAY - SNAP_MINUTES - startMinute);
+
+    const dayIndex = days.indexOf(drag.day);
+    const deltaDays = scope === 'trip' && drag.mode === 'move' && drag.columnWidth
+      ? Math.min(Math.max(Math.round(dx / drag.columnWidth), -dayIndex), days.length - 1 - dayIndex)
+      : 0;
+
+    setDrag({
+      ...drag,
+      deltaMinutes,
+      deltaDays,
+      moved: drag.moved || Math.abs(dx) > DRAG_THRESHOLD_PX || Math.abs(dy) > DRAG_THRESHOLD_PX,
+    });
+  };
+
+  const endDrag = (event: React.PointerEvent<HTMLElement>) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    setDrag(null);
+    if (!drag.moved) {
+      onViewDetails(drag.block.item);
+      return;
+    }
+    const updates = getRescheduleUpdates(drag, days);
+    if (updates) onReschedule?.(drag.block.item, updates);
+  };
+
+  const renderBlock = (block: TimelineBlock, day: string) => {
+    const { item } = block;
+    const isDragged = drag?.block.item.id === item.id && drag.day === day;
+    const canDrag = !!onReschedule && isDraggable(block);
+    const startMinute = block.startMinute + (isDragged && drag.mode === 'move' ? drag.deltaMinutes : 0);
+    const endMinute = block.endMinute + (isDragged ? drag.deltaMinutes : 0);
+    const color = CATEGORY_COLORS[item.type === 'flight' ? 'flight' : item.category || 'sightseeing'] || '#6366F1';
+
+    return (
+      <div
+        key={`${item.id}-${day}`}
+        onClick={canDrag ? undefined : () => onViewDetails(item)}
+        onPointerDown={canDrag ? (event) => startDrag(event, block, day, 'move') : undefined}
+        onPointerMove={canDrag ? moveDrag : undefined}
+        onPointerUp={canDrag ? endDrag : undefined}
+        onPointerCancel={canDrag ? () => setDrag(null) : undefined}
+        className={`absolute rounded-md border-l-4 px-1.5 py-0.5 text-xs overflow-hidden select-none ${
+          canDrag ? 'cursor-grab touch-none' : 'cursor-pointer'
+        } ${isDragged ? 'z-20 shadow-lg ring-2 ring-indigo-400 cursor-grabbing' : 'z-10 hover:shadow-sm'} ${
+          item.completed ? 'opacity-60' : ''
+        } ${block.hasEnd ? '' : 'border-b border-dashed'}`}
+        style={{
+          top: (startMinute / 60) * HOUR_HEIGHT,
+          height: Math.max(((endMinute - startMinute) / 60) * HOUR_HEIGHT, MIN_BLOCK_HEIGHT),
+          left: `calc(${(block.lane / block.lanes) * 100}% + 2px)`,
+          width: `calc(${100 / block.lanes}% - 4px)`,
+          transform: isDragged && drag.deltaDays ? `translateX(${drag.deltaDays * drag.columnWidth}px)` : undefined,
+          backgroundColor: `${color}1F`,
+          borderLeftColor: color,
+          borderBottomColor: color,
+        }}
+        title={`${getBlockTitle(item)}${item.notes ? `\n${item.notes}` : ''}`}
+      >
+        <div className="flex items-center text-[10px] text-slate-500">
+          {item.journey && <Plane className="w-3 h-3 mr-0.5 shrink-0" style={{ color }} />}
+          {block.continuesBefore ? '…' : minutesToTime(startMinute)}
+          {' – '}
+          {block.continuesAfter ? '…' : minutesToTime(endMinute)}
+        </div>
+        <div className={`font-medium text-slate-800 truncate ${item.completed ? 'line-through' : ''}`}>
+          {getBlockTitle(item)}
+        </div>
+        {canDrag && (
+          <div
+            onPointerDown={(event) => startDrag(event, block, day, 'resize')}
+            className="absolute bottom-0 inset-x-0 h-2 cursor-ns-resize"
+            title="Drag to change when it ends"
+          />
+        )}
+      </div>
+    );
+  };
+
+  if (days.length === 0) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl border border-dashed border-slate-300 text-slate-400">
+        No days to show yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-100">
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {(['day', 'trip'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                scope === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {option === 'day' ? 'Day' : 'Whole trip'}
+            </button>
+          ))}
+        </div>
+        {scope === 'day' && (
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setSelectedDay(days[activeIndex - 1])}
+              disabled={activeIndex <= 0}
+              className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+              title="Previous day"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm font-medium text-slate-700 w-28 text-center">{formatDate(activeDay)}</span>
+            <button
+              onClick={() => setSelectedDay(days[activeIndex + 1])}
+              disabled={activeIndex >= days.length - 1}
+              className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+              title="Next day"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="overflow-auto max-h-[calc(100vh-280px)]">
+        <div style={{ minWidth: scope === 'trip' ? 48 + visibleDays.length * 120 : undefined }}>
+          {/* Day headers with untimed items */}
+          <div className="flex sticky top-0 z-30 bg-white border-b border-slate-200">
+            <div className="w-12 shrink-0 sticky left-0 bg-white" />
+            {visibleDays.map((day) => (
+              <div key={day} className="flex-1 min-w-[120px] border-l border-slate-100 px-1 py-1.5 space-y-1">
+                {scope === 'trip' && (
+                  <button
+                    onClick={() => { setSelectedDay(day); setScope('day'); }}
+                    className="block w-full text-xs font-semibold text-indigo-600 text-center hover:underline"
+                  >
+                    {formatDate(day)}
+                  </button>
+                )}
+                {layouts[day].allDay.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => onViewDetails(item)}
+                    className="block w-full truncate text-left px-1.5 py-0.5 rounded bg-slate-100 text-[11px] text-slate-700 hover:bg-slate-200"
+                  >
+                    {getBlockTitle(item)}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Hour grid */}
+          <div className="flex">
+            <div className="w-12 shrink-0 sticky left-0 z-20 bg-white">
+              {HOURS.map((hour) => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-[10px] text-slate-400 text-right pr-1.5">
+                  {minutesToTime(hour * 60)}
+                </div>
+              ))}
+            </div>
+            {visibleDays.map((day) => (
+              <div
+                key={day}
+                data-day={day}
+                className="relative flex-1 min-w-[120px] border-l border-slate-100"
+                style={{
+                  height: 24 * HOUR_HEIGHT,
+                  backgroundImage: 'linear-gradient(to bottom, #f1f5f9 1px, transparent 1px)',
+                  backgroundSize: `100% ${HOUR_HEIGHT}px`,
+                }}
+              >
+                {layouts[day].bands.map((band) => (
+                  <div
+                    key={`${band.item.id}-${band.startMinute}`}
+                    onClick={() => onViewDetails(band.item)}
+                    className="absolute inset-x-0 bg-amber-50/80 border-l-4 border-amber-300 cursor-pointer"
+                    style={{
+                      top: (band.startMinute / 60) * HOUR_HEIGHT,
+                      height: ((band.endMinute - band.startMinute) / 60) * HOUR_HEIGHT,
+                    }}
+                  >
+                    <div className="flex items-center px-1.5 pt-0.5 text-[10px] text-amber-700 truncate">
+                      <Home className="w-3 h-3 mr-0.5 shrink-0" />
+                      <span className="truncate">{band.item.location}</span>
+                    </div>
+                  </div>
+                ))}
+                {layouts[day].blocks.map((block) => renderBlock(block, day))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
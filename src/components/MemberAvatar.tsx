@@ -0,0 +1,65 @@
+import { memo, useState } from 'react';
+import { getInitials } from '../services/members';
+
+interface MemberAvatarProps {
+  name: string;
+  photoURL?: string;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: 'w-6 h-6 text-[10px]',
+  md: 'w-8 h-8 text-xs',
+  lg: 'w-16 h-16 text-xl',
+};
+
+// Background colors for initials, picked from the name so each member keeps theirs
+const COLORS = [
+  'bg-indigo-500',
+  'bg-sky-500',
+  'bg-emerald-500',
+  'bg-amber-500',
+  'bg-rose-500',
+  'bg-violet-500',
+  'bg-teal-500',
+];
+
+function colorFor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return COLORS[Math.abs(hash) % COLORS.length];
+}
+
+/**
+ * Round avatar showing a profile photo, or the member's initials when there isn't one
+ */
+export const MemberAvatar = memo(function MemberAvatar({
+  name,
+  photoURL,
+  size = 'md',
+  className = '',
+}: MemberAvatarProps) {
+  const [failedURL, setFailedURL] = useState<string | null>(null);
+  const showPhoto = !!photoURL && failedURL !== photoURL;
+
+  return showPhoto ? (
+    <img
+      src={photoURL}
+      alt={name}
+      title={name}
+      referrerPolicy="no-referrer"
+      onError={() => setFailedURL(photoURL)}
+      className={`${SIZE_CLASSES[size]} rounded-full object-cover shrink-0 ${className}`}
+    />
+  ) : (
+    <span
+      title={name}
+      className={`${SIZE_CLASSES[size]} ${colorFor(name)} rounded-full text-white font-semibold flex items-center justify-center shrink-0 ${className}`}
+    >
+      {getInitials(name)}
+    </span>
+  );
+});
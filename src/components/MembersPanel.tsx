@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { X, Settings } from 'lucide-react';
+
+import type { Trip, UserProfile } from '../types';
+import { ROLE_LABELS, getMemberRole } from '../services/permissions';
+import { formatLastSeen, isPresenceActive } from '../services/members';
+import { MemberAvatar } from './MemberAvatar';
+
+interface MembersPanelProps {
+  trip: Trip;
+  currentUserId: string;
+  profiles: Record<string, UserProfile>;
+  getMemberName: (uid: string) => string;
+  lastSeen: Record<string, number>;
+  now: number;
+  onClose: () => void;
+  onOpenSettings?: () => void; // owners manage members from Trip Settings
+}
+
+/**
+ * Members modal - who is in the trip, their role, and who is viewing it right now
+ */
+export function MembersPanel({
+  trip,
+  currentUserId,
+  profiles,
+  getMemberName,
+  lastSeen,
+  now,
+  onClose,
+  onOpenSettings,
+}: MembersPanelProps) {
+  // Current user first, then whoever is online, then by name
+  const members = useMemo(() => {
+    const rank = (uid: string) =>
+      uid === currentUserId ? 0 : isPresenceActive(lastSeen[uid], now) ? 1 : 2;
+    return [...(trip.members || [])].sort(
+      (a, b) => rank(a) - rank(b) || getMemberName(a).localeCompare(getMemberName(b))
+    );
+  }, [trip.members, currentUserId, lastSeen, now, getMemberName]);
+
+  const activeCount = members.filter((uid) => isPresenceActive(lastSeen[uid], now)).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-800">Members ({members.length})</h2>
+            <p className="text-xs text-slate-500">{activeCount} viewing now</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-1">
+          {members.map((uid) => {
+            const role = getMemberRole(trip, uid) || 'viewer';
+            const isActive = isPresenceActive(lastSeen[uid], now);
+            return (
+              <div key={uid} className="flex items-center p-2 rounded-lg hover:bg-slate-50">
+                <div className="relative shrink-0">
+                  <MemberAvatar name={getMemberName(uid)} photoURL={profiles[uid]?.photoURL} />
+                  {isActive && (
+                    <span className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-green-500 border-2 border-white rounded-full" />
+                  )}
+                </div>
+                <div className="ml-3 min-w-0 flex-1">
+                  <p className="text-sm text-slate-700 truncate">
+                    {getMemberName(uid)}
+                    {uid === currentUserId && profiles[uid]?.displayName && (
+                      <span className="text-slate-400"> ({profiles[uid].displayName})</span>
+                    )}
+                  </p>
+                  <p className={`text-xs ${isActive ? 'text-green-600' : 'text-slate-400'}`}>
+                    {isActive ? 'Viewing now' : formatLastSeen(lastSeen[uid], now)}
+                  </p>
+                </div>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full shrink-0 ${
+                    role === 'owner' ? 'bg-indigo-100 text-indigo-800' : 'bg-slate-100 text-slate-600'
+                  }`}
+                >
+                  {ROLE_LABELS[role]}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {onOpenSettings && (
+          <div className="p-4 border-t border-slate-200 flex justify-end">
+            <button
+              onClick={onOpenSettings}
+              className="flex items-center px-4 py-2 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg font-medium"
+            >
+              <Settings className="w-4 h-4 mr-2" /> Manage members
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { CloudOff, Trash2 } from 'lucide-react';
+
+import type { MapSnapshot } from '../services/offline';
+
+interface OfflineMapSnapshotsProps {
+  snapshots: MapSnapshot[];
+  onRemove: (snapshot: MapSnapshot) => void;
+  formatDate: (dateStr: string) => string;
+}
+
+/**
+ * Stands in for the map when it can't load offline: the day maps saved on this device
+ */
+export function OfflineMapSnapshots({ snapshots, onRemove, formatDate }: OfflineMapSnapshotsProps) {
+  return (
+    <div className="h-full overflow-y-auto bg-slate-50 rounded-xl p-4 md:p-6">
+      <div className="flex items-center text-slate-600 mb-4">
+        <CloudOff className="w-5 h-5 mr-2 text-slate-400 shrink-0" />
+        <p className="text-sm">
+          The map needs a connection.{' '}
+          {snapshots.length > 0
+            ? 'These day maps are saved on this device:'
+            : 'Save a day\'s map for offline use while you\'re online to see it here.'}
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {snapshots.map((snapshot) => (
+          <figure key={snapshot.day} className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+            <img
+              src={snapshot.url}
+              alt={`Map of ${formatDate(snapshot.day)}`}
+              className="w-full aspect-[8/5] object-cover bg-slate-100"
+            />
+            <figcaption className="flex items-center justify-between px-3 py-2">
+              <span className="min-w-0">
+                <span className="block text-sm font-medium text-slate-700 truncate">{formatDate(snapshot.day)}</span>
+                <span className="block text-xs text-slate-400">
+                  {snapshot.stopCount} {snapshot.stopCount === 1 ? 'stop' : 'stops'} · saved{' '}
+                  {new Date(snapshot.savedAt).toLocaleDateString()}
+                </span>
+              </span>
+              <button
+                onClick={() => onRemove(snapshot)}
+                className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Remove from this device"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { CloudCheck, CloudOff, CloudUpload, Loader2 } from 'lucide-react';
+
+interface OfflineStatusBadgeProps {
+  isOnline: boolean;
+  isAvailableOffline: boolean;
+  pendingWrites: number;
+}
+
+/**
+ * Header badge showing whether the trip can be used offline and how many edits are waiting to sync
+ */
+export function OfflineStatusBadge({ isOnline, isAvailableOffline, pendingWrites }: OfflineStatusBadgeProps) {
+  let status;
+  if (!isOnline) {
+    status = (
+      <span className="flex items-center" title="No connection - showing the copy saved on this device">
+        <CloudOff className="w-3.5 h-3.5 mr-1" /> Offline
+      </span>
+    );
+  } else if (isAvailableOffline) {
+    status = (
+      <span className="flex items-center" title="This trip is saved on this device and opens without a connection">
+        <CloudCheck className="w-3.5 h-3.5 mr-1" /> Available offline
+      </span>
+    );
+  } else {
+    status = (
+      <span className="flex items-center" title="Saving this trip on this device">
+        <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> Syncing
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center shrink-0 space-x-2">
+      {status}
+      {pendingWrites > 0 && (
+        <span
+          className="flex items-center px-1.5 py-0.5 bg-amber-400 text-amber-950 rounded-full font-medium"
+          title={isOnline ? 'Edits being sent' : 'Edits saved on this device, sent when you\'re back online'}
+        >
+          <CloudUpload className="w-3 h-3 mr-1" />
+          {pendingWrites} {pendingWrites === 1 ? 'edit' : 'edits'} to sync
+        </span>
+      )}
+    </span>
+  );
+}
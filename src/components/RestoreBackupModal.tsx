@@ -0,0 +1,264 @@
+import { useState, useRef } from 'react';
+import { X, Upload, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+import type { Trip } from '../types';
+import { useTripBackup, type BackupRestoreResult } from '../hooks';
+import { parseTripBackup, type ParsedBackup } from '../services/backup';
+import { canEditTrip } from '../services/permissions';
+
+interface RestoreBackupModalProps {
+  currentUserId: string;
+  trips: Trip[];
+  onClose: () => void;
+  onOpenTrip: (id: string) => void;
+}
+
+type RestoreMode = 'new' | 'merge';
+
+/**
+ * Restore backup modal - check a backup file, then restore it as a new trip
+ * or merge it into an existing one without duplicating what's already there
+ */
+export function RestoreBackupModal({ currentUserId, trips, onClose, onOpenTrip }: RestoreBackupModalProps) {
+  const { restoreAsNewTrip, mergeIntoTrip } = useTripBackup(currentUserId);
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('new');
+  const [targetTripId, setTargetTripId] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<BackupRestoreResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Trips a backup can be merged into
+  const editableTrips = trips.filter((trip) => !trip.deletedAt && canEditTrip(trip, currentUserId));
+  const targetTrip = editableTrips.find((trip) => trip.id === targetTripId);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const backup = parseTripBackup(event.target?.result as string);
+        // Suggest merging into the trip the backup was made from, if the user has it
+        const sameTrip = editableTrips.find((trip) => trip.name === backup.backup.trip.name);
+        setParsed(backup);
+        setFileName(file.name);
+        setMode(sameTrip ? 'merge' : 'new');
+        setTargetTripId(sameTrip?.id || editableTrips[0]?.id || '');
+        setResult(null);
+        setError('');
+      } catch (err) {
+        setParsed(null);
+        setError(err instanceof Error ? err.message : 'Could not read this file.');
+      }
+    };
+    reader.onerror = () => setError('Could not read this file.');
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleRestore = async () => {
+    if (!parsed) return;
+    setError('');
+    setIsRestoring(true);
+    try {
+      setResult(
+        mode === 'merge' && targetTrip
+          ? await mergeIntoTrip(parsed.backup, targetTrip)
+          : await restoreAsNewTrip(parsed.backup)
+      );
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const backup = parsed?.backup;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800">Import Backup</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+        />
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {result ? (
+            <div className="text-center py-4">
+              <CheckCircle2 className="w-10 h-10 text-green-500 mx-auto mb-3" />
+              <p className="text-slate-800 font-medium mb-1">Backup restored</p>
+              <p className="text-sm text-slate-500">
+                Added {result.added} record{result.added !== 1 ? 's' : ''}
+                {result.duplicates > 0 && `, skipped ${result.duplicates} already in the trip`}.
+              </p>
+              {result.failed > 0 && (
+                <p className="flex items-start text-left mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                  <AlertTriangle className="w-3.5 h-3.5 mr-1 mt-0.5 shrink-0" />
+                  {result.failed} record{result.failed !== 1 ? 's' : ''} couldn't be added. Import the
+                  backup again, merging it into this trip, to add the rest.
+                </p>
+              )}
+              <div className="flex space-x-2 mt-6">
+                <button
+                  onClick={onClose}
+                  className="flex-1 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 text-sm"
+                >
+                  Done
+                </button>
+                <button
+                  onClick={() => onOpenTrip(result.tripId)}
+                  className="flex-1 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+                >
+                  Open trip
+                </button>
+              </div>
+            </div>
+          ) : !backup ? (
+            <>
+              <p className="text-sm text-slate-500">
+                Choose a backup file (.json) exported from TravelSync. You can check what's in it before
+                anything is restored.
+              </p>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-8 border-2 border-dashed border-slate-300 rounded-lg text-slate-500 hover:border-indigo-400 hover:text-indigo-600 flex flex-col items-center transition-colors"
+              >
+                <Upload className="w-6 h-6 mb-2" />
+                <span className="text-sm font-medium">Choose backup file</span>
+              </button>
+            </>
+          ) : (
+            <>
+              {/* What's in the file */}
+              <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-slate-800 truncate">{backup.trip.name}</span>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-xs text-indigo-600 hover:text-indigo-700 font-medium shrink-0 ml-2"
+                  >
+                    Choose another file
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 mt-1 truncate">{fileName}</p>
+                <p className="text-xs text-slate-600 mt-2">
+                  {backup.itinerary.length} itinerary item{backup.itinerary.length !== 1 ? 's' : ''},{' '}
+                  {backup.expenses.length} expense{backup.expenses.length !== 1 ? 's' : ''},{' '}
+                  {backup.tasks.length} task{backup.tasks.length !== 1 ? 's' : ''}
+                </p>
+              </div>
+
+              {(parsed.skipped > 0 || parsed.upgradedFrom !== null) && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+                  {parsed.skipped > 0 && (
+                    <p className="flex items-start">
+                      <AlertTriangle className="w-3.5 h-3.5 mr-1 mt-0.5 shrink-0" />
+                      {parsed.skipped} damaged record{parsed.skipped !== 1 ? 's' : ''} will be left out.
+                    </p>
+                  )}
+                  {parsed.upgradedFrom !== null && (
+                    <p className="flex items-start">
+                      <AlertTriangle className="w-3.5 h-3.5 mr-1 mt-0.5 shrink-0" />
+                      This backup is from an older version of TravelSync. Links between tasks and
+                      itinerary items can't be restored.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Where to restore it */}
+              <div className="space-y-2">
+                <label className="flex items-start p-3 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50">
+                  <input
+                    type="radio"
+                    className="mt-1 mr-3"
+                    checked={mode === 'new'}
+                    onChange={() => setMode('new')}
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-slate-800">Restore as a new trip</p>
+                    <p className="text-xs text-slate-500">Creates "{backup.trip.name} (Restored)".</p>
+                  </div>
+                </label>
+                <label
+                  className={`flex items-start p-3 border border-slate-200 rounded-lg ${
+                    editableTrips.length > 0 ? 'cursor-pointer hover:bg-slate-50' : 'opacity-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    className="mt-1 mr-3"
+                    checked={mode === 'merge'}
+                    disabled={editableTrips.length === 0}
+                    onChange={() => setMode('merge')}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800">Merge into an existing trip</p>
+                    <p className="text-xs text-slate-500">
+                      Adds what's missing. Items, expenses and tasks already in the trip are skipped.
+                    </p>
+                    {mode === 'merge' && (
+                      <select
+                        value={targetTripId}
+                        onChange={(e) => setTargetTripId(e.target.value)}
+                        className="w-full mt-2 p-2 border border-slate-300 rounded-lg text-sm bg-white"
+                      >
+                        {editableTrips.map((trip) => (
+                          <option key={trip.id} value={trip.id}>
+                            {trip.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </label>
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={onClose}
+                  className="flex-1 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={isRestoring || (mode === 'merge' && !targetTrip)}
+                  className="flex-1 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm flex items-center justify-center"
+                >
+                  {isRestoring && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {mode === 'merge' ? 'Merge' : 'Restore'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
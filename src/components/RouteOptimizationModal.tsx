@@ -0,0 +1,122 @@
+import { X, Route, Loader2, ArrowRight } from 'lucide-react';
+
+import type { DisplayItineraryItem, ItineraryItem } from '../types';
+import type { RoutePlan } from '../services/routeOptimization';
+
+interface RouteOptimizationModalProps {
+  plan: RoutePlan;
+  isApplying: boolean;
+  onApply: () => void;
+  onClose: () => void;
+  formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem) => string;
+}
+
+function formatKm(km: number): string {
+  return `${km.toFixed(1)} km`;
+}
+
+function StopList({
+  title,
+  items,
+  movedIds,
+  formatTime,
+}: {
+  title: string;
+  items: DisplayItineraryItem[];
+  movedIds: Set<string>;
+  formatTime: (item: ItineraryItem) => string;
+}) {
+  return (
+    <div className="flex-1 min-w-0">
+      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">{title}</h3>
+      <ol className="space-y-1">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            className={`flex items-start text-sm rounded-md px-2 py-1 ${movedIds.has(item.id) ? 'bg-indigo-50' : ''}`}
+          >
+            <span className="w-5 shrink-0 text-xs text-slate-400 mt-0.5">{index + 1}</span>
+            <span className="min-w-0">
+              <span className="block truncate text-slate-800">
+                {item.type === 'flight' ? item.flightNumber || item.location : item.location}
+              </span>
+              {item.time && <span className="block text-xs text-slate-500">{formatTime(item)}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/**
+ * Before/after preview of a day's stops in the shortest order, to apply or dismiss
+ */
+export function RouteOptimizationModal({
+  plan,
+  isApplying,
+  onApply,
+  onClose,
+  formatDate,
+  formatTime,
+}: RouteOptimizationModalProps) {
+  const movedIds = new Set(plan.moves.map((move) => move.id));
+  const savedKm = plan.distanceBeforeKm - plan.distanceAfterKm;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center">
+            <Route className="w-5 h-5 mr-2 text-indigo-600" />
+            Optimize {formatDate(plan.day)}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="flex items-center justify-center p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-800">
+            <span>{formatKm(plan.distanceBeforeKm)}</span>
+            <ArrowRight className="w-4 h-4 mx-2" />
+            <span className="font-semibold">{formatKm(plan.distanceAfterKm)}</span>
+            <span className="ml-2">· saves {formatKm(savedKm)}</span>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <StopList title="Current order" items={plan.before} movedIds={movedIds} formatTime={formatTime} />
+            <StopList title="New order" items={plan.after} movedIds={movedIds} formatTime={formatTime} />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Distances are in a straight line between stops. Flights, stays and items booked for their
+            time stay where they are; the others take over the day's time slots in their new order.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            disabled={isApplying}
+            className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onApply}
+            disabled={isApplying}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm disabled:opacity-50 flex items-center"
+          >
+            {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isApplying ? 'Applying...' : 'Apply new order'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
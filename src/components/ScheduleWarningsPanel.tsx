@@ -0,0 +1,63 @@
+import { memo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import type { ScheduleWarning, ScheduleWarningKind } from '../services/scheduleChecks';
+
+interface ScheduleWarningsPanelProps {
+  warnings: ScheduleWarning[];
+  onView: (itemId: string) => void;
+  formatDate: (dateStr: string) => string;
+}
+
+const KIND_LABELS: Record<ScheduleWarningKind, string> = {
+  'overlap': 'Overlap',
+  'airport-buffer': 'Airport time',
+  'travel-time': 'Travel time',
+  'far-from-lodging': 'Far from lodging',
+  'outside-trip': 'Outside trip dates',
+};
+
+/**
+ * Summary of the itinerary's schedule problems, collapsed to a count until opened
+ */
+export const ScheduleWarningsPanel = memo(function ScheduleWarningsPanel({
+  warnings,
+  onView,
+  formatDate,
+}: ScheduleWarningsPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="mb-4 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        className="w-full flex items-center px-3 py-2 text-left text-amber-900"
+      >
+        <AlertTriangle className="w-4 h-4 text-amber-600 mr-2 shrink-0" />
+        <span className="flex-1 font-medium">
+          {warnings.length} schedule {warnings.length === 1 ? 'warning' : 'warnings'}
+        </span>
+        {isExpanded ? <ChevronUp className="w-4 h-4 text-amber-600" /> : <ChevronDown className="w-4 h-4 text-amber-600" />}
+      </button>
+
+      {isExpanded && (
+        <ul className="border-t border-amber-200 divide-y divide-amber-100">
+          {warnings.map((warning) => (
+            <li key={warning.id}>
+              <button
+                onClick={() => onView(warning.itemId)}
+                className="w-full px-3 py-2 text-left hover:bg-amber-100"
+              >
+                <span className="block text-xs text-amber-700">
+                  {formatDate(warning.day)} · {KIND_LABELS[warning.kind]}
+                </span>
+                <span className="text-amber-900">{warning.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
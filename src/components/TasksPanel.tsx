@@ -0,0 +1,263 @@
+import { useState, useCallback, useMemo } from 'react';
+import {
+  Plus,
+  Check,
+  Trash2,
+  Loader2,
+  ListChecks,
+  CalendarDays,
+  User as UserIcon,
+  Link2
+} from 'lucide-react';
+
+import type { Trip, Task, TaskFilter } from '../types';
+import { useTasks, useItineraryItems } from '../hooks';
+import { filterTasks, getTodayString, isTaskOverdue } from '../services/tasks';
+import { canEditTrip } from '../services/permissions';
+import { AddEditTaskModal } from './AddEditTaskModal';
+
+interface TasksPanelProps {
+  tripId: string;
+  trip: Trip;
+  currentUserId: string;
+  getMemberName: (uid: string) => string;
+}
+
+const FILTERS: Array<{ value: TaskFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'mine', label: 'Mine' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'done', label: 'Done' },
+];
+
+/**
+ * Trip checklist - visas, bookings, packing and anything else the group needs to do
+ */
+export function TasksPanel({ tripId, trip, currentUserId, getMemberName }: TasksPanelProps) {
+  const {
+    tasks,
+    isLoading,
+    addTask,
+    updateTask,
+    deleteTask,
+    toggleTaskComplete,
+  } = useTasks(tripId);
+  const { items } = useItineraryItems(tripId, currentUserId);
+  const canEdit = canEditTrip(trip, currentUserId);
+
+  const [filter, setFilter] = useState<TaskFilter>('all');
+  const [showModal, setShowModal] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  const today = getTodayString();
+
+  const filteredTasks = useMemo(
+    () => filterTasks(tasks, filter, currentUserId, today),
+    [tasks, filter, currentUserId, today]
+  );
+
+  // Counts shown on the filter pills
+  const filterCounts = useMemo(() => {
+    return Object.fromEntries(
+      FILTERS.map(({ value }) => [value, filterTasks(tasks, value, currentUserId, today).length])
+    ) as Record<TaskFilter, number>;
+  }, [tasks, currentUserId, today]);
+
+  const itemsById = useMemo(() => {
+    return new Map(items.map((item) => [item.id, item]));
+  }, [items]);
+
+  const formatDate = useCallback((dateStr: string) => {
+    const date = new Date(dateStr + 'T00:00:00');
+    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  }, []);
+
+  const openAddModal = useCallback(() => {
+    setEditingTask(null);
+    setShowModal(true);
+  }, []);
+
+  const openEditModal = useCallback((task: Task) => {
+    setEditingTask(task);
+    setShowModal(true);
+  }, []);
+
+  const closeModal = useCallback(() => {
+    setShowModal(false);
+    setEditingTask(null);
+  }, []);
+
+  const handleSave = useCallback(async (data: Partial<Task>) => {
+    if (editingTask) {
+      await updateTask(editingTask.id, data);
+    } else {
+      await addTask(data);
+    }
+  }, [editingTask, updateTask, addTask]);
+
+  const handleToggle = useCallback(async (task: Task) => {
+    try {
+      await toggleTaskComplete(task);
+    } catch (error) {
+      console.error('Error toggling task:', error);
+    }
+  }, [toggleTaskComplete]);
+
+  const handleDelete = useCallback(async (task: Task) => {
+    try {
+      await deleteTask(task.id);
+    } catch (error) {
+      console.error('Error deleting task:', error);
+    }
+  }, [deleteTask]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-6 h-6 animate-spin text-indigo-600 mr-2" />
+        <span className="text-slate-500">Loading tasks...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-700">Checklist</h2>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add Task
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex space-x-2 overflow-x-auto pb-2 mb-2">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${
+              filter === value
+                ? 'bg-indigo-600 text-white'
+                : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-100'
+            }`}
+          >
+            {label}
+            <span className="ml-1 opacity-75">({filterCounts[value]})</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Empty State */}
+      {filteredTasks.length === 0 && (
+        <div className="text-center py-16 bg-white rounded-xl border border-dashed border-slate-300">
+          <ListChecks className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+          <p className="text-slate-400 mb-4">
+            {tasks.length === 0 ? 'No tasks yet' : 'No tasks match this filter'}
+          </p>
+          {tasks.length === 0 && canEdit && (
+            <button
+              onClick={openAddModal}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+            >
+              Add your first task
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Task List */}
+      <div className="space-y-2">
+        {filteredTasks.map((task) => {
+          const overdue = isTaskOverdue(task, today);
+          const linkedItem = task.itemId ? itemsById.get(task.itemId) : undefined;
+          return (
+            <div
+              key={task.id}
+              onClick={canEdit ? () => openEditModal(task) : undefined}
+              className={`bg-white rounded-xl border p-3 transition-all group ${canEdit ? 'cursor-pointer hover:shadow-sm' : ''} ${
+                overdue ? 'border-red-200 hover:border-red-300' : 'border-slate-200 hover:border-slate-300'
+              } ${task.completed ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-start space-x-3">
+                {/* Checkbox */}
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleToggle(task); }}
+                  disabled={!canEdit}
+                  className={`mt-0.5 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all shrink-0 ${
+                    task.completed
+                      ? 'bg-green-500 border-green-500 text-white'
+                      : 'border-slate-300 hover:border-slate-400'
+                  }`}
+                >
+                  {task.completed && <Check className="w-3 h-3" />}
+                </button>
+
+                <div className="flex-1 min-w-0">
+                  <p className={`font-medium ${task.completed ? 'line-through text-slate-400' : 'text-slate-800'}`}>
+                    {task.text}
+                  </p>
+
+                  {/* Meta info */}
+                  <div className="flex items-center flex-wrap gap-x-3 gap-y-1 mt-1 text-xs text-slate-500">
+                    {task.assignee && (
+                      <span className={`flex items-center ${task.assignee === currentUserId ? 'text-indigo-600 font-medium' : ''}`}>
+                        <UserIcon className="w-3 h-3 mr-1" />
+                        {getMemberName(task.assignee)}
+                      </span>
+                    )}
+                    {task.dueDate && (
+                      <span className={`flex items-center ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                        <CalendarDays className="w-3 h-3 mr-1" />
+                        {overdue ? 'Overdue: ' : 'Due '}{formatDate(task.dueDate)}
+                      </span>
+                    )}
+                    {linkedItem && (
+                      <span className="flex items-center truncate max-w-[200px]">
+                        <Link2 className="w-3 h-3 mr-1 shrink-0" />
+                        <span className="truncate">
+                          {linkedItem.type === 'flight'
+                            ? `${linkedItem.airline || ''} ${linkedItem.flightNumber || ''}`.trim() || linkedItem.location
+                            : linkedItem.location}
+                        </span>
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {canEdit && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(task); }}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors md:opacity-0 md:group-hover:opacity-100 shrink-0"
+                    title="Delete task"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Add/Edit Modal - remounted per task so the form starts fresh */}
+      {showModal && (
+        <AddEditTaskModal
+          key={editingTask?.id || 'new'}
+          task={editingTask}
+          members={trip.members || []}
+          items={items}
+          getMemberName={getMemberName}
+          formatDate={formatDate}
+          onClose={closeModal}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
@@ -34,6 +34,11 @@ export function TripCard({ trip, isOwner, onClick, onDelete, onExport }: TripCar
           {trip.name}
         </h3>
         <div className="flex items-center space-x-1">
+          {trip.archived && (
+            <span className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded-full mr-1">
+              Archived
+            </span>
+          )}
           {isOwner && (
             <span className="text-xs bg-indigo-100 text-indigo-800 px-2 py-1 rounded-full mr-1">
               Owner
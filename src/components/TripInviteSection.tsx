@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import {
+  RefreshCw,
+  Ban,
+  Link2,
+  Check,
+  X,
+  Clock,
+  UserPlus
+} from 'lucide-react';
+
+import type { Trip, TripInvite, JoinRequest, InviteSettings } from '../types';
+import { useTripInvite } from '../hooks';
+import {
+  INVITE_EXPIRY_OPTIONS,
+  DEFAULT_INVITE_SETTINGS,
+  formatInviteExpiry,
+  getInviteExpiry,
+  getInviteLink,
+  isInviteActive,
+  renewInviteSettings
+} from '../services/invites';
+import { isTripOwner } from '../services/permissions';
+
+interface TripInviteSectionProps {
+  trip: Trip;
+  currentUserId: string;
+  getMemberName: (uid: string) => string;
+}
+
+type InviteRole = InviteSettings['role'];
+
+// Select values for INVITE_EXPIRY_OPTIONS ('never' stands in for null)
+const toExpiryValue = (days: number | null) => (days === null ? 'never' : String(days));
+const fromExpiryValue = (value: string) => (value === 'never' ? null : Number(value));
+
+/**
+ * Invite code and join request management for the Trip Settings panel.
+ * Owners configure expiry, role and approval; other members just see the code.
+ */
+export function TripInviteSection({ trip, currentUserId, getMemberName }: TripInviteSectionProps) {
+  const {
+    invite,
+    joinRequests,
+    createInvite,
+    updateInvite,
+    revokeInvite,
+    approveRequest,
+    rejectRequest,
+  } = useTripInvite(trip, currentUserId);
+
+  // Settings for a new code when invites are turned off
+  const [newRole, setNewRole] = useState<InviteRole>(DEFAULT_INVITE_SETTINGS.role);
+  const [newRequireApproval, setNewRequireApproval] = useState(DEFAULT_INVITE_SETTINGS.requireApproval);
+  const [newExpiryDays, setNewExpiryDays] = useState<number | null>(7);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const isOwner = isTripOwner(trip, currentUserId);
+
+  // Wrap an invite action with busy state and error reporting
+  const runAction = async (key: string, action: () => Promise<unknown>) => {
+    setError('');
+    setBusyAction(key);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const copyInviteLink = (code: string) => {
+    navigator.clipboard
+      .writeText(getInviteLink(code))
+      .then(() => alert('Invite link copied to clipboard!'))
+      .catch(() => alert(`Share this link: ${getInviteLink(code)}`));
+  };
+
+  const handleCreate = () => {
+    runAction('create', () => createInvite({
+      role: newRole,
+      requireApproval: newRequireApproval,
+      expiresAt: getInviteExpiry(newExpiryDays),
+    }));
+  };
+
+  const handleRenew = (current: TripInvite) => {
+    if (!confirm('Generate a new code? The current code and link will stop working.')) return;
+    runAction('renew', () => createInvite(renewInviteSettings(current)));
+  };
+
+  const handleRevoke = () => {
+    if (!confirm('Revoke this code? Nobody will be able to join until you create a new one.')) return;
+    runAction('revoke', revokeInvite);
+  };
+
+  const handleApprove = (request: JoinRequest) => {
+    runAction(`approve-${request.uid}`, () => approveRequest(request));
+  };
+
+  const handleReject = (request: JoinRequest) => {
+    if (!confirm(`Decline the request from ${getMemberName(request.uid)}?`)) return;
+    runAction(`reject-${request.uid}`, () => rejectRequest(request));
+  };
+
+  // Members other than the owner only see the current code
+  if (!isOwner) {
+    return (
+      <section>
+        <h3 className="text-sm font-semibold text-slate-700 mb-3">Join Code</h3>
+        {trip.joinCode ? (
+          <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-200">
+            <span className="font-mono font-bold text-lg tracking-widest text-slate-800">{trip.joinCode}</span>
+            <button
+              onClick={() => copyInviteLink(trip.joinCode)}
+              className="flex items-center text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              <Link2 className="w-3.5 h-3.5 mr-1" /> Copy link
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">The owner has turned off joining by code.</p>
+        )}
+      </section>
+    );
+  }
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-slate-700 mb-3">Join Code</h3>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {invite ? (
+        <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-mono font-bold text-lg tracking-widest text-slate-800">{invite.code}</span>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => copyInviteLink(invite.code)}
+                className="flex items-center text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+              >
+                <Link2 className="w-3.5 h-3.5 mr-1" /> Copy link
+              </button>
+              <button
+                onClick={() => handleRenew(invite)}
+                disabled={!!busyAction}
+                className="flex items-center text-xs text-indigo-600 hover:text-indigo-700 font-medium disabled:opacity-50"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 mr-1 ${busyAction === 'renew' ? 'animate-spin' : ''}`} />
+                New code
+              </button>
+              <button
+                onClick={handleRevoke}
+                disabled={!!busyAction}
+                className="flex items-center text-xs text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+              >
+                <Ban className="w-3.5 h-3.5 mr-1" /> Revoke
+              </button>
+            </div>
+          </div>
+
+          <p className={`flex items-center text-xs ${isInviteActive(invite) ? 'text-slate-500' : 'text-red-600 font-medium'}`}>
+            <Clock className="w-3.5 h-3.5 mr-1" />
+            {formatInviteExpiry(invite)}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-slate-500 mb-1 block">New members join as</label>
+              <select
+                className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                value={invite.role}
+                onChange={(e) => runAction('role', () => updateInvite({ role: e.target.value as InviteRole }))}
+                disabled={!!busyAction}
+              >
+                <option value="editor">Editor</option>
+                <option value="viewer">Viewer</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-500 mb-1 block">Expiry</label>
+              <select
+                className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                value=""
+                onChange={(e) => runAction('expiry', () => updateInvite({
+                  expiresAt: getInviteExpiry(fromExpiryValue(e.target.value)),
+                }))}
+                disabled={!!busyAction}
+              >
+                <option value="" disabled>Change...</option>
+                {INVITE_EXPIRY_OPTIONS.map(({ days, label }) => (
+                  <option key={label} value={toExpiryValue(days)}>
+                    {days === null ? 'Never expire' : `Expire in ${label}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={invite.requireApproval}
+              onChange={(e) => runAction('approval', () => updateInvite({ requireApproval: e.target.checked }))}
+              disabled={!!busyAction}
+            />
+            <span>Require my approval to join</span>
+          </label>
+        </div>
+      ) : (
+        <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+          <p className="text-sm text-slate-500">
+            {trip.joinCode
+              ? 'This trip uses an old join code. Create a new code to manage expiry and approvals.'
+              : 'Joining by code is turned off.'}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-slate-500 mb-1 block">New members join as</label>
+              <select
+                className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as InviteRole)}
+              >
+                <option value="editor">Editor</option>
+                <option value="viewer">Viewer</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-500 mb-1 block">Expires after</label>
+              <select
+                className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                value={toExpiryValue(newExpiryDays)}
+                onChange={(e) => setNewExpiryDays(fromExpiryValue(e.target.value))}
+              >
+                {INVITE_EXPIRY_OPTIONS.map(({ days, label }) => (
+                  <option key={label} value={toExpiryValue(days)}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={newRequireApproval}
+              onChange={(e) => setNewRequireApproval(e.target.checked)}
+            />
+            <span>Require my approval to join</span>
+          </label>
+          <div className="flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={!!busyAction}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              {busyAction === 'create' ? 'Creating...' : 'Create join code'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Approval queue */}
+      {joinRequests.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">
+            Waiting for approval ({joinRequests.length})
+          </h4>
+          <div className="space-y-2">
+            {joinRequests.map((request) => (
+              <div
+                key={request.uid}
+                className="flex items-center justify-between p-2 rounded-lg bg-amber-50 border border-amber-200"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-700 truncate">{getMemberName(request.uid)}</p>
+                  <p className="text-xs text-slate-500">
+                    Requested {new Date(request.requestedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 shrink-0">
+                  <button
+                    onClick={() => handleApprove(request)}
+                    disabled={!!busyAction}
+                    className="p-1.5 text-green-600 hover:bg-green-100 rounded-lg transition-colors disabled:opacity-50"
+                    title="Approve"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleReject(request)}
+                    disabled={!!busyAction}
+                    className="p-1.5 text-red-600 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+                    title="Decline"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
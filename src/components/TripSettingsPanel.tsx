@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import {
+  X,
+  Crown,
+  UserMinus,
+  Archive,
+  ArchiveRestore,
+  Loader2,
+  CalendarDays
+} from 'lucide-react';
+
+import type { Trip, TripRole } from '../types';
+import { useTripSettings } from '../hooks';
+import { daysBetween, shiftDate } from '../services/trips';
+import { ROLE_LABELS, canEditTrip, getMemberRole, isTripOwner } from '../services/permissions';
+import { TripInviteSection } from './TripInviteSection';
+
+interface TripSettingsPanelProps {
+  trip: Trip;
+  currentUserId: string;
+  getMemberName: (uid: string) => string;
+  onClose: () => void;
+}
+
+/**
+ * Trip settings modal - edit details, manage members and invites, archive the trip.
+ * Owners and editors can edit details; membership, roles and lifecycle actions are owner-only.
+ */
+export function TripSettingsPanel({ trip, currentUserId, getMemberName, onClose }: TripSettingsPanelProps) {
+  const {
+    updateDetails,
+    removeMember,
+    transferOwnership,
+    setMemberRole,
+    setArchived,
+  } = useTripSettings(trip);
+
+  const [name, setName] = useState(trip.name);
+  const [startDate, setStartDate] = useState(trip.startDate || '');
+  const [endDate, setEndDate] = useState(trip.endDate || '');
+  const [shiftItems, setShiftItems] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const isOwner = isTripOwner(trip, currentUserId);
+  const canEdit = canEditTrip(trip, currentUserId);
+  const members = trip.members || [];
+  const hasChanges = name.trim() !== trip.name || startDate !== (trip.startDate || '') || endDate !== (trip.endDate || '');
+  const dayOffset = trip.startDate && startDate ? daysBetween(trip.startDate, startDate) : 0;
+
+  // Keep the trip length when the start date moves
+  const handleStartDateChange = (value: string) => {
+    if (trip.startDate && trip.endDate && value && endDate === trip.endDate) {
+      setEndDate(shiftDate(value, daysBetween(trip.startDate, trip.endDate)));
+    }
+    setStartDate(value);
+  };
+
+  const handleSaveDetails = async () => {
+    if (!name.trim()) {
+      setError('Please enter a trip name');
+      return;
+    }
+    if (startDate && endDate && endDate < startDate) {
+      setError('End date must be after the start date');
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+    try {
+      const shifted = await updateDetails(
+        { name: name.trim(), startDate, endDate },
+        shiftItems && dayOffset !== 0
+      );
+      if (shifted > 0) {
+        alert(`Trip updated. ${shifted} itinerary item(s) moved by ${dayOffset} day(s).`);
+      }
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save changes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Wrap an owner action with busy state and error reporting
+  const runAction = async (key: string, action: () => Promise<unknown>) => {
+    setError('');
+    setBusyAction(key);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRemoveMember = (uid: string) => {
+    if (!confirm(`Remove ${getMemberName(uid)} from this trip?`)) return;
+    runAction(`remove-${uid}`, () => removeMember(uid));
+  };
+
+  const handleTransferOwnership = (uid: string) => {
+    if (!confirm(`Make ${getMemberName(uid)} the owner? You will no longer be able to manage members.`)) return;
+    runAction(`owner-${uid}`, () => transferOwnership(uid));
+  };
+
+  const handleRoleChange = (uid: string, role: Exclude<TripRole, 'owner'>) => {
+    runAction(`role-${uid}`, () => setMemberRole(uid, role));
+  };
+
+  const handleToggleArchive = () => {
+    const archive = !trip.archived;
+    if (archive && !confirm('Archive this trip? It will be hidden from your active trips.')) return;
+    runAction('archive', () => setArchived(archive));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800">Trip Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Details */}
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-3">Details</h3>
+            <input
+              className="w-full p-2 border border-slate-300 rounded-lg mb-3 text-sm"
+              placeholder="Trip Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving || !canEdit}
+            />
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <div>
+                <label className="text-xs text-slate-500 mb-1 block">Start Date</label>
+                <input
+                  type="date"
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                  value={startDate}
+                  onChange={(e) => handleStartDateChange(e.target.value)}
+                  disabled={isSaving || !canEdit}
+                />
+              </div>
+              <div>
+                <label className="text-xs text-slate-500 mb-1 block">End Date</label>
+                <input
+                  type="date"
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  disabled={isSaving || !canEdit}
+                />
+              </div>
+            </div>
+
+            {dayOffset !== 0 && (
+              <label className="flex items-start space-x-2 p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={shiftItems}
+                  onChange={(e) => setShiftItems(e.target.checked)}
+                  disabled={isSaving}
+                />
+                <span className="text-indigo-700">
+                  <CalendarDays className="w-4 h-4 inline mr-1" />
+                  Move all itinerary items {Math.abs(dayOffset)} day{Math.abs(dayOffset) !== 1 ? 's' : ''}{' '}
+                  {dayOffset > 0 ? 'later' : 'earlier'}
+                </span>
+              </label>
+            )}
+
+            {canEdit ? (
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSaveDetails}
+                  disabled={isSaving || !hasChanges}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm flex items-center"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {isSaving ? 'Saving...' : 'Save Changes'}
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">You have view-only access to this trip.</p>
+            )}
+          </section>
+
+          {/* Invite */}
+          <TripInviteSection trip={trip} currentUserId={currentUserId} getMemberName={getMemberName} />
+
+          {/* Members */}
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-3">
+              Members ({members.length})
+            </h3>
+            <div className="space-y-2">
+              {members.map((uid) => {
+                const role = getMemberRole(trip, uid) || 'viewer';
+                const isMemberOwner = role === 'owner';
+                return (
+                  <div key={uid} className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="text-sm text-slate-700 truncate">{getMemberName(uid)}</span>
+                      {(isMemberOwner || !isOwner) && (
+                        <span
+                          className={`text-xs px-2 py-0.5 rounded-full ${
+                            isMemberOwner ? 'bg-indigo-100 text-indigo-800' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {ROLE_LABELS[role]}
+                        </span>
+                      )}
+                    </div>
+                    {isOwner && !isMemberOwner && (
+                      <div className="flex items-center space-x-1 shrink-0">
+                        <select
+                          value={role}
+                          onChange={(e) => handleRoleChange(uid, e.target.value as Exclude<TripRole, 'owner'>)}
+                          disabled={!!busyAction}
+                          className="p-1 border border-slate-300 rounded-lg text-xs text-slate-600 disabled:opacity-50"
+                          title="Change role"
+                        >
+                          <option value="editor">{ROLE_LABELS.editor}</option>
+                          <option value="viewer">{ROLE_LABELS.viewer}</option>
+                        </select>
+                        <button
+                          onClick={() => handleTransferOwnership(uid)}
+                          disabled={!!busyAction}
+                          className="p-1.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors disabled:opacity-50"
+                          title="Make owner"
+                        >
+                          <Crown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRemoveMember(uid)}
+                          disabled={!!busyAction}
+                          className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                          title="Remove member"
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Archive */}
+          {isOwner && (
+            <section className="pt-4 border-t border-slate-200">
+              <button
+                onClick={handleToggleArchive}
+                disabled={busyAction === 'archive'}
+                className="flex items-center px-4 py-2 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+              >
+                {trip.archived ? (
+                  <>
+                    <ArchiveRestore className="w-4 h-4 mr-2" /> Restore from archive
+                  </>
+                ) : (
+                  <>
+                    <Archive className="w-4 h-4 mr-2" /> Archive trip
+                  </>
+                )}
+              </button>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
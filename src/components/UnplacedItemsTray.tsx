@@ -0,0 +1,76 @@
+import { X, MapPin, Crosshair } from 'lucide-react';
+
+import type { ItineraryItem } from '../types';
+import type { ItemTimeField } from '../services/timezones';
+
+interface UnplacedItemsTrayProps {
+  items: ItineraryItem[];
+  placingItemId: string | null;
+  onPlace: (item: ItineraryItem) => void;
+  onClose: () => void;
+  formatDate: (dateStr: string) => string;
+  formatTime: (item: ItineraryItem, field?: ItemTimeField) => string;
+}
+
+/**
+ * Side tray on the map listing items without coordinates, each of which can be placed by hand
+ */
+export function UnplacedItemsTray({
+  items,
+  placingItemId,
+  onPlace,
+  onClose,
+  formatDate,
+  formatTime,
+}: UnplacedItemsTrayProps) {
+  return (
+    <div className="absolute top-2 left-2 bottom-2 w-64 md:w-72 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-slate-200 flex flex-col z-10">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200">
+        <p className="text-sm font-semibold text-slate-700">Not on the map ({items.length})</p>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="p-3 text-xs text-slate-500">Everything here has a location.</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {items.map((item) => {
+            const isPlacing = item.id === placingItemId;
+            return (
+              <li key={item.id} className={`px-3 py-2 ${isPlacing ? 'bg-indigo-50' : ''}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">{item.location || 'Untitled item'}</p>
+                    <p className="text-xs text-slate-400">
+                      {formatDate(item.day)}
+                      {item.time && ` · ${formatTime(item)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onPlace(item)}
+                    disabled={isPlacing}
+                    className="shrink-0 flex items-center px-2 py-1 text-xs font-medium text-indigo-600 hover:bg-indigo-100 rounded-md disabled:opacity-50"
+                  >
+                    <MapPin className="w-3 h-3 mr-1" />
+                    Place
+                  </button>
+                </div>
+                {isPlacing && (
+                  <p className="flex items-start mt-1 text-xs text-indigo-700">
+                    <Crosshair className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                    Click the map where it is, or drag the pin
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
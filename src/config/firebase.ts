@@ -1,7 +1,9 @@
 import { initializeApp } from 'firebase/app';
 import { getAnalytics } from 'firebase/analytics';
 import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from 'firebase/firestore';
+import { getFunctions } from 'firebase/functions';
+import { getStorage } from 'firebase/storage';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -18,12 +20,18 @@ const firebaseConfig = {
 const app = initializeApp(firebaseConfig);
 const analytics = getAnalytics(app);
 const auth = getAuth(app);
-const db = getFirestore(app);
+// Trips and their collections are kept on the device, so they open offline and edits made
+// offline are queued until the connection is back (shared by all open tabs)
+const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
+const storage = getStorage(app);
+const functions = getFunctions(app);
 
 // App ID for Firestore document paths
 const appId = 'travelsync-prod';
 
-export { app, analytics, auth, db, appId };
+export { app, analytics, auth, db, storage, functions, appId };
 
 // Re-export Firebase Auth utilities
 export {
@@ -41,5 +49,7 @@ export {
   onSnapshot,
   deleteDoc,
   writeBatch,
-  getDocs
+  getDocs,
+  query,
+  where
 } from 'firebase/firestore';
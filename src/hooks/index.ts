@@ -2,4 +2,28 @@ export { useFirebasePaths, firebasePaths } from './useFirebasePaths';
 export { useItineraryItems } from './useItineraryItems';
 export { useItineraryForm } from './useItineraryForm';
 export { usePlaceEnrichment } from './usePlaceEnrichment';
+export { useTimeZoneBackfill } from './useTimeZoneBackfill';
+export { useFlightAlerts } from './useFlightAlerts';
+export { useListDragDrop } from './useListDragDrop';
+export { useTravelLegs } from './useTravelLegs';
+export { useExpenses } from './useExpenses';
+export { useTasks } from './useTasks';
+export { useTripSettings } from './useTripSettings';
+export { useTripInvite } from './useTripInvite';
+export { useTripDeletion } from './useTripDeletion';
+export { useTripBackup } from './useTripBackup';
+export { useCalendarFeed } from './useCalendarFeed';
+export { useJoinTrip } from './useJoinTrip';
+export { useAuth } from './useAuth';
+export { useUserProfile } from './useUserProfile';
+export { useMemberProfiles } from './useMemberProfiles';
+export { useTripPresence } from './useTripPresence';
+export { useOnlineStatus } from './useOnlineStatus';
+export { useTripSyncStatus } from './useTripSyncStatus';
+export { useFailedQueuedWrites } from './useFailedQueuedWrites';
+export { useMapSnapshots } from './useMapSnapshots';
 export type { ItineraryFormState } from './useItineraryForm';
+export type { JoinTripResult } from './useJoinTrip';
+export type { BackupRestoreResult } from './useTripBackup';
+export type { FlightAlert } from './useFlightAlerts';
+export type { ListDragState } from './useListDragDrop';
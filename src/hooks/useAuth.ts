@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+import { getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { auth } from '../config/firebase';
+import { firebasePaths } from './useFirebasePaths';
+import type { UserProfile } from '../types';
+
+interface UseAuthReturn {
+  user: User | null;
+  isLoading: boolean;
+  // Call after linking or profile changes - the User object is updated in place
+  refreshUser: () => void;
+}
+
+/**
+ * Create the user's profile document if needed, and fill a missing name or
+ * avatar from the sign-in provider (e.g. after a guest links a Google account)
+ */
+async function syncUserProfile(user: User): Promise<void> {
+  const profileRef = firebasePaths.userProfileDoc(user.uid);
+  try {
+    const snapshot = await getDoc(profileRef);
+    if (!snapshot.exists()) {
+      const profile: Omit<UserProfile, 'uid'> = {
+        displayName: user.displayName || '',
+        photoURL: user.photoURL || '',
+        updatedAt: Date.now(),
+      };
+      await setDoc(profileRef, profile);
+      return;
+    }
+
+    const profile = snapshot.data() as UserProfile;
+    const updates: Partial<UserProfile> = {};
+    if (!profile.displayName && user.displayName) updates.displayName = user.displayName;
+    if (!profile.photoURL && user.photoURL) updates.photoURL = user.photoURL;
+    if (Object.keys(updates).length > 0) {
+      await updateDoc(profileRef, { ...updates, updatedAt: Date.now() });
+    }
+  } catch (err) {
+    // Not critical - members just see a generic name until the next sync
+    console.error('Error syncing user profile:', err);
+  }
+}
+
+/**
+ * Hook for the signed-in Firebase user. Keeps their profile document in sync.
+ */
+export function useAuth(): UseAuthReturn {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (u) => {
+      setUser(u);
+      setIsLoading(false);
+      if (u) syncUserProfile(u);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const refreshUser = useCallback(() => {
+    setVersion((v) => v + 1);
+    if (auth.currentUser) syncUserProfile(auth.currentUser);
+  }, []);
+
+  return { user, isLoading, refreshUser };
+}
@@ -0,0 +1,88 @@
+import { useCallback, useMemo } from 'react';
+import { getDocs, updateDoc } from 'firebase/firestore';
+import { app } from '../config/firebase';
+import { useFirebasePaths } from './useFirebasePaths';
+import {
+  buildTripCalendar,
+  generateFeedToken,
+  getCalendarFeedUrl,
+  getCalendarFileName,
+  getCalendarSubscribeUrl
+} from '../services/calendar';
+import { settleWrite } from '../services/offline';
+import type { Trip, ItineraryItem } from '../types';
+
+interface UseCalendarFeedReturn {
+  feedUrl: string | null; // null when the subscription is off
+  subscribeUrl: string | null; // webcal:// version of feedUrl
+  downloadCalendar: () => Promise<void>;
+  // Owner only
+  enableFeed: () => Promise<void>;
+  disableFeed: () => Promise<void>;
+}
+
+/**
+ * Hook for exporting a trip's itinerary to calendar apps: a one-off .ics download,
+ * or a subscription URL. The feed itself is published and kept up to date by a Cloud
+ * Function (functions/src/calendarFeed.ts) whenever the token or the itinerary changes.
+ */
+export function useCalendarFeed(trip: Trip): UseCalendarFeedReturn {
+  const paths = useFirebasePaths(trip.id);
+  const token = trip.calendarFeedToken || '';
+
+  const feedUrl = useMemo(
+    () => (token ? getCalendarFeedUrl(app.options.storageBucket || '', trip.id, token) : null),
+    [token, trip.id]
+  );
+
+  const fetchItems = useCallback(async () => {
+    const snapshot = await getDocs(paths.itineraryCollection);
+    return snapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as ItineraryItem);
+  }, [paths.itineraryCollection]);
+
+  const downloadCalendar = useCallback(async () => {
+    try {
+      const items = await fetchItems();
+      const blob = new Blob([buildTripCalendar(trip.name, items)], { type: 'text/calendar' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = getCalendarFileName(trip.name);
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting calendar:', err);
+      throw new Error('Failed to export calendar');
+    }
+  }, [fetchItems, trip.name]);
+
+  const enableFeed = useCallback(async () => {
+    try {
+      await settleWrite(updateDoc(paths.tripRef, { calendarFeedToken: generateFeedToken() }));
+    } catch (err) {
+      console.error('Error enabling calendar feed:', err);
+      throw new Error('Failed to turn on calendar subscription');
+    }
+  }, [paths.tripRef]);
+
+  // The published file goes with the token
+  const disableFeed = useCallback(async () => {
+    if (!token) return;
+    try {
+      await settleWrite(updateDoc(paths.tripRef, { calendarFeedToken: '' }));
+    } catch (err) {
+      console.error('Error disabling calendar feed:', err);
+      throw new Error('Failed to turn off calendar subscription');
+    }
+  }, [paths.tripRef, token]);
+
+  return {
+    feedUrl,
+    subscribeUrl: feedUrl ? getCalendarSubscribeUrl(feedUrl) : null,
+    downloadCalendar,
+    enableFeed,
+    disableFeed,
+  };
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  onSnapshot,
+  addDoc,
+  updateDoc,
+  deleteDoc
+} from 'firebase/firestore';
+import { useFirebasePaths } from './useFirebasePaths';
+import { computeBalances, computeSettlements } from '../services/expenses';
+import { settleWrite } from '../services/offline';
+import type { Expense, MemberBalance, Settlement } from '../types';
+
+interface UseExpensesReturn {
+  expenses: Expense[];
+  isLoading: boolean;
+  error: string | null;
+  // Derived ledger data (memoized)
+  totalSpent: number;
+  balances: MemberBalance[];
+  settlements: Settlement[];
+  // CRUD operations
+  addExpense: (expense: Partial<Expense>) => Promise<void>;
+  updateExpense: (expenseId: string, updates: Partial<Expense>) => Promise<void>;
+  deleteExpense: (expenseId: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for managing a trip's shared expenses with Firebase
+ * Provides the expense list plus per-member balances and settlements
+ */
+export function useExpenses(tripId: string, members: string[]): UseExpensesReturn {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const paths = useFirebasePaths(tripId);
+
+  // Subscribe to expense changes
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      paths.expensesCollection,
+      (snapshot) => {
+        const tripExpenses = snapshot.docs.map(
+          (docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as Expense
+        );
+        // Newest first
+        tripExpenses.sort((a, b) => {
+          const aDate = a.date || '';
+          const bDate = b.date || '';
+          if (aDate !== bDate) return bDate.localeCompare(aDate);
+          return (b.createdAt || 0) - (a.createdAt || 0);
+        });
+        setExpenses(tripExpenses);
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching expenses:', err);
+        setError('Failed to load expenses');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [paths.expensesCollection]);
+
+  const totalSpent = useMemo(() => {
+    return expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  }, [expenses]);
+
+  const balances = useMemo(() => computeBalances(expenses, members), [expenses, members]);
+
+  const settlements = useMemo(() => computeSettlements(balances), [balances]);
+
+  // Add single expense
+  const addExpense = useCallback(async (expense: Partial<Expense>) => {
+    try {
+      await settleWrite(addDoc(paths.expensesCollection, {
+        ...expense,
+        createdAt: Date.now(),
+      }));
+    } catch (err) {
+      console.error('Error adding expense:', err);
+      throw new Error('Failed to add expense');
+    }
+  }, [paths.expensesCollection]);
+
+  // Update single expense
+  const updateExpense = useCallback(async (expenseId: string, updates: Partial<Expense>) => {
+    try {
+      await settleWrite(updateDoc(paths.expenseDoc(expenseId), updates));
+    } catch (err) {
+      console.error('Error updating expense:', err);
+      throw new Error('Failed to update expense');
+    }
+  }, [paths]);
+
+  // Delete single expense (with confirmation)
+  const deleteExpense = useCallback(async (expenseId: string): Promise<boolean> => {
+    if (!confirm('Delete this expense?')) return false;
+    try {
+      await settleWrite(deleteDoc(paths.expenseDoc(expenseId)));
+      return true;
+    } catch (err) {
+      console.error('Error deleting expense:', err);
+      throw new Error('Failed to delete expense');
+    }
+  }, [paths]);
+
+  return {
+    expenses,
+    isLoading,
+    error,
+    totalSpent,
+    balances,
+    settlements,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+  };
+}
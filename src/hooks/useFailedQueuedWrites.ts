@@ -0,0 +1,21 @@
+import { useState, useEffect, useCallback } from 'react';
+import { onQueuedWriteError } from '../services/offline';
+
+interface UseFailedQueuedWritesReturn {
+  failedWrites: number; // edits that were queued offline and then turned down by the server
+  dismiss: () => void;
+}
+
+/**
+ * Hook for edits saved while offline that the server rejected once they synced. Their forms
+ * closed long before, so this is the only place the user hears about them.
+ */
+export function useFailedQueuedWrites(): UseFailedQueuedWritesReturn {
+  const [failedWrites, setFailedWrites] = useState(0);
+
+  useEffect(() => onQueuedWriteError(() => setFailedWrites((count) => count + 1)), []);
+
+  const dismiss = useCallback(() => setFailedWrites(0), []);
+
+  return { failedWrites, dismiss };
+}
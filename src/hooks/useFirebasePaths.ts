@@ -12,6 +12,9 @@ export function useFirebasePaths(tripId: string) {
     itineraryCollection: collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'itinerary'),
     expensesCollection: collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'expenses'),
     tasksCollection: collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'tasks'),
+    joinRequestsCollection: collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'joinRequests'),
+    presenceCollection: collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'presence'),
+    routesCollection: collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'routes'),
     
     // Document reference helpers
     itineraryDoc: (itemId: string) => 
@@ -20,6 +23,12 @@ export function useFirebasePaths(tripId: string) {
       doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'expenses', expenseId),
     taskDoc: (taskId: string) => 
       doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'tasks', taskId),
+    joinRequestDoc: (uid: string) =>
+      doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'joinRequests', uid),
+    presenceDoc: (uid: string) =>
+      doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'presence', uid),
+    routeDoc: (routeKey: string) =>
+      doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'routes', routeKey),
   }), [tripId]);
 }
 
@@ -27,8 +36,15 @@ export function useFirebasePaths(tripId: string) {
 export const firebasePaths = {
   tripsCollection: () => collection(db, 'artifacts', appId, 'public', 'data', 'trips'),
   tripDoc: (tripId: string) => doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId),
+  tripSubcollection: (tripId: string, name: string) =>
+    collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, name),
   itineraryCollection: (tripId: string) => 
     collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'itinerary'),
   itineraryDoc: (tripId: string, itemId: string) => 
     doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'itinerary', itemId),
+  joinRequestDoc: (tripId: string, uid: string) =>
+    doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'joinRequests', uid),
+  joinCodeDoc: (code: string) => doc(db, 'artifacts', appId, 'public', 'data', 'joinCodes', code),
+  userProfilesCollection: () => collection(db, 'artifacts', appId, 'public', 'data', 'users'),
+  userProfileDoc: (uid: string) => doc(db, 'artifacts', appId, 'public', 'data', 'users', uid),
 };
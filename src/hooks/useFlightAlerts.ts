@@ -0,0 +1,66 @@
+import { useState, useMemo, useCallback } from 'react';
+import type { ItineraryItem } from '../types';
+
+// Alerts this old are no longer news
+const MAX_ALERT_AGE_MS = 48 * 60 * 60 * 1000;
+
+const SEEN_STORAGE_KEY = 'travelsync:seenFlightAlerts';
+
+export interface FlightAlert {
+  itemId: string;
+  message: string;
+  alertAt: number;
+}
+
+interface UseFlightAlertsReturn {
+  alerts: FlightAlert[]; // newest first
+  dismissAlert: (alert: FlightAlert) => void;
+}
+
+/**
+ * Dismissed alerts on this device: item ID -> alertAt of the last one dismissed
+ */
+function readSeenAlerts(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(SEEN_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Hook for the flight changes (delays, gate changes, cancellations) saved on the trip's
+ * flights that the current user hasn't dismissed yet. Alerts are stored on the items,
+ * so every member gets them, including those who weren't online when they happened.
+ */
+export function useFlightAlerts(items: ItineraryItem[]): UseFlightAlertsReturn {
+  const [seen, setSeen] = useState(readSeenAlerts);
+  const [openedAt] = useState(() => Date.now());
+
+  const alerts = useMemo(
+    () => items
+      .filter((item) => {
+        const { alert, alertAt } = item.flightStatus || {};
+        return !!alert && !!alertAt
+          && alertAt > (seen[item.id] || 0)
+          && openedAt - alertAt < MAX_ALERT_AGE_MS;
+      })
+      .map((item) => ({ itemId: item.id, message: item.flightStatus!.alert!, alertAt: item.flightStatus!.alertAt! }))
+      .sort((a, b) => b.alertAt - a.alertAt),
+    [items, seen, openedAt]
+  );
+
+  const dismissAlert = useCallback((alert: FlightAlert) => {
+    setSeen((prev) => {
+      const next = { ...prev, [alert.itemId]: alert.alertAt };
+      try {
+        localStorage.setItem(SEEN_STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage full or blocked - the alert is still dismissed for this session
+      }
+      return next;
+    });
+  }, []);
+
+  return { alerts, dismissAlert };
+}
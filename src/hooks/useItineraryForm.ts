@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import type { ItineraryItem } from '../types';
 import { extractCoordsFromGoogleMapsUrl, geocodeAddress } from '../services/geocoding';
 import { lookupFlight, type FlightInfo } from '../services/flight';
+import { getFlightProvider } from '../services/flightProviders';
 
 // Form state interface - consolidates all 14+ separate useState calls
 export interface ItineraryFormState {
@@ -9,6 +10,8 @@ export interface ItineraryFormState {
   day: string;
   endDay: string;
   time: string;
+  endTime: string;
+  fixedTime: boolean;
   location: string;
   notes: string;
   category: string;
@@ -18,6 +21,7 @@ export interface ItineraryFormState {
   // Flight specific
   arrivalLocation: string;
   arrivalTime: string;
+  arrivalDay: string;
   airline: string;
   flightNumber: string;
   // Flight enriched data
@@ -36,6 +40,8 @@ const INITIAL_FORM_STATE: ItineraryFormState = {
   day: '',
   endDay: '',
   time: '',
+  endTime: '',
+  fixedTime: false,
   location: '',
   notes: '',
   category: 'sightseeing',
@@ -44,6 +50,7 @@ const INITIAL_FORM_STATE: ItineraryFormState = {
   lng: '',
   arrivalLocation: '',
   arrivalTime: '',
+  arrivalDay: '',
   airline: '',
   flightNumber: '',
   // Enriched flight data
@@ -69,7 +76,7 @@ interface UseItineraryFormReturn {
   populateFromItem: (item: ItineraryItem) => void;
   handleGoogleMapsLinkChange: (url: string) => void;
   handleGeocodeLocation: (apiKey: string) => Promise<void>;
-  handleFlightLookup: (flightApiKey?: string) => Promise<FlightInfo | null>;
+  handleFlightLookup: () => Promise<FlightInfo | null>;
   // Convert form to item data
   toItemData: () => Partial<ItineraryItem>;
   // Validation
@@ -116,6 +123,8 @@ export function useItineraryForm(): UseItineraryFormReturn {
       day: item.day,
       endDay: item.endDay || '',
       time: item.time,
+      endTime: item.endTime || '',
+      fixedTime: item.fixedTime || false,
       location: item.location,
       notes: item.notes || '',
       category: item.category || 'sightseeing',
@@ -124,6 +133,7 @@ export function useItineraryForm(): UseItineraryFormReturn {
       lng: item.lng?.toString() || '',
       arrivalLocation: item.arrivalLocation || '',
       arrivalTime: item.arrivalTime || '',
+      arrivalDay: item.arrivalDay || '',
       airline: item.airline || '',
       flightNumber: item.flightNumber || '',
       // Enriched flight data
@@ -175,7 +185,7 @@ export function useItineraryForm(): UseItineraryFormReturn {
   }, [form.location]);
 
   // Lookup flight information and enrich the form
-  const handleFlightLookup = useCallback(async (flightApiKey?: string): Promise<FlightInfo | null> => {
+  const handleFlightLookup = useCallback(async (): Promise<FlightInfo | null> => {
     if (!form.flightNumber) {
       alert('Please enter a flight number (e.g., UA123, BA456, LY317)');
       return null;
@@ -188,7 +198,7 @@ export function useItineraryForm(): UseItineraryFormReturn {
         form.location,
         form.arrivalLocation,
         form.day,
-        flightApiKey
+        getFlightProvider()
       );
 
       if (flightInfo) {
@@ -274,6 +284,10 @@ export function useItineraryForm(): UseItineraryFormReturn {
       itemData.category = form.category as ItineraryItem['category'];
       itemData.googleMapsLink = form.googleMapsLink;
       
+      // Lodging ends at check-out instead; '' clears a previous end time
+      itemData.endTime = form.category === 'lodging' ? '' : form.endTime;
+      itemData.fixedTime = form.category !== 'lodging' && form.fixedTime;
+
       // Add endDay for lodging (multi-day stays)
       if (form.category === 'lodging' && form.endDay) {
         itemData.endDay = form.endDay;
@@ -284,6 +298,7 @@ export function useItineraryForm(): UseItineraryFormReturn {
       // Flight - basic fields
       itemData.arrivalLocation = form.arrivalLocation;
       itemData.arrivalTime = form.arrivalTime;
+      itemData.arrivalDay = form.arrivalDay;
       itemData.airline = form.airline;
       itemData.flightNumber = form.flightNumber;
       
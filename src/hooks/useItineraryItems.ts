@@ -10,6 +10,9 @@ import {
 } from 'firebase/firestore';
 import { db, appId } from '../config/firebase';
 import { useFirebasePaths } from './useFirebasePaths';
+import { getFlightArrival, getItemStartInstant, inferItemTimeZones, zonedTimeToInstant } from '../services/timezones';
+import { groupFlightJourneys } from '../services/journeys';
+import { settleWrite } from '../services/offline';
 import type { ItineraryItem, DisplayItineraryItem, LodgingPhase } from '../types';
 
 /**
@@ -83,6 +86,23 @@ function expandLodgingItems(items: ItineraryItem[]): DisplayItineraryItem[] {
   return displayItems;
 }
 
+/**
+ * Turns flights into one display item per journey (connecting flights shown as one card),
+ * on the day it departs and - for journeys landing on another day - the day it lands
+ */
+function expandFlightJourneys(items: ItineraryItem[]): DisplayItineraryItem[] {
+  return groupFlightJourneys(items).flatMap((journey): DisplayItineraryItem[] => {
+    const firstLeg = journey.legs[0];
+    if (journey.arrivalDay === journey.departureDay) {
+      return [{ ...firstLeg, journey, displayDay: journey.departureDay, isVirtual: false }];
+    }
+    return [
+      { ...firstLeg, journey, flightPhase: 'departure', displayDay: journey.departureDay, isVirtual: false },
+      { ...firstLeg, journey, flightPhase: 'arrival', displayDay: journey.arrivalDay, isVirtual: true },
+    ];
+  });
+}
+
 interface UseItineraryItemsReturn {
   items: ItineraryItem[];
   isLoading: boolean;
@@ -90,13 +110,15 @@ interface UseItineraryItemsReturn {
   // Grouped and sorted data (memoized) - now uses DisplayItineraryItem for multi-day support
   itemsByDay: Record<string, DisplayItineraryItem[]>;
   sortedDays: string[];
-  // CRUD operations
+  // CRUD operations - adds and edits are stamped with the current user (createdBy/updatedBy).
+  // Writes that set a place also set its time zone (timeZone/arrivalTimeZone) when it can be inferred.
   addItem: (item: Partial<ItineraryItem>) => Promise<void>;
   updateItem: (itemId: string, updates: Partial<ItineraryItem>) => Promise<void>;
   deleteItem: (itemId: string) => Promise<boolean>;
   toggleComplete: (item: ItineraryItem) => Promise<void>;
   // Batch operations
   addItemsBatch: (items: Partial<ItineraryItem>[]) => Promise<void>;
+  // Not stamped - for automatic updates such as geocoding
   updateItemsBatch: (updates: Array<{ id: string; data: Partial<ItineraryItem> }>) => Promise<void>;
 }
 
@@ -104,7 +126,7 @@ interface UseItineraryItemsReturn {
  * Hook for managing itinerary items with Firebase
  * Provides memoized data, CRUD operations, and batch writes
  */
-export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
+export function useItineraryItems(tripId: string, currentUserId: string): UseItineraryItemsReturn {
   const [items, setItems] = useState<ItineraryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -122,10 +144,10 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
         const itineraryItems = snapshot.docs.map(
           (docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as ItineraryItem
         );
-        // Sort by day and time
+        // Sort by day, then by when items actually start (times are local to each item's zone)
         itineraryItems.sort((a, b) => {
           if (a.day !== b.day) return a.day.localeCompare(b.day);
-          return a.time.localeCompare(b.time);
+          return getItemStartInstant(a) - getItemStartInstant(b);
         });
         setItems(itineraryItems);
         if (isFirstLoad) {
@@ -143,10 +165,13 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
     return () => unsubscribe();
   }, [paths.itineraryCollection]);
 
-  // Memoized grouping by day with multi-day lodging expansion
+  // Memoized grouping by day with multi-day lodging and flight journey expansion
   const itemsByDay = useMemo(() => {
-    // Expand multi-day lodging items to appear on each day
-    const displayItems = expandLodgingItems(items);
+    // Expand multi-day lodging items to appear on each day, and group connecting flights
+    const displayItems = [
+      ...expandLodgingItems(items.filter(item => item.type !== 'flight')),
+      ...expandFlightJourneys(items),
+    ];
     
     // Group by displayDay
     const grouped = displayItems.reduce((acc, item) => {
@@ -163,9 +188,26 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
     for (const day of Object.keys(grouped)) {
       const dayItems = grouped[day];
       
+      // Items without a time zone are taken to be in the same zone as the rest of the day
+      const dayZone = dayItems.find(item => item.timeZone)?.timeZone;
+      // When an item happens, for comparing across zones - flights count from when the journey
+      // lands, except on the day an overnight journey leaves
+      const getSortInstant = (item: DisplayItineraryItem): number => {
+        if (item.journey && item.flightPhase !== 'departure') {
+          const lastLeg = item.journey.legs[item.journey.legs.length - 1];
+          const landing = getFlightArrival(lastLeg, dayZone);
+          if (landing) return landing.instant;
+        }
+        return getItemStartInstant(item, dayZone);
+      };
+      
       // Find check-in item and its time (if any)
       const checkInItem = dayItems.find(item => item.lodgingPhase === 'check-in');
-      const checkInTime = checkInItem?.time || '23:59'; // Default to end of day if no time
+      const checkInInstant = zonedTimeToInstant(
+        day,
+        checkInItem?.time || '23:59', // Default to end of day if no time
+        checkInItem?.timeZone || dayZone
+      );
       
       grouped[day].sort((a, b) => {
         // Helper to determine sort priority
@@ -174,10 +216,8 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
           if (item.lodgingPhase === 'check-out') return 0;
           
           // Flights landing BEFORE check-in time come next (1)
-          // Use arrivalTime for flights if available, otherwise use time
-          const isFlight = item.type === 'flight';
-          const flightLandingTime = item.arrivalTime || item.time;
-          if (isFlight && flightLandingTime < checkInTime) return 1;
+          const isLanding = item.type === 'flight' && item.flightPhase !== 'departure';
+          if (isLanding && getSortInstant(item) < checkInInstant) return 1;
           
           // Check-in comes after early flights (2)
           if (item.lodgingPhase === 'check-in') return 2;
@@ -194,10 +234,7 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
         
         // If same priority, sort by time
         if (aPriority === bPriority) {
-          // For flights, use arrival time for sorting
-          const aTime = a.type === 'flight' ? (a.arrivalTime || a.time) : a.time;
-          const bTime = b.type === 'flight' ? (b.arrivalTime || b.time) : b.time;
-          return aTime.localeCompare(bTime);
+          return getSortInstant(a) - getSortInstant(b);
         }
         
         return aPriority - bPriority;
@@ -212,31 +249,43 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
     return Object.keys(itemsByDay).sort();
   }, [itemsByDay]);
 
+  // Authorship fields for a new item (checked by the security rules)
+  const creationStamp = useCallback((): Partial<ItineraryItem> => ({
+    createdBy: currentUserId,
+    updatedBy: currentUserId,
+    updatedAt: Date.now(),
+  }), [currentUserId]);
+
   // Add single item
   const addItem = useCallback(async (item: Partial<ItineraryItem>) => {
     try {
-      await addDoc(paths.itineraryCollection, item);
+      await settleWrite(addDoc(paths.itineraryCollection, { ...(await inferItemTimeZones(item)), ...item, ...creationStamp() }));
     } catch (err) {
       console.error('Error adding item:', err);
       throw new Error('Failed to add item');
     }
-  }, [paths.itineraryCollection]);
+  }, [paths.itineraryCollection, creationStamp]);
 
   // Update single item
   const updateItem = useCallback(async (itemId: string, updates: Partial<ItineraryItem>) => {
     try {
-      await updateDoc(paths.itineraryDoc(itemId), updates);
+      await settleWrite(updateDoc(paths.itineraryDoc(itemId), {
+        ...(await inferItemTimeZones(updates)),
+        ...updates,
+        updatedBy: currentUserId,
+        updatedAt: Date.now(),
+      }));
     } catch (err) {
       console.error('Error updating item:', err);
       throw new Error('Failed to update item');
     }
-  }, [paths]);
+  }, [paths, currentUserId]);
 
   // Delete single item (with confirmation)
   const deleteItemFn = useCallback(async (itemId: string): Promise<boolean> => {
     if (!confirm('Delete this item?')) return false;
     try {
-      await deleteDoc(paths.itineraryDoc(itemId));
+      await settleWrite(deleteDoc(paths.itineraryDoc(itemId)));
       return true;
     } catch (err) {
       console.error('Error deleting item:', err);
@@ -247,9 +296,9 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
   // Toggle complete status
   const toggleComplete = useCallback(async (item: ItineraryItem) => {
     try {
-      await updateDoc(paths.itineraryDoc(item.id), { 
+      await settleWrite(updateDoc(paths.itineraryDoc(item.id), { 
         completed: !item.completed 
-      });
+      }));
     } catch (err) {
       console.error('Error toggling complete:', err);
       throw new Error('Failed to update item');
@@ -261,28 +310,31 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
     if (newItems.length === 0) return;
     
     try {
+      const zones = await Promise.all(newItems.map((item) => inferItemTimeZones(item)));
       const batch = writeBatch(db);
       
       // Get a fresh collection reference for creating new document refs
       const itineraryCol = collection(db, 'artifacts', appId, 'public', 'data', 'trips', tripId, 'itinerary');
       
-      newItems.forEach((item) => {
+      newItems.forEach((item, index) => {
         // Create a new document reference with auto-generated ID
         const docRef = doc(itineraryCol);
         // Ensure completed field is set (defensive - should already be set by AI service)
         const itemWithDefaults = {
+          ...zones[index],
           ...item,
           completed: item.completed ?? false,
+          ...creationStamp(),
         };
         batch.set(docRef, itemWithDefaults);
       });
       
-      await batch.commit();
+      await settleWrite(batch.commit());
     } catch (err) {
       console.error('Error batch adding items:', err);
       throw new Error('Failed to add items');
     }
-  }, [tripId]);
+  }, [tripId, creationStamp]);
 
   // Batch update items (for geocoding multiple items)
   const updateItemsBatch = useCallback(async (
@@ -291,13 +343,14 @@ export function useItineraryItems(tripId: string): UseItineraryItemsReturn {
     if (updates.length === 0) return;
     
     try {
+      const zones = await Promise.all(updates.map(({ data }) => inferItemTimeZones(data)));
       const batch = writeBatch(db);
       
-      updates.forEach(({ id, data }) => {
-        batch.update(paths.itineraryDoc(id), data);
+      updates.forEach(({ id, data }, index) => {
+        batch.update(paths.itineraryDoc(id), { ...zones[index], ...data });
       });
       
-      await batch.commit();
+      await settleWrite(batch.commit());
     } catch (err) {
       console.error('Error batch updating items:', err);
       throw new Error('Failed to update items');
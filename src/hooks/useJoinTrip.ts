@@ -0,0 +1,97 @@
+import { useCallback, useRef } from 'react';
+import {
+  getDoc,
+  writeBatch,
+  arrayUnion
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { firebasePaths } from './useFirebasePaths';
+import { isInviteActive } from '../services/invites';
+import { settleWrite } from '../services/offline';
+import type { Trip, TripInvite, JoinRequest } from '../types';
+
+/**
+ * Outcome of joining with a code:
+ * - 'joined': added to the trip
+ * - 'pending': the owner has to approve the request first
+ * - 'member': already a member, nothing to do
+ */
+export interface JoinTripResult {
+  status: 'joined' | 'pending' | 'member';
+  tripId: string;
+}
+
+interface UseJoinTripReturn {
+  joinTrip: (code: string) => Promise<JoinTripResult>;
+}
+
+/**
+ * Hook for joining a trip with an invite code
+ */
+export function useJoinTrip(uid: string): UseJoinTripReturn {
+  // In-flight join, so repeated calls for the same code (e.g. effects re-running) share one write
+  const pendingJoin = useRef<{ code: string; promise: Promise<JoinTripResult> } | null>(null);
+
+  const joinWithCode = useCallback(async (code: string): Promise<JoinTripResult> => {
+    const inviteSnap = await getDoc(firebasePaths.joinCodeDoc(code)).catch((err) => {
+      console.error('Error looking up invite:', err);
+      throw new Error('Could not check the invite code. Please try again.');
+    });
+    if (!inviteSnap.exists()) {
+      throw new Error('This invite code is invalid or has been revoked.');
+    }
+
+    const invite = { ...inviteSnap.data(), code: inviteSnap.id } as TripInvite;
+    if (!isInviteActive(invite)) {
+      throw new Error('This invite code has expired. Ask the organizer for a new one.');
+    }
+
+    // Only members can read the trip, so a failed read means we still need to join
+    const tripRef = firebasePaths.tripDoc(invite.tripId);
+    const isMember = await getDoc(tripRef)
+      .then((tripSnap) => !!(tripSnap.data() as Trip | undefined)?.members?.includes(uid))
+      .catch(() => false);
+    if (isMember) {
+      return { status: 'member', tripId: invite.tripId };
+    }
+
+    // The join request records which code was used; security rules check it
+    const request: JoinRequest = {
+      uid,
+      code,
+      role: invite.role,
+      status: invite.requireApproval ? 'pending' : 'joined',
+      requestedAt: Date.now(),
+    };
+
+    try {
+      const batch = writeBatch(db);
+      batch.set(firebasePaths.joinRequestDoc(invite.tripId, uid), request);
+      if (!invite.requireApproval) {
+        batch.update(tripRef, {
+          members: arrayUnion(uid),
+          [`roles.${uid}`]: invite.role,
+        });
+      }
+      await settleWrite(batch.commit());
+    } catch (err) {
+      console.error('Error joining trip:', err);
+      throw new Error('Failed to join trip. Please try again.');
+    }
+
+    return { status: request.status, tripId: invite.tripId };
+  }, [uid]);
+
+  const joinTrip = useCallback((code: string): Promise<JoinTripResult> => {
+    if (pendingJoin.current?.code === code) {
+      return pendingJoin.current.promise;
+    }
+    const promise = joinWithCode(code).finally(() => {
+      if (pendingJoin.current?.promise === promise) pendingJoin.current = null;
+    });
+    pendingJoin.current = { code, promise };
+    return promise;
+  }, [joinWithCode]);
+
+  return { joinTrip };
+}
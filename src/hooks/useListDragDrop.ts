@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DisplayItineraryItem } from '../types';
+import type { DropTarget } from '../services/rescheduling';
+
+// Dragging this close to the top or bottom of the window scrolls it
+const AUTO_SCROLL_EDGE_PX = 60;
+const AUTO_SCROLL_STEP_PX = 12;
+
+export interface ListDragState {
+  item: DisplayItineraryItem;
+  pointerId: number;
+  x: number;
+  y: number;
+  target: DropTarget | null;
+}
+
+interface UseListDragDropReturn {
+  drag: ListDragState | null;
+  startDrag: (item: DisplayItineraryItem, event: React.PointerEvent<HTMLElement>) => void;
+}
+
+/**
+ * Where the pointer would drop an item: the day group under it (marked with data-drop-day)
+ * and the position among that day's other cards (marked with data-drop-item)
+ */
+function findDropTarget(x: number, y: number, item: DisplayItineraryItem): DropTarget | null {
+  const group = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-drop-day]');
+  const day = group?.dataset.dropDay;
+  if (!group || !day) return null;
+
+  const cards = [...group.querySelectorAll<HTMLElement>('[data-drop-item]')]
+    .filter((card) => card.dataset.dropItem !== item.id);
+  const index = cards.findIndex((card) => {
+    const rect = card.getBoundingClientRect();
+    return y < rect.top + rect.height / 2;
+  });
+  return { day, index: index === -1 ? cards.length : index };
+}
+
+/**
+ * Hook for dragging itinerary cards between and within days in the list.
+ * Uses pointer events, so it works the same with a mouse, pen or touch.
+ */
+export function useListDragDrop(
+  onDrop: (item: DisplayItineraryItem, target: DropTarget) => void
+): UseListDragDropReturn {
+  const [drag, setDrag] = useState<ListDragState | null>(null);
+
+  // Latest drag for the pointerup handler, which mustn't restart the listeners on every move
+  const dragRef = useRef<ListDragState | null>(null);
+  const onDropRef = useRef(onDrop);
+  useEffect(() => {
+    onDropRef.current = onDrop;
+  }, [onDrop]);
+
+  const startDrag = useCallback((item: DisplayItineraryItem, event: React.PointerEvent<HTMLElement>) => {
+    if (event.button !== 0) return;
+    // Don't select text while dragging (the handle's touch-action: none stops touch scrolling)
+    event.preventDefault();
+    const next = { item, pointerId: event.pointerId, x: event.clientX, y: event.clientY, target: null };
+    dragRef.current = next;
+    setDrag(next);
+  }, []);
+
+  const pointerId = drag?.pointerId;
+
+  useEffect(() => {
+    if (pointerId === undefined) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current || event.pointerId !== pointerId) return;
+
+      if (event.clientY < AUTO_SCROLL_EDGE_PX) window.scrollBy(0, -AUTO_SCROLL_STEP_PX);
+      else if (event.clientY > window.innerHeight - AUTO_SCROLL_EDGE_PX) window.scrollBy(0, AUTO_SCROLL_STEP_PX);
+
+      const next = {
+        ...current,
+        x: event.clientX,
+        y: event.clientY,
+        target: findDropTarget(event.clientX, event.clientY, current.item),
+      };
+      dragRef.current = next;
+      setDrag(next);
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current || event.pointerId !== pointerId) return;
+      dragRef.current = null;
+      setDrag(null);
+      if (current.target) onDropRef.current(current.item, current.target);
+    };
+
+    const handleCancel = () => {
+      dragRef.current = null;
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleCancel);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleCancel);
+    };
+  }, [pointerId]);
+
+  return { drag, startDrag };
+}
@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react';
+import { getMapSnapshots, removeMapSnapshot, saveMapSnapshot, type MapSnapshot } from '../services/offline';
+import type { ItineraryItem } from '../types';
+
+interface UseMapSnapshotsReturn {
+  snapshots: MapSnapshot[]; // saved on this device, in day order
+  savingDay: string | null;
+  saveDay: (day: string, dayItems: ItineraryItem[]) => Promise<void>;
+  removeSnapshot: (snapshot: MapSnapshot) => Promise<void>;
+}
+
+/**
+ * Hook for the trip's day maps saved as images on this device, to look at without a connection
+ */
+export function useMapSnapshots(tripId: string, googleMapsApiKey: string): UseMapSnapshotsReturn {
+  const [snapshots, setSnapshots] = useState(() => getMapSnapshots(tripId));
+  const [savingDay, setSavingDay] = useState<string | null>(null);
+
+  const saveDay = useCallback(async (day: string, dayItems: ItineraryItem[]) => {
+    setSavingDay(day);
+    try {
+      await saveMapSnapshot(tripId, day, dayItems, googleMapsApiKey);
+      setSnapshots(getMapSnapshots(tripId));
+    } catch (err) {
+      console.error('Error saving map snapshot:', err);
+      throw new Error('Failed to save map');
+    } finally {
+      setSavingDay(null);
+    }
+  }, [tripId, googleMapsApiKey]);
+
+  const removeSnapshot = useCallback(async (snapshot: MapSnapshot) => {
+    try {
+      await removeMapSnapshot(snapshot);
+    } catch (err) {
+      console.error('Error removing map snapshot:', err);
+    }
+    setSnapshots(getMapSnapshots(tripId));
+  }, [tripId]);
+
+  return { snapshots, savingDay, saveDay, removeSnapshot };
+}
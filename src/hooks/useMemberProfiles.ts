@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { onSnapshot, query, where, documentId } from 'firebase/firestore';
+import { firebasePaths } from './useFirebasePaths';
+import type { UserProfile } from '../types';
+
+// Firestore 'in' queries accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+/**
+ * Hook that subscribes to the profiles of a list of users (e.g. trip members).
+ * Returns a map of uid -> profile; users without a profile are missing from it.
+ */
+export function useMemberProfiles(uids: string[]): Record<string, UserProfile> {
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
+
+  // Stable key so a new array with the same members doesn't resubscribe
+  const uidsKey = useMemo(() => [...new Set(uids)].sort().join(','), [uids]);
+
+  useEffect(() => {
+    if (!uidsKey) return;
+
+    const ids = uidsKey.split(',');
+    const unsubscribes: Array<() => void> = [];
+    for (let i = 0; i < ids.length; i += IN_QUERY_LIMIT) {
+      const profilesQuery = query(
+        firebasePaths.userProfilesCollection(),
+        where(documentId(), 'in', ids.slice(i, i + IN_QUERY_LIMIT))
+      );
+      unsubscribes.push(onSnapshot(
+        profilesQuery,
+        (snapshot) => {
+          setProfiles((prev) => {
+            const next = { ...prev };
+            snapshot.docs.forEach((docSnap) => {
+              next[docSnap.id] = { ...docSnap.data(), uid: docSnap.id } as UserProfile;
+            });
+            return next;
+          });
+        },
+        (err) => console.error('Error fetching member profiles:', err)
+      ));
+    }
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [uidsKey]);
+
+  return profiles;
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  onSnapshot,
+  addDoc,
+  updateDoc,
+  deleteDoc
+} from 'firebase/firestore';
+import { useFirebasePaths } from './useFirebasePaths';
+import { sortTasks } from '../services/tasks';
+import { settleWrite } from '../services/offline';
+import type { Task } from '../types';
+
+interface UseTasksReturn {
+  tasks: Task[];
+  isLoading: boolean;
+  error: string | null;
+  // CRUD operations
+  addTask: (task: Partial<Task>) => Promise<void>;
+  updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
+  deleteTask: (taskId: string) => Promise<boolean>;
+  toggleTaskComplete: (task: Task) => Promise<void>;
+}
+
+/**
+ * Hook for managing a trip's task checklist with Firebase
+ */
+export function useTasks(tripId: string): UseTasksReturn {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const paths = useFirebasePaths(tripId);
+
+  // Subscribe to task changes
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      paths.tasksCollection,
+      (snapshot) => {
+        const tripTasks = snapshot.docs.map(
+          (docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as Task
+        );
+        setTasks(sortTasks(tripTasks));
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching tasks:', err);
+        setError('Failed to load tasks');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [paths.tasksCollection]);
+
+  // Add single task
+  const addTask = useCallback(async (task: Partial<Task>) => {
+    try {
+      await settleWrite(addDoc(paths.tasksCollection, {
+        ...task,
+        completed: task.completed ?? false,
+        createdAt: Date.now(),
+      }));
+    } catch (err) {
+      console.error('Error adding task:', err);
+      throw new Error('Failed to add task');
+    }
+  }, [paths.tasksCollection]);
+
+  // Update single task
+  const updateTask = useCallback(async (taskId: string, updates: Partial<Task>) => {
+    try {
+      await settleWrite(updateDoc(paths.taskDoc(taskId), updates));
+    } catch (err) {
+      console.error('Error updating task:', err);
+      throw new Error('Failed to update task');
+    }
+  }, [paths]);
+
+  // Delete single task (with confirmation)
+  const deleteTask = useCallback(async (taskId: string): Promise<boolean> => {
+    if (!confirm('Delete this task?')) return false;
+    try {
+      await settleWrite(deleteDoc(paths.taskDoc(taskId)));
+      return true;
+    } catch (err) {
+      console.error('Error deleting task:', err);
+      throw new Error('Failed to delete task');
+    }
+  }, [paths]);
+
+  // Toggle complete status
+  const toggleTaskComplete = useCallback(async (task: Task) => {
+    try {
+      await settleWrite(updateDoc(paths.taskDoc(task.id), {
+        completed: !task.completed,
+        completedAt: task.completed ? null : Date.now(),
+      }));
+    } catch (err) {
+      console.error('Error toggling task:', err);
+      throw new Error('Failed to update task');
+    }
+  }, [paths]);
+
+  return {
+    tasks,
+    isLoading,
+    error,
+    addTask,
+    updateTask,
+    deleteTask,
+    toggleTaskComplete,
+  };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { inferItemTimeZones } from '../services/timezones';
+import type { ItineraryItem } from '../types';
+
+/**
+ * Hook that adds time zones to items saved before they were recorded,
+ * where the zone can be inferred from the item's airports or coordinates
+ */
+export function useTimeZoneBackfill(
+  items: ItineraryItem[],
+  onUpdateItems: (updates: Array<{ id: string; data: Partial<ItineraryItem> }>) => Promise<void>,
+  enabled: boolean
+): void {
+  // Items already tried this session, so a failed write isn't retried on every snapshot
+  const attemptedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const pending = items.filter((item) => !attemptedRef.current.has(item.id));
+    if (pending.length === 0) return;
+    pending.forEach((item) => attemptedRef.current.add(item.id));
+
+    Promise.all(pending.map(async (item) => {
+      const inferred = await inferItemTimeZones(item);
+      const data: Partial<ItineraryItem> = {};
+      if (!item.timeZone && inferred.timeZone) data.timeZone = inferred.timeZone;
+      if (item.type === 'flight' && !item.arrivalTimeZone && inferred.arrivalTimeZone) {
+        data.arrivalTimeZone = inferred.arrivalTimeZone;
+      }
+      return { id: item.id, data };
+    }))
+      .then((updates) => {
+        const changed = updates.filter(({ data }) => Object.keys(data).length > 0);
+        return changed.length > 0 ? onUpdateItems(changed) : undefined;
+      })
+      .catch((err) => console.error('Error adding time zones:', err));
+  }, [items, onUpdateItems, enabled]);
+}
@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { onSnapshot, setDoc } from 'firebase/firestore';
+import { useFirebasePaths } from './useFirebasePaths';
+import { getRouteKey, getRoutingProvider, isStoredRouteFresh, type Route, type StoredRoute } from '../services/routing';
+import { planTravelLegs, type TravelLeg } from '../services/travelLegs';
+import type { DisplayItineraryItem } from '../types';
+
+// Route requests in flight at once - a long trip can have hundreds of legs, and the
+// Routes API rate-limits bursts
+const MAX_CONCURRENT_ROUTE_REQUESTS = 4;
+
+// A failed request is tried this many times in all, waiting twice as long before each retry
+const MAX_ROUTE_ATTEMPTS = 3;
+const ROUTE_RETRY_DELAY_MS = 5000;
+
+interface QueuedLeg {
+  leg: TravelLeg;
+  attempt: number; // requests already made for it
+}
+
+/**
+ * Hook for the travel legs between each day's items. Legs start out as straight-line
+ * estimates and take the routing provider's route as it comes in, a few requests at a
+ * time; without a provider, or while offline, they stay estimates. Routes are saved with
+ * the trip (by members who can edit it), so they're only asked for once.
+ */
+export function useTravelLegs(
+  tripId: string,
+  itemsByDay: Record<string, DisplayItineraryItem[]>,
+  canSaveRoutes: boolean
+): Record<string, TravelLeg[]> {
+  const plannedByDay = useMemo(() => planTravelLegs(itemsByDay), [itemsByDay]);
+  const provider = useMemo(() => getRoutingProvider(), []);
+
+  const paths = useFirebasePaths(tripId);
+
+  // Routes saved with the trip by route key (null until they've loaded)
+  const [storedRoutes, setStoredRoutes] = useState<Record<string, StoredRoute> | null>(null);
+  // Routes from the provider since the itinerary was opened
+  const [routes, setRoutes] = useState<Record<string, Route>>({});
+  // Keys asked for or waiting for a retry, so a leg isn't requested twice and a routeless one isn't
+  // retried on every change. Keys that fail every attempt are let go, for the next change to retry.
+  const requestedRef = useRef(new Set<string>());
+  // Legs waiting for a request slot, in itinerary order, and the number of requests in flight
+  const queueRef = useRef<QueuedLeg[]>([]);
+  const inFlightRef = useRef(0);
+  const retryTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      paths.routesCollection,
+      (snapshot) => {
+        const next: Record<string, StoredRoute> = {};
+        snapshot.docs.forEach((docSnap) => {
+          next[docSnap.id] = docSnap.data() as StoredRoute;
+        });
+        setStoredRoutes(next);
+      },
+      (err) => {
+        console.error('Error fetching saved routes:', err);
+        setStoredRoutes({});
+      }
+    );
+
+    return () => unsubscribe();
+  }, [paths.routesCollection]);
+
+  useEffect(() => {
+    const retryTimers = retryTimersRef.current;
+    return () => retryTimers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  useEffect(() => {
+    if (!provider || !navigator.onLine || !storedRoutes) return;
+
+    const now = Date.now();
+    const pending = Object.values(plannedByDay)
+      .flat()
+      .filter((leg) => {
+        const key = getRouteKey(leg.from, leg.to, leg.mode);
+        const stored = storedRoutes[key];
+        if (requestedRef.current.has(key) || (stored && isStoredRouteFresh(stored, now))) return false;
+        requestedRef.current.add(key);
+        return true;
+      });
+    if (pending.length === 0) return;
+    queueRef.current.push(...pending.map((leg) => ({ leg, attempt: 0 })));
+
+    const retryLater = ({ leg, attempt }: QueuedLeg) => {
+      if (attempt + 1 >= MAX_ROUTE_ATTEMPTS) {
+        requestedRef.current.delete(getRouteKey(leg.from, leg.to, leg.mode));
+        return;
+      }
+      const timer = setTimeout(() => {
+        retryTimersRef.current.delete(timer);
+        queueRef.current.push({ leg, attempt: attempt + 1 });
+        requestNext();
+      }, ROUTE_RETRY_DELAY_MS * 2 ** attempt);
+      retryTimersRef.current.add(timer);
+    };
+
+    const requestNext = () => {
+      while (inFlightRef.current < MAX_CONCURRENT_ROUTE_REQUESTS && queueRef.current.length > 0) {
+        const queued = queueRef.current.shift()!;
+        const { leg } = queued;
+        const key = getRouteKey(leg.from, leg.to, leg.mode);
+        inFlightRef.current += 1;
+        provider
+          .getRoute(leg.from, leg.to, leg.mode, leg.departAt ?? undefined)
+          .then((route) => {
+            if (!route) return;
+            setRoutes((prev) => ({ ...prev, [key]: route }));
+            if (!canSaveRoutes) return;
+            const stored: StoredRoute = { ...route, fetchedAt: Date.now() };
+            setDoc(paths.routeDoc(key), stored).catch((err) => console.error('Error saving route:', err));
+          })
+          .catch((err) => {
+            console.error('Error routing travel leg:', err);
+            retryLater(queued);
+          })
+          .finally(() => {
+            inFlightRef.current -= 1;
+            requestNext();
+          });
+      }
+    };
+    requestNext();
+  }, [plannedByDay, provider, storedRoutes, canSaveRoutes, paths]);
+
+  return useMemo(() => {
+    const legsByDay: Record<string, TravelLeg[]> = {};
+    for (const [day, legs] of Object.entries(plannedByDay)) {
+      legsByDay[day] = legs.map((leg) => {
+        const key = getRouteKey(leg.from, leg.to, leg.mode);
+        const route = routes[key] ?? storedRoutes?.[key];
+        return route ? { ...leg, route } : leg;
+      });
+    }
+    return legsByDay;
+  }, [plannedByDay, routes, storedRoutes]);
+}
@@ -0,0 +1,157 @@
+import { useCallback } from 'react';
+import { doc, getDocs, writeBatch, type DocumentData, type DocumentReference } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { firebasePaths } from './useFirebasePaths';
+import { buildInvite } from '../services/invites';
+import { buildTripBackup, getBackupFileName, planBackupMerge } from '../services/backup';
+import { chunk, generateJoinCode } from '../services/trips';
+import { settleWrite } from '../services/offline';
+import type { Trip, TripBackup, ItineraryItem, Expense, Task } from '../types';
+
+/**
+ * Outcome of restoring a backup
+ */
+export interface BackupRestoreResult {
+  tripId: string;
+  added: number; // records written
+  duplicates: number; // records already in the trip, skipped when merging
+  failed: number; // records not written because a batch failed - merging the backup again adds them
+}
+
+interface UseTripBackupReturn {
+  downloadBackup: (trip: Trip) => Promise<void>;
+  restoreAsNewTrip: (backup: TripBackup) => Promise<BackupRestoreResult>;
+  mergeIntoTrip: (backup: TripBackup, trip: Trip) => Promise<BackupRestoreResult>;
+}
+
+/**
+ * Read a trip's itinerary, expenses and tasks
+ */
+async function fetchTripRecords(tripId: string) {
+  const [itinerary, expenses, tasks] = await Promise.all(
+    ['itinerary', 'expenses', 'tasks'].map((name) => getDocs(firebasePaths.tripSubcollection(tripId, name)))
+  );
+  return {
+    itinerary: itinerary.docs.map((docSnap) => ({ ...docSnap.data(), id: docSnap.id }) as ItineraryItem),
+    expenses: expenses.docs.map((docSnap) => ({ ...docSnap.data(), id: docSnap.id }) as Expense),
+    tasks: tasks.docs.map((docSnap) => ({ ...docSnap.data(), id: docSnap.id }) as Task),
+  };
+}
+
+/**
+ * Hook for backing up trips to a JSON file and restoring them,
+ * either as a new trip or merged into one the user can edit
+ */
+export function useTripBackup(currentUserId: string): UseTripBackupReturn {
+  /**
+   * Write backup records into a trip in chunked batches, with new IDs (items take the one
+   * itemIdMap picked for them, if any). Tasks linked to a backup item are re-linked to its
+   * new ID (or to the trip's own copy of it, via itemIdMap); links that can't be resolved are dropped.
+   *
+   * Batches go in order - items before tasks - and stop at the first that fails, so tasks
+   * only link to items that were written. Merging the same backup again adds the rest.
+   */
+  const writeRecords = useCallback(async (
+    tripId: string,
+    records: Pick<TripBackup, 'itinerary' | 'expenses' | 'tasks'>,
+    itemIdMap: Record<string, string> = {}
+  ): Promise<{ added: number; failed: number }> => {
+    const restoredAt = Date.now();
+    const idMap = { ...itemIdMap };
+    const writes: [DocumentReference, DocumentData][] = [];
+
+    records.itinerary.forEach(({ id, ...item }) => {
+      const plannedId = id ? itemIdMap[id] : undefined;
+      const ref = plannedId
+        ? doc(firebasePaths.itineraryCollection(tripId), plannedId)
+        : doc(firebasePaths.itineraryCollection(tripId));
+      if (id) idMap[id] = ref.id;
+      writes.push([ref, { ...item, createdBy: currentUserId, updatedBy: currentUserId, updatedAt: restoredAt }]);
+    });
+    records.expenses.forEach((expense) => {
+      writes.push([doc(firebasePaths.tripSubcollection(tripId, 'expenses')), expense]);
+    });
+    records.tasks.forEach(({ itemId, ...task }) => {
+      const linkedId = itemId ? idMap[itemId] : undefined;
+      writes.push([
+        doc(firebasePaths.tripSubcollection(tripId, 'tasks')),
+        linkedId ? { ...task, itemId: linkedId } : task,
+      ]);
+    });
+
+    let added = 0;
+    for (const writesChunk of chunk(writes)) {
+      const batch = writeBatch(db);
+      writesChunk.forEach(([ref, data]) => batch.set(ref, data));
+      try {
+        await settleWrite(batch.commit());
+      } catch (err) {
+        console.error('Error writing backup records:', err);
+        break;
+      }
+      added += writesChunk.length;
+    }
+    return { added, failed: writes.length - added };
+  }, [currentUserId]);
+
+  const downloadBackup = useCallback(async (trip: Trip) => {
+    try {
+      const { itinerary, expenses, tasks } = await fetchTripRecords(trip.id);
+      const backup = buildTripBackup(trip, itinerary, expenses, tasks);
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = getBackupFileName(trip.name);
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting trip:', err);
+      throw new Error('Failed to export trip');
+    }
+  }, []);
+
+  // The trip and its invite go in first - rules only accept records for a trip the user can edit
+  const restoreAsNewTrip = useCallback(async (backup: TripBackup) => {
+    try {
+      const tripRef = doc(firebasePaths.tripsCollection());
+      const joinCode = generateJoinCode();
+      const batch = writeBatch(db);
+      batch.set(tripRef, {
+        ...backup.trip,
+        name: `${backup.trip.name} (Restored)`,
+        ownerId: currentUserId,
+        members: [currentUserId],
+        roles: { [currentUserId]: 'owner' },
+        joinCode,
+      });
+      batch.set(firebasePaths.joinCodeDoc(joinCode), buildInvite(joinCode, tripRef.id, currentUserId));
+      await settleWrite(batch.commit());
+
+      const { added, failed } = await writeRecords(tripRef.id, backup);
+      return { tripId: tripRef.id, added, duplicates: 0, failed };
+    } catch (err) {
+      console.error('Error restoring trip:', err);
+      throw new Error('Failed to restore trip');
+    }
+  }, [currentUserId, writeRecords]);
+
+  const mergeIntoTrip = useCallback(async (backup: TripBackup, trip: Trip) => {
+    try {
+      const plan = planBackupMerge(
+        backup,
+        await fetchTripRecords(trip.id),
+        () => doc(firebasePaths.itineraryCollection(trip.id)).id
+      );
+      const { added, failed } = await writeRecords(trip.id, plan, plan.itemIdMap);
+      return { tripId: trip.id, added, duplicates: plan.duplicates, failed };
+    } catch (err) {
+      console.error('Error merging backup:', err);
+      throw new Error('Failed to merge backup into the trip');
+    }
+  }, [writeRecords]);
+
+  return { downloadBackup, restoreAsNewTrip, mergeIntoTrip };
+}
@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { writeBatch, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions, appId } from '../config/firebase';
+import { firebasePaths } from './useFirebasePaths';
+import { buildInvite, DEFAULT_INVITE_SETTINGS } from '../services/invites';
+import { generateJoinCode } from '../services/trips';
+import { settleWrite } from '../services/offline';
+import type { InviteSettings, Trip, TripInvite } from '../types';
+
+// Cloud Function (functions/src/tripDeletion.ts) that deletes a trip with all of its
+// subcollections - more than the client should be trusted to finish
+const deleteTrip = httpsCallable<{ appId: string; tripId: string }, void>(functions, 'deleteTrip');
+
+/**
+ * Settings of the trip's current invite, to bring back on restore (null when invites are off).
+ * Codes from before invite documents existed let anyone join as an editor.
+ */
+async function getInviteSettings(trip: Trip): Promise<InviteSettings | null> {
+  if (!trip.joinCode) return null;
+  const inviteSnap = await getDoc(firebasePaths.joinCodeDoc(trip.joinCode));
+  if (!inviteSnap.exists()) return DEFAULT_INVITE_SETTINGS;
+  const { expiresAt, requireApproval, role } = inviteSnap.data() as TripInvite;
+  return { expiresAt, requireApproval, role };
+}
+
+interface UseTripDeletionReturn {
+  moveToTrash: (trip: Trip) => Promise<void>;
+  restoreTrip: (trip: Trip) => Promise<void>;
+  deleteTripForever: (trip: Trip) => Promise<void>;
+}
+
+/**
+ * Hook for the owner's trip deletion: a restorable trash, then permanent deletion
+ * of the trip with all of its subcollections (done by a Cloud Function)
+ */
+export function useTripDeletion(currentUserId: string): UseTripDeletionReturn {
+  // Trash the trip, revoking its invite code and calendar feed so it isn't shared meanwhile.
+  // The invite's settings are kept on the trip for a restore.
+  const moveToTrash = useCallback(async (trip: Trip) => {
+    try {
+      const trashedInvite = await getInviteSettings(trip);
+      const batch = writeBatch(db);
+      if (trip.joinCode) {
+        batch.delete(firebasePaths.joinCodeDoc(trip.joinCode));
+      }
+      batch.update(firebasePaths.tripDoc(trip.id), {
+        deletedAt: Date.now(),
+        joinCode: '',
+        calendarFeedToken: '',
+        trashedInvite,
+      });
+      await settleWrite(batch.commit());
+    } catch (err) {
+      console.error('Error moving trip to trash:', err);
+      throw new Error('Failed to delete trip');
+    }
+  }, []);
+
+  // Take the trip out of the trash. The invite it had comes back under a fresh code, with the
+  // same settings and expiry; without one (or once it would have expired) invites stay off.
+  const restoreTrip = useCallback(async (trip: Trip) => {
+    try {
+      const settings = trip.trashedInvite;
+      const batch = writeBatch(db);
+      if (settings && (settings.expiresAt === null || settings.expiresAt > Date.now())) {
+        const joinCode = generateJoinCode();
+        batch.update(firebasePaths.tripDoc(trip.id), { deletedAt: null, joinCode, trashedInvite: null });
+        batch.set(firebasePaths.joinCodeDoc(joinCode), buildInvite(joinCode, trip.id, currentUserId, settings));
+      } else {
+        batch.update(firebasePaths.tripDoc(trip.id), { deletedAt: null, trashedInvite: null });
+      }
+      await settleWrite(batch.commit());
+    } catch (err) {
+      console.error('Error restoring trip:', err);
+      throw new Error('Failed to restore trip');
+    }
+  }, [currentUserId]);
+
+  // Trips left in the trash are purged by the server on its own schedule
+  const deleteTripForever = useCallback(async (trip: Trip) => {
+    try {
+      await deleteTrip({ appId, tripId: trip.id });
+    } catch (err) {
+      console.error('Error deleting trip:', err);
+      throw new Error('Failed to delete trip');
+    }
+  }, []);
+
+  return { moveToTrash, restoreTrip, deleteTripForever };
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  onSnapshot,
+  getDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  query,
+  where,
+  arrayUnion
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { useFirebasePaths, firebasePaths } from './useFirebasePaths';
+import { buildInvite } from '../services/invites';
+import { generateJoinCode } from '../services/trips';
+import { isTripOwner } from '../services/permissions';
+import { settleWrite } from '../services/offline';
+import type { Trip, TripInvite, InviteSettings, JoinRequest } from '../types';
+
+interface UseTripInviteReturn {
+  invite: TripInvite | null; // null when invites are revoked (or the code predates invite documents)
+  joinRequests: JoinRequest[]; // pending requests only
+  // Invite code
+  createInvite: (settings: InviteSettings) => Promise<string>;
+  updateInvite: (settings: Partial<InviteSettings>) => Promise<void>;
+  revokeInvite: () => Promise<void>;
+  // Approval queue
+  approveRequest: (request: JoinRequest) => Promise<void>;
+  rejectRequest: (request: JoinRequest) => Promise<void>;
+}
+
+/**
+ * Hook for the owner to manage a trip's invite code and review join requests.
+ * Only subscribes for the owner - security rules hide both from other members.
+ */
+export function useTripInvite(trip: Trip, currentUserId: string): UseTripInviteReturn {
+  const [invite, setInvite] = useState<TripInvite | null>(null);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+
+  const paths = useFirebasePaths(trip.id);
+  const isOwner = isTripOwner(trip, currentUserId);
+
+  // Subscribe to the current invite
+  useEffect(() => {
+    if (!isOwner || !trip.joinCode) return;
+
+    const unsubscribe = onSnapshot(
+      firebasePaths.joinCodeDoc(trip.joinCode),
+      (docSnap) => {
+        setInvite(docSnap.exists() ? ({ ...docSnap.data(), code: docSnap.id } as TripInvite) : null);
+      },
+      (err) => console.error('Error fetching invite:', err)
+    );
+
+    return () => unsubscribe();
+  }, [isOwner, trip.joinCode]);
+
+  // Subscribe to pending join requests
+  useEffect(() => {
+    if (!isOwner) return;
+
+    const pendingQuery = query(paths.joinRequestsCollection, where('status', '==', 'pending'));
+    const unsubscribe = onSnapshot(
+      pendingQuery,
+      (snapshot) => {
+        const requests = snapshot.docs.map(
+          (docSnap) => ({ ...docSnap.data(), uid: docSnap.id }) as JoinRequest
+        );
+        setJoinRequests(requests.sort((a, b) => a.requestedAt - b.requestedAt));
+      },
+      (err) => console.error('Error fetching join requests:', err)
+    );
+
+    return () => unsubscribe();
+  }, [isOwner, paths.joinRequestsCollection]);
+
+  // The current invite, ignoring a stale one left over from a previous code
+  const activeInvite = invite && invite.code === trip.joinCode ? invite : null;
+
+  // Replace the current code with a new one - the old code stops working immediately
+  const createInvite = useCallback(async (settings: InviteSettings): Promise<string> => {
+    const code = generateJoinCode();
+    try {
+      const batch = writeBatch(db);
+      batch.set(firebasePaths.joinCodeDoc(code), buildInvite(code, trip.id, currentUserId, settings));
+      batch.update(paths.tripRef, { joinCode: code });
+      if (activeInvite) {
+        batch.delete(firebasePaths.joinCodeDoc(activeInvite.code));
+      }
+      await settleWrite(batch.commit());
+      return code;
+    } catch (err) {
+      console.error('Error creating invite:', err);
+      throw new Error('Failed to create invite code');
+    }
+  }, [trip.id, currentUserId, activeInvite, paths.tripRef]);
+
+  // Change expiry, role or approval for the current code
+  const updateInvite = useCallback(async (settings: Partial<InviteSettings>) => {
+    if (!activeInvite) {
+      throw new Error('There is no active invite code');
+    }
+    try {
+      await settleWrite(updateDoc(firebasePaths.joinCodeDoc(activeInvite.code), { ...settings }));
+    } catch (err) {
+      console.error('Error updating invite:', err);
+      throw new Error('Failed to update invite');
+    }
+  }, [activeInvite]);
+
+  // Turn off joining by code until a new one is created
+  const revokeInvite = useCallback(async () => {
+    try {
+      const batch = writeBatch(db);
+      if (activeInvite) {
+        batch.delete(firebasePaths.joinCodeDoc(activeInvite.code));
+      }
+      batch.update(paths.tripRef, { joinCode: '' });
+      await settleWrite(batch.commit());
+    } catch (err) {
+      console.error('Error revoking invite:', err);
+      throw new Error('Failed to revoke invite code');
+    }
+  }, [activeInvite, paths.tripRef]);
+
+  // Role the requester asked to join with. The code may have been changed or revoked since,
+  // so it comes from the request, or the invite for the code they used - viewer if neither is left.
+  const getRequestedRole = useCallback(async (request: JoinRequest): Promise<InviteSettings['role']> => {
+    if (request.role) return request.role;
+    if (activeInvite?.code === request.code) return activeInvite.role;
+    const inviteSnap = await getDoc(firebasePaths.joinCodeDoc(request.code));
+    const requestedInvite = inviteSnap.data() as TripInvite | undefined;
+    return requestedInvite?.tripId === trip.id ? requestedInvite.role : 'viewer';
+  }, [activeInvite, trip.id]);
+
+  // Add the requester with the role they asked for and clear the request
+  const approveRequest = useCallback(async (request: JoinRequest) => {
+    try {
+      const role = await getRequestedRole(request);
+      const batch = writeBatch(db);
+      batch.update(paths.tripRef, {
+        members: arrayUnion(request.uid),
+        [`roles.${request.uid}`]: role,
+      });
+      batch.delete(paths.joinRequestDoc(request.uid));
+      await settleWrite(batch.commit());
+    } catch (err) {
+      console.error('Error approving join request:', err);
+      throw new Error('Failed to approve request');
+    }
+  }, [getRequestedRole, paths]);
+
+  const rejectRequest = useCallback(async (request: JoinRequest) => {
+    try {
+      await settleWrite(deleteDoc(paths.joinRequestDoc(request.uid)));
+    } catch (err) {
+      console.error('Error rejecting join request:', err);
+      throw new Error('Failed to decline request');
+    }
+  }, [paths]);
+
+  return {
+    invite: activeInvite,
+    joinRequests: isOwner ? joinRequests : [],
+    createInvite,
+    updateInvite,
+    revokeInvite,
+    approveRequest,
+    rejectRequest,
+  };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo } from 'react';
+import { onSnapshot, setDoc, deleteDoc } from 'firebase/firestore';
+import { useFirebasePaths } from './useFirebasePaths';
+import { PRESENCE_HEARTBEAT_MS, isPresenceActive } from '../services/members';
+import type { TripPresence } from '../types';
+
+interface UseTripPresenceReturn {
+  lastSeen: Record<string, number>; // uid -> latest heartbeat
+  activeMemberIds: string[]; // members viewing the trip right now
+  now: number; // time of the last presence check, for formatting lastSeen
+}
+
+/**
+ * Hook that announces the current user as viewing a trip and tracks who else is.
+ * Sends a heartbeat while the tab is visible and removes it when the trip is closed.
+ */
+export function useTripPresence(tripId: string, currentUserId: string): UseTripPresenceReturn {
+  const [lastSeen, setLastSeen] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  const paths = useFirebasePaths(tripId);
+
+  // Subscribe to everyone's heartbeats
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      paths.presenceCollection,
+      (snapshot) => {
+        const next: Record<string, number> = {};
+        snapshot.docs.forEach((docSnap) => {
+          next[docSnap.id] = (docSnap.data() as TripPresence).lastSeen;
+        });
+        setLastSeen(next);
+        setNow(Date.now());
+      },
+      (err) => console.error('Error fetching presence:', err)
+    );
+
+    return () => unsubscribe();
+  }, [paths.presenceCollection]);
+
+  // Heartbeat while the trip is open and the tab is visible
+  useEffect(() => {
+    const presenceRef = paths.presenceDoc(currentUserId);
+
+    const beat = () => {
+      setNow(Date.now());
+      // Offline heartbeats would only queue up and arrive stale
+      if (document.visibilityState !== 'visible' || !navigator.onLine) return;
+      const presence: TripPresence = { uid: currentUserId, lastSeen: Date.now() };
+      setDoc(presenceRef, presence).catch((err) => console.error('Error sending presence:', err));
+    };
+
+    beat();
+    const interval = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', beat);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', beat);
+      // Best effort - a closed tab just times out instead
+      deleteDoc(presenceRef).catch(() => {});
+    };
+  }, [paths, currentUserId]);
+
+  const activeMemberIds = useMemo(
+    () => Object.keys(lastSeen).filter((uid) => isPresenceActive(lastSeen[uid], now)),
+    [lastSeen, now]
+  );
+
+  return { lastSeen, activeMemberIds, now };
+}
@@ -0,0 +1,143 @@
+import { useCallback } from 'react';
+import {
+  updateDoc,
+  writeBatch,
+  getDocs,
+  arrayRemove,
+  deleteField
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { useFirebasePaths } from './useFirebasePaths';
+import { chunk, daysBetween, shiftItemDates, FIRESTORE_BATCH_LIMIT } from '../services/trips';
+import { settleWrite } from '../services/offline';
+import type { Trip, TripRole, ItineraryItem } from '../types';
+
+interface TripDetailsUpdate {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface UseTripSettingsReturn {
+  // Details
+  updateDetails: (details: TripDetailsUpdate, shiftItems: boolean) => Promise<number>;
+  // Membership
+  removeMember: (uid: string) => Promise<void>;
+  transferOwnership: (uid: string) => Promise<void>;
+  setMemberRole: (uid: string, role: Exclude<TripRole, 'owner'>) => Promise<void>;
+  // Lifecycle
+  setArchived: (archived: boolean) => Promise<void>;
+}
+
+/**
+ * Hook providing the owner/admin actions behind the Trip Settings panel
+ */
+export function useTripSettings(trip: Trip): UseTripSettingsReturn {
+  const paths = useFirebasePaths(trip.id);
+
+  /**
+   * Update name and dates. When `shiftItems` is set and the start date moved,
+   * every itinerary item's dates (see shiftItemDates) move by the same offset.
+   * Returns the number of items that were shifted.
+   */
+  const updateDetails = useCallback(async (details: TripDetailsUpdate, shiftItems: boolean): Promise<number> => {
+    const offset = shiftItems && trip.startDate && details.startDate
+      ? daysBetween(trip.startDate, details.startDate)
+      : 0;
+
+    try {
+      if (offset === 0) {
+        await settleWrite(updateDoc(paths.tripRef, { ...details }));
+        return 0;
+      }
+
+      const snapshot = await getDocs(paths.itineraryCollection);
+      const itemUpdates = snapshot.docs.map((docSnap) => ({
+        ref: docSnap.ref,
+        data: shiftItemDates(docSnap.data() as ItineraryItem, offset),
+      }));
+
+      // Trip update goes in the first batch, leaving room for it under the limit
+      const chunks = chunk(itemUpdates, FIRESTORE_BATCH_LIMIT - 1);
+      if (chunks.length === 0) chunks.push([]);
+
+      for (const [index, updates] of chunks.entries()) {
+        const batch = writeBatch(db);
+        if (index === 0) {
+          batch.update(paths.tripRef, { ...details });
+        }
+        updates.forEach(({ ref, data }) => batch.update(ref, data));
+        await settleWrite(batch.commit());
+      }
+
+      return itemUpdates.length;
+    } catch (err) {
+      console.error('Error updating trip details:', err);
+      throw new Error('Failed to update trip');
+    }
+  }, [trip.startDate, paths]);
+
+  // Remove a member (the owner cannot be removed)
+  const removeMember = useCallback(async (uid: string) => {
+    if (uid === trip.ownerId) {
+      throw new Error('The trip owner cannot be removed');
+    }
+    try {
+      await settleWrite(updateDoc(paths.tripRef, {
+        members: arrayRemove(uid),
+        [`roles.${uid}`]: deleteField(),
+      }));
+    } catch (err) {
+      console.error('Error removing member:', err);
+      throw new Error('Failed to remove member');
+    }
+  }, [trip.ownerId, paths.tripRef]);
+
+  // Hand ownership to another member; the previous owner becomes an editor
+  const transferOwnership = useCallback(async (uid: string) => {
+    if (!trip.members?.includes(uid)) {
+      throw new Error('New owner must be a member of the trip');
+    }
+    try {
+      await settleWrite(updateDoc(paths.tripRef, {
+        ownerId: uid,
+        [`roles.${uid}`]: 'owner',
+        [`roles.${trip.ownerId}`]: 'editor',
+      }));
+    } catch (err) {
+      console.error('Error transferring ownership:', err);
+      throw new Error('Failed to transfer ownership');
+    }
+  }, [trip.members, trip.ownerId, paths.tripRef]);
+
+  // Make a member an editor or a viewer (use transferOwnership for 'owner')
+  const setMemberRole = useCallback(async (uid: string, role: Exclude<TripRole, 'owner'>) => {
+    if (uid === trip.ownerId) {
+      throw new Error("The owner's role cannot be changed");
+    }
+    try {
+      await settleWrite(updateDoc(paths.tripRef, { [`roles.${uid}`]: role }));
+    } catch (err) {
+      console.error('Error changing member role:', err);
+      throw new Error('Failed to change role');
+    }
+  }, [trip.ownerId, paths.tripRef]);
+
+  // Archive or restore the trip
+  const setArchived = useCallback(async (archived: boolean) => {
+    try {
+      await settleWrite(updateDoc(paths.tripRef, { archived }));
+    } catch (err) {
+      console.error('Error archiving trip:', err);
+      throw new Error('Failed to update trip');
+    }
+  }, [paths.tripRef]);
+
+  return {
+    updateDetails,
+    removeMember,
+    transferOwnership,
+    setMemberRole,
+    setArchived,
+  };
+}
@@ -0,0 +1,74 @@
+import { useState, useEffect, useMemo } from 'react';
+import { onSnapshot } from 'firebase/firestore';
+import { useFirebasePaths } from './useFirebasePaths';
+import { useOnlineStatus } from './useOnlineStatus';
+
+// The trip document and its itinerary, expenses and checklist
+const SOURCE_COUNT = 4;
+
+interface SourceStatus {
+  synced: boolean; // has come from the server at least once since the trip was opened
+  pendingWrites: number;
+}
+
+interface UseTripSyncStatusReturn {
+  isOnline: boolean;
+  isAvailableOffline: boolean; // the trip and its lists are in this device's cache, up to date
+  pendingWrites: number; // edits saved on this device that haven't reached the server yet
+}
+
+/**
+ * Hook for how much of a trip is kept on this device. Listens to the trip and its itinerary,
+ * expenses and checklist with metadata changes, which Firestore sends when a snapshot moves
+ * from its local cache to the server and when queued writes are acknowledged.
+ */
+export function useTripSyncStatus(tripId: string): UseTripSyncStatusReturn {
+  const isOnline = useOnlineStatus();
+  const [sources, setSources] = useState<Record<string, SourceStatus>>({});
+
+  const paths = useFirebasePaths(tripId);
+
+  useEffect(() => {
+    const update = (key: string, fromCache: boolean, pendingWrites: number) => {
+      setSources((prev) => ({
+        ...prev,
+        [key]: { synced: (prev[key]?.synced ?? false) || !fromCache, pendingWrites },
+      }));
+    };
+    const onError = (err: Error) => console.error('Error fetching sync status:', err);
+
+    const unsubscribes = [
+      onSnapshot(
+        paths.tripRef,
+        { includeMetadataChanges: true },
+        (snapshot) => update('trip', snapshot.metadata.fromCache, snapshot.metadata.hasPendingWrites ? 1 : 0),
+        onError
+      ),
+      ...Object.entries({
+        itinerary: paths.itineraryCollection,
+        expenses: paths.expensesCollection,
+        tasks: paths.tasksCollection,
+      }).map(([key, collectionRef]) => onSnapshot(
+        collectionRef,
+        { includeMetadataChanges: true },
+        (snapshot) => {
+          const pendingDocs = snapshot.docs.filter((docSnap) => docSnap.metadata.hasPendingWrites).length;
+          // Deletes leave no document behind to count
+          update(key, snapshot.metadata.fromCache, Math.max(pendingDocs, snapshot.metadata.hasPendingWrites ? 1 : 0));
+        },
+        onError
+      )),
+    ];
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [paths]);
+
+  return useMemo(() => {
+    const statuses = Object.values(sources);
+    return {
+      isOnline,
+      isAvailableOffline: statuses.length === SOURCE_COUNT && statuses.every((status) => status.synced),
+      pendingWrites: statuses.reduce((total, status) => total + status.pendingWrites, 0),
+    };
+  }, [sources, isOnline]);
+}
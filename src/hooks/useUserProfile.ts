@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { onSnapshot, setDoc } from 'firebase/firestore';
+import { firebasePaths } from './useFirebasePaths';
+import { settleWrite } from '../services/offline';
+import type { UserProfile } from '../types';
+
+interface UseUserProfileReturn {
+  profile: UserProfile | null;
+  isLoading: boolean;
+  saveProfile: (updates: Partial<Pick<UserProfile, 'displayName' | 'photoURL'>>) => Promise<void>;
+}
+
+/**
+ * Hook for reading and editing the current user's profile
+ */
+export function useUserProfile(uid: string): UseUserProfileReturn {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Subscribe to profile changes
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      firebasePaths.userProfileDoc(uid),
+      (docSnap) => {
+        setProfile(docSnap.exists() ? ({ ...docSnap.data(), uid: docSnap.id } as UserProfile) : null);
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching profile:', err);
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  // Writes the whole document so saving also works before the profile exists
+  const saveProfile = useCallback(async (updates: Partial<Pick<UserProfile, 'displayName' | 'photoURL'>>) => {
+    try {
+      await settleWrite(setDoc(firebasePaths.userProfileDoc(uid), {
+        displayName: profile?.displayName || '',
+        photoURL: profile?.photoURL || '',
+        ...updates,
+        updatedAt: Date.now(),
+      }));
+    } catch (err) {
+      console.error('Error saving profile:', err);
+      throw new Error('Failed to save profile');
+    }
+  }, [uid, profile]);
+
+  return { profile, isLoading, saveProfile };
+}
@@ -1,29 +1,35 @@
-import { useState, useEffect, useRef } from 'react';
-import { Plane, Plus, Upload, AlertTriangle, Users } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Plane, Plus, Upload, AlertTriangle, Users, Archive, ShieldAlert, Trash2, ArchiveRestore } from 'lucide-react';
 import type { User } from 'firebase/auth';
 
 import type { Trip } from '../types';
 import { TripCard } from '../components/TripCard';
 import { MobileActionMenu, type MenuAction } from '../components/MobileActionMenu';
+import { AccountModal } from '../components/AccountModal';
+import { RestoreBackupModal } from '../components/RestoreBackupModal';
+import { MemberAvatar } from '../components/MemberAvatar';
+import { generateJoinCode, daysLeftInTrash, TRASH_RETENTION_DAYS } from '../services/trips';
+import { buildInvite, parseJoinCode } from '../services/invites';
+import { settleWrite } from '../services/offline';
+import { useJoinTrip, useUserProfile, useTripDeletion, useTripBackup } from '../hooks';
 import {
   db,
   appId,
   collection,
   doc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   onSnapshot,
   writeBatch,
-  getDocs
+  query,
+  where
 } from '../config/firebase';
 
 interface DashboardProps {
   user: User;
   onOpenTrip: (id: string) => void;
+  onAccountChanged: () => void;
 }
 
-export function Dashboard({ user, onOpenTrip }: DashboardProps) {
+export function Dashboard({ user, onOpenTrip, onAccountChanged }: DashboardProps) {
   const [trips, setTrips] = useState<Trip[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
@@ -31,24 +37,35 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
   const [newTripStart, setNewTripStart] = useState('');
   const [newTripEnd, setNewTripEnd] = useState('');
   const [joinCodeInput, setJoinCodeInput] = useState('');
+  const [joinError, setJoinError] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const { joinTrip } = useJoinTrip(user.uid);
+  const { profile } = useUserProfile(user.uid);
+  const [showAccountModal, setShowAccountModal] = useState(false);
   const [createError, setCreateError] = useState('');
   const [isCreating, setIsCreating] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const [tripToDelete, setTripToDelete] = useState<Trip | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashBusyId, setTrashBusyId] = useState<string | null>(null);
+  const { moveToTrash, restoreTrip, deleteTripForever } = useTripDeletion(user.uid);
+  const { downloadBackup } = useTripBackup(user.uid);
+  const [showRestoreModal, setShowRestoreModal] = useState(false);
+  // Fixed for the visit - only used to count down days left in the trash
+  const [now] = useState(() => Date.now());
 
   useEffect(() => {
     if (!user) return;
     const tripsRef = collection(db, 'artifacts', appId, 'public', 'data', 'trips');
+    // Security rules only allow listing trips the user is a member of
+    const myTripsQuery = query(tripsRef, where('members', 'array-contains', user.uid));
     const unsubscribe = onSnapshot(
-      tripsRef,
+      myTripsQuery,
       (snapshot) => {
-        const allTrips = snapshot.docs.map(
+        const myTrips = snapshot.docs.map(
           (doc) => ({ id: doc.id, ...doc.data() }) as Trip
         );
-        const myTrips = allTrips.filter(
-          (t) => t.ownerId === user.uid || (t.members && t.members.includes(user.uid))
-        );
         setTrips(myTrips);
       },
       (error) => console.error('Error fetching trips:', error)
@@ -67,15 +84,25 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
     
     setIsCreating(true);
     try {
+      const tripRef = doc(collection(db, 'artifacts', appId, 'public', 'data', 'trips'));
+      const joinCode = generateJoinCode();
       const newTrip: Partial<Trip> = {
         name: newTripName.trim(),
         startDate: newTripStart,
         endDate: newTripEnd,
         ownerId: user.uid,
         members: [user.uid],
-        joinCode: Math.random().toString(36).substring(2, 8).toUpperCase()
+        roles: { [user.uid]: 'owner' },
+        joinCode
       };
-      await addDoc(collection(db, 'artifacts', appId, 'public', 'data', 'trips'), newTrip);
+      // Trip and its invite code are created together
+      const batch = writeBatch(db);
+      batch.set(tripRef, newTrip);
+      batch.set(
+        doc(db, 'artifacts', appId, 'public', 'data', 'joinCodes', joinCode),
+        buildInvite(joinCode, tripRef.id, user.uid)
+      );
+      await settleWrite(batch.commit());
       setShowCreateModal(false);
       setNewTripName('');
       setNewTripStart('');
@@ -89,95 +116,29 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
     }
   };
 
-  const fetchDocAndJoin = (docId: string) => {
-    const unsub = onSnapshot(
-      doc(db, 'artifacts', appId, 'public', 'data', 'trips', docId),
-      (docSnap) => {
-        if (docSnap.exists()) {
-          const data = docSnap.data() as Trip;
-          const members = data.members || [];
-          if (!members.includes(user.uid)) {
-            updateDoc(doc(db, 'artifacts', appId, 'public', 'data', 'trips', docId), {
-              members: [...members, user.uid]
-            });
-          }
-        }
-        unsub();
-        setShowJoinModal(false);
-        setJoinCodeInput('');
-      },
-      () => {
-        alert('Trip not found.');
-        unsub();
-      }
-    );
-  };
-
-  const handleImportClick = () => {
-    fileInputRef.current?.click();
-  };
-
-  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const data = JSON.parse(event.target?.result as string);
-        if (!data.trip || !data.itinerary) throw new Error('Invalid format');
-
-        // Create new Trip
-        const newTripRef = await addDoc(
-          collection(db, 'artifacts', appId, 'public', 'data', 'trips'),
-          {
-            ...data.trip,
-            name: `${data.trip.name} (Restored)`,
-            ownerId: user.uid,
-            members: [user.uid],
-            joinCode: Math.random().toString(36).substring(2, 8).toUpperCase()
-          }
-        );
-
-        const batch = writeBatch(db);
-
-        // Restore Itinerary
-        data.itinerary.forEach((item: Record<string, unknown>) => {
-          const ref = doc(
-            collection(db, 'artifacts', appId, 'public', 'data', 'trips', newTripRef.id, 'itinerary')
-          );
-          batch.set(ref, item);
-        });
-
-        // Restore Expenses
-        if (data.expenses) {
-          data.expenses.forEach((item: Record<string, unknown>) => {
-            const ref = doc(
-              collection(db, 'artifacts', appId, 'public', 'data', 'trips', newTripRef.id, 'expenses')
-            );
-            batch.set(ref, item);
-          });
-        }
-
-        // Restore Tasks
-        if (data.tasks) {
-          data.tasks.forEach((item: Record<string, unknown>) => {
-            const ref = doc(
-              collection(db, 'artifacts', appId, 'public', 'data', 'trips', newTripRef.id, 'tasks')
-            );
-            batch.set(ref, item);
-          });
-        }
+  const handleJoinTrip = async () => {
+    const code = parseJoinCode(joinCodeInput);
+    if (!code) {
+      setJoinError('Please enter a join code');
+      return;
+    }
 
-        await batch.commit();
-        alert('Trip restored successfully!');
-      } catch (err) {
-        console.error(err);
-        alert('Failed to import trip. Check file format.');
+    setJoinError('');
+    setIsJoining(true);
+    try {
+      const result = await joinTrip(code);
+      setShowJoinModal(false);
+      setJoinCodeInput('');
+      if (result.status === 'pending') {
+        alert('Request sent! The trip will appear here once the organizer approves it.');
+      } else {
+        onOpenTrip(result.tripId);
       }
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsText(file);
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : 'Failed to join trip. Please try again.');
+    } finally {
+      setIsJoining(false);
+    }
   };
 
   const handleDeleteTrip = async () => {
@@ -185,7 +146,7 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
 
     setIsDeleting(true);
     try {
-      await deleteDoc(doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripToDelete.id));
+      await moveToTrash(tripToDelete);
       setTripToDelete(null);
     } catch (error) {
       console.error('Error deleting trip:', error);
@@ -195,68 +156,56 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
     }
   };
 
-  const handleExportTrip = async (trip: Trip) => {
+  const handleRestoreTrip = async (trip: Trip) => {
+    setTrashBusyId(trip.id);
     try {
-      // Fetch itinerary items
-      const itinerarySnapshot = await getDocs(
-        collection(db, 'artifacts', appId, 'public', 'data', 'trips', trip.id, 'itinerary')
-      );
-      const itinerary = itinerarySnapshot.docs.map(doc => {
-        const data = doc.data();
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { id: _, ...rest } = data;
-        return rest;
-      });
-
-      // Fetch expenses
-      const expensesSnapshot = await getDocs(
-        collection(db, 'artifacts', appId, 'public', 'data', 'trips', trip.id, 'expenses')
-      );
-      const expenses = expensesSnapshot.docs.map(doc => {
-        const data = doc.data();
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { id: _, ...rest } = data;
-        return rest;
-      });
-
-      // Fetch tasks
-      const tasksSnapshot = await getDocs(
-        collection(db, 'artifacts', appId, 'public', 'data', 'trips', trip.id, 'tasks')
-      );
-      const tasks = tasksSnapshot.docs.map(doc => {
-        const data = doc.data();
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { id: _, ...rest } = data;
-        return rest;
-      });
+      await restoreTrip(trip);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to restore trip. Please try again.');
+    } finally {
+      setTrashBusyId(null);
+    }
+  };
 
-      // Create export object (exclude sensitive fields)
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { id: _, ownerId: __, members: ___, joinCode: ____, ...tripData } = trip;
-      const exportData = {
-        trip: tripData,
-        itinerary,
-        expenses,
-        tasks,
-        exportedAt: new Date().toISOString()
-      };
+  const handleDeleteForever = async (trip: Trip) => {
+    if (!confirm(`Permanently delete "${trip.name}" with all its itinerary items, expenses and tasks? This cannot be undone.`)) return;
+    setTrashBusyId(trip.id);
+    try {
+      await deleteTripForever(trip);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to delete trip. Please try again.');
+    } finally {
+      setTrashBusyId(null);
+    }
+  };
 
-      // Create and download file
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${trip.name.replace(/[^a-z0-9]/gi, '_')}_backup.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  const handleExportTrip = async (trip: Trip) => {
+    try {
+      await downloadBackup(trip);
     } catch (error) {
       console.error('Error exporting trip:', error);
       alert('Failed to export trip. Please try again.');
     }
   };
 
+  // Trashed trips are hidden from everyone; only the owner sees them in the trash
+  const activeTrips = trips.filter((t) => !t.archived && !t.deletedAt);
+  const archivedTrips = trips.filter((t) => t.archived && !t.deletedAt);
+  const trashedTrips = trips.filter((t) => t.deletedAt && t.ownerId === user.uid);
+
+  const renderTripCard = (trip: Trip) => (
+    <TripCard
+      key={trip.id}
+      trip={trip}
+      isOwner={trip.ownerId === user.uid}
+      onClick={() => onOpenTrip(trip.id)}
+      onDelete={trip.ownerId === user.uid ? () => setTripToDelete(trip) : undefined}
+      onExport={() => handleExportTrip(trip)}
+    />
+  );
+
   return (
     <div className="max-w-4xl mx-auto p-4">
       <header className="flex justify-between items-center mb-8 pt-4">
@@ -267,51 +216,60 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
           <h1 className="text-2xl font-bold text-slate-800">TravelSync</h1>
         </div>
         
-        {/* Hidden file input for import */}
-        <input
-          type="file"
-          ref={fileInputRef}
-          className="hidden"
-          accept=".json"
-          onChange={handleFileImport}
-        />
-        
-        {/* Action menu */}
-        <MobileActionMenu
-          actions={[
-            {
-              label: 'New Trip',
-              icon: <Plus className="w-4 h-4" />,
-              onClick: () => setShowCreateModal(true),
-              variant: 'primary',
-            },
-            {
-              label: 'Join Trip',
-              icon: <Users className="w-4 h-4" />,
-              onClick: () => setShowJoinModal(true),
-            },
-            {
-              label: 'Import Backup',
-              icon: <Upload className="w-4 h-4" />,
-              onClick: handleImportClick,
-            },
-          ] as MenuAction[]}
-        />
+        <div className="flex items-center space-x-2">
+          {/* Account */}
+          <button
+            onClick={() => setShowAccountModal(true)}
+            className="p-1 rounded-full hover:bg-slate-200 transition-colors"
+            title="Account"
+          >
+            <MemberAvatar name={profile?.displayName || 'You'} photoURL={profile?.photoURL} />
+          </button>
+
+          {/* Action menu */}
+          <MobileActionMenu
+            actions={[
+              {
+                label: 'New Trip',
+                icon: <Plus className="w-4 h-4" />,
+                onClick: () => setShowCreateModal(true),
+                variant: 'primary',
+              },
+              {
+                label: 'Join Trip',
+                icon: <Users className="w-4 h-4" />,
+                onClick: () => setShowJoinModal(true),
+              },
+              {
+                label: 'Import Backup',
+                icon: <Upload className="w-4 h-4" />,
+                onClick: () => setShowRestoreModal(true),
+              },
+            ] as MenuAction[]}
+          />
+        </div>
       </header>
 
+      {/* Guest accounts lose their trips with the browser's storage */}
+      {user.isAnonymous && (
+        <div className="flex items-center justify-between p-3 mb-6 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+          <span className="flex items-center">
+            <ShieldAlert className="w-4 h-4 mr-2 shrink-0" />
+            You're using a guest account. Create an account so you don't lose your trips.
+          </span>
+          <button
+            onClick={() => setShowAccountModal(true)}
+            className="ml-3 px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 text-xs font-medium whitespace-nowrap"
+          >
+            Create account
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {trips.map((trip) => (
-          <TripCard
-            key={trip.id}
-            trip={trip}
-            isOwner={trip.ownerId === user.uid}
-            onClick={() => onOpenTrip(trip.id)}
-            onDelete={trip.ownerId === user.uid ? () => setTripToDelete(trip) : undefined}
-            onExport={() => handleExportTrip(trip)}
-          />
-        ))}
+        {activeTrips.map(renderTripCard)}
 
-        {trips.length === 0 && (
+        {activeTrips.length === 0 && (
           <div className="col-span-full text-center py-20 bg-white rounded-xl border border-dashed border-slate-300 text-slate-400">
             <Plane className="w-12 h-12 mx-auto mb-4 opacity-50" />
             <p>No trips yet. Create one or Import a backup!</p>
@@ -319,6 +277,72 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
         )}
       </div>
 
+      {/* Archived trips - collapsed by default */}
+      {archivedTrips.length > 0 && (
+        <div className="mt-8">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="flex items-center text-sm font-medium text-slate-500 hover:text-slate-700 mb-4"
+          >
+            <Archive className="w-4 h-4 mr-2" />
+            {showArchived ? 'Hide' : 'Show'} archived trips ({archivedTrips.length})
+          </button>
+          {showArchived && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 opacity-75">
+              {archivedTrips.map(renderTripCard)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Trash - owner's deleted trips, restorable until they are purged */}
+      {trashedTrips.length > 0 && (
+        <div className="mt-8">
+          <button
+            onClick={() => setShowTrash(!showTrash)}
+            className="flex items-center text-sm font-medium text-slate-500 hover:text-slate-700 mb-4"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {showTrash ? 'Hide' : 'Show'} trash ({trashedTrips.length})
+          </button>
+          {showTrash && (
+            <div className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-100">
+              {trashedTrips.map((trip) => {
+                const daysLeft = daysLeftInTrash(trip.deletedAt!, now);
+                return (
+                  <div key={trip.id} className="flex items-center justify-between p-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-700 truncate">{trip.name}</p>
+                      <p className="text-xs text-slate-400">
+                        {daysLeft > 0
+                          ? `Deleted permanently in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`
+                          : 'Being deleted...'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0 ml-3">
+                      <button
+                        onClick={() => handleRestoreTrip(trip)}
+                        disabled={trashBusyId === trip.id}
+                        className="flex items-center px-3 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-50"
+                      >
+                        <ArchiveRestore className="w-4 h-4 mr-1.5" /> Restore
+                      </button>
+                      <button
+                        onClick={() => handleDeleteForever(trip)}
+                        disabled={trashBusyId === trip.id}
+                        className="flex items-center px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1.5" /> Delete forever
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl p-6 w-full max-w-md shadow-2xl">
@@ -402,43 +426,60 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
           <div className="bg-white rounded-xl p-6 w-full max-w-md shadow-2xl">
             <h2 className="text-xl font-bold mb-4">Join a Trip</h2>
             <p className="text-sm text-slate-500 mb-3">
-              Paste the invite link or Trip ID shared by the organizer.
+              Enter the join code or paste the invite link shared by the organizer.
             </p>
+            {joinError && (
+              <div className="mb-3 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+                {joinError}
+              </div>
+            )}
             <input
               className="w-full p-3 border border-slate-300 rounded-lg mb-4 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
-              placeholder="Paste invite link or Trip ID..."
+              placeholder="e.g. K3X9QA or invite link..."
               value={joinCodeInput}
               onChange={(e) => setJoinCodeInput(e.target.value)}
+              disabled={isJoining}
             />
             <div className="flex justify-end space-x-2">
               <button
-                onClick={() => setShowJoinModal(false)}
+                onClick={() => {
+                  setShowJoinModal(false);
+                  setJoinError('');
+                }}
                 className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg"
+                disabled={isJoining}
               >
                 Cancel
               </button>
               <button
-                onClick={() => {
-                  // Extract trip ID from URL if a full link was pasted
-                  let tripId = joinCodeInput.trim();
-                  const joinMatch = tripId.match(/\/join\/([^/?]+)/);
-                  const tripMatch = tripId.match(/\/trip\/([^/?]+)/);
-                  if (joinMatch) {
-                    tripId = joinMatch[1];
-                  } else if (tripMatch) {
-                    tripId = tripMatch[1];
-                  }
-                  fetchDocAndJoin(tripId);
-                }}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+                onClick={handleJoinTrip}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                disabled={isJoining}
               >
-                Join
+                {isJoining ? 'Joining...' : 'Join'}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {showRestoreModal && (
+        <RestoreBackupModal
+          currentUserId={user.uid}
+          trips={trips}
+          onClose={() => setShowRestoreModal(false)}
+          onOpenTrip={onOpenTrip}
+        />
+      )}
+
+      {showAccountModal && (
+        <AccountModal
+          user={user}
+          onClose={() => setShowAccountModal(false)}
+          onAccountChanged={onAccountChanged}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {tripToDelete && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
@@ -454,8 +495,9 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
               Are you sure you want to delete <strong>"{tripToDelete.name}"</strong>?
             </p>
             <p className="text-sm text-slate-500 mb-6">
-              This will permanently delete the trip and all its itinerary items and tasks. 
-              This action cannot be undone.
+              The trip moves to the trash and members lose access to it. You can restore it
+              for {TRASH_RETENTION_DAYS} days, after which it is permanently deleted with all its
+              itinerary items, expenses and tasks.
             </p>
 
             <div className="flex justify-end space-x-2">
@@ -480,7 +522,7 @@ export function Dashboard({ user, onOpenTrip }: DashboardProps) {
                     Deleting...
                   </>
                 ) : (
-                  'Delete Trip'
+                  'Move to Trash'
                 )}
               </button>
             </div>
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Plane, Mail, Loader2, UserRound } from 'lucide-react';
+
+import {
+  continueAsGuest,
+  createAccountWithEmail,
+  getAuthErrorMessage,
+  signInWithEmail,
+  signInWithGoogle
+} from '../services/auth';
+
+type EmailMode = 'sign-in' | 'sign-up';
+
+interface SignInProps {
+  onSignedIn: () => void;
+}
+
+/**
+ * Sign-in screen shown when nobody is signed in.
+ * Offers Google, email/password, or a guest session that can be upgraded later.
+ */
+export function SignIn({ onSignedIn }: SignInProps) {
+  const [mode, setMode] = useState<EmailMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // The app switches away from this screen when auth state changes
+  const runAction = async (key: string, action: () => Promise<unknown>) => {
+    setError('');
+    setBusyAction(key);
+    try {
+      await action();
+      // Picks up a display name set right after sign-up
+      onSignedIn();
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError(getAuthErrorMessage(err));
+      setBusyAction(null);
+    }
+  };
+
+  const handleEmailSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'sign-up' && !displayName.trim()) {
+      setError('Please enter your name');
+      return;
+    }
+    runAction('email', () =>
+      mode === 'sign-in'
+        ? signInWithEmail(email, password)
+        : createAccountWithEmail(email, password, displayName)
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-sm shadow-lg border border-slate-200">
+        <div className="flex flex-col items-center mb-6">
+          <div className="bg-indigo-600 p-3 rounded-xl mb-3">
+            <Plane className="text-white w-7 h-7" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-800">TravelSync</h1>
+          <p className="text-sm text-slate-500 mt-1">Plan trips together</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={() => runAction('google', signInWithGoogle)}
+          disabled={!!busyAction}
+          className="w-full flex items-center justify-center px-4 py-2.5 border border-slate-300 rounded-lg hover:bg-slate-50 text-sm font-medium text-slate-700 disabled:opacity-50"
+        >
+          {busyAction === 'google' ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <span className="w-4 h-4 mr-2 font-bold text-indigo-600 leading-4">G</span>
+          )}
+          Continue with Google
+        </button>
+
+        <div className="flex items-center my-4">
+          <div className="flex-1 border-t border-slate-200" />
+          <span className="px-3 text-xs text-slate-400">or</span>
+          <div className="flex-1 border-t border-slate-200" />
+        </div>
+
+        <form onSubmit={handleEmailSubmit} className="space-y-3">
+          {mode === 'sign-up' && (
+            <input
+              className="w-full p-2.5 border border-slate-300 rounded-lg text-sm"
+              placeholder="Your name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              autoComplete="name"
+              disabled={!!busyAction}
+            />
+          )}
+          <input
+            type="email"
+            className="w-full p-2.5 border border-slate-300 rounded-lg text-sm"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            disabled={!!busyAction}
+          />
+          <input
+            type="password"
+            className="w-full p-2.5 border border-slate-300 rounded-lg text-sm"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+            disabled={!!busyAction}
+          />
+          <button
+            type="submit"
+            disabled={!!busyAction || !email || !password}
+            className="w-full flex items-center justify-center px-4 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+          >
+            {busyAction === 'email' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Mail className="w-4 h-4 mr-2" />
+            )}
+            {mode === 'sign-in' ? 'Sign in with email' : 'Create account'}
+          </button>
+        </form>
+
+        <p className="text-center text-sm text-slate-500 mt-3">
+          {mode === 'sign-in' ? "Don't have an account? " : 'Already have an account? '}
+          <button
+            onClick={() => {
+              setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in');
+              setError('');
+            }}
+            className="text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            {mode === 'sign-in' ? 'Sign up' : 'Sign in'}
+          </button>
+        </p>
+
+        <div className="mt-6 pt-4 border-t border-slate-200 text-center">
+          <button
+            onClick={() => runAction('guest', continueAsGuest)}
+            disabled={!!busyAction}
+            className="inline-flex items-center text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50"
+          >
+            <UserRound className="w-4 h-4 mr-1.5" />
+            Continue as guest
+          </button>
+          <p className="text-xs text-slate-400 mt-1">
+            Guest trips are saved in this browser only. You can create an account later.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
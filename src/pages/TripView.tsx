@@ -1,11 +1,14 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import {
   ChevronLeft,
   Share2,
   Settings,
   Plus,
   Sparkles,
-  X
+  CalendarDays,
+  Receipt,
+  ListChecks,
+  CalendarPlus
 } from 'lucide-react';
 import type { User } from 'firebase/auth';
 
@@ -13,6 +16,17 @@ import type { Trip } from '../types';
 import { db, appId, doc, onSnapshot } from '../config/firebase';
 import { ItineraryManager, type ItineraryManagerHandle } from '../components/ItineraryManager';
 import { MobileActionMenu, type MenuAction } from '../components/MobileActionMenu';
+import { ExpensesPanel } from '../components/ExpensesPanel';
+import { TasksPanel } from '../components/TasksPanel';
+import { TripSettingsPanel } from '../components/TripSettingsPanel';
+import { MemberAvatar } from '../components/MemberAvatar';
+import { MembersPanel } from '../components/MembersPanel';
+import { CalendarExportModal } from '../components/CalendarExportModal';
+import { OfflineStatusBadge } from '../components/OfflineStatusBadge';
+import { useMemberProfiles, useTripPresence, useTripSyncStatus } from '../hooks';
+import { formatMemberName, summarizeMemberNames } from '../services/members';
+import { canEditTrip, isTripOwner } from '../services/permissions';
+import { getInviteLink } from '../services/invites';
 
 interface TripViewProps {
   user: User;
@@ -20,34 +34,30 @@ interface TripViewProps {
   onBack: () => void;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function AdminPanel(_props: { tripId: string; trip: Trip; onClose: () => void }) {
-  return (
-    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-xl w-full max-w-lg shadow-2xl">
-        <div className="flex items-center justify-between p-4 border-b border-slate-200">
-          <h2 className="text-lg font-semibold text-slate-800">Trip Settings</h2>
-          <button
-            onClick={_props.onClose}
-            className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
-          >
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-        <div className="p-6">
-          <p className="text-slate-400 text-center py-10">Admin Panel - Coming soon</p>
-        </div>
-      </div>
-    </div>
-  );
-}
+type TripTab = 'itinerary' | 'expenses' | 'tasks';
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function TripView({ user: _user, tripId, onBack }: TripViewProps) {
+const TRIP_TABS: Array<{ value: TripTab; label: string; icon: typeof CalendarDays }> = [
+  { value: 'itinerary', label: 'Itinerary', icon: CalendarDays },
+  { value: 'expenses', label: 'Expenses', icon: Receipt },
+  { value: 'tasks', label: 'Checklist', icon: ListChecks },
+];
+
+export function TripView({ user, tripId, onBack }: TripViewProps) {
   const [trip, setTrip] = useState<Trip | null>(null);
   const [showAdminPanel, setShowAdminPanel] = useState(false);
+  const [showMembersPanel, setShowMembersPanel] = useState(false);
+  const [showCalendarModal, setShowCalendarModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<TripTab>('itinerary');
   const itineraryRef = useRef<ItineraryManagerHandle>(null);
 
+  const profiles = useMemberProfiles(trip?.members || []);
+  const { lastSeen, activeMemberIds, now } = useTripPresence(tripId, user.uid);
+  const { isOnline, isAvailableOffline, pendingWrites } = useTripSyncStatus(tripId);
+  const getMemberName = useCallback(
+    (uid: string) => formatMemberName(uid, user.uid, profiles[uid]),
+    [user.uid, profiles]
+  );
+
   useEffect(() => {
     const unsub = onSnapshot(
       doc(db, 'artifacts', appId, 'public', 'data', 'trips', tripId),
@@ -61,7 +71,11 @@ export function TripView({ user: _user, tripId, onBack }: TripViewProps) {
   }, [tripId]);
 
   const copyShareLink = () => {
-    const shareLink = `${window.location.origin}/join/${tripId}`;
+    if (!trip?.joinCode) {
+      alert('Joining by code is turned off for this trip. The owner can create a new code in Trip Settings.');
+      return;
+    }
+    const shareLink = getInviteLink(trip.joinCode);
     navigator.clipboard
       .writeText(shareLink)
       .then(() => {
@@ -82,7 +96,21 @@ export function TripView({ user: _user, tripId, onBack }: TripViewProps) {
     return <div className="p-10 text-center text-slate-400">Loading trip details...</div>;
   }
 
-  const menuActions: MenuAction[] = [
+  // Trashed trips stay readable to members until purged, but aren't shown
+  if (trip.deletedAt) {
+    return (
+      <div className="p-10 text-center text-slate-500">
+        <p className="mb-4">This trip has been deleted.</p>
+        <button onClick={onBack} className="text-indigo-600 hover:text-indigo-700 font-medium">
+          Back to my trips
+        </button>
+      </div>
+    );
+  }
+
+  const members = trip.members || [];
+
+  const itineraryActions: MenuAction[] = [
     {
       label: 'Add Item',
       icon: <Plus className="w-4 h-4" />,
@@ -95,11 +123,27 @@ export function TripView({ user: _user, tripId, onBack }: TripViewProps) {
       onClick: () => itineraryRef.current?.openAIModal(),
       variant: 'gradient',
     },
+    {
+      label: 'Import from Calendar',
+      icon: <CalendarDays className="w-4 h-4" />,
+      onClick: () => itineraryRef.current?.openImportModal(),
+    },
+  ];
+
+  const canEdit = canEditTrip(trip, user.uid);
+
+  const menuActions: MenuAction[] = [
+    ...(activeTab === 'itinerary' && canEdit ? itineraryActions : []),
     {
       label: 'Share Trip',
       icon: <Share2 className="w-4 h-4" />,
       onClick: copyShareLink,
     },
+    {
+      label: 'Add to Calendar',
+      icon: <CalendarPlus className="w-4 h-4" />,
+      onClick: () => setShowCalendarModal(true),
+    },
     {
       label: 'Trip Settings',
       icon: <Settings className="w-4 h-4" />,
@@ -125,7 +169,34 @@ export function TripView({ user: _user, tripId, onBack }: TripViewProps) {
                   {trip.startDate || 'TBD'} to {trip.endDate || 'TBD'}
                 </span>
                 <span className="w-1 h-1 bg-indigo-400 rounded-full"></span>
-                <span>{trip.members?.length || 1} Members</span>
+                <button
+                  onClick={() => setShowMembersPanel(true)}
+                  className="flex items-center min-w-0 hover:text-white transition-colors"
+                  title="Show members"
+                >
+                  <span className="flex -space-x-1.5 mr-1.5 shrink-0">
+                    {members.slice(0, 4).map((uid) => (
+                      <span key={uid} className="relative">
+                        <MemberAvatar
+                          name={getMemberName(uid)}
+                          photoURL={profiles[uid]?.photoURL}
+                          size="sm"
+                          className="ring-2 ring-indigo-600"
+                        />
+                        {uid !== user.uid && activeMemberIds.includes(uid) && (
+                          <span className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 bg-green-400 border-2 border-indigo-600 rounded-full" />
+                        )}
+                      </span>
+                    ))}
+                  </span>
+                  <span className="truncate">{summarizeMemberNames(members.map(getMemberName))}</span>
+                </button>
+                <span className="w-1 h-1 bg-indigo-400 rounded-full"></span>
+                <OfflineStatusBadge
+                  isOnline={isOnline}
+                  isAvailableOffline={isAvailableOffline}
+                  pendingWrites={pendingWrites}
+                />
               </div>
             </div>
           </div>
@@ -133,17 +204,90 @@ export function TripView({ user: _user, tripId, onBack }: TripViewProps) {
           {/* Hamburger menu with Share and Admin options */}
           <MobileActionMenu actions={menuActions} triggerVariant="dark" />
         </div>
+
+        {/* Tabs */}
+        <div className="max-w-5xl mx-auto flex space-x-1 mt-3 -mb-1">
+          {TRIP_TABS.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => setActiveTab(value)}
+              className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                activeTab === value
+                  ? 'bg-white text-indigo-700'
+                  : 'text-indigo-100 hover:bg-indigo-500'
+              }`}
+            >
+              <Icon className="w-4 h-4 mr-1.5" /> {label}
+            </button>
+          ))}
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto bg-slate-50">
         <div className="max-w-5xl mx-auto p-4 h-full">
-          <ItineraryManager ref={itineraryRef} tripId={tripId} trip={trip} />
+          {activeTab === 'itinerary' && (
+            <ItineraryManager
+              ref={itineraryRef}
+              tripId={tripId}
+              trip={trip}
+              currentUserId={user.uid}
+              getMemberName={getMemberName}
+              canEdit={canEdit}
+            />
+          )}
+          {activeTab === 'expenses' && (
+            <ExpensesPanel
+              tripId={tripId}
+              trip={trip}
+              currentUserId={user.uid}
+              getMemberName={getMemberName}
+            />
+          )}
+          {activeTab === 'tasks' && (
+            <TasksPanel
+              tripId={tripId}
+              trip={trip}
+              currentUserId={user.uid}
+              getMemberName={getMemberName}
+            />
+          )}
         </div>
       </div>
 
-      {/* Admin Panel Modal */}
+      {/* Members Modal */}
+      {showMembersPanel && (
+        <MembersPanel
+          trip={trip}
+          currentUserId={user.uid}
+          profiles={profiles}
+          getMemberName={getMemberName}
+          lastSeen={lastSeen}
+          now={now}
+          onClose={() => setShowMembersPanel(false)}
+          onOpenSettings={isTripOwner(trip, user.uid) ? () => {
+            setShowMembersPanel(false);
+            setShowAdminPanel(true);
+          } : undefined}
+        />
+      )}
+
+      {/* Calendar Export Modal */}
+      {showCalendarModal && (
+        <CalendarExportModal
+          trip={trip}
+          currentUserId={user.uid}
+          onClose={() => setShowCalendarModal(false)}
+        />
+      )}
+
+      {/* Trip Settings Modal */}
       {showAdminPanel && (
-        <AdminPanel tripId={tripId} trip={trip} onClose={() => setShowAdminPanel(false)} />
+        <TripSettingsPanel
+          trip={trip}
+          currentUserId={user.uid}
+          getMemberName={getMemberName}
+          onClose={() => setShowAdminPanel(false)}
+        />
       )}
     </div>
   );
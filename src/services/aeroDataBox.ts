@@ -0,0 +1,106 @@
+/**
+ * AeroDataBox flight data provider (via RapidAPI)
+ * API docs: https://rapidapi.com/aedbx-aedbx/api/aerodatabox
+ */
+import { getAirlineName, parseAirlineCode, parseFlightDigits, type FlightDataProvider, type FlightInfo } from './flight';
+import type { FlightStatus } from '../types';
+
+const API_HOST = 'aerodatabox.p.rapidapi.com';
+
+// AeroDataBox flight statuses that aren't "scheduled"
+const STATUS_MAP: Record<string, FlightStatus> = {
+  departed: 'active',
+  enroute: 'active',
+  approaching: 'active',
+  arrived: 'landed',
+  canceled: 'cancelled',
+  canceleduncertain: 'cancelled',
+  diverted: 'diverted',
+};
+
+/**
+ * HH:mm from an AeroDataBox local time (e.g., "2024-03-01 14:05+01:00")
+ */
+function toLocalTime(time: { local?: string } | string | undefined): string | undefined {
+  const local = typeof time === 'string' ? time : time?.local;
+  return local?.split(' ')[1]?.substring(0, 5) || undefined;
+}
+
+/**
+ * Lookup flight using AeroDataBox API
+ */
+async function lookupFlight(flightNumber: string, date: string, apiKey: string): Promise<FlightInfo | null> {
+  const airlineCode = parseAirlineCode(flightNumber);
+  const flightDigits = parseFlightDigits(flightNumber);
+  
+  if (!airlineCode || !flightDigits) {
+    return null;
+  }
+  
+  const response = await fetch(
+    `https://${API_HOST}/flights/number/${airlineCode}${flightDigits}/${date}`,
+    {
+      method: 'GET',
+      headers: {
+        'X-RapidAPI-Key': apiKey,
+        'X-RapidAPI-Host': API_HOST,
+      },
+    }
+  );
+  
+  // No flight with this number on this date
+  if (response.status === 204 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`AeroDataBox request failed (${response.status})`);
+  }
+  
+  const data = await response.json();
+  
+  if (!data || !Array.isArray(data) || data.length === 0) {
+    return null;
+  }
+  
+  const flight = data[0];
+  const departure = flight.departure || {};
+  const arrival = flight.arrival || {};
+  
+  // The reference data isn't there in the Cloud Functions - the code stands in for the name
+  const airline = flight.airline?.name || (await getAirlineName(airlineCode).catch(() => null)) || airlineCode;
+
+  return {
+    airline,
+    airlineCode,
+    flightNumber: `${airlineCode}${flightDigits}`,
+    departureAirport: departure.airport?.name || '',
+    departureAirportCode: departure.airport?.iata || '',
+    departureCity: departure.airport?.municipalityName || '',
+    departureLat: departure.airport?.location?.lat || 0,
+    departureLng: departure.airport?.location?.lon || 0,
+    arrivalAirport: arrival.airport?.name || '',
+    arrivalAirportCode: arrival.airport?.iata || '',
+    arrivalCity: arrival.airport?.municipalityName || '',
+    arrivalLat: arrival.airport?.location?.lat || 0,
+    arrivalLng: arrival.airport?.location?.lon || 0,
+    departureTime: toLocalTime(departure.scheduledTime) || toLocalTime(departure.scheduledTimeLocal),
+    arrivalTime: toLocalTime(arrival.scheduledTime) || toLocalTime(arrival.scheduledTimeLocal),
+    status: STATUS_MAP[String(flight.status || '').toLowerCase()] || 'scheduled',
+    departureTerminal: departure.terminal || undefined,
+    departureGate: departure.gate || undefined,
+    arrivalTerminal: arrival.terminal || undefined,
+    arrivalGate: arrival.gate || undefined,
+    revisedDepartureTime: toLocalTime(departure.revisedTime),
+    revisedArrivalTime: toLocalTime(arrival.revisedTime) || toLocalTime(arrival.predictedTime),
+    validated: true,
+    validationSource: 'api',
+  };
+}
+
+export function createAeroDataBoxProvider(apiKey: string): FlightDataProvider {
+  return {
+    id: 'aerodatabox',
+    name: 'AeroDataBox',
+    lookupFlight: (flightNumber, date) => lookupFlight(flightNumber, date, apiKey),
+  };
+}
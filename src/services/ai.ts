@@ -1,9 +1,13 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { ItineraryItem } from '../types';
+import { addMinutesToTime } from './timezones';
 
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
 
+// An item as the model returns it: durations rather than end times
+type GeneratedItem = Partial<ItineraryItem> & { durationMinutes?: number | string };
+
 export interface GenerateItineraryParams {
   tripName: string;
   startDate: string;
@@ -16,6 +20,7 @@ export interface GenerateItineraryParams {
     day: string;
     endDay?: string; // For multi-day lodging (check-out date)
     time: string;
+    endTime?: string;
     location: string;
     category?: string;
     type?: string;
@@ -49,7 +54,7 @@ ${params.existingItems.map(item => {
   const isMultiDayLodging = item.category === 'lodging' && item.endDay && item.endDay !== item.day;
   const dateRange = isMultiDayLodging 
     ? `${item.day} to ${item.endDay} (HOTEL STAY - guest is staying here during these dates)`
-    : `${item.day} at ${item.time || 'TBD'}`;
+    : `${item.day} at ${item.time || 'TBD'}${item.time && item.endTime ? ` until ${item.endTime}` : ''}`;
   return `- ${dateRange}: ${item.location}${item.type === 'flight' ? ' (FLIGHT)' : ''} ${item.category ? `[${item.category}]` : ''}`;
 }).join('\n')}`
     : '';
@@ -68,6 +73,7 @@ ${params.additionalNotes ? `- Additional Notes: ${params.additionalNotes}` : ''}
 Generate a JSON array of itinerary items. Each item MUST have ALL of these fields:
 - day: date in YYYY-MM-DD format (between ${params.startDate} and ${params.endDate})
 - time: time in HH:MM format (24-hour)
+- durationMinutes: how long to allow for it, in minutes, as a number (e.g., 90 for a museum, 60 for lunch)
 - location: specific name of the place (e.g., "Eiffel Tower", "Le Jules Verne Restaurant")
 - notes: brief description or tips (1-2 sentences)
 - category: one of "sightseeing", "food", "lodging", "nature", "shopping", "transport", "entertainment"
@@ -79,6 +85,7 @@ CRITICAL: You MUST include accurate lat and lng coordinates for each location. T
 
 Consider:
 - Start times appropriate for the activity type (breakfast around 8-9am, dinner around 7-8pm)
+- Realistic durations, with time to get from one activity to the next before it starts
 - Logical geographic grouping to minimize travel between activities
 - Mix of activities based on interests
 - Include local food recommendations at real restaurants
@@ -96,7 +103,7 @@ CRITICAL FORMATTING RULES:
 4. Ensure all strings are properly escaped
 
 Example of correct format:
-[{"day":"2024-01-15","time":"09:00","location":"Eiffel Tower","notes":"Book tickets in advance","category":"sightseeing","lat":48.8584,"lng":2.2945,"placeDescription":"Champ de Mars, Paris"}]`;
+[{"day":"2024-01-15","time":"09:00","durationMinutes":120,"location":"Eiffel Tower","notes":"Book tickets in advance","category":"sightseeing","lat":48.8584,"lng":2.2945,"placeDescription":"Champ de Mars, Paris"}]`;
 
   try {
     // Check if API key is configured
@@ -139,7 +146,7 @@ Example of correct format:
     
     console.log('Cleaned JSON:', jsonText.substring(0, 500)); // Debug logging
     
-    let items: Partial<ItineraryItem>[];
+    let items: GeneratedItem[];
     try {
       items = JSON.parse(jsonText);
       console.log('JSON parsed successfully, items count:', items.length);
@@ -172,10 +179,14 @@ Example of correct format:
     // Validate and clean items
     const processedItems = items.map((item, index) => {
       console.log(`Processing item ${index}:`, item.location);
+      const time = item.time || '09:00';
+      // Durations of a day or more can't be an end time
+      const duration = Math.round(Number(item.durationMinutes));
       return {
         type: 'activity' as const,
         day: item.day || params.startDate,
-        time: item.time || '09:00',
+        time,
+        endTime: duration > 0 && duration < 24 * 60 ? addMinutesToTime(time, duration) : '',
         location: item.location || 'Activity',
         notes: item.notes || '',
         category: item.category || 'sightseeing',
@@ -0,0 +1,120 @@
+/**
+ * Authentication: guest sessions, email/Google sign-in, and upgrading a guest
+ * to a permanent account. Linking keeps the guest's uid, so trip memberships carry over.
+ */
+import {
+  GoogleAuthProvider,
+  EmailAuthProvider,
+  signInAnonymously,
+  signInWithPopup,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  linkWithPopup,
+  linkWithCredential,
+  signOut,
+  updateProfile,
+  type User
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { auth } from '../config/firebase';
+
+const googleProvider = new GoogleAuthProvider();
+
+/**
+ * Start a guest session - trips are tied to this browser until the account is upgraded
+ */
+export async function continueAsGuest(): Promise<User> {
+  const { user } = await signInAnonymously(auth);
+  return user;
+}
+
+/**
+ * Sign in (or sign up) with a Google account
+ */
+export async function signInWithGoogle(): Promise<User> {
+  const { user } = await signInWithPopup(auth, googleProvider);
+  return user;
+}
+
+/**
+ * Sign in to an existing email/password account
+ */
+export async function signInWithEmail(email: string, password: string): Promise<User> {
+  const { user } = await signInWithEmailAndPassword(auth, email.trim(), password);
+  return user;
+}
+
+/**
+ * Create a new email/password account
+ */
+export async function createAccountWithEmail(email: string, password: string, displayName: string): Promise<User> {
+  const { user } = await createUserWithEmailAndPassword(auth, email.trim(), password);
+  if (displayName.trim()) {
+    await updateProfile(user, { displayName: displayName.trim() });
+  }
+  return user;
+}
+
+/**
+ * Upgrade a guest to a Google account, keeping the same uid
+ */
+export async function linkGuestWithGoogle(user: User): Promise<User> {
+  const { user: linked } = await linkWithPopup(user, googleProvider);
+  return linked;
+}
+
+/**
+ * Upgrade a guest to an email/password account, keeping the same uid
+ */
+export async function linkGuestWithEmail(user: User, email: string, password: string): Promise<User> {
+  const credential = EmailAuthProvider.credential(email.trim(), password);
+  const { user: linked } = await linkWithCredential(user, credential);
+  return linked;
+}
+
+/**
+ * Sign out of the current session
+ */
+export function signOutUser(): Promise<void> {
+  return signOut(auth);
+}
+
+/**
+ * Describe how a user is signed in, e.g. "Guest" or "jane@example.com"
+ */
+export function getAccountLabel(user: User): string {
+  if (user.isAnonymous) return 'Guest';
+  return user.email || user.providerData[0]?.email || 'Signed in';
+}
+
+/**
+ * Turn a Firebase Auth error into a message for the user
+ */
+export function getAuthErrorMessage(err: unknown): string {
+  const code = err instanceof FirebaseError ? err.code : '';
+  switch (code) {
+    case 'auth/invalid-email':
+      return 'Please enter a valid email address.';
+    case 'auth/missing-password':
+    case 'auth/weak-password':
+      return 'Password must be at least 6 characters.';
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found':
+      return 'Incorrect email or password.';
+    case 'auth/email-already-in-use':
+    case 'auth/credential-already-in-use':
+      return 'That account already exists. Sign out and sign in to it instead - trips from this guest session will not move over.';
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+      return 'Sign-in was cancelled.';
+    case 'auth/popup-blocked':
+      return 'The sign-in popup was blocked. Please allow popups for this site.';
+    case 'auth/too-many-requests':
+      return 'Too many attempts. Please wait a moment and try again.';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your connection.';
+    default:
+      return 'Something went wrong. Please try again.';
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Trip backup files: building, validating, upgrading older files, and planning a merge
+ * into an existing trip
+ */
+import type { Trip, ItineraryItem, Expense, Task, TripBackup } from '../types';
+import { isValidTimeZone } from './timezones';
+
+// Bump when the file layout changes, and add an upgrade step from the previous version
+export const BACKUP_FORMAT_VERSION = 2;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const ITEM_TYPES: ItineraryItem['type'][] = ['activity', 'flight'];
+const ITEM_CATEGORIES: NonNullable<ItineraryItem['category']>[] = [
+  'sightseeing', 'food', 'lodging', 'nature', 'shopping', 'transport', 'entertainment',
+];
+const VALIDATION_SOURCES: NonNullable<ItineraryItem['flightValidationSource']>[] = ['database', 'api', 'none'];
+const SPLIT_TYPES: NonNullable<Expense['splitType']>[] = ['equal', 'percentage', 'exact'];
+
+type FieldType = 'string' | 'number' | 'boolean' | 'nullableNumber' | 'stringList' | 'numberMap';
+
+// Fields kept from each record, by type. Anything else in the file is dropped.
+// Authorship isn't kept - restored items are attributed to whoever restores them.
+const ITINERARY_FIELDS: Record<string, FieldType> = {
+  id: 'string',
+  type: 'string',
+  category: 'string',
+  day: 'string',
+  endDay: 'string',
+  time: 'string',
+  endTime: 'string',
+  fixedTime: 'boolean',
+  timeZone: 'string',
+  location: 'string',
+  notes: 'string',
+  completed: 'boolean',
+  lat: 'number',
+  lng: 'number',
+  googleMapsLink: 'string',
+  placeDescription: 'string',
+  placeDataFetchedAt: 'number',
+  arrivalLocation: 'string',
+  arrivalTime: 'string',
+  arrivalTimeZone: 'string',
+  arrivalDay: 'string',
+  airline: 'string',
+  flightNumber: 'string',
+  departureAirportCode: 'string',
+  departureAirportName: 'string',
+  arrivalAirportCode: 'string',
+  arrivalAirportName: 'string',
+  arrivalLat: 'number',
+  arrivalLng: 'number',
+  flightValidated: 'boolean',
+  flightValidationSource: 'string',
+};
+
+const EXPENSE_FIELDS: Record<string, FieldType> = {
+  description: 'string',
+  amount: 'number',
+  payer: 'string',
+  category: 'string',
+  date: 'string',
+  splitType: 'string',
+  participants: 'stringList',
+  splits: 'numberMap',
+  createdAt: 'number',
+};
+
+const TASK_FIELDS: Record<string, FieldType> = {
+  text: 'string',
+  completed: 'boolean',
+  assignee: 'string',
+  dueDate: 'string',
+  itemId: 'string',
+  createdAt: 'number',
+  completedAt: 'nullableNumber',
+};
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Result of reading a backup file
+ */
+export interface ParsedBackup {
+  backup: TripBackup;
+  skipped: number; // records left out because they were malformed
+  upgradedFrom: number | null; // format version of the file, if it was older than the current one
+}
+
+/**
+ * Records to add when merging a backup into a trip, with the duplicates left out
+ */
+export interface BackupMergePlan {
+  itinerary: TripBackup['itinerary'];
+  expenses: TripBackup['expenses'];
+  tasks: TripBackup['tasks'];
+  itemIdMap: Record<string, string>; // backup item ID -> ID of its item in the trip (existing or new)
+  duplicates: number;
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'nullableNumber':
+      return value === null || (typeof value === 'number' && Number.isFinite(value));
+    case 'stringList':
+      return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+    case 'numberMap':
+      return isRecord(value) && Object.values(value).every((entry) => typeof entry === 'number' && Number.isFinite(entry));
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Copy the known fields that have the right type
+ */
+function pickFields(record: RawRecord, fields: Record<string, FieldType>): RawRecord {
+  const result: RawRecord = {};
+  Object.entries(fields).forEach(([key, type]) => {
+    if (hasType(record[key], type)) result[key] = record[key];
+  });
+  return result;
+}
+
+/**
+ * Drop an optional enum field whose value isn't one of the allowed ones
+ */
+function dropUnknownValue(record: RawRecord, key: string, allowed: readonly string[]): void {
+  if (key in record && !allowed.includes(record[key] as string)) delete record[key];
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE_PATTERN.test(value);
+}
+
+/**
+ * Itinerary item from a backup, or null if it lacks a type, date or title
+ */
+function sanitizeItineraryItem(raw: unknown): TripBackup['itinerary'][number] | null {
+  if (!isRecord(raw)) return null;
+  const item = pickFields(raw, ITINERARY_FIELDS);
+  if (!ITEM_TYPES.includes(item.type as ItineraryItem['type'])) return null;
+  if (!isDate(item.day) || !(item.location as string | undefined)?.trim()) return null;
+
+  dropUnknownValue(item, 'category', ITEM_CATEGORIES);
+  dropUnknownValue(item, 'flightValidationSource', VALIDATION_SOURCES);
+  if ('endDay' in item && !isDate(item.endDay)) delete item.endDay;
+  if ('arrivalDay' in item && item.arrivalDay !== '' && !isDate(item.arrivalDay)) delete item.arrivalDay;
+  if ('timeZone' in item && !isValidTimeZone(item.timeZone as string)) delete item.timeZone;
+  if ('arrivalTimeZone' in item && !isValidTimeZone(item.arrivalTimeZone as string)) delete item.arrivalTimeZone;
+
+  return { time: '', notes: '', completed: false, ...item } as TripBackup['itinerary'][number];
+}
+
+/**
+ * Expense from a backup, or null if it lacks a description, payer or a non-negative amount
+ */
+function sanitizeExpense(raw: unknown): TripBackup['expenses'][number] | null {
+  if (!isRecord(raw)) return null;
+  const expense = pickFields(raw, EXPENSE_FIELDS);
+  if (typeof expense.description !== 'string' || typeof expense.payer !== 'string') return null;
+  if (typeof expense.amount !== 'number' || expense.amount < 0) return null;
+
+  dropUnknownValue(expense, 'splitType', SPLIT_TYPES);
+  if ('date' in expense && !isDate(expense.date)) delete expense.date;
+
+  return { category: 'other', ...expense } as TripBackup['expenses'][number];
+}
+
+/**
+ * Task from a backup, or null if it has no text
+ */
+function sanitizeTask(raw: unknown): TripBackup['tasks'][number] | null {
+  if (!isRecord(raw)) return null;
+  const task = pickFields(raw, TASK_FIELDS);
+  if (!(task.text as string | undefined)?.trim()) return null;
+  if ('dueDate' in task && !isDate(task.dueDate)) delete task.dueDate;
+
+  return { completed: false, ...task } as TripBackup['tasks'][number];
+}
+
+/**
+ * Keep the valid records of a list, counting the ones left out
+ */
+function sanitizeList<T>(raw: unknown, sanitize: (record: unknown) => T | null): { records: T[]; skipped: number } {
+  const list = Array.isArray(raw) ? raw : [];
+  const records = list.map(sanitize).filter((record): record is T => record !== null);
+  return { records, skipped: list.length - records.length };
+}
+
+/**
+ * Version 1 (files without a `version`): expenses and tasks were optional, and item IDs weren't
+ * exported, so task links to itinerary items can't be restored
+ */
+function upgradeFromV1(data: RawRecord): RawRecord {
+  const tasks = Array.isArray(data.tasks) ? data.tasks : [];
+  return {
+    ...data,
+    version: 2,
+    expenses: Array.isArray(data.expenses) ? data.expenses : [],
+    tasks: tasks.map((task) => {
+      if (!isRecord(task)) return task;
+      const upgradedTask = { ...task };
+      delete upgradedTask.itemId;
+      return upgradedTask;
+    }),
+  };
+}
+
+// Upgrade steps, keyed by the version they upgrade from
+const UPGRADES: Record<number, (data: RawRecord) => RawRecord> = {
+  1: upgradeFromV1,
+};
+
+/**
+ * Build a backup of a trip. Fields that only make sense in the original trip
+ * (members, invite code, calendar feed, authorship) are left out.
+ */
+export function buildTripBackup(
+  trip: Trip,
+  itinerary: ItineraryItem[],
+  expenses: Expense[],
+  tasks: Task[],
+  exportedAt = new Date().toISOString()
+): TripBackup {
+  const pick = <T>(records: object[], fields: Record<string, FieldType>) =>
+    records.map((record) => pickFields(record as RawRecord, fields) as T);
+
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    exportedAt,
+    trip: { name: trip.name, startDate: trip.startDate, endDate: trip.endDate },
+    itinerary: pick<TripBackup['itinerary'][number]>(itinerary, ITINERARY_FIELDS),
+    expenses: pick<TripBackup['expenses'][number]>(expenses, EXPENSE_FIELDS),
+    tasks: pick<TripBackup['tasks'][number]>(tasks, TASK_FIELDS),
+  };
+}
+
+/**
+ * File name for a downloaded backup (e.g., "Summer_in_Italy_backup.json")
+ */
+export function getBackupFileName(tripName: string): string {
+  return `${tripName.replace(/[^a-z0-9]/gi, '_')}_backup.json`;
+}
+
+/**
+ * Read a backup file: upgrade it to the current format and keep only valid records.
+ * Throws with a message for the user when the file can't be used at all.
+ */
+export function parseTripBackup(text: string): ParsedBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a TravelSync backup.');
+  }
+  if (!isRecord(data) || !isRecord(data.trip) || !Array.isArray(data.itinerary)) {
+    throw new Error('This file is not a TravelSync backup.');
+  }
+
+  const originalVersion = data.version === undefined ? 1 : data.version;
+  if (typeof originalVersion !== 'number' || !Number.isInteger(originalVersion) || originalVersion < 1) {
+    throw new Error('This backup has an unknown format version.');
+  }
+  if (originalVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of TravelSync. Reload the app and try again.');
+  }
+
+  let upgraded: RawRecord = data;
+  for (let version = originalVersion; version < BACKUP_FORMAT_VERSION; version++) {
+    upgraded = UPGRADES[version](upgraded);
+  }
+
+  const trip = upgraded.trip as RawRecord;
+  if (typeof trip.name !== 'string' || !trip.name.trim()) {
+    throw new Error('This backup has no trip name.');
+  }
+
+  const itinerary = sanitizeList(upgraded.itinerary, sanitizeItineraryItem);
+  const expenses = sanitizeList(upgraded.expenses, sanitizeExpense);
+  const tasks = sanitizeList(upgraded.tasks, sanitizeTask);
+
+  return {
+    backup: {
+      version: BACKUP_FORMAT_VERSION,
+      exportedAt: typeof upgraded.exportedAt === 'string' ? upgraded.exportedAt : '',
+      trip: {
+        name: trip.name.trim(),
+        startDate: isDate(trip.startDate) ? (trip.startDate as string) : '',
+        endDate: isDate(trip.endDate) ? (trip.endDate as string) : '',
+      },
+      itinerary: itinerary.records,
+      expenses: expenses.records,
+      tasks: tasks.records,
+    },
+    skipped: itinerary.skipped + expenses.skipped + tasks.skipped,
+    upgradedFrom: originalVersion < BACKUP_FORMAT_VERSION ? originalVersion : null,
+  };
+}
+
+// Keys that identify the "same" record in a backup and a trip
+function itineraryKey(item: Pick<ItineraryItem, 'day' | 'time' | 'location'>): string {
+  return `${item.day}|${item.time}|${item.location.trim().toLowerCase()}`;
+}
+
+function expenseKey(expense: Pick<Expense, 'description' | 'amount' | 'date' | 'payer'>): string {
+  return `${expense.description.trim().toLowerCase()}|${expense.amount}|${expense.date || ''}|${expense.payer}`;
+}
+
+function taskKey(task: Pick<Task, 'text' | 'dueDate'>): string {
+  return `${task.text.trim().toLowerCase()}|${task.dueDate || ''}`;
+}
+
+/**
+ * Work out what a merge adds to a trip: records already in the trip (or repeated in the backup)
+ * are skipped. New items get their trip ID from createItemId up front, so itemIdMap can point
+ * tasks linked to any copy of an item - in the trip, or repeated in the backup - at the one kept.
+ */
+export function planBackupMerge(
+  backup: TripBackup,
+  existing: { itinerary: ItineraryItem[]; expenses: Expense[]; tasks: Task[] },
+  createItemId: () => string
+): BackupMergePlan {
+  const itemIds = new Map(existing.itinerary.map((item) => [itineraryKey(item), item.id]));
+  const expenseKeys = new Set(existing.expenses.map(expenseKey));
+  const taskKeys = new Set(existing.tasks.map(taskKey));
+  const itemIdMap: Record<string, string> = {};
+  let duplicates = 0;
+
+  const itinerary = backup.itinerary.filter((item) => {
+    const key = itineraryKey(item);
+    const existingId = itemIds.get(key);
+    if (existingId !== undefined) {
+      if (item.id && existingId) itemIdMap[item.id] = existingId;
+      duplicates++;
+      return false;
+    }
+    // Files from before item IDs were exported have no task links to keep
+    let newId = '';
+    if (item.id) {
+      newId = createItemId();
+      itemIdMap[item.id] = newId;
+    }
+    itemIds.set(key, newId);
+    return true;
+  });
+
+  const keepNew = <T>(records: T[], keys: Set<string>, getKey: (record: T) => string) =>
+    records.filter((record) => {
+      const key = getKey(record);
+      if (keys.has(key)) {
+        duplicates++;
+        return false;
+      }
+      keys.add(key);
+      return true;
+    });
+
+  return {
+    itinerary,
+    expenses: keepNew(backup.expenses, expenseKeys, expenseKey),
+    tasks: keepNew(backup.tasks, taskKeys, taskKey),
+    itemIdMap,
+    duplicates,
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * iCalendar (.ics) export of a trip's itinerary, for downloads and the subscription feed
+ */
+import type { ItineraryItem } from '../types';
+import { shiftDate } from './trips';
+import { getActivityEnd, getFlightArrival, zonedTimeToInstant } from './timezones';
+
+// Events without an end time are shown as an hour long
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Feed tokens are long enough that the URL can't be guessed
+const FEED_TOKEN_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const FEED_TOKEN_LENGTH = 32;
+
+// Calendar apps re-fetch subscriptions roughly this often (where they honor it)
+const FEED_REFRESH_INTERVAL = 'PT1H';
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 section 3.3.11)
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Longest content line, in octets of UTF-8 (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space (which counts towards
+ * the line's length). Folds only fall between characters, so none is split across lines.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(part);
+      part = ' ';
+      octets = 1;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n');
+}
+
+// YYYY-MM-DD -> YYYYMMDD
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// YYYY-MM-DD + HH:mm -> local ("floating") YYYYMMDDTHHmm00, shown in the calendar's own time zone
+function formatLocalDateTime(date: string, time: string): string {
+  return `${formatDate(date)}T${time.replace(':', '').padEnd(4, '0')}00`;
+}
+
+// Unix timestamp -> UTC YYYYMMDDTHHmmssZ
+function formatUTC(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Add minutes to a local date and time, rolling over into the next day(s)
+ */
+function addMinutes(date: string, time: string, minutes: number): { date: string; time: string } {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = hours * 60 + mins + minutes;
+  const days = Math.floor(total / (24 * 60));
+  const dayMinutes = total - days * 24 * 60;
+  return {
+    date: shiftDate(date, days),
+    time: `${String(Math.floor(dayMinutes / 60)).padStart(2, '0')}:${String(dayMinutes % 60).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * Start and end properties for an item:
+ * - flights run from departure to arrival (on arrivalDay, or the next day if it arrives "earlier")
+ * - activities run to their end time, or for an hour without one
+ * - multi-day lodging is an all-day span from check-in to check-out
+ * - other items without a time are all-day events
+ * Items with a known time zone get exact UTC times; others are floating local times.
+ */
+function getEventTiming(item: ItineraryItem): string[] {
+  const isMultiDayLodging = item.category === 'lodging' && item.endDay && item.endDay > item.day;
+
+  if (isMultiDayLodging) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(item.day)}`,
+      `DTEND;VALUE=DATE:${formatDate(shiftDate(item.endDay!, 1))}`,
+    ];
+  }
+
+  if (!item.time) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(item.day)}`,
+      `DTEND;VALUE=DATE:${formatDate(shiftDate(item.day, 1))}`,
+    ];
+  }
+
+  if (item.timeZone) {
+    const start = zonedTimeToInstant(item.day, item.time, item.timeZone);
+    const end = item.type === 'flight' ? getFlightArrival(item) : getActivityEnd(item);
+    return [
+      `DTSTART:${formatUTC(start)}`,
+      `DTEND:${formatUTC(end?.instant ?? start + DEFAULT_EVENT_MINUTES * 60 * 1000)}`,
+    ];
+  }
+
+  if (item.type === 'flight' && item.arrivalTime) {
+    const arrivalDay = item.arrivalDay || (item.arrivalTime < item.time ? shiftDate(item.day, 1) : item.day);
+    return [
+      `DTSTART:${formatLocalDateTime(item.day, item.time)}`,
+      `DTEND:${formatLocalDateTime(arrivalDay, item.arrivalTime)}`,
+    ];
+  }
+
+  const activityEnd = getActivityEnd(item);
+  const end = activityEnd
+    ? { date: activityEnd.day, time: item.endTime! }
+    : addMinutes(item.day, item.time, DEFAULT_EVENT_MINUTES);
+  return [
+    `DTSTART:${formatLocalDateTime(item.day, item.time)}`,
+    `DTEND:${formatLocalDateTime(end.date, end.time)}`,
+  ];
+}
+
+/**
+ * Event title, e.g. "Flight UA837: SFO → NRT" or "Dinner at Sukiyabashi"
+ */
+function getEventSummary(item: ItineraryItem): string {
+  if (item.type !== 'flight') return item.location;
+
+  const from = item.departureAirportCode || item.location;
+  const to = item.arrivalAirportCode || item.arrivalLocation;
+  const flight = item.flightNumber ? `Flight ${item.flightNumber}` : 'Flight';
+  return to ? `${flight}: ${from} → ${to}` : `${flight}: ${from}`;
+}
+
+/**
+ * Build a VEVENT for one itinerary item
+ */
+function buildEvent(item: ItineraryItem, generatedAt: number): string[] {
+  const isFlight = item.type === 'flight';
+  const description = [
+    isFlight && item.airline ? `Airline: ${item.airline}` : '',
+    isFlight && item.departureAirportName ? `From: ${item.departureAirportName}` : '',
+    isFlight && item.arrivalAirportName ? `To: ${item.arrivalAirportName}` : '',
+    item.notes,
+    item.googleMapsLink || '',
+  ].filter(Boolean).join('\n');
+  const location = isFlight
+    ? item.departureAirportName || item.departureAirportCode || item.location
+    : item.location;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${item.id}@travelsync`,
+    `DTSTAMP:${formatUTC(item.updatedAt || generatedAt)}`,
+    ...getEventTiming(item),
+    `SUMMARY:${escapeText(getEventSummary(item))}`,
+    `LOCATION:${escapeText(location)}`,
+  ];
+  if (item.lat !== undefined && item.lng !== undefined) {
+    lines.push(`GEO:${item.lat};${item.lng}`);
+  }
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+  if (item.googleMapsLink) {
+    lines.push(`URL:${item.googleMapsLink}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build an iCalendar file for a trip's itinerary items
+ */
+export function buildTripCalendar(tripName: string, items: ItineraryItem[], generatedAt = Date.now()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TravelSync//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(tripName)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    ...items.filter((item) => item.day).flatMap((item) => buildEvent(item, generatedAt)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a downloaded calendar (e.g., "Summer_in_Italy.ics")
+ */
+export function getCalendarFileName(tripName: string): string {
+  return `${tripName.replace(/[^a-z0-9]/gi, '_')}.ics`;
+}
+
+/**
+ * Random secret for a trip's calendar feed URL
+ */
+export function generateFeedToken(): string {
+  const values = crypto.getRandomValues(new Uint32Array(FEED_TOKEN_LENGTH));
+  return Array.from(values, (value) => FEED_TOKEN_ALPHABET[value % FEED_TOKEN_ALPHABET.length]).join('');
+}
+
+/**
+ * Storage path of a trip's published calendar feed
+ */
+export function getCalendarFeedPath(tripId: string, token: string): string {
+  return `calendars/${tripId}/${token}.ics`;
+}
+
+/**
+ * Public URL calendar apps subscribe to. Storage rules allow reading feeds without signing in.
+ */
+export function getCalendarFeedUrl(bucket: string, tripId: string, token: string): string {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodeURIComponent(getCalendarFeedPath(tripId, token))}?alt=media`;
+}
+
+/**
+ * webcal:// version of the feed URL, which opens the subscribe dialog of the system calendar
+ */
+export function getCalendarSubscribeUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https:\/\//, 'webcal://');
+}
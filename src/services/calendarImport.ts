@@ -0,0 +1,281 @@
+/**
+ * Turn iCalendar (.ics) booking confirmations into draft itinerary items
+ */
+import type { ItineraryItem, CalendarImportDraft } from '../types';
+import { getAirlineName, getAirport, parseAirlineCode, parseFlightDigits } from './flight';
+import { shiftDate } from './trips';
+import { inferItemTimeZones, instantToZonedTime, isValidTimeZone } from './timezones';
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+type IcsEvent = Record<string, IcsProperty>;
+
+interface IcsDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm, '' for all-day values
+  instant?: number; // for UTC values, so they can be moved into the place's zone
+  timeZone?: string; // IANA zone from the TZID parameter
+}
+
+// Words that give away a booking's category
+const LODGING_PATTERN = /\b(hotel|hostel|inn|resort|airbnb|apartment|guesthouse|ryokan|check-?in)\b/i;
+const TRAIN_PATTERN = /\b(train|rail|railway|bahn|tgv|shinkansen|eurostar|amtrak|sncf|trenitalia|renfe|bus|coach|ferry)\b/i;
+const FOOD_PATTERN = /\b(restaurant|dinner|lunch|breakfast|brunch|table for|bistro|trattoria|café|cafe)\b/i;
+
+// "UA 837", "LH400" - airline code, optional space, 1-4 digits. Codes are written in capitals,
+// so "at 8" in "Dinner at 8" isn't one.
+const FLIGHT_NUMBER_PATTERN = /\b([A-Z]{3}|[A-Z][A-Z0-9]|[0-9][A-Z])\s?(\d{1,4})\b/g;
+// "SFO → NRT", "SFO-NRT", "SFO to NRT"
+const ROUTE_PATTERN = /\b([A-Z]{3})\s*(?:→|->|–|-|to)\s*([A-Z]{3})\b/;
+// Words that say an event is a flight - a code and some digits alone could be anything
+const FLIGHT_PATTERN = /\b(flights?|boarding|airlines?|airways)\b/i;
+
+/**
+ * Undo iCalendar text escaping
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Split an .ics file into VEVENTs, each a map of property name to value.
+ * Nested components (alarms) are skipped.
+ */
+function parseEvents(text: string): IcsEvent[] {
+  // Unfold continuation lines (a line break followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) continue;
+    if (line === 'END:VEVENT') {
+      events.push(current);
+      current = null;
+      continue;
+    }
+    if (line.startsWith('BEGIN:')) nestedDepth++;
+    else if (line.startsWith('END:')) nestedDepth--;
+    else if (nestedDepth === 0) {
+      const colon = line.indexOf(':');
+      if (colon === -1) continue;
+      const [name, ...paramParts] = line.slice(0, colon).split(';');
+      const params: Record<string, string> = {};
+      paramParts.forEach((part) => {
+        const [key, value = ''] = part.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+      });
+      current[name.toUpperCase()] = { params, value: line.slice(colon + 1) };
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Read a DTSTART/DTEND value. Times with a TZID or no zone are kept as written
+ * (local time at the destination); UTC times are converted to this device's time
+ * until the place's zone is known.
+ */
+function parseDateTime(property: IcsProperty | undefined): IcsDateTime | null {
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, utc] = match;
+
+  if (!hours) return { date: `${year}-${month}-${day}`, time: '' };
+
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+    return {
+      date: `${local.getFullYear()}-${String(local.getMonth() + 1).padStart(2, '0')}-${String(local.getDate()).padStart(2, '0')}`,
+      time: `${String(local.getHours()).padStart(2, '0')}:${String(local.getMinutes()).padStart(2, '0')}`,
+      instant: local.getTime(),
+    };
+  }
+  const zone = property?.params.TZID;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${hours}:${minutes}`,
+    ...(zone && isValidTimeZone(zone) ? { timeZone: zone } : {}),
+  };
+}
+
+/**
+ * Departure and arrival airports written as a route, when the dataset knows both
+ */
+async function findRoute(text: string): Promise<[string, string] | null> {
+  const match = text.match(ROUTE_PATTERN);
+  if (!match) return null;
+  const [departure, arrival] = await Promise.all([getAirport(match[1]), getAirport(match[2])]);
+  return departure && arrival ? [match[1], match[2]] : null;
+}
+
+/**
+ * Find a flight number the airline dataset recognizes (e.g., "UA837" in "Flight UA 837 to Tokyo")
+ */
+async function findFlightNumber(text: string): Promise<string | null> {
+  for (const [, code, digits] of text.matchAll(FLIGHT_NUMBER_PATTERN)) {
+    const candidate = `${code}${digits}`;
+    const airlineCode = parseAirlineCode(candidate);
+    if (airlineCode && parseFlightDigits(candidate) && (await getAirlineName(airlineCode))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Guess a category from the event's text and length
+ */
+function inferCategory(text: string, isMultiNight: boolean): ItineraryItem['category'] {
+  if (isMultiNight || LODGING_PATTERN.test(text)) return 'lodging';
+  if (TRAIN_PATTERN.test(text)) return 'transport';
+  if (FOOD_PATTERN.test(text)) return 'food';
+  return 'sightseeing';
+}
+
+/**
+ * Set the item's time zones - from TZID, or inferred from its airports or coordinates -
+ * and show UTC times as local time in those zones
+ */
+async function applyTimeZones(item: Partial<ItineraryItem>, start: IcsDateTime, end: IcsDateTime | null): Promise<void> {
+  const inferred = await inferItemTimeZones(item);
+
+  const timeZone = start.timeZone || inferred.timeZone;
+  if (timeZone) {
+    item.timeZone = timeZone;
+    if (start.instant !== undefined) {
+      const local = instantToZonedTime(start.instant, timeZone);
+      item.day = local.day;
+      item.time = local.time;
+    }
+  }
+
+  if (item.type !== 'flight') {
+    if (end?.time && item.category !== 'lodging') applyActivityEnd(item, end, timeZone);
+    return;
+  }
+  if (!end) return;
+  item.arrivalDay = end.date;
+  const arrivalTimeZone = end.timeZone || inferred.arrivalTimeZone;
+  if (arrivalTimeZone) {
+    item.arrivalTimeZone = arrivalTimeZone;
+    if (end.instant !== undefined) {
+      const local = instantToZonedTime(end.instant, arrivalTimeZone);
+      item.arrivalDay = local.day;
+      item.arrivalTime = local.time;
+    }
+  }
+}
+
+/**
+ * End time for a timed activity, in the zone it starts in. Events running a day or more
+ * are left open-ended, since an end time can only say up to 24 hours.
+ */
+function applyActivityEnd(item: Partial<ItineraryItem>, end: IcsDateTime, timeZone: string | undefined): void {
+  if (!item.day || !item.time) return;
+  const local = timeZone && end.instant !== undefined
+    ? instantToZonedTime(end.instant, timeZone)
+    : { day: end.date, time: end.time };
+  const isWithinADay = local.day === item.day
+    ? local.time > item.time
+    : local.day === shiftDate(item.day, 1) && local.time < item.time;
+  if (isWithinADay) item.endTime = local.time;
+}
+
+/**
+ * Convert one VEVENT into a draft item, or null if it has no usable start date
+ */
+async function eventToItem(event: IcsEvent): Promise<Partial<ItineraryItem> | null> {
+  const start = parseDateTime(event.DTSTART);
+  if (!start) return null;
+  const end = parseDateTime(event.DTEND);
+
+  const summary = unescapeText(event.SUMMARY?.value || '').trim();
+  const place = unescapeText(event.LOCATION?.value || '').trim();
+  const description = unescapeText(event.DESCRIPTION?.value || '').trim();
+  const url = event.URL?.value.trim() || '';
+  const text = `${summary}\n${place}\n${description}`;
+
+  const item: Partial<ItineraryItem> = {
+    type: 'activity',
+    day: start.date,
+    time: start.time,
+    location: summary || place || 'Imported event',
+    notes: [summary && place && place !== summary ? place : '', description].filter(Boolean).join('\n'),
+    completed: false,
+  };
+
+  const [lat, lng] = (event.GEO?.value || '').split(';').map(Number);
+  if (Number.isFinite(lat) && Number.isFinite(lng) && event.GEO) {
+    item.lat = lat;
+    item.lng = lng;
+  }
+  if (/google\.[a-z.]+\/maps|goo\.gl\/maps|maps\.app\.goo\.gl/.test(url)) {
+    item.googleMapsLink = url;
+  }
+
+  // A flight needs saying so, or a route between two airports, as well as a flight number
+  const route = await findRoute(text);
+  const flightNumber = route || FLIGHT_PATTERN.test(text) ? await findFlightNumber(`${summary}\n${description}`) : null;
+  if (flightNumber) {
+    item.type = 'flight';
+    item.flightNumber = flightNumber;
+    item.airline = (await getAirlineName(parseAirlineCode(flightNumber)!)) || '';
+    item.arrivalTime = end?.time || '';
+    if (route) {
+      item.departureAirportCode = route[0];
+      item.arrivalAirportCode = route[1];
+      item.location = route[0];
+      item.arrivalLocation = route[1];
+    } else {
+      item.location = place || summary;
+      item.arrivalLocation = '';
+    }
+    await applyTimeZones(item, start, end);
+    return item;
+  }
+
+  // Check-out day (all-day DTEND is exclusive, which for stays is the check-out date)
+  const lastDay = end ? end.date : start.date;
+  const isMultiNight = lastDay > shiftDate(start.date, 1);
+  item.category = inferCategory(text, isMultiNight);
+  if (item.category === 'lodging' && lastDay > start.date) {
+    item.endDay = lastDay;
+  }
+  await applyTimeZones(item, start, end);
+  return item;
+}
+
+/**
+ * Parse an .ics file into draft items, sorted by date.
+ * Drafts matching an existing item (same day, time and title) are marked as duplicates.
+ */
+export async function parseCalendarFile(text: string, existingItems: ItineraryItem[] = []): Promise<CalendarImportDraft[]> {
+  const existingKeys = new Set(existingItems.map((item) => `${item.day}|${item.time}|${item.location}`));
+
+  const events = parseEvents(text);
+  const items = await Promise.all(events.map((event) => eventToItem(event)));
+
+  return items
+    .map((item, index) => {
+      if (!item) return null;
+      const event = events[index];
+      return {
+        key: `${event.UID?.value || 'event'}-${index}`,
+        item,
+        isDuplicate: existingKeys.has(`${item.day}|${item.time}|${item.location}`),
+      };
+    })
+    .filter((draft): draft is CalendarImportDraft => draft !== null)
+    .sort((a, b) => `${a.item.day} ${a.item.time}`.localeCompare(`${b.item.day} ${b.item.time}`));
+}
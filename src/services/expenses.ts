@@ -0,0 +1,184 @@
+/**
+ * Expense splitting and balance calculations for the shared trip ledger
+ */
+import type { Expense, MemberBalance, Settlement } from '../types';
+
+// All calculations are done in cents to avoid floating point drift
+const toCents = (amount: number): number => Math.round(amount * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Get the members sharing an expense.
+ * Expenses created before splits existed are shared by every trip member.
+ */
+export function getExpenseParticipants(expense: Expense, members: string[]): string[] {
+  if (expense.participants && expense.participants.length > 0) {
+    return expense.participants;
+  }
+  return members;
+}
+
+/**
+ * Distribute cents across participants by weight, handing leftover cents
+ * to the first participants so the shares always add up to the total
+ */
+function distributeCents(totalCents: number, weights: Array<[string, number]>): Record<string, number> {
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  const shares: Record<string, number> = {};
+  if (weights.length === 0 || totalWeight <= 0) return shares;
+
+  let allocated = 0;
+  for (const [uid, weight] of weights) {
+    const share = Math.floor((totalCents * weight) / totalWeight);
+    shares[uid] = share;
+    allocated += share;
+  }
+
+  let remainder = totalCents - allocated;
+  for (let i = 0; remainder > 0; i = (i + 1) % weights.length) {
+    if (weights[i][1] > 0) {
+      shares[weights[i][0]] += 1;
+      remainder--;
+    }
+  }
+
+  return shares;
+}
+
+/**
+ * Validate the split of an expense.
+ * Returns an error message, or null if the split is valid.
+ */
+export function validateExpenseSplit(expense: Partial<Expense>): string | null {
+  if (!expense.amount || expense.amount <= 0) {
+    return 'Amount must be greater than zero';
+  }
+
+  const participants = expense.participants || [];
+  if (participants.length === 0) {
+    return 'Select at least one member to share the cost';
+  }
+
+  if (expense.splitType === 'percentage') {
+    const totalPercent = participants.reduce((sum, uid) => sum + (expense.splits?.[uid] || 0), 0);
+    if (Math.abs(totalPercent - 100) > 0.01) {
+      return `Percentages must add up to 100% (currently ${totalPercent}%)`;
+    }
+  }
+
+  if (expense.splitType === 'exact') {
+    const totalCents = participants.reduce((sum, uid) => sum + toCents(expense.splits?.[uid] || 0), 0);
+    if (totalCents !== toCents(expense.amount)) {
+      return `Amounts must add up to ${expense.amount.toFixed(2)} (currently ${fromCents(totalCents).toFixed(2)})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Calculate how much each participant owes for a single expense
+ */
+export function computeExpenseShares(expense: Expense, members: string[]): Record<string, number> {
+  const participants = getExpenseParticipants(expense, members);
+  const totalCents = toCents(expense.amount);
+  let shareCents: Record<string, number>;
+
+  switch (expense.splitType) {
+    case 'percentage':
+      shareCents = distributeCents(
+        totalCents,
+        participants.map((uid) => [uid, expense.splits?.[uid] || 0])
+      );
+      break;
+    case 'exact':
+      shareCents = Object.fromEntries(
+        participants.map((uid) => [uid, toCents(expense.splits?.[uid] || 0)])
+      );
+      break;
+    case 'equal':
+    default:
+      shareCents = distributeCents(
+        totalCents,
+        participants.map((uid) => [uid, 1])
+      );
+  }
+
+  return Object.fromEntries(
+    Object.entries(shareCents).map(([uid, cents]) => [uid, fromCents(cents)])
+  );
+}
+
+/**
+ * Calculate the net balance of every member across all expenses.
+ * Includes anyone who paid or shared an expense, even if they have since left the trip.
+ */
+export function computeBalances(expenses: Expense[], members: string[]): MemberBalance[] {
+  const paidCents: Record<string, number> = {};
+  const owedCents: Record<string, number> = {};
+  const uids = new Set(members);
+
+  for (const expense of expenses) {
+    uids.add(expense.payer);
+    paidCents[expense.payer] = (paidCents[expense.payer] || 0) + toCents(expense.amount);
+
+    const shares = computeExpenseShares(expense, members);
+    for (const [uid, share] of Object.entries(shares)) {
+      uids.add(uid);
+      owedCents[uid] = (owedCents[uid] || 0) + toCents(share);
+    }
+  }
+
+  return Array.from(uids).map((uid) => {
+    const paid = paidCents[uid] || 0;
+    const owed = owedCents[uid] || 0;
+    return {
+      uid,
+      paid: fromCents(paid),
+      owed: fromCents(owed),
+      balance: fromCents(paid - owed),
+    };
+  });
+}
+
+/**
+ * Build a minimal list of payments that settles all balances.
+ * Matches debtors and creditors largest-first, which needs at most
+ * (members - 1) payments.
+ */
+export function computeSettlements(balances: MemberBalance[]): Settlement[] {
+  const debtors = balances
+    .filter((b) => toCents(b.balance) < 0)
+    .map((b) => ({ uid: b.uid, cents: -toCents(b.balance) }))
+    .sort((a, b) => b.cents - a.cents);
+  const creditors = balances
+    .filter((b) => toCents(b.balance) > 0)
+    .map((b) => ({ uid: b.uid, cents: toCents(b.balance) }))
+    .sort((a, b) => b.cents - a.cents);
+
+  const settlements: Settlement[] = [];
+  let d = 0;
+  let c = 0;
+
+  while (d < debtors.length && c < creditors.length) {
+    const debtor = debtors[d];
+    const creditor = creditors[c];
+    const cents = Math.min(debtor.cents, creditor.cents);
+
+    settlements.push({ from: debtor.uid, to: creditor.uid, amount: fromCents(cents) });
+
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) d++;
+    if (creditor.cents === 0) c++;
+  }
+
+  return settlements;
+}
+
+/**
+ * Format an amount for display (e.g., 12.5 -> "12.50")
+ */
+export function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
@@ -0,0 +1,57 @@
+/**
+ * Flight data providers: live flight lookups from a vendor API, chosen by configuration.
+ *
+ * Set VITE_FLIGHT_PROVIDER to a registered provider id ('aerodatabox', 'mock' or 'none').
+ * Without it, AeroDataBox is used when VITE_AERODATABOX_API_KEY is set.
+ */
+import type { FlightDataProvider } from './flight';
+import { createAeroDataBoxProvider } from './aeroDataBox';
+import { createMockFlightProvider } from './mockFlightProvider';
+
+export type { FlightDataProvider };
+
+export interface FlightProviderConfig {
+  provider?: string; // provider id; empty picks one from the API keys present
+  aeroDataBoxApiKey?: string;
+}
+
+/**
+ * Creates a provider from the config, or null if the config doesn't have what it needs
+ */
+type FlightProviderFactory = (config: FlightProviderConfig) => FlightDataProvider | null;
+
+const providerFactories = new Map<string, FlightProviderFactory>([
+  ['aerodatabox', (config) => (config.aeroDataBoxApiKey ? createAeroDataBoxProvider(config.aeroDataBoxApiKey) : null)],
+  ['mock', () => createMockFlightProvider()],
+  ['none', () => null],
+]);
+
+/**
+ * Add a provider that can then be selected with VITE_FLIGHT_PROVIDER
+ */
+export function registerFlightProvider(id: string, factory: FlightProviderFactory): void {
+  providerFactories.set(id, factory);
+}
+
+/**
+ * Provider settings from the environment
+ */
+export function getFlightProviderConfig(): FlightProviderConfig {
+  return {
+    provider: import.meta.env.VITE_FLIGHT_PROVIDER || '',
+    aeroDataBoxApiKey: import.meta.env.VITE_AERODATABOX_API_KEY || '',
+  };
+}
+
+/**
+ * The configured provider, or null when none is set up (lookups then use the static dataset only)
+ */
+export function getFlightProvider(config: FlightProviderConfig = getFlightProviderConfig()): FlightDataProvider | null {
+  const id = config.provider || (config.aeroDataBoxApiKey ? 'aerodatabox' : 'none');
+  const factory = providerFactories.get(id);
+  if (!factory) {
+    console.error(`Unknown flight provider "${id}" - flight lookups will use the airport dataset only`);
+    return null;
+  }
+  return factory(config);
+}
@@ -0,0 +1,151 @@
+/**
+ * Live flight status: which flights to track, what changed since the last poll,
+ * and how to describe it to trip members
+ */
+import type { ItineraryItem, FlightStatusInfo } from '../types';
+import type { FlightInfo } from './flight';
+import { formatDuration, getFlightArrival, getItemStartInstant, zonedTimeToInstant } from './timezones';
+
+// How often flights are polled on the day of travel
+export const FLIGHT_STATUS_POLL_MINUTES = 5;
+
+// Delays shorter than this aren't worth an alert
+const DELAY_ALERT_MINUTES = 15;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+// Keep tracking this long after the scheduled landing, for late arrivals
+const TRACK_AFTER_ARRIVAL_MS = 2 * MS_PER_HOUR;
+
+export type FlightStatusTone = 'green' | 'amber' | 'red' | 'sky';
+
+/**
+ * Whether a flight should be polled now: from the start of its day of travel (local to the
+ * departure airport) until a couple of hours after it's due to land, unless it's landed or cancelled
+ */
+export function isFlightTrackable(item: ItineraryItem, now: number): boolean {
+  if (item.type !== 'flight' || !item.flightNumber || item.completed) return false;
+  if (item.flightStatus?.status === 'landed' || item.flightStatus?.status === 'cancelled') return false;
+
+  const start = zonedTimeToInstant(item.day, '00:00', item.timeZone);
+  const landing = getFlightArrival(item)?.instant ?? getItemStartInstant(item) + 24 * MS_PER_HOUR;
+  return now >= start && now <= landing + TRACK_AFTER_ARRIVAL_MS;
+}
+
+/**
+ * Minutes from a scheduled to a revised HH:mm time, across midnight if need be (negative = early)
+ */
+export function getDelayMinutes(scheduled: string, revised: string | undefined): number {
+  if (!scheduled || !revised) return 0;
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const difference = toMinutes(revised) - toMinutes(scheduled);
+  // A revision more than 12 hours "early" is really a delay past midnight
+  return ((difference + 720 + 1440) % 1440) - 720;
+}
+
+/**
+ * Changes between two polls worth telling members about, as one message (null if none)
+ */
+export function describeFlightChange(
+  item: ItineraryItem,
+  previous: FlightStatusInfo | undefined,
+  next: FlightStatusInfo
+): string | null {
+  const flight = item.flightNumber || 'Your flight';
+  const messages: string[] = [];
+
+  if (next.status === 'cancelled' && previous?.status !== 'cancelled') {
+    return `${flight} has been cancelled`;
+  }
+  if (next.status === 'diverted' && previous?.status !== 'diverted') {
+    messages.push(`${flight} has been diverted`);
+  }
+
+  const delay = getDelayMinutes(item.time, next.revisedDepartureTime);
+  const previousDelay = getDelayMinutes(item.time, previous?.revisedDepartureTime);
+  if (delay >= DELAY_ALERT_MINUTES && Math.abs(delay - previousDelay) >= DELAY_ALERT_MINUTES) {
+    messages.push(`${flight} delayed ${formatDuration(delay)} - now departs ${next.revisedDepartureTime}`);
+  } else if (delay < DELAY_ALERT_MINUTES && previousDelay >= DELAY_ALERT_MINUTES) {
+    messages.push(`${flight} is back on time`);
+  }
+
+  // A first gate assignment isn't news, a change is
+  if (previous?.departureGate && next.departureGate && previous.departureGate !== next.departureGate) {
+    messages.push(`${flight} departure gate changed to ${next.departureGate}`);
+  }
+
+  return messages.length > 0 ? messages.join('. ') : null;
+}
+
+const TRACKED_FIELDS = [
+  'status',
+  'departureTerminal',
+  'departureGate',
+  'arrivalTerminal',
+  'arrivalGate',
+  'revisedDepartureTime',
+  'revisedArrivalTime',
+] as const;
+
+/**
+ * New status to store from a provider lookup, or null if nothing changed.
+ * Revised times are only kept when they differ from the schedule; the last alert
+ * stays until a newer change replaces it.
+ */
+export function getFlightStatusUpdate(item: ItineraryItem, info: FlightInfo, now: number): FlightStatusInfo | null {
+  const previous = item.flightStatus;
+  const next: FlightStatusInfo = { status: info.status || previous?.status || 'scheduled', updatedAt: now };
+
+  // Firestore rejects undefined, so only set what the provider reported
+  if (info.departureTerminal) next.departureTerminal = info.departureTerminal;
+  if (info.departureGate) next.departureGate = info.departureGate;
+  if (info.arrivalTerminal) next.arrivalTerminal = info.arrivalTerminal;
+  if (info.arrivalGate) next.arrivalGate = info.arrivalGate;
+  if (info.revisedDepartureTime && info.revisedDepartureTime !== item.time) {
+    next.revisedDepartureTime = info.revisedDepartureTime;
+  }
+  if (info.revisedArrivalTime && info.revisedArrivalTime !== item.arrivalTime) {
+    next.revisedArrivalTime = info.revisedArrivalTime;
+  }
+
+  if (previous && TRACKED_FIELDS.every((field) => previous[field] === next[field])) return null;
+
+  const alert = describeFlightChange(item, previous, next);
+  if (alert) {
+    next.alert = alert;
+    next.alertAt = now;
+  } else if (previous?.alert && previous.alertAt) {
+    next.alert = previous.alert;
+    next.alertAt = previous.alertAt;
+  }
+  return next;
+}
+
+/**
+ * Short status for a flight's card (null before it's tracked)
+ */
+export function getFlightStatusLabel(item: ItineraryItem): { label: string; tone: FlightStatusTone } | null {
+  const info = item.flightStatus;
+  if (!info) return null;
+
+  switch (info.status) {
+    case 'cancelled':
+      return { label: 'Cancelled', tone: 'red' };
+    case 'diverted':
+      return { label: 'Diverted', tone: 'red' };
+    case 'landed':
+      return { label: 'Landed', tone: 'green' };
+    case 'active':
+      return { label: 'In the air', tone: 'sky' };
+    default: {
+      const delay = getDelayMinutes(item.time, info.revisedDepartureTime);
+      return delay >= DELAY_ALERT_MINUTES
+        ? { label: `Delayed ${formatDuration(delay)}`, tone: 'amber' }
+        : { label: 'On time', tone: 'green' };
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Google Maps routing provider (Routes API)
+ * API docs: https://developers.google.com/maps/documentation/routes/compute_route_directions
+ */
+import type { LatLng, Route, RoutingProvider, TravelMode } from './routing';
+
+const ROUTES_API_URL = 'https://routes.googleapis.com/directions/v2:computeRoutes';
+
+const TRAVEL_MODES: Record<TravelMode, string> = {
+  walk: 'WALK',
+  transit: 'TRANSIT',
+  drive: 'DRIVE',
+};
+
+/**
+ * Points of an encoded polyline (Google's polyline algorithm format)
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+  return points;
+}
+
+function toWaypoint({ lat, lng }: LatLng) {
+  return { location: { latLng: { latitude: lat, longitude: lng } } };
+}
+
+/**
+ * Route between two places using the Routes API
+ */
+async function getRoute(
+  from: LatLng,
+  to: LatLng,
+  mode: TravelMode,
+  departAt: number | undefined,
+  apiKey: string
+): Promise<Route | null> {
+  const response = await fetch(ROUTES_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': apiKey,
+      'X-Goog-FieldMask': 'routes.duration,routes.distanceMeters,routes.polyline.encodedPolyline',
+    },
+    body: JSON.stringify({
+      origin: toWaypoint(from),
+      destination: toWaypoint(to),
+      travelMode: TRAVEL_MODES[mode],
+      // Timetables only matter for transit, and the API won't plan it in the past
+      ...(mode === 'transit' && departAt && departAt > Date.now()
+        ? { departureTime: new Date(departAt).toISOString() }
+        : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Routes API request failed (${response.status})`);
+  }
+
+  const data = await response.json();
+  const route = data?.routes?.[0];
+  // No route by this mode (e.g., no transit there)
+  if (!route?.duration) return null;
+
+  const encoded = route.polyline?.encodedPolyline;
+  return {
+    mode,
+    durationMinutes: Math.max(1, Math.round(parseInt(route.duration, 10) / 60)),
+    distanceKm: (route.distanceMeters || 0) / 1000,
+    path: encoded ? decodePolyline(encoded) : [from, to],
+    estimated: false,
+  };
+}
+
+export function createGoogleRoutingProvider(apiKey: string): RoutingProvider {
+  return {
+    id: 'google',
+    name: 'Google Maps',
+    getRoute: (from, to, mode, departAt) => getRoute(from, to, mode, departAt, apiKey),
+  };
+}
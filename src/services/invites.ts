@@ -0,0 +1,94 @@
+/**
+ * Invite code helpers: expiry, validity and parsing codes out of pasted links
+ */
+import type { InviteSettings, TripInvite } from '../types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Expiry choices offered when creating an invite (null = never)
+export const INVITE_EXPIRY_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 1, label: '24 hours' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' },
+];
+
+// Anyone with the code joins as an editor, as before invites could be configured
+export const DEFAULT_INVITE_SETTINGS: InviteSettings = {
+  expiresAt: null,
+  requireApproval: false,
+  role: 'editor',
+};
+
+/**
+ * Expiry timestamp for an invite that lasts `days` from now (null = never expires)
+ */
+export function getInviteExpiry(days: number | null, now = Date.now()): number | null {
+  return days === null ? null : now + days * MS_PER_DAY;
+}
+
+/**
+ * Build the invite document for a new code
+ */
+export function buildInvite(
+  code: string,
+  tripId: string,
+  createdBy: string,
+  settings: InviteSettings = DEFAULT_INVITE_SETTINGS
+): TripInvite {
+  return {
+    code,
+    tripId,
+    createdBy,
+    createdAt: Date.now(),
+    ...settings,
+  };
+}
+
+/**
+ * Settings for a replacement code: same role and approval, and the same lifetime from now
+ */
+export function renewInviteSettings(invite: TripInvite, now = Date.now()): InviteSettings {
+  return {
+    role: invite.role,
+    requireApproval: invite.requireApproval,
+    expiresAt: invite.expiresAt === null ? null : now + (invite.expiresAt - invite.createdAt),
+  };
+}
+
+/**
+ * Check an invite can still be used to join
+ */
+export function isInviteActive(invite: TripInvite, now = Date.now()): boolean {
+  return invite.expiresAt === null || invite.expiresAt > now;
+}
+
+/**
+ * Extract a join code from user input - either the code itself or a pasted invite link
+ */
+export function parseJoinCode(input: string): string {
+  const trimmed = input.trim();
+  const linkMatch = trimmed.match(/\/join\/([^/?#]+)/);
+  return (linkMatch ? decodeURIComponent(linkMatch[1]) : trimmed).replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Shareable link that opens the join flow for a code
+ */
+export function getInviteLink(code: string): string {
+  return `${window.location.origin}/join/${code}`;
+}
+
+/**
+ * Human-readable expiry, e.g. "Expires Mar 3, 14:00" or "Never expires"
+ */
+export function formatInviteExpiry(invite: TripInvite, now = Date.now()): string {
+  if (invite.expiresAt === null) return 'Never expires';
+  const date = new Date(invite.expiresAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return invite.expiresAt > now ? `Expires ${date}` : `Expired ${date}`;
+}
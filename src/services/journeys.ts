@@ -0,0 +1,68 @@
+/**
+ * Flight journeys: connecting flights grouped into one trip from origin to final destination
+ */
+import type { ItineraryItem, FlightJourney } from '../types';
+import { getFlightArrival, getItemStartInstant } from './timezones';
+
+// A flight leaving from where the previous one landed within this long is a connection.
+// Any longer and it's more likely a stay, e.g. a day trip out and back.
+const MAX_LAYOVER_MINUTES = 8 * 60;
+
+// Layovers shorter than this are flagged as tight connections
+export const SHORT_LAYOVER_MINUTES = 60;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Airport a flight leaves from or lands at, for matching connections
+ */
+function getAirport(code: string | undefined, location: string | undefined): string {
+  return (code || location || '').trim().toUpperCase();
+}
+
+/**
+ * Group flights into journeys. A flight joins the previous journey when it departs from the
+ * airport the journey last landed at, after landing and within MAX_LAYOVER_MINUTES, unless it
+ * flies back to where the journey started - that's a return flight, not a connection.
+ * Flights without departure and arrival times can't be connected and form journeys of their own.
+ */
+export function groupFlightJourneys(items: ItineraryItem[]): FlightJourney[] {
+  const flights = items
+    .filter((item) => item.type === 'flight')
+    .map((item) => ({ item, departure: getItemStartInstant(item), arrival: getFlightArrival(item) }))
+    .sort((a, b) => a.departure - b.departure);
+
+  const journeys: FlightJourney[] = [];
+  let previous: (typeof flights)[number] | null = null;
+
+  for (const flight of flights) {
+    const current = journeys[journeys.length - 1];
+    const layover = previous?.arrival && previous.item.time && flight.item.time
+      ? (flight.departure - previous.arrival.instant) / MS_PER_MINUTE
+      : null;
+    const connects = current && previous && layover !== null
+      && layover >= 0
+      && layover <= MAX_LAYOVER_MINUTES
+      && getAirport(previous.item.arrivalAirportCode, previous.item.arrivalLocation)
+        === getAirport(flight.item.departureAirportCode, flight.item.location)
+      && getAirport(flight.item.arrivalAirportCode, flight.item.arrivalLocation)
+        !== getAirport(current.legs[0].departureAirportCode, current.legs[0].location);
+
+    if (connects) {
+      current.legs.push(flight.item);
+      current.layovers.push(Math.round(layover));
+      current.arrivalDay = flight.arrival?.day || flight.item.day;
+    } else {
+      journeys.push({
+        id: flight.item.id,
+        legs: [flight.item],
+        layovers: [],
+        departureDay: flight.item.day,
+        arrivalDay: flight.arrival?.day || flight.item.day,
+      });
+    }
+    previous = flight;
+  }
+
+  return journeys;
+}
@@ -0,0 +1,59 @@
+/**
+ * Helpers for displaying trip members
+ */
+import type { UserProfile } from '../types';
+
+// How often an open trip sends a presence heartbeat, and how long one counts as "viewing now"
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+export const PRESENCE_TIMEOUT_MS = 2.5 * 60 * 1000;
+
+/**
+ * Get a short display label for a member uid, using their profile name when they have one
+ */
+export function formatMemberName(uid: string, currentUserId?: string, profile?: UserProfile): string {
+  if (uid === currentUserId) return 'You';
+  if (profile?.displayName) return profile.displayName;
+  return `Traveler ${uid.slice(0, 4).toUpperCase()}`;
+}
+
+/**
+ * Up to two initials for an avatar placeholder (e.g., "Jane Doe" -> "JD")
+ */
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  return words.slice(0, 2).map((word) => word[0].toUpperCase()).join('');
+}
+
+/**
+ * Summarize member names for a header, e.g. "You, Jane and 3 others"
+ */
+export function summarizeMemberNames(names: string[], maxNames = 3): string {
+  if (names.length <= maxNames) {
+    return names.length <= 1
+      ? names.join('')
+      : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+  const others = names.length - maxNames;
+  return `${names.slice(0, maxNames).join(', ')} and ${others} other${others === 1 ? '' : 's'}`;
+}
+
+/**
+ * Whether a presence heartbeat is recent enough to show the member as viewing the trip
+ */
+export function isPresenceActive(lastSeen: number | undefined, now: number): boolean {
+  return lastSeen !== undefined && now - lastSeen < PRESENCE_TIMEOUT_MS;
+}
+
+/**
+ * Describe when a member last had the trip open (e.g. "Last seen 5 min ago")
+ */
+export function formatLastSeen(lastSeen: number | undefined, now: number): string {
+  if (!lastSeen) return 'Not seen recently';
+  const minutes = Math.floor((now - lastSeen) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours}h ago`;
+  return `Last seen ${new Date(lastSeen).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Mock flight data provider backed by fixed fixtures, for development and tests without an API key.
+ * Select it with VITE_FLIGHT_PROVIDER=mock. The same flight number always gives the same answer.
+ */
+import { getAirport, parseAirlineCode, parseFlightDigits, type FlightDataProvider, type FlightInfo } from './flight';
+import { loadReferenceData } from './referenceData';
+
+interface FlightFixture {
+  airline: string;
+  from: string; // IATA airport codes
+  to: string;
+  departureTime: string; // local times
+  arrivalTime: string;
+  status?: FlightInfo['status'];
+  live?: Pick<
+    FlightInfo,
+    'departureTerminal' | 'departureGate' | 'arrivalTerminal' | 'arrivalGate' | 'revisedDepartureTime' | 'revisedArrivalTime'
+  >;
+}
+
+// Keyed by IATA flight number. Covers a same-day flight, an overnight flight,
+// one that lands "before" it leaves (crossing the date line), a delay and a cancellation.
+export const MOCK_FLIGHT_FIXTURES: Record<string, FlightFixture> = {
+  BA117: {
+    airline: 'British Airways', from: 'LHR', to: 'JFK', departureTime: '08:20', arrivalTime: '11:15',
+    live: { departureTerminal: '5', departureGate: 'B42', arrivalTerminal: '8' },
+  },
+  LH400: {
+    airline: 'Lufthansa', from: 'FRA', to: 'JFK', departureTime: '10:55', arrivalTime: '13:50',
+    live: { departureTerminal: '1', departureGate: 'Z25', revisedDepartureTime: '11:40', revisedArrivalTime: '14:30' },
+  },
+  LY315: { airline: 'El Al Israel Airlines', from: 'TLV', to: 'LHR', departureTime: '07:00', arrivalTime: '10:50' },
+  UA837: { airline: 'United Airlines', from: 'SFO', to: 'NRT', departureTime: '11:05', arrivalTime: '14:20' },
+  SQ22: { airline: 'Singapore Airlines', from: 'SIN', to: 'EWR', departureTime: '23:35', arrivalTime: '06:00' },
+  QF11: { airline: 'Qantas', from: 'SYD', to: 'LAX', departureTime: '09:55', arrivalTime: '06:45' },
+  AA100: { airline: 'American Airlines', from: 'JFK', to: 'LHR', departureTime: '18:30', arrivalTime: '06:40', status: 'cancelled' },
+};
+
+/**
+ * Look a flight up in the fixtures. ICAO flight numbers (e.g., "BAW117") match their IATA fixture.
+ */
+async function lookupFlight(flightNumber: string): Promise<FlightInfo | null> {
+  const airlineCode = parseAirlineCode(flightNumber);
+  const flightDigits = parseFlightDigits(flightNumber);
+  if (!airlineCode || !flightDigits) return null;
+
+  const { airlinesByCode } = await loadReferenceData();
+  const iataCode = airlinesByCode.get(airlineCode)?.iata || airlineCode;
+  const fixture = MOCK_FLIGHT_FIXTURES[`${iataCode}${flightDigits}`];
+  if (!fixture) return null;
+
+  const [departure, arrival] = await Promise.all([getAirport(fixture.from), getAirport(fixture.to)]);
+  return {
+    airline: fixture.airline,
+    airlineCode,
+    flightNumber: `${airlineCode}${flightDigits}`,
+    departureAirport: departure?.name || '',
+    departureAirportCode: fixture.from,
+    departureCity: departure?.city || '',
+    departureLat: departure?.lat || 0,
+    departureLng: departure?.lng || 0,
+    arrivalAirport: arrival?.name || '',
+    arrivalAirportCode: fixture.to,
+    arrivalCity: arrival?.city || '',
+    arrivalLat: arrival?.lat || 0,
+    arrivalLng: arrival?.lng || 0,
+    departureTime: fixture.departureTime,
+    arrivalTime: fixture.arrivalTime,
+    status: fixture.status || 'scheduled',
+    ...fixture.live,
+    validated: true,
+    validationSource: 'api',
+  };
+}
+
+export function createMockFlightProvider(): FlightDataProvider {
+  return {
+    id: 'mock',
+    name: 'Mock flight data',
+    lookupFlight: (flightNumber) => lookupFlight(flightNumber),
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Offline support: the service worker that keeps the app shell on the device, Firestore
+ * writes made while offline, and day maps saved as static images to look at offline
+ */
+import type { ItineraryItem } from '../types';
+
+// Same name as in src/sw.js, which answers static map requests from this cache
+export const MAP_SNAPSHOT_CACHE = 'travelsync-map-snapshots';
+
+const SNAPSHOTS_STORAGE_KEY = 'travelsync:offlineMaps';
+
+const STATIC_MAP_URL = 'https://maps.googleapis.com/maps/api/staticmap';
+
+// The API takes at most 640x640 (doubled by scale=2)
+const SNAPSHOT_SIZE = '640x400';
+
+// Marker labels are a single character
+const MARKER_LABELS = '123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export interface MapSnapshot {
+  tripId: string;
+  day: string;
+  url: string;
+  stopCount: number;
+  savedAt: number;
+}
+
+/**
+ * Registers the service worker in production builds (the dev server serves modules it can't cache)
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Error registering service worker:', err);
+    });
+  });
+}
+
+// How long a write gets to reach the server before it is treated as queued
+const WRITE_CONFIRM_TIMEOUT_MS = 3000;
+
+type QueuedWriteErrorListener = (err: unknown) => void;
+
+const queuedWriteErrorListeners = new Set<QueuedWriteErrorListener>();
+
+/**
+ * Listens for queued writes the server turns down once they sync (Firestore then rolls them back
+ * in the local cache). Returns a function that stops listening.
+ */
+export function onQueuedWriteError(listener: QueuedWriteErrorListener): () => void {
+  queuedWriteErrorListeners.add(listener);
+  return () => {
+    queuedWriteErrorListeners.delete(listener);
+  };
+}
+
+/**
+ * Waits for a Firestore write to reach the server, for a few seconds at most. Without a connection
+ * (or with a poor one, which navigator.onLine doesn't notice) the write is already in the local cache
+ * and queued to sync, and its promise only settles once it gets through - waiting on it would leave
+ * the form that made it spinning. Failures after the wait go to the onQueuedWriteError listeners.
+ */
+export function settleWrite(write: Promise<unknown>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let queued = false;
+    const timeout = setTimeout(() => {
+      queued = true;
+      resolve();
+    }, WRITE_CONFIRM_TIMEOUT_MS);
+
+    write.then(
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      (err) => {
+        clearTimeout(timeout);
+        if (!queued) {
+          reject(err);
+          return;
+        }
+        console.error('Error syncing queued write:', err);
+        queuedWriteErrorListeners.forEach((listener) => listener(err));
+      }
+    );
+  });
+}
+
+/**
+ * Static map of a day's located items, numbered in order and joined up by a path
+ * (null when none of them has a place)
+ */
+export function getStaticMapUrl(dayItems: ItineraryItem[], apiKey: string): string | null {
+  const stops = dayItems.filter((item) => item.lat !== undefined && item.lng !== undefined);
+  if (stops.length === 0) return null;
+
+  const params = new URLSearchParams({ size: SNAPSHOT_SIZE, scale: '2', key: apiKey });
+  stops.forEach((item, index) => {
+    const label = MARKER_LABELS[index] ?? '';
+    params.append('markers', `color:0x4F46E5|${label ? `label:${label}|` : ''}${item.lat},${item.lng}`);
+  });
+  if (stops.length > 1) {
+    params.append('path', `color:0x4F46E5AA|weight:3|${stops.map((item) => `${item.lat},${item.lng}`).join('|')}`);
+  }
+  return `${STATIC_MAP_URL}?${params.toString()}`;
+}
+
+function readSnapshots(): MapSnapshot[] {
+  try {
+    return JSON.parse(localStorage.getItem(SNAPSHOTS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeSnapshots(snapshots: MapSnapshot[]): void {
+  try {
+    localStorage.setItem(SNAPSHOTS_STORAGE_KEY, JSON.stringify(snapshots));
+  } catch {
+    // Storage full or blocked - the image is still cached, it just won't be listed
+  }
+}
+
+/**
+ * Day maps saved on this device for a trip, in day order
+ */
+export function getMapSnapshots(tripId: string): MapSnapshot[] {
+  return readSnapshots()
+    .filter((snapshot) => snapshot.tripId === tripId)
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Downloads a day's static map into the cache the service worker serves offline, replacing
+ * the day's earlier snapshot. Needs the connection and browser cache support.
+ */
+export async function saveMapSnapshot(
+  tripId: string,
+  day: string,
+  dayItems: ItineraryItem[],
+  apiKey: string
+): Promise<MapSnapshot> {
+  const url = getStaticMapUrl(dayItems, apiKey);
+  if (!url) throw new Error('None of this day\'s items are on the map yet');
+  if (!('caches' in window)) throw new Error('This browser can\'t save maps for offline use');
+
+  const cache = await caches.open(MAP_SNAPSHOT_CACHE);
+  // Static map images don't allow cross-origin reads, so the cached copy is an opaque
+  // response - fine for an <img>, which is all it's used for
+  const response = await fetch(url, { mode: 'no-cors' });
+  await cache.put(url, response);
+
+  const previous = readSnapshots().find((snapshot) => snapshot.tripId === tripId && snapshot.day === day);
+  if (previous && previous.url !== url) await cache.delete(previous.url);
+
+  const snapshot: MapSnapshot = {
+    tripId,
+    day,
+    url,
+    stopCount: dayItems.filter((item) => item.lat !== undefined && item.lng !== undefined).length,
+    savedAt: Date.now(),
+  };
+  writeSnapshots([
+    ...readSnapshots().filter((other) => !(other.tripId === tripId && other.day === day)),
+    snapshot,
+  ]);
+  return snapshot;
+}
+
+/**
+ * Deletes a saved day map from the device
+ */
+export async function removeMapSnapshot(snapshot: MapSnapshot): Promise<void> {
+  writeSnapshots(readSnapshots().filter((other) => !(other.tripId === snapshot.tripId && other.day === snapshot.day)));
+  if ('caches' in window) {
+    const cache = await caches.open(MAP_SNAPSHOT_CACHE);
+    await cache.delete(snapshot.url);
+  }
+}
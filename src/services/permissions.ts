@@ -0,0 +1,36 @@
+/**
+ * Role-based permission checks for trips.
+ * These mirror firestore.rules, which is where access is actually enforced.
+ */
+import type { Trip, TripRole } from '../types';
+
+export const ROLE_LABELS: Record<TripRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+/**
+ * Get a user's role in a trip, or null if they are not a member.
+ * Members of trips created before roles existed are treated as editors.
+ */
+export function getMemberRole(trip: Trip, uid: string): TripRole | null {
+  if (!trip.members?.includes(uid)) return null;
+  if (trip.ownerId === uid) return 'owner';
+  return trip.roles?.[uid] || 'editor';
+}
+
+/**
+ * Can the user change the itinerary, expenses, tasks and trip details?
+ */
+export function canEditTrip(trip: Trip, uid: string): boolean {
+  const role = getMemberRole(trip, uid);
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Can the user manage members, the join code, archiving and deletion?
+ */
+export function isTripOwner(trip: Trip, uid: string): boolean {
+  return getMemberRole(trip, uid) === 'owner';
+}
@@ -0,0 +1,228 @@
+/**
+ * Airport and airline reference data, bundled in OpenFlights CSV format (src/data/*.dat)
+ * and loaded on first use so it stays out of the main bundle.
+ * Refresh it with `npm run refresh:reference-data`.
+ */
+
+export interface Airport {
+  code: string; // IATA code, or ICAO for airports without one
+  iata: string;
+  icao: string;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lng: number;
+  tz: string; // IANA time zone
+}
+
+export interface Airline {
+  iata: string;
+  icao: string;
+  name: string;
+  country: string;
+}
+
+export interface ReferenceData {
+  airports: Airport[];
+  airlines: Airline[];
+  airportsByCode: Map<string, Airport>; // by IATA and ICAO code
+  airlinesByCode: Map<string, Airline>; // by IATA and ICAO code
+}
+
+// OpenFlights column positions
+const AIRPORT_COLUMNS = { name: 1, city: 2, country: 3, iata: 4, icao: 5, lat: 6, lng: 7, tz: 11 } as const;
+const AIRLINE_COLUMNS = { name: 1, iata: 3, icao: 4, country: 6, active: 7 } as const;
+
+/**
+ * Split one CSV line into fields. OpenFlights writes "\N" (and sometimes "-") for missing values.
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map((value) => (value === '\\N' || value === '-' ? '' : value.trim()));
+}
+
+function parseRows(text: string): string[][] {
+  return text.split(/\r?\n/).filter((line) => line.trim()).map(parseCsvLine);
+}
+
+/**
+ * Airports with a code, coordinates and time zone (others are no use for flights)
+ */
+function parseAirports(text: string): Airport[] {
+  return parseRows(text).flatMap((row) => {
+    const iata = (row[AIRPORT_COLUMNS.iata] || '').toUpperCase();
+    const icao = (row[AIRPORT_COLUMNS.icao] || '').toUpperCase();
+    const lat = parseFloat(row[AIRPORT_COLUMNS.lat]);
+    const lng = parseFloat(row[AIRPORT_COLUMNS.lng]);
+    const tz = row[AIRPORT_COLUMNS.tz] || '';
+    if (!(iata || icao) || isNaN(lat) || isNaN(lng) || !tz) return [];
+
+    return [{
+      code: iata || icao,
+      iata,
+      icao,
+      name: row[AIRPORT_COLUMNS.name] || '',
+      city: row[AIRPORT_COLUMNS.city] || '',
+      country: row[AIRPORT_COLUMNS.country] || '',
+      lat,
+      lng,
+      tz,
+    }];
+  });
+}
+
+/**
+ * Active airlines with an IATA or ICAO code
+ */
+function parseAirlines(text: string): Airline[] {
+  return parseRows(text).flatMap((row) => {
+    // Placeholders like "N/A" aren't codes
+    const iata = /^[A-Z0-9]{2}$/i.test(row[AIRLINE_COLUMNS.iata]) ? row[AIRLINE_COLUMNS.iata].toUpperCase() : '';
+    const icao = /^[A-Z]{3}$/i.test(row[AIRLINE_COLUMNS.icao]) ? row[AIRLINE_COLUMNS.icao].toUpperCase() : '';
+    if (!(iata || icao) || row[AIRLINE_COLUMNS.active] === 'N') return [];
+    return [{
+      iata,
+      icao,
+      name: row[AIRLINE_COLUMNS.name] || '',
+      country: row[AIRLINE_COLUMNS.country] || '',
+    }];
+  });
+}
+
+/**
+ * Index records by IATA and ICAO code. The first record with a code wins,
+ * so a defunct airline sharing an IATA code doesn't replace the current one.
+ */
+function indexByCode<T extends { iata: string; icao: string }>(records: T[]): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const record of records) {
+    for (const code of [record.iata, record.icao]) {
+      if (code && !index.has(code)) index.set(code, record);
+    }
+  }
+  return index;
+}
+
+function buildReferenceData(airportsText: string, airlinesText: string): ReferenceData {
+  const airports = parseAirports(airportsText);
+  const airlines = parseAirlines(airlinesText);
+  return {
+    airports,
+    airlines,
+    airportsByCode: indexByCode(airports),
+    airlinesByCode: indexByCode(airlines),
+  };
+}
+
+let referenceDataPromise: Promise<ReferenceData> | null = null;
+
+/**
+ * Load the dataset (once - later calls share the same promise)
+ */
+export function loadReferenceData(): Promise<ReferenceData> {
+  if (!referenceDataPromise) {
+    referenceDataPromise = Promise.all([
+      import('../data/airports.dat?raw'),
+      import('../data/airlines.dat?raw'),
+    ])
+      .then(([airports, airlines]) => buildReferenceData(airports.default, airlines.default))
+      .catch((err) => {
+        // Let the next call try again, e.g. after a network blip loading the chunk
+        referenceDataPromise = null;
+        throw err;
+      });
+  }
+  return referenceDataPromise;
+}
+
+/**
+ * Lowercase without accents or punctuation, for matching (e.g., "São Paulo" -> "sao paulo")
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether two words are at most one edit (insert, delete, change or swap adjacent letters) apart
+ */
+function isOneEditApart(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) {
+      i++;
+    } else if (b.length > a.length) {
+      j++;
+    } else {
+      // Swapped letters count as one edit
+      const swapped = a[i] === b[j + 1] && a[i + 1] === b[j];
+      i += swapped ? 2 : 1;
+      j += swapped ? 2 : 1;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/**
+ * How well an airport matches a normalized query (0 = no match). Codes match best,
+ * then city and name prefixes, substrings, and finally words with one typo.
+ */
+export function scoreAirport(airport: Airport, query: string): number {
+  const upper = query.toUpperCase();
+  if (airport.iata === upper || airport.icao === upper) return 100;
+  if (query.length >= 2 && (airport.iata.startsWith(upper) || airport.icao.startsWith(upper))) return 70;
+
+  const city = normalizeSearchText(airport.city);
+  const name = normalizeSearchText(airport.name);
+  if (city === query) return 90;
+  if (city.startsWith(query)) return 80;
+  if (name.startsWith(query) || ` ${name}`.includes(` ${query}`)) return 60;
+  if (city.includes(query) || name.includes(query)) return 40;
+
+  // Typos: every query word of 4+ letters within one edit of some word
+  const queryWords = query.split(' ');
+  const words = `${city} ${name}`.split(' ');
+  const fuzzy = queryWords.every((queryWord) =>
+    words.some((word) => word.startsWith(queryWord) || (queryWord.length >= 4 && isOneEditApart(queryWord, word)))
+  );
+  return fuzzy ? 20 : 0;
+}
@@ -0,0 +1,121 @@
+/**
+ * Moving items around the itinerary list: picking a time for where an item is dropped,
+ * and pushing back whatever it would then run into
+ */
+import type { DisplayItineraryItem, ItineraryItem } from '../types';
+import { getDayGridLayout, type TimelineBlock } from './timeline';
+import { addMinutesToTime, getDurationMinutes } from './timezones';
+
+// Dropped items start on a multiple of this many minutes
+const SNAP_MINUTES = 15;
+
+// How long to leave for an item without an end time
+const DEFAULT_DURATION_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface DropTarget {
+  day: string;
+  index: number; // position among the day's other items, as listed
+}
+
+export interface ItemMove {
+  id: string;
+  data: Partial<ItineraryItem>;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(minutes: number): string {
+  return addMinutesToTime('00:00', minutes);
+}
+
+/**
+ * Whether an item can be pushed later to make room - flights, stays and bookings keep their times
+ */
+function isMovable(item: DisplayItineraryItem): boolean {
+  return item.type === 'activity' && item.category !== 'lodging' && !item.isVirtual && !item.fixedTime;
+}
+
+/**
+ * Changes that put an item where it was dropped:
+ * - it keeps its time if it fits in the gap between its new neighbours
+ * - otherwise it moves as little as it can while staying in the gap
+ * - if the gap is too short, it starts when the item before it ends and the activities
+ *   after it are pushed back as far as needed
+ * Untimed items just change day. Returns no moves if nothing changes or it's dropped where it was.
+ */
+export function planItemMove(item: ItineraryItem, dayItems: DisplayItineraryItem[], target: DropTarget): ItemMove[] {
+  if (!item.time) {
+    return target.day === item.day ? [] : [{ id: item.id, data: { day: target.day } }];
+  }
+  // Dropped back where it was
+  if (target.day === item.day && dayItems.findIndex((other) => other.id === item.id) === target.index) return [];
+
+  const others = dayItems.filter((other) => other.id !== item.id);
+  const blocksById = new Map(getDayGridLayout(others).blocks.map((block) => [block.item.id, block]));
+  const blocksFor = (items: DisplayItineraryItem[]) =>
+    items.flatMap((entry) => {
+      const block = blocksById.get(entry.id);
+      return block ? [block] : [];
+    });
+  const before = blocksFor(others.slice(0, target.index));
+  const after = blocksFor(others.slice(target.index)).sort((a, b) => a.startMinute - b.startMinute);
+
+  // The free time between the items it's dropped between
+  const duration = item.endTime ? getDurationMinutes(item.time, item.endTime) : DEFAULT_DURATION_MINUTES;
+  const gapStart = Math.ceil(Math.max(0, ...before.map((block) => block.endMinute)) / SNAP_MINUTES) * SNAP_MINUTES;
+  const gapEnd = after.length > 0 ? after[0].startMinute : MINUTES_PER_DAY;
+  const latestStart = Math.floor((gapEnd - duration) / SNAP_MINUTES) * SNAP_MINUTES;
+  const current = toMinutes(item.time);
+
+  let start: number;
+  if (current >= gapStart && current + duration <= gapEnd) {
+    start = current;
+  } else if (latestStart >= gapStart) {
+    // As close to its old time as the gap allows
+    start = Math.min(Math.max(current, gapStart), latestStart);
+  } else {
+    start = gapStart;
+  }
+  start = Math.min(start, MINUTES_PER_DAY - SNAP_MINUTES);
+
+  if (target.day === item.day && start === current) return [];
+
+  const moves: ItemMove[] = [{
+    id: item.id,
+    data: {
+      day: target.day,
+      time: minutesToTime(start),
+      endTime: item.endTime ? addMinutesToTime(item.endTime, start - current) : '',
+    },
+  }];
+  return [...moves, ...pushBack(after, start + duration)];
+}
+
+/**
+ * Push activities starting before `busyUntil` later, each one after the last,
+ * stopping at the first gap, fixed item or the end of the day
+ */
+function pushBack(blocks: TimelineBlock[], busyUntil: number): ItemMove[] {
+  const moves: ItemMove[] = [];
+  for (const block of blocks) {
+    if (block.startMinute >= busyUntil || !isMovable(block.item)) break;
+    if (busyUntil > MINUTES_PER_DAY - SNAP_MINUTES) break;
+
+    const shift = busyUntil - block.startMinute;
+    const { item } = block;
+    moves.push({
+      id: item.id,
+      data: {
+        time: minutesToTime(busyUntil),
+        endTime: item.endTime ? addMinutesToTime(item.endTime, shift) : '',
+      },
+    });
+    busyUntil += block.endMinute - block.startMinute;
+  }
+  return moves;
+}
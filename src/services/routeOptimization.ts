@@ -0,0 +1,261 @@
+/**
+ * Route optimization: reordering a day's activities so they're visited in the shortest
+ * distance, around what has to stay where and when it is (flights, stays, bookings)
+ */
+import type { DisplayItineraryItem } from '../types';
+import type { ItemMove } from './rescheduling';
+import type { LatLng } from './routing';
+import { getItemStop } from './travelLegs';
+import { addMinutesToTime, distanceKm, getDurationMinutes } from './timezones';
+
+// Runs of up to this many stops are solved exactly; longer ones are improved with 2-opt
+const EXACT_MAX_STOPS = 8;
+
+// Fewer stops that can move than this, and there's no order worth finding
+export const MIN_OPTIMIZABLE_STOPS = 3;
+
+// Savings smaller than this are just noise (km)
+const MIN_SAVING_KM = 0.1;
+
+// Re-timed items start on a multiple of this many minutes
+const SNAP_MINUTES = 5;
+
+// How long to leave for an item without an end time
+const DEFAULT_DURATION_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface RoutePlan {
+  day: string;
+  before: DisplayItineraryItem[]; // the day's items that have a place, in their current order
+  after: DisplayItineraryItem[]; // the same in the new order, with their new times
+  distanceBeforeKm: number;
+  distanceAfterKm: number;
+  moves: ItemMove[];
+}
+
+/**
+ * Stops that can be visited in between the fixed ones: what they start from (the place
+ * before, or the stay you wake up at) and end at (the next fixed place), if known
+ */
+interface RouteRun {
+  from: LatLng | null;
+  items: Array<DisplayItineraryItem & LatLng>;
+  to: LatLng | null;
+  endsBy: number | null; // minute of the day the fixed item after it starts
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(minutes: number): string {
+  return addMinutesToTime('00:00', minutes);
+}
+
+/**
+ * Whether an item can be put elsewhere in the day: timed activities with a place
+ * that aren't booked for their time
+ */
+function isMovable(item: DisplayItineraryItem): item is DisplayItineraryItem & LatLng {
+  return item.type === 'activity'
+    && item.category !== 'lodging'
+    && !item.isVirtual
+    && !item.fixedTime
+    && !!item.time
+    && item.lat !== undefined
+    && item.lng !== undefined;
+}
+
+/**
+ * Whether a day has enough stops that can move to be worth optimizing
+ */
+export function canOptimizeDay(dayItems: DisplayItineraryItem[]): boolean {
+  return dayItems.filter(isMovable).length >= MIN_OPTIMIZABLE_STOPS;
+}
+
+function getRouteRuns(dayItems: DisplayItineraryItem[]): RouteRun[] {
+  // Items without a time zone are taken to be in the same zone as the rest of the day
+  const dayZone = dayItems.find((item) => item.timeZone)?.timeZone;
+  // Stays are listed last, but on days in the middle of one that's where the day starts
+  const staying = dayItems.find((item) => item.lodgingPhase === 'staying');
+
+  const runs: RouteRun[] = [];
+  let lastPlace: LatLng | null = staying?.lat !== undefined && staying.lng !== undefined
+    ? { lat: staying.lat, lng: staying.lng }
+    : null;
+  let current: RouteRun['items'] = [];
+
+  for (const item of dayItems) {
+    if (isMovable(item)) {
+      current.push(item);
+      continue;
+    }
+    const stop = getItemStop(item, dayZone);
+    // Items without a place can be done anywhere - they don't pin the route down
+    if (!item.journey && !stop.arriveAt && !stop.leaveFrom) continue;
+
+    const endsBy = stop.start !== null ? toMinutes(item.time) : null;
+    if (current.length > 0) runs.push({ from: lastPlace, items: current, to: stop.arriveAt, endsBy });
+    current = [];
+    lastPlace = stop.leaveFrom;
+  }
+  if (current.length > 0) runs.push({ from: lastPlace, items: current, to: null, endsBy: null });
+  return runs;
+}
+
+function pathKm(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceKm(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+  }
+  return total;
+}
+
+function runKm(run: RouteRun, order: number[]): number {
+  const points = order.map((index) => run.items[index]);
+  return pathKm([...(run.from ? [run.from] : []), ...points, ...(run.to ? [run.to] : [])]);
+}
+
+/**
+ * Shortest order by trying them all, skipping any that are already longer than the best
+ */
+function solveExact(run: RouteRun): number[] {
+  let bestKm = Infinity;
+  let bestOrder: number[] = [];
+
+  const visit = (order: number[], remaining: number[], km: number, last: LatLng | null) => {
+    if (km >= bestKm) return;
+    if (remaining.length === 0) {
+      const total = km + (last && run.to ? distanceKm(last.lat, last.lng, run.to.lat, run.to.lng) : 0);
+      if (total < bestKm) {
+        bestKm = total;
+        bestOrder = order;
+      }
+      return;
+    }
+    for (const index of remaining) {
+      const next = run.items[index];
+      const leg = last ? distanceKm(last.lat, last.lng, next.lat, next.lng) : 0;
+      visit([...order, index], remaining.filter((other) => other !== index), km + leg, next);
+    }
+  };
+
+  visit([], run.items.map((_, index) => index), 0, run.from);
+  return bestOrder;
+}
+
+/**
+ * Good (not always shortest) order for longer runs: nearest stop next, then undo
+ * any crossings by reversing stretches of the route while that makes it shorter
+ */
+function solveTwoOpt(run: RouteRun): number[] {
+  const order: number[] = [];
+  const remaining = run.items.map((_, index) => index);
+  let last = run.from ?? run.items[0];
+  while (remaining.length > 0) {
+    const nearest = remaining.reduce((best, index) => {
+      const item = run.items[index];
+      const bestItem = run.items[best];
+      return distanceKm(last.lat, last.lng, item.lat, item.lng) < distanceKm(last.lat, last.lng, bestItem.lat, bestItem.lng)
+        ? index
+        : best;
+    });
+    order.push(nearest);
+    remaining.splice(remaining.indexOf(nearest), 1);
+    last = run.items[nearest];
+  }
+
+  let bestKm = runKm(run, order);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const km = runKm(run, candidate);
+        if (km < bestKm - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestKm = km;
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+}
+
+/**
+ * The run's items in their new order, taking over its start times in turn - moved later if
+ * the item before now runs past its slot, or earlier to finish before the next fixed item
+ */
+function retimeRun(run: RouteRun, order: number[]): DisplayItineraryItem[] {
+  const slots = run.items.map((item) => toMinutes(item.time)).sort((a, b) => a - b);
+  const durations = order.map((index) => {
+    const item = run.items[index];
+    return item.endTime ? getDurationMinutes(item.time, item.endTime) : DEFAULT_DURATION_MINUTES;
+  });
+  const windowEnd = run.endsBy ?? MINUTES_PER_DAY;
+  let busyUntil = 0;
+
+  return order.map((index, position) => {
+    const item = run.items[index];
+    const earliest = Math.ceil(busyUntil / SNAP_MINUTES) * SNAP_MINUTES;
+    const stillToFit = durations.slice(position).reduce((total, minutes) => total + minutes, 0);
+    const latest = Math.floor((windowEnd - stillToFit) / SNAP_MINUTES) * SNAP_MINUTES;
+    // When they can't all fit, running late beats starting before the item before ends
+    const start = Math.min(Math.max(Math.min(slots[position], latest), earliest), MINUTES_PER_DAY - SNAP_MINUTES);
+    busyUntil = start + durations[position];
+
+    const shift = start - toMinutes(item.time);
+    return {
+      ...item,
+      time: minutesToTime(start),
+      endTime: item.endTime ? addMinutesToTime(item.endTime, shift) : '',
+    };
+  });
+}
+
+/**
+ * Shortest order for a day's activities (as sorted by useItineraryItems), keeping flights,
+ * stays and booked items where they are. Null when no shorter order is found.
+ */
+export function optimizeDayRoute(day: string, dayItems: DisplayItineraryItem[]): RoutePlan | null {
+  const runs = getRouteRuns(dayItems);
+  let distanceBeforeKm = 0;
+  let distanceAfterKm = 0;
+  const retimed = new Map<string, DisplayItineraryItem>();
+  const newOrder = new Map<string, string>(); // the item now in each moved item's place in the list
+
+  for (const run of runs) {
+    const current = run.items.map((_, index) => index);
+    const order = run.items.length <= EXACT_MAX_STOPS ? solveExact(run) : solveTwoOpt(run);
+    distanceBeforeKm += runKm(run, current);
+    distanceAfterKm += runKm(run, order);
+
+    retimeRun(run, order).forEach((item, position) => {
+      retimed.set(item.id, item);
+      newOrder.set(run.items[position].id, item.id);
+    });
+  }
+
+  if (distanceBeforeKm - distanceAfterKm < MIN_SAVING_KM) return null;
+
+  const moves: ItemMove[] = [];
+  for (const item of retimed.values()) {
+    const original = dayItems.find((other) => other.id === item.id)!;
+    if (item.time === original.time) continue;
+    moves.push({ id: item.id, data: { time: item.time, endTime: item.endTime } });
+  }
+
+  const hasPlace = (item: DisplayItineraryItem) =>
+    (item.lat !== undefined && item.lng !== undefined) || (item.arrivalLat !== undefined && item.arrivalLng !== undefined);
+  const before = dayItems.filter(hasPlace);
+  const after = before.map((item) => {
+    const replacement = newOrder.get(item.id);
+    return replacement ? retimed.get(replacement)! : item;
+  });
+
+  return { day, before, after, distanceBeforeKm, distanceAfterKm, moves };
+}
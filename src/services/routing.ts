@@ -0,0 +1,140 @@
+/**
+ * Routing providers: how long it takes to get from one place to another, and the way there.
+ *
+ * Set VITE_ROUTING_PROVIDER to a registered provider id ('google' or 'estimate').
+ * Without it, Google is used when VITE_GOOGLE_MAPS_API_KEY is set. Whenever a provider
+ * can't route a leg (or there's no connection), a straight-line estimate stands in.
+ */
+import { createGoogleRoutingProvider } from './googleRoutes';
+import { distanceKm } from './timezones';
+
+export type TravelMode = 'walk' | 'transit' | 'drive';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Route {
+  mode: TravelMode;
+  durationMinutes: number;
+  distanceKm: number;
+  path: LatLng[]; // the way there, for drawing on the map
+  estimated: boolean; // worked out from the straight-line distance rather than routed
+}
+
+/**
+ * A provider's route saved with the trip (keyed by getRouteKey), so reopening the itinerary
+ * doesn't ask for it again
+ */
+export interface StoredRoute extends Route {
+  fetchedAt: number;
+}
+
+export interface RoutingProvider {
+  id: string;
+  name: string; // shown to users, e.g. "Google Maps"
+  /**
+   * Route between two places, leaving at an instant (transit depends on the timetable).
+   * Resolves null when there's no way there by that mode; rejects when the request itself fails.
+   */
+  getRoute: (from: LatLng, to: LatLng, mode: TravelMode, departAt?: number) => Promise<Route | null>;
+}
+
+export interface RoutingProviderConfig {
+  provider?: string; // provider id; empty picks one from the API keys present
+  googleMapsApiKey?: string;
+}
+
+// Straight-line estimates: roads and paths are rarely straight, and each mode has
+// time to add on top of moving (waiting for a train, parking)
+const DETOUR_FACTOR = 1.3;
+const ESTIMATE_SPEEDS_KMH: Record<TravelMode, number> = { walk: 4.5, transit: 25, drive: 40 };
+const ESTIMATE_OVERHEAD_MINUTES: Record<TravelMode, number> = { walk: 0, transit: 10, drive: 5 };
+
+// Up to this far people walk; beyond TRANSIT_MAX_KM they drive
+const WALK_MAX_KM = 1.5;
+const TRANSIT_MAX_KM = 30;
+
+/**
+ * How people usually get somewhere this far away (straight-line km)
+ */
+export function chooseTravelMode(straightLineKm: number): TravelMode {
+  if (straightLineKm <= WALK_MAX_KM) return 'walk';
+  if (straightLineKm <= TRANSIT_MAX_KM) return 'transit';
+  return 'drive';
+}
+
+/**
+ * Offline estimate of a route from the straight-line distance
+ */
+export function estimateRoute(from: LatLng, to: LatLng, mode: TravelMode): Route {
+  const km = distanceKm(from.lat, from.lng, to.lat, to.lng) * DETOUR_FACTOR;
+  const minutes = (km / ESTIMATE_SPEEDS_KMH[mode]) * 60 + ESTIMATE_OVERHEAD_MINUTES[mode];
+  return {
+    mode,
+    // Rounded up to 5 minutes - it's only a guess
+    durationMinutes: Math.max(5, Math.ceil(minutes / 5) * 5),
+    distanceKm: km,
+    path: [from, to],
+    estimated: true,
+  };
+}
+
+/**
+ * Key for caching a route between two places by one mode
+ */
+export function getRouteKey(from: LatLng, to: LatLng, mode: TravelMode): string {
+  const point = ({ lat, lng }: LatLng) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+  return `${mode}:${point(from)}>${point(to)}`;
+}
+
+// Saved routes are asked for again after this long - roads and timetables change
+const STORED_ROUTE_MAX_AGE_DAYS = 30;
+
+/**
+ * Whether a saved route is recent enough to use instead of asking the provider
+ */
+export function isStoredRouteFresh(route: StoredRoute, now: number): boolean {
+  return now - route.fetchedAt < STORED_ROUTE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Creates a provider from the config, or null if the config doesn't have what it needs
+ */
+type RoutingProviderFactory = (config: RoutingProviderConfig) => RoutingProvider | null;
+
+const providerFactories = new Map<string, RoutingProviderFactory>([
+  ['google', (config) => (config.googleMapsApiKey ? createGoogleRoutingProvider(config.googleMapsApiKey) : null)],
+  ['estimate', () => null],
+]);
+
+/**
+ * Add a provider that can then be selected with VITE_ROUTING_PROVIDER
+ */
+export function registerRoutingProvider(id: string, factory: RoutingProviderFactory): void {
+  providerFactories.set(id, factory);
+}
+
+/**
+ * Provider settings from the environment
+ */
+export function getRoutingProviderConfig(): RoutingProviderConfig {
+  return {
+    provider: import.meta.env.VITE_ROUTING_PROVIDER || '',
+    googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '',
+  };
+}
+
+/**
+ * The configured provider, or null when none is set up (travel times are then all estimates)
+ */
+export function getRoutingProvider(config: RoutingProviderConfig = getRoutingProviderConfig()): RoutingProvider | null {
+  const id = config.provider || (config.googleMapsApiKey ? 'google' : 'estimate');
+  const factory = providerFactories.get(id);
+  if (!factory) {
+    console.error(`Unknown routing provider "${id}" - travel times will be estimated`);
+    return null;
+  }
+  return factory(config);
+}
@@ -0,0 +1,259 @@
+/**
+ * Schedule checks: things in a day's plan that can't all work out as written
+ * (overlaps, not leaving time for the airport, not leaving time to get from one place to the next,
+ * activities far from where you're staying, items outside the trip's dates)
+ */
+import type { DisplayItineraryItem, ItineraryItem, Trip } from '../types';
+import { describeTravelLeg, getLateMinutes, type TravelLeg } from './travelLegs';
+import { distanceKm, formatDuration, getActivityEnd, getFlightArrival, getItemStartInstant } from './timezones';
+
+// Time to allow between the end of an activity and a flight's departure
+export const AIRPORT_BUFFER_MINUTES = 120;
+
+// Activities further than this from every place you're staying that day are flagged
+const FAR_FROM_LODGING_KM = 75;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export type ScheduleWarningKind = 'overlap' | 'airport-buffer' | 'travel-time' | 'far-from-lodging' | 'outside-trip';
+
+export interface ScheduleWarning {
+  id: string;
+  kind: ScheduleWarningKind;
+  day: string; // the day in itemsByDay the warning belongs to
+  itemId: string;
+  relatedItemId?: string; // the other item involved (e.g., what it overlaps)
+  message: string;
+}
+
+/**
+ * When something in a day happens. Flights have one span per leg; activities without
+ * an end time only clash with what starts at the same time or is still going on.
+ */
+interface TimedSpan {
+  item: DisplayItineraryItem;
+  name: string;
+  start: number;
+  end: number | null;
+}
+
+function isLodging(item: DisplayItineraryItem): boolean {
+  return item.category === 'lodging';
+}
+
+function describeItem(item: ItineraryItem): string {
+  if (item.type === 'flight') return item.flightNumber || `Flight to ${item.arrivalLocation || 'destination'}`;
+  return item.location || 'Untitled item';
+}
+
+function hasCoords(item: DisplayItineraryItem): item is DisplayItineraryItem & { lat: number; lng: number } {
+  return item.lat !== undefined && item.lng !== undefined;
+}
+
+function getDaySpans(dayItems: DisplayItineraryItem[], dayZone: string | undefined): TimedSpan[] {
+  const spans: TimedSpan[] = [];
+  for (const item of dayItems) {
+    if (isLodging(item)) continue;
+    if (item.journey) {
+      for (const leg of item.journey.legs) {
+        if (!leg.time) continue;
+        spans.push({
+          item,
+          name: describeItem(leg),
+          start: getItemStartInstant(leg, dayZone),
+          end: getFlightArrival(leg, dayZone)?.instant ?? null,
+        });
+      }
+    } else if (item.time) {
+      spans.push({
+        item,
+        name: describeItem(item),
+        start: getItemStartInstant(item, dayZone),
+        end: getActivityEnd(item, dayZone)?.instant ?? null,
+      });
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function checkOverlaps(day: string, spans: TimedSpan[]): ScheduleWarning[] {
+  const warnings: ScheduleWarning[] = [];
+  const seen = new Set<string>();
+
+  spans.forEach((earlier, index) => {
+    for (const later of spans.slice(index + 1)) {
+      // Legs of one journey don't clash with each other
+      if (later.item.id === earlier.item.id) continue;
+      const overlaps = later.start === earlier.start || (earlier.end !== null && later.start < earlier.end);
+      const pair = `${earlier.item.id}:${later.item.id}`;
+      if (!overlaps || seen.has(pair)) continue;
+
+      seen.add(pair);
+      warnings.push({
+        id: `overlap:${pair}:${day}`,
+        kind: 'overlap',
+        day,
+        itemId: later.item.id,
+        relatedItemId: earlier.item.id,
+        message: `${later.name} overlaps with ${earlier.name}`,
+      });
+    }
+  });
+  return warnings;
+}
+
+function checkAirportBuffers(day: string, dayItems: DisplayItineraryItem[], spans: TimedSpan[]): ScheduleWarning[] {
+  const warnings: ScheduleWarning[] = [];
+
+  // Only departures matter - on an overnight journey's arrival day you're already flying
+  const departures = dayItems.filter((item) => item.journey && item.flightPhase !== 'arrival');
+  for (const flight of departures) {
+    const departure = spans.find((span) => span.item.id === flight.id);
+    if (!departure) continue;
+
+    for (const span of spans) {
+      if (span.item.type === 'flight') continue;
+      const finish = span.end ?? span.start;
+      const gapMinutes = (departure.start - finish) / MS_PER_MINUTE;
+      // Finishing after departure is an overlap, not a buffer problem
+      if (gapMinutes < 0 || gapMinutes >= AIRPORT_BUFFER_MINUTES) continue;
+
+      warnings.push({
+        id: `airport-buffer:${span.item.id}:${flight.id}:${day}`,
+        kind: 'airport-buffer',
+        day,
+        itemId: span.item.id,
+        relatedItemId: flight.id,
+        message: `${span.name} is only ${formatDuration(Math.round(gapMinutes))} before ${departure.name} departs - allow ${formatDuration(AIRPORT_BUFFER_MINUTES)} for the airport`,
+      });
+    }
+  }
+  return warnings;
+}
+
+function checkTravelTimes(day: string, dayItems: DisplayItineraryItem[], legs: TravelLeg[]): ScheduleWarning[] {
+  return legs.flatMap((leg) => {
+    const lateMinutes = getLateMinutes(leg);
+    const from = dayItems.find((item) => item.id === leg.fromItemId);
+    const to = dayItems.find((item) => item.id === leg.toItemId);
+    if (lateMinutes === 0 || !from || !to) return [];
+
+    return [{
+      id: `travel-time:${leg.fromItemId}:${leg.toItemId}:${day}`,
+      kind: 'travel-time' as const,
+      day,
+      itemId: to.id,
+      relatedItemId: from.id,
+      message: `Getting from ${describeItem(from)} to ${describeItem(to)} takes ${describeTravelLeg(leg)} - you'd be ${formatDuration(lateMinutes)} late`,
+    }];
+  });
+}
+
+function checkDistanceFromLodging(day: string, dayItems: DisplayItineraryItem[]): ScheduleWarning[] {
+  // On moving days this includes both the place you check out of and the one you check into
+  const lodgings = dayItems.filter(isLodging).filter(hasCoords);
+  if (lodgings.length === 0) return [];
+
+  return dayItems.flatMap((item) => {
+    if (item.type === 'flight' || isLodging(item) || !hasCoords(item)) return [];
+
+    const nearest = lodgings
+      .map((lodging) => ({ lodging, distance: distanceKm(item.lat, item.lng, lodging.lat, lodging.lng) }))
+      .reduce((best, candidate) => (candidate.distance < best.distance ? candidate : best));
+    if (nearest.distance <= FAR_FROM_LODGING_KM) return [];
+
+    return [{
+      id: `far-from-lodging:${item.id}:${day}`,
+      kind: 'far-from-lodging' as const,
+      day,
+      itemId: item.id,
+      relatedItemId: nearest.lodging.id,
+      message: `${describeItem(item)} is ${Math.round(nearest.distance)} km from ${nearest.lodging.location}, where you're staying`,
+    }];
+  });
+}
+
+function checkTripDates(
+  day: string,
+  dayItems: DisplayItineraryItem[],
+  trip: Pick<Trip, 'startDate' | 'endDate'>
+): ScheduleWarning[] {
+  const warnings: ScheduleWarning[] = [];
+
+  // Virtual copies (staying days, overnight arrivals) would repeat their source's warning
+  for (const item of dayItems) {
+    if (item.isVirtual) continue;
+    const firstDay = item.journey?.departureDay || item.day;
+    const lastDay = item.journey?.arrivalDay || item.endDay || item.day;
+
+    if (trip.startDate && firstDay < trip.startDate) {
+      warnings.push({
+        id: `outside-trip:${item.id}:start`,
+        kind: 'outside-trip',
+        day,
+        itemId: item.id,
+        message: `${describeItem(item)} is before the trip starts`,
+      });
+    } else if (trip.endDate && lastDay > trip.endDate) {
+      warnings.push({
+        id: `outside-trip:${item.id}:end`,
+        kind: 'outside-trip',
+        day,
+        itemId: item.id,
+        message: item.journey
+          ? `${describeItem(item)} lands after the trip ends`
+          : `${describeItem(item)} ${lastDay === item.day ? 'is after the trip ends' : 'ends after the trip does'}`,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Check every day of the itinerary (as grouped by useItineraryItems), in day order.
+ * Travel times are only checked for days with legs (from useTravelLegs).
+ */
+export function checkSchedule(
+  itemsByDay: Record<string, DisplayItineraryItem[]>,
+  trip: Pick<Trip, 'startDate' | 'endDate'>,
+  travelLegsByDay: Record<string, TravelLeg[]> = {}
+): ScheduleWarning[] {
+  return Object.keys(itemsByDay).sort().flatMap((day) => {
+    const dayItems = itemsByDay[day];
+    // Items without a time zone are taken to be in the same zone as the rest of the day
+    const dayZone = dayItems.find((item) => item.timeZone)?.timeZone;
+    const spans = getDaySpans(dayItems, dayZone);
+
+    return [
+      ...checkTripDates(day, dayItems, trip),
+      ...checkOverlaps(day, spans),
+      ...checkAirportBuffers(day, dayItems, spans),
+      ...checkTravelTimes(day, dayItems, travelLegsByDay[day] || []),
+      ...checkDistanceFromLodging(day, dayItems),
+    ];
+  });
+}
+
+/**
+ * Key for looking up the warnings shown on an item's card on a day
+ */
+export function getScheduleWarningKey(itemId: string, day: string): string {
+  return `${itemId}|${day}`;
+}
+
+/**
+ * Warnings by the cards they show on: the item, and for clashes the item it clashes with
+ * (a lodging isn't at fault for an activity being far from it)
+ */
+export function groupWarningsByItem(warnings: ScheduleWarning[]): Map<string, ScheduleWarning[]> {
+  const grouped = new Map<string, ScheduleWarning[]>();
+  for (const warning of warnings) {
+    const cardItemIds = warning.kind === 'far-from-lodging' ? [warning.itemId] : [warning.itemId, warning.relatedItemId];
+    for (const itemId of cardItemIds) {
+      if (!itemId) continue;
+      const key = getScheduleWarningKey(itemId, warning.day);
+      grouped.set(key, [...(grouped.get(key) || []), warning]);
+    }
+  }
+  return grouped;
+}
@@ -0,0 +1,57 @@
+/**
+ * Filtering and sorting helpers for the trip task checklist
+ */
+import type { Task, TaskFilter } from '../types';
+
+/**
+ * Today's date as YYYY-MM-DD in the local timezone
+ */
+export function getTodayString(): string {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * A task is overdue if it is still open and its due date has passed
+ */
+export function isTaskOverdue(task: Task, today: string): boolean {
+  return !task.completed && !!task.dueDate && task.dueDate < today;
+}
+
+/**
+ * Apply a checklist filter
+ * - 'mine': open tasks assigned to the current user
+ * - 'overdue': open tasks past their due date
+ * - 'done': completed tasks
+ */
+export function filterTasks(tasks: Task[], filter: TaskFilter, currentUserId: string, today: string): Task[] {
+  switch (filter) {
+    case 'mine':
+      return tasks.filter((task) => !task.completed && task.assignee === currentUserId);
+    case 'overdue':
+      return tasks.filter((task) => isTaskOverdue(task, today));
+    case 'done':
+      return tasks.filter((task) => task.completed);
+    case 'all':
+    default:
+      return tasks;
+  }
+}
+
+/**
+ * Sort tasks: open before done, then by due date (undated last), then by creation
+ */
+export function sortTasks(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => {
+    if (a.completed !== b.completed) return a.completed ? 1 : -1;
+    if (a.dueDate !== b.dueDate) {
+      if (!a.dueDate) return 1;
+      if (!b.dueDate) return -1;
+      return a.dueDate.localeCompare(b.dueDate);
+    }
+    return (a.createdAt || 0) - (b.createdAt || 0);
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * A day as a timeline: its items in order with the free time between them,
+ * or laid out on a 24-hour grid
+ */
+import type { DisplayItineraryItem } from '../types';
+import { getActivityEnd, getFlightArrival, getItemStartInstant } from './timezones';
+
+// Shorter gaps are just getting from one place to the next
+const MIN_FREE_TIME_MINUTES = 30;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export type TimelineEntry =
+  | { kind: 'item'; item: DisplayItineraryItem }
+  | { kind: 'free'; minutes: number; start: number; end: number };
+
+/**
+ * When an item starts and ends within the day, or null if it doesn't take up time
+ * (untimed items, and stays you're only sleeping at). A null end means it's not known.
+ */
+function getBusySpan(item: DisplayItineraryItem, dayZone: string | undefined): { start: number; end: number | null } | null {
+  if (item.lodgingPhase === 'staying' || item.lodgingPhase === 'check-out') return null;
+
+  if (item.journey) {
+    const firstLeg = item.journey.legs[0];
+    const lastLeg = item.journey.legs[item.journey.legs.length - 1];
+    if (!firstLeg.time) return null;
+    return {
+      start: getItemStartInstant(firstLeg, dayZone),
+      end: getFlightArrival(lastLeg, dayZone)?.instant ?? null,
+    };
+  }
+
+  if (!item.time) return null;
+  const start = getItemStartInstant(item, dayZone);
+  // Checking in is a moment, not a block of time
+  if (item.category === 'lodging') return { start, end: start };
+  return { start, end: getActivityEnd(item, dayZone)?.instant ?? null };
+}
+
+/**
+ * Timeline of a day's items (as sorted by useItineraryItems). Free time is only shown
+ * between an item whose end is known and the next one to start.
+ */
+export function getDayTimeline(dayItems: DisplayItineraryItem[]): TimelineEntry[] {
+  // Items without a time zone are taken to be in the same zone as the rest of the day
+  const dayZone = dayItems.find((item) => item.timeZone)?.timeZone;
+  const entries: TimelineEntry[] = [];
+  let busyUntil: number | null = null;
+
+  for (const item of dayItems) {
+    const span = getBusySpan(item, dayZone);
+    if (span) {
+      const gapMinutes = busyUntil === null ? 0 : Math.round((span.start - busyUntil) / MS_PER_MINUTE);
+      if (busyUntil !== null && gapMinutes >= MIN_FREE_TIME_MINUTES) {
+        entries.push({ kind: 'free', minutes: gapMinutes, start: busyUntil, end: span.start });
+      }
+      busyUntil = span.end === null ? null : Math.max(span.end, busyUntil ?? span.end);
+    }
+    entries.push({ kind: 'item', item });
+  }
+  return entries;
+}
+
+// Grid layout: where each item sits on a day's 24-hour column, in local wall-clock minutes
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Activities without an end time are drawn this long
+const DEFAULT_BLOCK_MINUTES = 60;
+
+// Stays are drawn until a typical check-out time on the last day
+const CHECK_OUT_MINUTE = 11 * 60;
+
+export interface TimelineBlock {
+  item: DisplayItineraryItem;
+  startMinute: number;
+  endMinute: number;
+  hasEnd: boolean; // false when drawn at DEFAULT_BLOCK_MINUTES for want of an end time
+  continuesBefore: boolean; // started the day before (overnight flights)
+  continuesAfter: boolean; // carries on past midnight
+  lane: number; // side-by-side position among blocks that overlap it
+  lanes: number;
+}
+
+export interface TimelineBand {
+  item: DisplayItineraryItem;
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface DayGridLayout {
+  allDay: DisplayItineraryItem[]; // untimed items
+  blocks: TimelineBlock[];
+  bands: TimelineBand[]; // lodging, drawn behind the blocks
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getLodgingBand(item: DisplayItineraryItem): TimelineBand {
+  switch (item.lodgingPhase) {
+    case 'staying':
+      return { item, startMinute: 0, endMinute: MINUTES_PER_DAY };
+    case 'check-out':
+      return { item, startMinute: 0, endMinute: CHECK_OUT_MINUTE };
+    default:
+      return { item, startMinute: item.time ? toMinutes(item.time) : 0, endMinute: MINUTES_PER_DAY };
+  }
+}
+
+/**
+ * A journey's block: from departure for as long as the flights take, or on an overnight
+ * journey's arrival day, from midnight until it lands
+ */
+function getJourneyBlock(item: DisplayItineraryItem, dayZone: string | undefined): Omit<TimelineBlock, 'lane' | 'lanes'> | null {
+  const legs = item.journey!.legs;
+  const firstLeg = legs[0];
+  const lastLeg = legs[legs.length - 1];
+  if (!firstLeg.time) return null;
+
+  const landing = getFlightArrival(lastLeg, dayZone);
+  const duration = landing
+    ? Math.round((landing.instant - getItemStartInstant(firstLeg, dayZone)) / MS_PER_MINUTE)
+    : DEFAULT_BLOCK_MINUTES;
+
+  if (item.flightPhase === 'arrival' && lastLeg.arrivalTime) {
+    const endMinute = toMinutes(lastLeg.arrivalTime);
+    return {
+      item,
+      startMinute: Math.max(0, endMinute - duration),
+      endMinute,
+      hasEnd: true,
+      continuesBefore: endMinute - duration < 0,
+      continuesAfter: false,
+    };
+  }
+
+  const startMinute = toMinutes(firstLeg.time);
+  return {
+    item,
+    startMinute,
+    endMinute: Math.min(MINUTES_PER_DAY, startMinute + duration),
+    hasEnd: !!landing,
+    continuesBefore: false,
+    continuesAfter: startMinute + duration > MINUTES_PER_DAY,
+  };
+}
+
+function getActivityBlock(item: DisplayItineraryItem): Omit<TimelineBlock, 'lane' | 'lanes'> {
+  const startMinute = toMinutes(item.time);
+  const endsAfterMidnight = !!item.endTime && item.endTime < item.time;
+  const endMinute = item.endTime
+    ? (endsAfterMidnight ? MINUTES_PER_DAY : toMinutes(item.endTime))
+    : Math.min(MINUTES_PER_DAY, startMinute + DEFAULT_BLOCK_MINUTES);
+  return {
+    item,
+    startMinute,
+    endMinute,
+    hasEnd: !!item.endTime,
+    continuesBefore: false,
+    continuesAfter: endsAfterMidnight,
+  };
+}
+
+/**
+ * Put overlapping blocks side by side: each gets the first free lane, and every block in
+ * a run of overlapping blocks shares that run's lane count
+ */
+function assignLanes(blocks: Omit<TimelineBlock, 'lane' | 'lanes'>[]): TimelineBlock[] {
+  const sorted = [...blocks].sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+  const laid: TimelineBlock[] = [];
+  let group: TimelineBlock[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    for (const block of group) block.lanes = laneEnds.length;
+    group = [];
+    laneEnds = [];
+  };
+
+  for (const block of sorted) {
+    if (block.startMinute >= groupEnd) closeGroup();
+    // Zero-length blocks still take up a row's worth of space
+    const endMinute = Math.max(block.endMinute, block.startMinute + 1);
+    let lane = laneEnds.findIndex((end) => end <= block.startMinute);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = endMinute;
+    groupEnd = Math.max(groupEnd, endMinute);
+
+    const placed = { ...block, lane, lanes: 1 };
+    group.push(placed);
+    laid.push(placed);
+  }
+  closeGroup();
+  return laid;
+}
+
+/**
+ * Lay out one day's items (from useItineraryItems) on a 24-hour grid
+ */
+export function getDayGridLayout(dayItems: DisplayItineraryItem[]): DayGridLayout {
+  const dayZone = dayItems.find((item) => item.timeZone)?.timeZone;
+  const layout: DayGridLayout = { allDay: [], blocks: [], bands: [] };
+  const blocks: Omit<TimelineBlock, 'lane' | 'lanes'>[] = [];
+
+  for (const item of dayItems) {
+    if (item.category === 'lodging') {
+      layout.bands.push(getLodgingBand(item));
+    } else if (item.journey) {
+      const block = getJourneyBlock(item, dayZone);
+      if (block) blocks.push(block);
+      else layout.allDay.push(item);
+    } else if (item.time) {
+      blocks.push(getActivityBlock(item));
+    } else {
+      layout.allDay.push(item);
+    }
+  }
+
+  layout.blocks = assignLanes(blocks);
+  return layout;
+}
@@ -0,0 +1,265 @@
+/**
+ * Time zones for itinerary items. An item's day and time are the local wall-clock time where
+ * it happens; `timeZone` (and `arrivalTimeZone` for flights) says which zone that is.
+ */
+import type { ItineraryItem } from '../types';
+import { loadReferenceData } from './referenceData';
+import { shiftDate } from './trips';
+
+// Places further than this from every known airport don't get a zone inferred
+const MAX_ZONE_DISTANCE_KM = 800;
+
+const EARTH_RADIUS_KM = 6371;
+const MS_PER_MINUTE = 60 * 1000;
+
+export type ItemTimeField = 'time' | 'arrivalTime' | 'endTime';
+
+/**
+ * The zone this device is set to ("home time")
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Formatters are slow to create, so keep one per zone
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(zone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    zoneFormatters.set(zone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is an IANA zone this browser knows (e.g., "Asia/Tokyo")
+ */
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    getZoneFormatter(zone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local date and time in a zone at an instant
+ */
+export function instantToZonedTime(instant: number, zone: string): { day: string; time: string } {
+  const parts = Object.fromEntries(
+    getZoneFormatter(zone).formatToParts(new Date(instant)).map((part) => [part.type, part.value])
+  );
+  return { day: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at an instant
+ */
+function getZoneOffsetMinutes(zone: string, instant: number): number {
+  const { day, time } = instantToZonedTime(instant, zone);
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return Math.round((Date.UTC(year, month - 1, date, hours, minutes) - instant) / MS_PER_MINUTE);
+}
+
+/**
+ * Instant (Unix ms) of a local date and time in a zone. Without a zone the time is read as UTC,
+ * which still orders times correctly against others without one.
+ */
+export function zonedTimeToInstant(day: string, time: string, zone?: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  const asUTC = Date.UTC(year, month - 1, date, hours, minutes);
+  if (!zone) return asUTC;
+
+  // The offset can differ either side of a DST change, so check it at the result
+  const guess = asUTC - getZoneOffsetMinutes(zone, asUTC) * MS_PER_MINUTE;
+  return asUTC - getZoneOffsetMinutes(zone, guess) * MS_PER_MINUTE;
+}
+
+/**
+ * Great-circle distance in kilometers
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Zone of a place, taken from the nearest known airport (null if none is close enough)
+ */
+export async function inferTimeZone(lat: number, lng: number): Promise<string | null> {
+  const { airports } = await loadReferenceData();
+  let nearest: { tz: string; distance: number } | null = null;
+  for (const airport of airports) {
+    const distance = distanceKm(lat, lng, airport.lat, airport.lng);
+    if (!nearest || distance < nearest.distance) nearest = { tz: airport.tz, distance };
+  }
+  return nearest && nearest.distance <= MAX_ZONE_DISTANCE_KM ? nearest.tz : null;
+}
+
+async function zoneForPlace(
+  airportCode: string | undefined,
+  lat: number | undefined,
+  lng: number | undefined
+): Promise<string | null> {
+  const { airportsByCode } = await loadReferenceData();
+  const airport = airportCode ? airportsByCode.get(airportCode.toUpperCase()) : undefined;
+  if (airport) return airport.tz;
+  return lat !== undefined && lng !== undefined ? inferTimeZone(lat, lng) : null;
+}
+
+/**
+ * Zones that can be inferred from an item's (possibly partial) data: airports for flights,
+ * coordinates for everything else. Only zones that could be worked out are returned.
+ */
+export async function inferItemTimeZones(
+  item: Partial<ItineraryItem>
+): Promise<Pick<ItineraryItem, 'timeZone' | 'arrivalTimeZone'>> {
+  const zones: Pick<ItineraryItem, 'timeZone' | 'arrivalTimeZone'> = {};
+  const isFlight = item.type === 'flight' || !!item.departureAirportCode || !!item.arrivalAirportCode;
+
+  const timeZone = await zoneForPlace(isFlight ? item.departureAirportCode : undefined, item.lat, item.lng);
+  if (timeZone) zones.timeZone = timeZone;
+
+  if (isFlight) {
+    const arrivalTimeZone = await zoneForPlace(item.arrivalAirportCode, item.arrivalLat, item.arrivalLng);
+    if (arrivalTimeZone) zones.arrivalTimeZone = arrivalTimeZone;
+  }
+  return zones;
+}
+
+/**
+ * When an item starts, for ordering. Items without a zone use the fallback (e.g. the zone
+ * of other items that day); untimed items count as the start of their day.
+ */
+export function getItemStartInstant(item: ItineraryItem, fallbackZone?: string): number {
+  return zonedTimeToInstant(item.day, item.time, item.timeZone || fallbackZone);
+}
+
+/**
+ * When and on which local day an activity ends (null without an end time).
+ * An end time earlier than the start is taken to be after midnight.
+ */
+export function getActivityEnd(item: ItineraryItem, fallbackZone?: string): { day: string; instant: number } | null {
+  if (item.type === 'flight' || !item.endTime) return null;
+  const day = item.time && item.endTime < item.time ? shiftDate(item.day, 1) : item.day;
+  return { day, instant: zonedTimeToInstant(day, item.endTime, item.timeZone || fallbackZone) };
+}
+
+/**
+ * When an item is over: a flight's landing or an activity's end (null if not known)
+ */
+export function getItemEndInstant(item: ItineraryItem, fallbackZone?: string): number | null {
+  const end = item.type === 'flight' ? getFlightArrival(item, fallbackZone) : getActivityEnd(item, fallbackZone);
+  return end?.instant ?? null;
+}
+
+/**
+ * Minutes from one HH:mm wall-clock time to another, past midnight if the end is earlier
+ */
+export function getDurationMinutes(start: string, end: string): number {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  return (toMinutes(end) - toMinutes(start) + 1440) % 1440;
+}
+
+/**
+ * HH:mm wall-clock time a number of minutes after another (wrapping past midnight)
+ */
+export function addMinutesToTime(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Length of time for display (e.g., "45m", "2h", "1h 30m"): durations, layovers, delays and gaps
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+/**
+ * When and on which local day a flight lands. Without a stored arrivalDay it's the first day
+ * on which the arrival time comes after departure (crossing the date line can make it the day before).
+ */
+export function getFlightArrival(item: ItineraryItem, fallbackZone?: string): { day: string; instant: number } | null {
+  if (!item.arrivalTime) return null;
+  const departureZone = item.timeZone || fallbackZone;
+  const arrivalZone = item.arrivalTimeZone || departureZone;
+  if (item.arrivalDay) {
+    return { day: item.arrivalDay, instant: zonedTimeToInstant(item.arrivalDay, item.arrivalTime, arrivalZone) };
+  }
+
+  const departure = zonedTimeToInstant(item.day, item.time, departureZone);
+
+  for (const offset of [-1, 0, 1, 2]) {
+    const day = shiftDate(item.day, offset);
+    const instant = zonedTimeToInstant(day, item.arrivalTime, arrivalZone);
+    if (!item.time ? offset === 0 : instant > departure) return { day, instant };
+  }
+  return null;
+}
+
+/**
+ * Short name of a zone at an instant (e.g., "EDT", "GMT+9")
+ */
+export function getTimeZoneLabel(zone: string, instant: number = Date.now()): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+    .formatToParts(new Date(instant))
+    .find((entry) => entry.type === 'timeZoneName');
+  return part?.value || zone;
+}
+
+/**
+ * Display text for an item's time, a flight's arrival time or an activity's end time:
+ * - in the item's own zone (displayZone null): "09:30 GMT+9"
+ * - converted to another zone, e.g. home time: "20:30"
+ * A "+1"/"-1" marks times that fall on another day than the item's date.
+ */
+export function formatItemTime(item: ItineraryItem, field: ItemTimeField, displayZone: string | null): string {
+  const time = item[field];
+  if (!time) return '';
+
+  const isArrival = field === 'arrivalTime';
+  const later = isArrival ? getFlightArrival(item) : field === 'endTime' ? getActivityEnd(item) : null;
+  const localDay = later?.day || item.day;
+  const zone = isArrival ? item.arrivalTimeZone || item.timeZone : item.timeZone;
+  if (!zone) return time;
+
+  const instant = later?.instant ?? zonedTimeToInstant(localDay, time, zone);
+  const shown = displayZone ? instantToZonedTime(instant, displayZone) : { day: localDay, time };
+  const dayOffset = Math.round(
+    (zonedTimeToInstant(shown.day, '00:00') - zonedTimeToInstant(item.day, '00:00')) / (24 * 60 * MS_PER_MINUTE)
+  );
+  const dayMarker = dayOffset === 0 ? '' : ` ${dayOffset > 0 ? '+' : ''}${dayOffset}`;
+
+  return displayZone ? `${shown.time}${dayMarker}` : `${time} ${getTimeZoneLabel(zone, instant)}${dayMarker}`;
+}
+
+/**
+ * Format a YYYY-MM-DD date the same way in every zone (e.g., "Mon, Mar 3")
+ */
+export function formatDayLabel(day: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
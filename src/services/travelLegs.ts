@@ -0,0 +1,130 @@
+/**
+ * Travel legs: getting from each item in a day to the next one that has a place,
+ * and whether there's time to get there
+ */
+import type { DisplayItineraryItem } from '../types';
+import { chooseTravelMode, estimateRoute, type LatLng, type Route, type TravelMode } from './routing';
+import { distanceKm, formatDuration, getActivityEnd, getFlightArrival, getItemStartInstant } from './timezones';
+
+// Places closer than this are the same place - there's no getting from one to the other
+const SAME_PLACE_KM = 0.05;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  walk: 'on foot',
+  transit: 'by transit',
+  drive: 'by car',
+};
+
+export interface TravelLeg {
+  fromItemId: string;
+  toItemId: string;
+  from: LatLng;
+  to: LatLng;
+  mode: TravelMode;
+  departAt: number | null; // when the item before finishes (or starts, if its end isn't known)
+  arriveBy: number | null; // when the next item starts; null if it's untimed
+  route: Route; // a straight-line estimate until the routing provider's route comes in
+}
+
+/**
+ * Where you go to for an item and where you leave it from, with when. A flight is reached
+ * at one airport and left from another (on the day it lands); null means no place or time.
+ */
+export interface ItemStop {
+  arriveAt: LatLng | null;
+  leaveFrom: LatLng | null;
+  start: number | null;
+  finish: number | null;
+}
+
+function toLatLng(lat: number | undefined, lng: number | undefined): LatLng | null {
+  return lat !== undefined && lng !== undefined ? { lat, lng } : null;
+}
+
+export function getItemStop(item: DisplayItineraryItem, dayZone: string | undefined): ItemStop {
+  if (item.journey) {
+    const firstLeg = item.journey.legs[0];
+    const lastLeg = item.journey.legs[item.journey.legs.length - 1];
+    const landing = getFlightArrival(lastLeg, dayZone);
+    const departs = item.flightPhase !== 'arrival';
+    const lands = item.flightPhase !== 'departure';
+    return {
+      arriveAt: departs ? toLatLng(firstLeg.lat, firstLeg.lng) : null,
+      // Still in the air at the end of an overnight journey's first day
+      leaveFrom: lands ? toLatLng(lastLeg.arrivalLat, lastLeg.arrivalLng) : null,
+      start: departs && firstLeg.time ? getItemStartInstant(firstLeg, dayZone) : null,
+      finish: lands ? landing?.instant ?? null : null,
+    };
+  }
+
+  const place = toLatLng(item.lat, item.lng);
+  // Days in the middle or at the end of a stay don't happen at the check-in time
+  if (!item.time || item.lodgingPhase === 'staying' || item.lodgingPhase === 'check-out') {
+    return { arriveAt: place, leaveFrom: place, start: null, finish: null };
+  }
+  const start = getItemStartInstant(item, dayZone);
+  const finish = item.category === 'lodging' ? start : getActivityEnd(item, dayZone)?.instant ?? start;
+  return { arriveAt: place, leaveFrom: place, start, finish };
+}
+
+/**
+ * Legs between consecutive items of each day (as sorted by useItineraryItems), with
+ * straight-line estimates for their routes. Items without a place (other than flights)
+ * are passed over.
+ */
+export function planTravelLegs(itemsByDay: Record<string, DisplayItineraryItem[]>): Record<string, TravelLeg[]> {
+  const legsByDay: Record<string, TravelLeg[]> = {};
+
+  for (const [day, dayItems] of Object.entries(itemsByDay)) {
+    // Items without a time zone are taken to be in the same zone as the rest of the day
+    const dayZone = dayItems.find((item) => item.timeZone)?.timeZone;
+    const legs: TravelLeg[] = [];
+    let previous: { item: DisplayItineraryItem; place: LatLng; finish: number | null } | null = null;
+
+    for (const item of dayItems) {
+      const stop = getItemStop(item, dayZone);
+      // A flight always breaks the chain - you can't get past it on foot
+      if (!item.journey && !stop.arriveAt && !stop.leaveFrom) continue;
+
+      if (previous && stop.arriveAt) {
+        const straightLineKm = distanceKm(previous.place.lat, previous.place.lng, stop.arriveAt.lat, stop.arriveAt.lng);
+        if (straightLineKm >= SAME_PLACE_KM) {
+          const mode = chooseTravelMode(straightLineKm);
+          legs.push({
+            fromItemId: previous.item.id,
+            toItemId: item.id,
+            from: previous.place,
+            to: stop.arriveAt,
+            mode,
+            departAt: previous.finish,
+            arriveBy: stop.start,
+            route: estimateRoute(previous.place, stop.arriveAt, mode),
+          });
+        }
+      }
+
+      previous = stop.leaveFrom ? { item, place: stop.leaveFrom, finish: stop.finish } : null;
+    }
+    legsByDay[day] = legs;
+  }
+  return legsByDay;
+}
+
+/**
+ * How many minutes late a leg gets you to the next item (0 if on time, or if either time
+ * isn't known). Items that already overlap are an overlap, not a travel problem.
+ */
+export function getLateMinutes(leg: TravelLeg): number {
+  if (leg.departAt === null || leg.arriveBy === null || leg.departAt > leg.arriveBy) return 0;
+  const arrival = leg.departAt + leg.route.durationMinutes * MS_PER_MINUTE;
+  return Math.max(0, Math.round((arrival - leg.arriveBy) / MS_PER_MINUTE));
+}
+
+/**
+ * How long a leg takes, e.g., "25m by transit" ("~" marks a straight-line estimate)
+ */
+export function describeTravelLeg(leg: TravelLeg): string {
+  return `${leg.route.estimated ? '~' : ''}${formatDuration(leg.route.durationMinutes)} ${MODE_LABELS[leg.mode]}`;
+}
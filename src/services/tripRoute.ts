@@ -0,0 +1,101 @@
+/**
+ * The whole trip as a route: flights between airports and ground transport between cities,
+ * in the order they happen
+ */
+import type { ItineraryItem } from '../types';
+import type { Airport } from './referenceData';
+import type { LatLng } from './routing';
+import { distanceKm, getItemStartInstant } from './timezones';
+
+// Transport counts as getting from one city to another past this distance (km)
+const INTER_CITY_KM = 30;
+
+export interface RoutePlace extends LatLng {
+  code: string; // airport code; '' for places that aren't airports
+  name: string;
+}
+
+export interface TripRouteSegment {
+  item: ItineraryItem;
+  kind: 'flight' | 'ground';
+  from: RoutePlace;
+  to: RoutePlace;
+}
+
+export interface TripRoute {
+  segments: TripRouteSegment[];
+  airports: RoutePlace[]; // each airport once
+}
+
+function getAirportPlace(
+  lat: number | undefined,
+  lng: number | undefined,
+  code: string | undefined,
+  name: string | undefined,
+  location: string | undefined,
+  airportsByCode: Map<string, Airport> | null
+): RoutePlace | null {
+  const airport = code ? airportsByCode?.get(code.toUpperCase()) : undefined;
+  // Coordinates saved on the item win - the dataset only fills in what's missing
+  const position = lat !== undefined && lng !== undefined ? { lat, lng } : airport;
+  if (!position) return null;
+  return { lat: position.lat, lng: position.lng, code: code || airport?.code || '', name: name || airport?.name || location || code || '' };
+}
+
+function getFlightSegment(item: ItineraryItem, airportsByCode: Map<string, Airport> | null): TripRouteSegment | null {
+  const from = getAirportPlace(
+    item.lat, item.lng, item.departureAirportCode, item.departureAirportName, item.location, airportsByCode
+  );
+  const to = getAirportPlace(
+    item.arrivalLat, item.arrivalLng, item.arrivalAirportCode, item.arrivalAirportName, item.arrivalLocation, airportsByCode
+  );
+  return from && to ? { item, kind: 'flight', from, to } : null;
+}
+
+function hasCoords(item: ItineraryItem): item is ItineraryItem & LatLng {
+  return item.lat !== undefined && item.lng !== undefined;
+}
+
+/**
+ * Flights (placed at their airports, from the airport dataset when the item has no
+ * coordinates) and transport items that take you to another city. A transport item
+ * runs from where it is to the next place you go that isn't more transport.
+ * Pass the airport dataset (from loadReferenceData) once it's loaded.
+ */
+export function getTripRoute(items: ItineraryItem[], airportsByCode: Map<string, Airport> | null): TripRoute {
+  const sorted = [...items].sort((a, b) => a.day.localeCompare(b.day) || getItemStartInstant(a) - getItemStartInstant(b));
+  const segments: TripRouteSegment[] = [];
+
+  sorted.forEach((item, index) => {
+    if (item.type === 'flight') {
+      const segment = getFlightSegment(item, airportsByCode);
+      if (segment) segments.push(segment);
+      return;
+    }
+    if (item.category !== 'transport' || !hasCoords(item)) return;
+
+    const next = sorted
+      .slice(index + 1)
+      .find((later) => later.type !== 'flight' && later.category !== 'transport' && hasCoords(later));
+    if (!next || !hasCoords(next)) return;
+    if (distanceKm(item.lat, item.lng, next.lat, next.lng) < INTER_CITY_KM) return;
+
+    segments.push({
+      item,
+      kind: 'ground',
+      from: { lat: item.lat, lng: item.lng, code: '', name: item.location },
+      to: { lat: next.lat, lng: next.lng, code: '', name: next.location },
+    });
+  });
+
+  const airports = new Map<string, RoutePlace>();
+  for (const segment of segments) {
+    if (segment.kind !== 'flight') continue;
+    for (const place of [segment.from, segment.to]) {
+      const key = place.code || `${place.lat.toFixed(3)},${place.lng.toFixed(3)}`;
+      if (!airports.has(key)) airports.set(key, place);
+    }
+  }
+
+  return { segments, airports: [...airports.values()] };
+}
@@ -0,0 +1,77 @@
+/**
+ * Trip-level helpers: join codes, date arithmetic for shifting a trip, and the trash
+ */
+import type { ItineraryItem } from '../types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Firestore limits a write batch to 500 operations
+export const FIRESTORE_BATCH_LIMIT = 500;
+
+// Trips in the trash can be restored for this long, then they are deleted for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// Join code characters - no 0/O or 1/I/L, which are easy to mix up when read aloud
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+/**
+ * Generate a random 6-character join code (e.g., "K3X9QA")
+ */
+export function generateJoinCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(JOIN_CODE_LENGTH));
+  return Array.from(values, (value) => JOIN_CODE_ALPHABET[value % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC timestamp (avoids DST and timezone issues)
+ */
+function parseDateUTC(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+/**
+ * Number of days from one YYYY-MM-DD date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateUTC(to) - parseDateUTC(from)) / MS_PER_DAY);
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+export function shiftDate(date: string, days: number): string {
+  return new Date(parseDateUTC(date) + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+/**
+ * An item's dates moved by a number of days, for when the whole trip moves: the day it's on,
+ * the day a stay ends and the day a flight lands (only the ones it has)
+ */
+export function shiftItemDates(item: ItineraryItem, days: number): Partial<ItineraryItem> {
+  const data: Partial<ItineraryItem> = {};
+  if (item.day) data.day = shiftDate(item.day, days);
+  if (item.endDay) data.endDay = shiftDate(item.endDay, days);
+  if (item.arrivalDay) data.arrivalDay = shiftDate(item.arrivalDay, days);
+  return data;
+}
+
+/**
+ * Split an array into chunks (for staying within batch limits)
+ */
+export function chunk<T>(items: T[], size: number = FIRESTORE_BATCH_LIMIT): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Whole days left before a trip in the trash is deleted for good (0 once it is due)
+ */
+export function daysLeftInTrash(deletedAt: number, now: number): number {
+  const purgeAt = deletedAt + TRASH_RETENTION_DAYS * MS_PER_DAY;
+  return Math.max(0, Math.ceil((purgeAt - now) / MS_PER_DAY));
+}
@@ -0,0 +1,81 @@
+/**
+ * Service worker: keeps the app shell and saved day maps available offline.
+ * Trip data isn't cached here - Firestore keeps it in its own local cache.
+ *
+ * Built into dist/sw.js by vite.config.ts, which fills in the placeholders below. Every build
+ * gets its own shell cache, so a deploy installs a fresh copy and the old one is dropped.
+ */
+const BUILD_VERSION = '__BUILD_VERSION__';
+// The built scripts and styles
+const BUILT_FILES = __BUILT_FILES__;
+
+const SHELL_CACHE = `travelsync-shell-${BUILD_VERSION}`;
+// Same name as MAP_SNAPSHOT_CACHE in src/services/offline.ts, which fills it
+const MAP_SNAPSHOT_CACHE = 'travelsync-map-snapshots';
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll([...new Set([...SHELL_FILES, ...BUILT_FILES])]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      // Earlier builds' shells
+      .filter((name) => name.startsWith('travelsync-shell-') && name !== SHELL_CACHE)
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages come from the network so a new deploy shows up, and from the saved shell offline
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === 'https://maps.googleapis.com' && url.pathname === '/maps/api/staticmap') {
+    event.respondWith(caches.match(request, { cacheName: MAP_SNAPSHOT_CACHE }).then((cached) => cached || fetch(request)));
+    return;
+  }
+  // Firestore, Maps and the rest look after themselves
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+  // Built files have the content hash in their names, so a cached copy is never stale
+  if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
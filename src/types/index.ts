@@ -1,3 +1,11 @@
+/**
+ * What a member can do in a trip (enforced by firestore.rules):
+ * - 'owner': everything, including managing members and deleting the trip
+ * - 'editor': edit trip details, itinerary, expenses and tasks
+ * - 'viewer': read-only
+ */
+export type TripRole = 'owner' | 'editor' | 'viewer';
+
 export interface Trip {
   id: string;
   name: string;
@@ -5,7 +13,70 @@ export interface Trip {
   endDate: string;
   ownerId: string;
   members: string[];
-  joinCode: string;
+  roles?: Record<string, TripRole>; // uid -> role; members missing from it are editors
+  joinCode: string; // '' when invites are revoked
+  archived?: boolean;
+  deletedAt?: number | null; // Unix timestamp while the trip is in the trash
+  calendarFeedToken?: string; // secret in the calendar subscription URL; '' or missing when off
+  trashedInvite?: InviteSettings | null; // the invite's settings while in the trash (null = there was none)
+}
+
+/**
+ * Invite stored at joinCodes/{code}, so a code can be looked up without exposing the trip.
+ * Deleting the document revokes the code.
+ */
+export interface TripInvite {
+  code: string; // document ID
+  tripId: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number | null; // null = never expires
+  requireApproval: boolean;
+  role: Exclude<TripRole, 'owner'>; // role given to people who join with this code
+}
+
+export type InviteSettings = Pick<TripInvite, 'expiresAt' | 'requireApproval' | 'role'>;
+
+/**
+ * Join request stored at trips/{tripId}/joinRequests/{uid}.
+ * 'pending' requests wait for the owner; 'joined' records a direct join with the code.
+ */
+export type JoinRequestStatus = 'pending' | 'joined';
+
+export interface JoinRequest {
+  uid: string; // document ID
+  code: string;
+  role?: Exclude<TripRole, 'owner'>; // role of the code when the request was made; missing on older requests
+  status: JoinRequestStatus;
+  requestedAt: number;
+}
+
+/**
+ * Public profile stored at users/{uid}, readable by any signed-in user
+ */
+export interface UserProfile {
+  uid: string; // document ID
+  displayName: string; // '' until the user sets one
+  photoURL: string; // '' when there is no avatar image
+  updatedAt: number;
+}
+
+export type FlightStatus = 'scheduled' | 'active' | 'landed' | 'cancelled' | 'diverted';
+
+/**
+ * Live status of a flight, polled from the flight data provider on the day of travel
+ */
+export interface FlightStatusInfo {
+  status: FlightStatus;
+  departureTerminal?: string;
+  departureGate?: string;
+  arrivalTerminal?: string;
+  arrivalGate?: string;
+  revisedDepartureTime?: string; // HH:mm local, when it differs from the schedule
+  revisedArrivalTime?: string;
+  updatedAt: number; // Unix timestamp of the last change seen
+  alert?: string; // latest change members should hear about (e.g., "UA837 delayed 45m")
+  alertAt?: number; // Unix timestamp of that change
 }
 
 export interface ItineraryItem {
@@ -14,7 +85,10 @@ export interface ItineraryItem {
   category?: 'sightseeing' | 'food' | 'lodging' | 'nature' | 'shopping' | 'transport' | 'entertainment';
   day: string;
   endDay?: string; // For multi-day items like lodging (check-out date)
-  time: string;
+  time: string; // HH:mm local time where the item happens ('' if untimed)
+  endTime?: string; // HH:mm local time an activity ends (earlier than time = after midnight); '' or missing = open-ended
+  fixedTime?: boolean; // booked for its time (a reservation, a tour) - reordering the day won't move it
+  timeZone?: string; // IANA zone of day/time (a flight's departure airport); missing if unknown
   location: string;
   notes: string;
   completed: boolean;
@@ -26,7 +100,9 @@ export interface ItineraryItem {
   placeDataFetchedAt?: number; // Unix timestamp of when Google Places data was last fetched
   // Flight Specifics (basic)
   arrivalLocation?: string;
-  arrivalTime?: string;
+  arrivalTime?: string; // HH:mm local time at the arrival airport
+  arrivalDay?: string; // YYYY-MM-DD local date of landing; '' or missing = worked out from the times
+  arrivalTimeZone?: string; // IANA zone of arrivalTime
   airline?: string;
   flightNumber?: string;
   // Flight Specifics (enriched - from lookup)
@@ -38,6 +114,20 @@ export interface ItineraryItem {
   arrivalLng?: number;
   flightValidated?: boolean;
   flightValidationSource?: 'database' | 'api' | 'none';
+  flightStatus?: FlightStatusInfo; // live status, only while the flight is being tracked
+  // Authorship - missing on items from before it was recorded
+  createdBy?: string; // uid of the member who added the item
+  updatedBy?: string; // uid of the member who last edited it
+  updatedAt?: number; // Unix timestamp of the last edit
+}
+
+/**
+ * Event from an imported .ics file, previewed before it is added to the itinerary
+ */
+export interface CalendarImportDraft {
+  key: string; // the event's UID, for selection in the preview
+  item: Partial<ItineraryItem>;
+  isDuplicate: boolean; // an item with the same day, time and title already exists
 }
 
 /**
@@ -48,31 +138,116 @@ export interface ItineraryItem {
  */
 export type LodgingPhase = 'check-in' | 'staying' | 'check-out';
 
+/**
+ * Connecting flights taken as one trip (e.g., SFO → NRT → SIN), in order
+ */
+export interface FlightJourney {
+  id: string; // ID of the first leg
+  legs: ItineraryItem[];
+  layovers: number[]; // minutes on the ground between each leg and the next
+  departureDay: string; // local date the first leg departs
+  arrivalDay: string; // local date the last leg lands
+}
+
+/**
+ * Flight phase for journeys that land on a later day than they depart:
+ * - 'departure': shown on the day it leaves
+ * - 'arrival': shown on the day it lands
+ */
+export type FlightPhase = 'departure' | 'arrival';
+
 /**
  * Extended item for display purposes - wraps ItineraryItem with display metadata
- * for multi-day lodging items that appear on multiple days
+ * for multi-day lodging items that appear on multiple days, and flight journeys
  */
 export interface DisplayItineraryItem extends ItineraryItem {
   /** For multi-day lodging: which phase of the stay this represents */
   lodgingPhase?: LodgingPhase;
+  /** For flights: the journey this flight starts (the item is its first leg) */
+  journey?: FlightJourney;
+  /** For overnight journeys: whether this is the departure or arrival day */
+  flightPhase?: FlightPhase;
   /** The day this display item appears on (may differ from item.day for staying/check-out) */
   displayDay: string;
   /** Whether this is the "source" item or a virtual copy for another day */
   isVirtual?: boolean;
 }
 
+/**
+ * How an expense is divided between the members sharing it:
+ * - 'equal': amount split evenly between participants
+ * - 'percentage': `splits` holds each participant's percentage (sums to 100)
+ * - 'exact': `splits` holds each participant's exact amount (sums to the total)
+ */
+export type ExpenseSplitType = 'equal' | 'percentage' | 'exact';
+
+/**
+ * Heartbeat stored at trips/{tripId}/presence/{uid} while a member has the trip open
+ */
+export interface TripPresence {
+  uid: string; // document ID
+  lastSeen: number; // Unix timestamp of the latest heartbeat
+}
+
 export interface Expense {
   id: string;
   description: string;
   amount: number;
-  payer: string;
+  payer: string; // uid of the member who paid
   category: string;
+  date?: string; // YYYY-MM-DD
+  // Split details - older expenses without these are split equally between all members
+  splitType?: ExpenseSplitType;
+  participants?: string[]; // uids sharing the cost
+  splits?: Record<string, number>; // uid -> percentage or exact amount (unused for equal splits)
+  createdAt?: number; // Unix timestamp
+}
+
+/**
+ * Net position of a member across all expenses.
+ * Positive balance: the member is owed money. Negative: the member owes money.
+ */
+export interface MemberBalance {
+  uid: string;
+  paid: number;
+  owed: number;
+  balance: number;
+}
+
+/**
+ * A single payment that settles debts between two members
+ */
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
 }
 
 export interface Task {
   id: string;
   text: string;
   completed: boolean;
+  assignee?: string; // uid of the member responsible
+  dueDate?: string; // YYYY-MM-DD
+  itemId?: string; // Optional link to an ItineraryItem
+  createdAt?: number; // Unix timestamp
+  completedAt?: number | null; // Unix timestamp, cleared when reopened
+}
+
+export type TaskFilter = 'all' | 'mine' | 'overdue' | 'done';
+
+/**
+ * Trip backup file (JSON), versioned by BACKUP_FORMAT_VERSION in services/backup.
+ * Itinerary items keep their original ID so tasks linked to them can be re-linked on restore;
+ * everything gets new IDs when written back.
+ */
+export interface TripBackup {
+  version: number;
+  exportedAt: string; // ISO timestamp
+  trip: Pick<Trip, 'name' | 'startDate' | 'endDate'>;
+  itinerary: (Omit<ItineraryItem, 'id'> & { id?: string })[];
+  expenses: Omit<Expense, 'id'>[];
+  tasks: Omit<Task, 'id'>[];
 }
 
 
@@ -0,0 +1,80 @@
+/**
+ * Trip backups - what survives a download and restore
+ */
+import { describe, expect, it } from 'vitest';
+import { buildTripBackup, parseTripBackup, planBackupMerge } from '../src/services/backup';
+import type { ItineraryItem } from '../src/types';
+import { item, task, trip } from './fixtures';
+
+function roundTrip(items: ItineraryItem[]) {
+  const backup = buildTripBackup(trip(), items, [], [], '2026-05-01T00:00:00.000Z');
+  return parseTripBackup(JSON.stringify(backup)).backup.itinerary;
+}
+
+describe('backup round trip', () => {
+  it('keeps the item details', () => {
+    const [restored] = roundTrip([item({ category: 'sightseeing', timeZone: 'Europe/Lisbon', lat: 38.69, lng: -9.22 })]);
+    expect(restored).toMatchObject({
+      id: 'item-1',
+      day: '2026-05-02',
+      time: '10:00',
+      location: 'Belém Tower',
+      category: 'sightseeing',
+      timeZone: 'Europe/Lisbon',
+      lat: 38.69,
+      lng: -9.22,
+    });
+  });
+
+  it('keeps end times', () => {
+    const [timed, openEnded] = roundTrip([
+      item({ endTime: '11:30' }),
+      item({ id: 'item-2', location: 'Fado night', time: '21:00' }),
+    ]);
+    expect(timed.endTime).toBe('11:30');
+    expect(openEnded.endTime).toBeUndefined();
+  });
+
+  it('keeps items booked for their time', () => {
+    const [booked, flexible] = roundTrip([
+      item({ fixedTime: true }),
+      item({ id: 'item-2', location: 'Time Out Market', time: '13:00' }),
+    ]);
+    expect(booked.fixedTime).toBe(true);
+    expect(flexible.fixedTime).toBeUndefined();
+  });
+
+  it('leaves out authorship', () => {
+    const [restored] = roundTrip([item({ createdBy: 'alice', updatedBy: 'alice', updatedAt: 1 })]);
+    expect(restored).not.toHaveProperty('createdBy');
+    expect(restored).not.toHaveProperty('updatedAt');
+  });
+});
+
+describe('merging a backup', () => {
+  function plan(itinerary: ItineraryItem[], existing: ItineraryItem[] = []) {
+    const backup = buildTripBackup(trip(), itinerary, [], [task({ itemId: 'item-2' })]);
+    let nextId = 0;
+    return planBackupMerge(backup, { itinerary: existing, expenses: [], tasks: [] }, () => `new-${++nextId}`);
+  }
+
+  it('links backup items to the trip copy they duplicate', () => {
+    const merge = plan([item({ id: 'item-2' })], [item({ id: 'trip-item' })]);
+    expect(merge.itinerary).toHaveLength(0);
+    expect(merge.itemIdMap).toEqual({ 'item-2': 'trip-item' });
+    expect(merge.duplicates).toBe(1);
+  });
+
+  it('gives new items their trip ID up front', () => {
+    const merge = plan([item({ id: 'item-2' })]);
+    expect(merge.itinerary).toHaveLength(1);
+    expect(merge.itemIdMap).toEqual({ 'item-2': 'new-1' });
+  });
+
+  it('links items repeated in the backup to the copy that is kept', () => {
+    const merge = plan([item(), item({ id: 'item-2' })]);
+    expect(merge.itinerary.map((record) => record.id)).toEqual(['item-1']);
+    expect(merge.itemIdMap).toEqual({ 'item-1': 'new-1', 'item-2': 'new-1' });
+    expect(merge.tasks).toHaveLength(1);
+  });
+});
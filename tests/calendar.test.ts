@@ -0,0 +1,38 @@
+/**
+ * iCalendar export - line folding
+ */
+import { describe, expect, it } from 'vitest';
+import { buildTripCalendar } from '../src/services/calendar';
+import { item } from './fixtures';
+
+function calendarLines(location: string): string[] {
+  return buildTripCalendar('Trip', [item({ location })], 0).split('\r\n');
+}
+
+// Unfold continuation lines (RFC 5545 section 3.1)
+function unfold(lines: string[]): string[] {
+  return lines.join('\r\n').replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('line folding', () => {
+  it('keeps every line within 75 octets of UTF-8', () => {
+    for (const location of ['Café '.repeat(40), '東京タワー'.repeat(20), '🏯 Osaka Castle '.repeat(10)]) {
+      for (const line of calendarLines(location)) {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      }
+    }
+  });
+
+  it('never splits a character across lines', () => {
+    const location = `A${'🏯'.repeat(60)}`;
+    const lines = calendarLines(location);
+    for (const line of lines) {
+      expect(line).not.toMatch(/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/);
+    }
+    expect(unfold(lines)).toContain(`LOCATION:${location}`);
+  });
+
+  it('leaves short lines alone', () => {
+    expect(calendarLines('Belém Tower')).toContain('LOCATION:Belém Tower');
+  });
+});
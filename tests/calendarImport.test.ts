@@ -0,0 +1,68 @@
+/**
+ * Calendar import - which events become flights
+ */
+import { describe, expect, it } from 'vitest';
+import { parseCalendarFile } from '../src/services/calendarImport';
+
+// A calendar with one event on the fixture day
+function calendar(summary: string, description = ''): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:event-1',
+    'DTSTART;TZID=Europe/Lisbon:20260502T200000',
+    'DTEND;TZID=Europe/Lisbon:20260502T220000',
+    `SUMMARY:${summary}`,
+    ...(description ? [`DESCRIPTION:${description}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+async function importOne(summary: string, description = '') {
+  const [draft] = await parseCalendarFile(calendar(summary, description));
+  return draft.item;
+}
+
+describe('parseCalendarFile flights', () => {
+  it('imports a flight by its number', async () => {
+    expect(await importOne('Flight UA 837 to Tokyo')).toMatchObject({
+      type: 'flight',
+      flightNumber: 'UA837',
+      airline: 'United Airlines',
+    });
+  });
+
+  it('imports a flight by its route', async () => {
+    expect(await importOne('LH400 FRA → JFK')).toMatchObject({
+      type: 'flight',
+      flightNumber: 'LH400',
+      departureAirportCode: 'FRA',
+      arrivalAirportCode: 'JFK',
+    });
+  });
+
+  it('finds the flight number in the description', async () => {
+    expect(await importOne('Trip to Tokyo', 'Your flight: NH 7 departs from SFO')).toMatchObject({
+      type: 'flight',
+      flightNumber: 'NH7',
+    });
+  });
+
+  it.each([
+    'Dinner at 8 with friends',
+    'Flight of the Conchords at 8',
+    'Picnic - bring AA 2 batteries',
+    'Read ch 12 before book club',
+    'Meet at gate B12',
+  ])('keeps "%s" an activity', async (summary) => {
+    const item = await importOne(summary);
+    expect(item.type).toBe('activity');
+    expect(item.flightNumber).toBeUndefined();
+  });
+
+  it('does not take any three capitals for a route', async () => {
+    const item = await importOne('BBQ - XYZ to ABC crew', 'Bring 2 chairs');
+    expect(item.type).toBe('activity');
+  });
+});
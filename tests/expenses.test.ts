@@ -0,0 +1,124 @@
+/**
+ * Expense splitting - shares, balances and the payments that settle them
+ */
+import { describe, expect, it } from 'vitest';
+import {
+  computeBalances,
+  computeExpenseShares,
+  computeSettlements,
+  validateExpenseSplit,
+} from '../src/services/expenses';
+import { expense } from './fixtures';
+
+const MEMBERS = ['alice', 'bob', 'carol'];
+
+describe('computeExpenseShares', () => {
+  it('splits equally between every member when no one is picked', () => {
+    expect(computeExpenseShares(expense({ amount: 60 }), MEMBERS)).toEqual({ alice: 20, bob: 20, carol: 20 });
+  });
+
+  it('hands the leftover cents to the first participants', () => {
+    const shares = computeExpenseShares(expense({ amount: 10, splitType: 'equal', participants: MEMBERS }), MEMBERS);
+    expect(shares).toEqual({ alice: 3.34, bob: 3.33, carol: 3.33 });
+  });
+
+  it('splits by percentage', () => {
+    const shares = computeExpenseShares(
+      expense({ amount: 200, splitType: 'percentage', participants: ['alice', 'bob'], splits: { alice: 75, bob: 25 } }),
+      MEMBERS
+    );
+    expect(shares).toEqual({ alice: 150, bob: 50 });
+  });
+
+  it('takes exact amounts as given', () => {
+    const shares = computeExpenseShares(
+      expense({ amount: 45.5, splitType: 'exact', participants: ['bob', 'carol'], splits: { bob: 40, carol: 5.5 } }),
+      MEMBERS
+    );
+    expect(shares).toEqual({ bob: 40, carol: 5.5 });
+  });
+});
+
+describe('validateExpenseSplit', () => {
+  it('accepts a complete split', () => {
+    expect(validateExpenseSplit(expense({ splitType: 'equal', participants: MEMBERS }))).toBeNull();
+  });
+
+  it('needs an amount and someone to share it', () => {
+    expect(validateExpenseSplit(expense({ amount: 0, participants: MEMBERS }))).toBe('Amount must be greater than zero');
+    expect(validateExpenseSplit(expense({ participants: [] }))).toBe('Select at least one member to share the cost');
+  });
+
+  it('needs percentages that add up to 100', () => {
+    const split = expense({ splitType: 'percentage', participants: ['alice', 'bob'], splits: { alice: 50, bob: 40 } });
+    expect(validateExpenseSplit(split)).toBe('Percentages must add up to 100% (currently 90%)');
+  });
+
+  it('needs exact amounts that add up to the total, to the cent', () => {
+    const split = expense({ amount: 0.3, splitType: 'exact', participants: ['alice', 'bob'], splits: { alice: 0.1, bob: 0.2 } });
+    expect(validateExpenseSplit(split)).toBeNull();
+    expect(validateExpenseSplit({ ...split, splits: { alice: 0.1, bob: 0.1 } })).toBe(
+      'Amounts must add up to 0.30 (currently 0.20)'
+    );
+  });
+});
+
+describe('computeBalances', () => {
+  it('nets what each member paid against their shares', () => {
+    const balances = computeBalances(
+      [
+        expense({ amount: 60, payer: 'alice' }),
+        expense({ id: 'expense-2', amount: 30, payer: 'bob', splitType: 'equal', participants: ['bob', 'carol'] }),
+      ],
+      MEMBERS
+    );
+    expect(balances).toEqual([
+      { uid: 'alice', paid: 60, owed: 20, balance: 40 },
+      { uid: 'bob', paid: 30, owed: 35, balance: -5 },
+      { uid: 'carol', paid: 0, owed: 35, balance: -35 },
+    ]);
+  });
+
+  it('keeps members who have left the trip', () => {
+    const balances = computeBalances([expense({ amount: 20, payer: 'dave', participants: ['alice', 'dave'] })], MEMBERS);
+    expect(balances.find((balance) => balance.uid === 'dave')).toEqual({ uid: 'dave', paid: 20, owed: 10, balance: 10 });
+  });
+});
+
+describe('computeSettlements', () => {
+  it('settles every balance', () => {
+    const settlements = computeSettlements([
+      { uid: 'alice', paid: 60, owed: 20, balance: 40 },
+      { uid: 'bob', paid: 30, owed: 35, balance: -5 },
+      { uid: 'carol', paid: 0, owed: 35, balance: -35 },
+    ]);
+    expect(settlements).toEqual([
+      { from: 'carol', to: 'alice', amount: 35 },
+      { from: 'bob', to: 'alice', amount: 5 },
+    ]);
+  });
+
+  it('needs at most one payment fewer than there are members', () => {
+    const balances = computeBalances(
+      [
+        expense({ amount: 100, payer: 'alice', participants: ['alice', 'bob', 'carol', 'dave'] }),
+        expense({ id: 'expense-2', amount: 40, payer: 'bob', participants: ['carol', 'dave'] }),
+      ],
+      MEMBERS
+    );
+    const settlements = computeSettlements(balances);
+
+    expect(settlements.length).toBeLessThanOrEqual(balances.length - 1);
+    // Paying them all clears every balance
+    const remaining = Object.fromEntries(balances.map((balance) => [balance.uid, Math.round(balance.balance * 100)]));
+    for (const { from, to, amount } of settlements) {
+      remaining[from] += Math.round(amount * 100);
+      remaining[to] -= Math.round(amount * 100);
+    }
+    expect(Object.values(remaining).every((cents) => cents === 0)).toBe(true);
+  });
+
+  it('has nothing to settle when everyone is even', () => {
+    expect(computeSettlements([{ uid: 'alice', paid: 10, owed: 10, balance: 0 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * Security rules tests - run against the Firestore emulator with `npm run test:rules`
+ */
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+
+const APP_ID = 'test-app';
+const TRIP_ID = 'trip-1';
+const TRIPS_PATH = `artifacts/${APP_ID}/public/data/trips`;
+const TRIP_PATH = `${TRIPS_PATH}/${TRIP_ID}`;
+const JOIN_CODE = 'ABC123';
+const INVITE_PATH = `artifacts/${APP_ID}/public/data/joinCodes/${JOIN_CODE}`;
+const USERS_PATH = `artifacts/${APP_ID}/public/data/users`;
+
+const OWNER = 'owner-uid';
+const EDITOR = 'editor-uid';
+const VIEWER = 'viewer-uid';
+const LEGACY = 'legacy-uid'; // member from before roles existed
+const STRANGER = 'stranger-uid';
+
+let testEnv: RulesTestEnvironment;
+
+function dbFor(uid: string | null) {
+  return uid
+    ? testEnv.authenticatedContext(uid).firestore()
+    : testEnv.unauthenticatedContext().firestore();
+}
+
+// Change the seeded invite without going through the rules
+async function setInvite(data: Record<string, unknown>) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await updateDoc(doc(context.firestore(), INVITE_PATH), data);
+  });
+}
+
+// The client's join: a join request naming the code plus adding yourself to the trip
+function joinBatch(db: ReturnType<typeof dbFor>, uid: string, role: string, code = JOIN_CODE) {
+  const batch = writeBatch(db);
+  batch.set(doc(db, `${TRIP_PATH}/joinRequests/${uid}`), {
+    uid,
+    code,
+    role,
+    status: 'joined',
+    requestedAt: Date.now(),
+  });
+  batch.update(doc(db, TRIP_PATH), {
+    members: arrayUnion(uid),
+    [`roles.${uid}`]: role,
+  });
+  return batch.commit();
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-travelsync',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, TRIP_PATH), {
+      name: 'Japan',
+      startDate: '2025-04-01',
+      endDate: '2025-04-10',
+      ownerId: OWNER,
+      members: [OWNER, EDITOR, VIEWER, LEGACY],
+      roles: { [OWNER]: 'owner', [EDITOR]: 'editor', [VIEWER]: 'viewer' },
+      joinCode: JOIN_CODE,
+    });
+    await setDoc(doc(db, INVITE_PATH), {
+      code: JOIN_CODE,
+      tripId: TRIP_ID,
+      createdBy: OWNER,
+      createdAt: Date.now(),
+      expiresAt: null,
+      requireApproval: false,
+      role: 'viewer',
+    });
+    await setDoc(doc(db, `${TRIP_PATH}/itinerary/item-1`), { day: '2025-04-01', location: 'Tokyo' });
+    await setDoc(doc(db, `${TRIP_PATH}/expenses/expense-1`), { description: 'Sushi', amount: 80 });
+    await setDoc(doc(db, `${TRIP_PATH}/tasks/task-1`), { text: 'Buy JR pass', completed: false });
+  });
+});
+
+describe('trip documents', () => {
+  it('is only readable by members', async () => {
+    await assertSucceeds(getDoc(doc(dbFor(VIEWER), TRIP_PATH)));
+    await assertFails(getDoc(doc(dbFor(STRANGER), TRIP_PATH)));
+    await assertFails(getDoc(doc(dbFor(null), TRIP_PATH)));
+  });
+
+  it('only lists trips the user is a member of', async () => {
+    const trips = collection(dbFor(VIEWER), TRIPS_PATH);
+    await assertSucceeds(getDocs(query(trips, where('members', 'array-contains', VIEWER))));
+    await assertFails(getDocs(trips));
+  });
+
+  it('lets a user create a trip they own', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(STRANGER), `${TRIPS_PATH}/new-trip`), {
+      name: 'Mine',
+      ownerId: STRANGER,
+      members: [STRANGER],
+      roles: { [STRANGER]: 'owner' },
+      joinCode: 'XYZ789',
+    }));
+  });
+
+  it('rejects creating a trip owned by, or shared with, someone else', async () => {
+    await assertFails(setDoc(doc(dbFor(STRANGER), `${TRIPS_PATH}/new-trip`), {
+      name: 'Not mine',
+      ownerId: OWNER,
+      members: [OWNER],
+      roles: { [OWNER]: 'owner' },
+    }));
+    await assertFails(setDoc(doc(dbFor(STRANGER), `${TRIPS_PATH}/new-trip`), {
+      name: 'Mine',
+      ownerId: STRANGER,
+      members: [STRANGER, EDITOR],
+      roles: { [STRANGER]: 'owner', [EDITOR]: 'owner' },
+    }));
+  });
+
+  it('lets owners and editors change trip details', async () => {
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { name: 'Japan 2025' }));
+    await assertSucceeds(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { endDate: '2025-04-12' }));
+    await assertSucceeds(updateDoc(doc(dbFor(LEGACY), TRIP_PATH), { startDate: '2025-04-02' }));
+  });
+
+  it('rejects detail changes from viewers and non-members', async () => {
+    await assertFails(updateDoc(doc(dbFor(VIEWER), TRIP_PATH), { name: 'Hacked' }));
+    await assertFails(updateDoc(doc(dbFor(STRANGER), TRIP_PATH), { name: 'Hacked' }));
+  });
+
+  it('only lets the owner manage members, roles and the join code', async () => {
+    await assertFails(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { [`roles.${EDITOR}`]: 'owner' }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { ownerId: EDITOR }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { joinCode: 'NEW123' }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { archived: true }));
+
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { [`roles.${VIEWER}`]: 'editor' }));
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { joinCode: 'NEW123' }));
+  });
+
+  it('lets the owner transfer ownership to a member only', async () => {
+    await assertFails(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { ownerId: STRANGER }));
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), {
+      ownerId: EDITOR,
+      [`roles.${EDITOR}`]: 'owner',
+      [`roles.${OWNER}`]: 'editor',
+    }));
+    // The previous owner is now an editor
+    await assertFails(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { joinCode: 'NEW123' }));
+  });
+
+  it('rejects adding yourself without a join request', async () => {
+    await assertFails(updateDoc(doc(dbFor(STRANGER), TRIP_PATH), {
+      members: arrayUnion(STRANGER),
+      [`roles.${STRANGER}`]: 'viewer',
+    }));
+  });
+
+  it('only lets the owner delete the trip', async () => {
+    await assertFails(deleteDoc(doc(dbFor(EDITOR), TRIP_PATH)));
+    await assertSucceeds(deleteDoc(doc(dbFor(OWNER), TRIP_PATH)));
+  });
+});
+
+describe.each(['itinerary', 'expenses', 'tasks'])('%s subcollection', (subcollection) => {
+  const existingId = { itinerary: 'item-1', expenses: 'expense-1', tasks: 'task-1' }[subcollection];
+  const existingPath = `${TRIP_PATH}/${subcollection}/${existingId}`;
+  const newPath = `${TRIP_PATH}/${subcollection}/new-doc`;
+
+  it('is readable by every member', async () => {
+    for (const uid of [OWNER, EDITOR, VIEWER, LEGACY]) {
+      await assertSucceeds(getDoc(doc(dbFor(uid), existingPath)));
+    }
+  });
+
+  it('is not readable by non-members', async () => {
+    await assertFails(getDoc(doc(dbFor(STRANGER), existingPath)));
+    await assertFails(getDoc(doc(dbFor(null), existingPath)));
+  });
+
+  it('is writable by owners and editors', async () => {
+    for (const uid of [OWNER, EDITOR, LEGACY]) {
+      await assertSucceeds(setDoc(doc(dbFor(uid), `${newPath}-${uid}`), { createdBy: uid }));
+    }
+    await assertSucceeds(updateDoc(doc(dbFor(EDITOR), existingPath), { completed: true }));
+    await assertSucceeds(deleteDoc(doc(dbFor(EDITOR), existingPath)));
+  });
+
+  it('is read-only for viewers and closed to non-members', async () => {
+    await assertFails(setDoc(doc(dbFor(VIEWER), newPath), { createdBy: VIEWER }));
+    await assertFails(updateDoc(doc(dbFor(VIEWER), existingPath), { completed: true }));
+    await assertFails(deleteDoc(doc(dbFor(VIEWER), existingPath)));
+    await assertFails(setDoc(doc(dbFor(STRANGER), newPath), { createdBy: STRANGER }));
+  });
+});
+
+describe('trash', () => {
+  it('only lets the owner move a trip to the trash and restore it', async () => {
+    await assertFails(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { deletedAt: Date.now() }));
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { deletedAt: Date.now(), joinCode: '' }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), TRIP_PATH), { deletedAt: null }));
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { deletedAt: null }));
+  });
+
+  it('freezes the contents of a trashed trip', async () => {
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), TRIP_PATH), { deletedAt: Date.now(), joinCode: '' }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), `${TRIP_PATH}/tasks/task-1`), { completed: true }));
+    await assertFails(setDoc(doc(dbFor(OWNER), `${TRIP_PATH}/expenses/new-doc`), { amount: 10 }));
+    await assertFails(deleteDoc(doc(dbFor(EDITOR), `${TRIP_PATH}/itinerary/item-1`)));
+    await assertFails(deleteDoc(doc(dbFor(EDITOR), `${TRIP_PATH}/expenses/expense-1`)));
+    await assertFails(deleteDoc(doc(dbFor(EDITOR), `${TRIP_PATH}/tasks/task-1`)));
+  });
+
+  it('lets the owner delete everything under the trip', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(EDITOR), `${TRIP_PATH}/presence/${EDITOR}`), {
+      uid: EDITOR,
+      lastSeen: Date.now(),
+    }));
+    const db = dbFor(OWNER);
+    const batch = writeBatch(db);
+    batch.delete(doc(db, `${TRIP_PATH}/itinerary/item-1`));
+    batch.delete(doc(db, `${TRIP_PATH}/expenses/expense-1`));
+    batch.delete(doc(db, `${TRIP_PATH}/tasks/task-1`));
+    batch.delete(doc(db, `${TRIP_PATH}/presence/${EDITOR}`));
+    await assertSucceeds(batch.commit());
+    await assertSucceeds(deleteDoc(doc(db, TRIP_PATH)));
+  });
+});
+
+describe('itinerary authorship', () => {
+  const itemPath = `${TRIP_PATH}/itinerary/item-1`;
+  const newPath = `${TRIP_PATH}/itinerary/new-item`;
+
+  it('requires new items to be created by the caller', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(EDITOR), newPath), {
+      location: 'Kyoto',
+      createdBy: EDITOR,
+      updatedBy: EDITOR,
+      updatedAt: Date.now(),
+    }));
+    await assertFails(setDoc(doc(dbFor(EDITOR), `${newPath}-2`), { location: 'Nara', createdBy: OWNER }));
+    await assertFails(setDoc(doc(dbFor(EDITOR), `${newPath}-3`), { location: 'Nara' }));
+  });
+
+  it('lets edits record the caller but nobody else', async () => {
+    await assertSucceeds(updateDoc(doc(dbFor(EDITOR), itemPath), { notes: 'Book ahead', updatedBy: EDITOR }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), itemPath), { notes: 'Book ahead', updatedBy: OWNER }));
+    // Background updates leave the stamps alone
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), itemPath), { lat: 35.68, lng: 139.76 }));
+  });
+
+  it('keeps the original creator', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(OWNER), newPath), { location: 'Kyoto', createdBy: OWNER }));
+    await assertFails(updateDoc(doc(dbFor(EDITOR), newPath), { createdBy: EDITOR, updatedBy: EDITOR }));
+  });
+});
+
+describe('routes', () => {
+  const routePath = `${TRIP_PATH}/routes/walk:38.69160,-9.21600>38.69790,-9.20640`;
+  const route = {
+    mode: 'walk',
+    durationMinutes: 15,
+    distanceKm: 1.1,
+    path: [{ lat: 38.6916, lng: -9.216 }, { lat: 38.6979, lng: -9.2064 }],
+    estimated: false,
+    fetchedAt: Date.now(),
+  };
+
+  it('lets editors save routes and every member read them', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(EDITOR), routePath), route));
+    await assertSucceeds(getDoc(doc(dbFor(VIEWER), routePath)));
+    await assertFails(getDoc(doc(dbFor(STRANGER), routePath)));
+  });
+
+  it('keeps viewers and strangers from saving routes', async () => {
+    await assertFails(setDoc(doc(dbFor(VIEWER), routePath), route));
+    await assertFails(setDoc(doc(dbFor(STRANGER), routePath), route));
+  });
+
+  it('only takes route fields', async () => {
+    await assertFails(setDoc(doc(dbFor(EDITOR), routePath), { ...route, note: 'shortcut' }));
+  });
+});
+
+describe('presence', () => {
+  const presencePath = (uid: string) => `${TRIP_PATH}/presence/${uid}`;
+
+  it('lets every member send their own heartbeat', async () => {
+    for (const uid of [OWNER, EDITOR, VIEWER, LEGACY]) {
+      await assertSucceeds(setDoc(doc(dbFor(uid), presencePath(uid)), { uid, lastSeen: Date.now() }));
+    }
+    await assertSucceeds(getDocs(collection(dbFor(VIEWER), `${TRIP_PATH}/presence`)));
+    await assertSucceeds(deleteDoc(doc(dbFor(VIEWER), presencePath(VIEWER))));
+  });
+
+  it("rejects other members' heartbeats and non-members", async () => {
+    await assertFails(setDoc(doc(dbFor(EDITOR), presencePath(OWNER)), { uid: OWNER, lastSeen: Date.now() }));
+    await assertFails(setDoc(doc(dbFor(STRANGER), presencePath(STRANGER)), { uid: STRANGER, lastSeen: Date.now() }));
+    await assertFails(getDocs(collection(dbFor(STRANGER), `${TRIP_PATH}/presence`)));
+  });
+});
+
+describe('invite codes', () => {
+  it('can be looked up by code but not listed', async () => {
+    await assertSucceeds(getDoc(doc(dbFor(STRANGER), INVITE_PATH)));
+    await assertFails(getDocs(collection(dbFor(STRANGER), `artifacts/${APP_ID}/public/data/joinCodes`)));
+  });
+
+  it('lets the owner replace the code', async () => {
+    const db = dbFor(OWNER);
+    const batch = writeBatch(db);
+    batch.set(doc(db, `artifacts/${APP_ID}/public/data/joinCodes/NEW789`), {
+      code: 'NEW789',
+      tripId: TRIP_ID,
+      createdBy: OWNER,
+      createdAt: Date.now(),
+      expiresAt: null,
+      requireApproval: true,
+      role: 'editor',
+    });
+    batch.update(doc(db, TRIP_PATH), { joinCode: 'NEW789' });
+    batch.delete(doc(db, INVITE_PATH));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('only lets the owner change or revoke the code', async () => {
+    await assertFails(updateDoc(doc(dbFor(EDITOR), INVITE_PATH), { role: 'editor' }));
+    await assertFails(deleteDoc(doc(dbFor(EDITOR), INVITE_PATH)));
+    await assertFails(setDoc(doc(dbFor(STRANGER), `artifacts/${APP_ID}/public/data/joinCodes/MINE12`), {
+      code: 'MINE12',
+      tripId: TRIP_ID,
+      createdBy: STRANGER,
+      createdAt: Date.now(),
+      expiresAt: null,
+      requireApproval: false,
+      role: 'editor',
+    }));
+
+    await assertSucceeds(updateDoc(doc(dbFor(OWNER), INVITE_PATH), { requireApproval: true }));
+    await assertSucceeds(deleteDoc(doc(dbFor(OWNER), INVITE_PATH)));
+  });
+
+  it('lets a user join with an active code and its role', async () => {
+    await assertSucceeds(joinBatch(dbFor(STRANGER), STRANGER, 'viewer'));
+  });
+
+  it('rejects joining with a different role than the code gives', async () => {
+    await assertFails(joinBatch(dbFor(STRANGER), STRANGER, 'editor'));
+    await assertFails(joinBatch(dbFor(STRANGER), STRANGER, 'owner'));
+  });
+
+  it('rejects joining with an expired, revoked or unknown code', async () => {
+    await assertFails(joinBatch(dbFor(STRANGER), STRANGER, 'viewer', 'WRONG1'));
+
+    await setInvite({ expiresAt: Date.now() - 1000 });
+    await assertFails(joinBatch(dbFor(STRANGER), STRANGER, 'viewer'));
+
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await deleteDoc(doc(context.firestore(), INVITE_PATH));
+    });
+    await assertFails(joinBatch(dbFor(STRANGER), STRANGER, 'viewer'));
+  });
+
+  it('rejects joining directly when the code requires approval', async () => {
+    await setInvite({ requireApproval: true });
+    await assertFails(joinBatch(dbFor(STRANGER), STRANGER, 'viewer'));
+  });
+
+  it('queues a pending request for the owner to approve', async () => {
+    await setInvite({ requireApproval: true });
+    const requestPath = `${TRIP_PATH}/joinRequests/${STRANGER}`;
+
+    await assertSucceeds(setDoc(doc(dbFor(STRANGER), requestPath), {
+      uid: STRANGER,
+      code: JOIN_CODE,
+      role: 'viewer',
+      status: 'pending',
+      requestedAt: Date.now(),
+    }));
+    // Requesters can check on their own request; only the owner sees the queue
+    await assertSucceeds(getDoc(doc(dbFor(STRANGER), requestPath)));
+    await assertFails(getDocs(collection(dbFor(EDITOR), `${TRIP_PATH}/joinRequests`)));
+    await assertSucceeds(getDocs(collection(dbFor(OWNER), `${TRIP_PATH}/joinRequests`)));
+
+    const db = dbFor(OWNER);
+    const batch = writeBatch(db);
+    batch.update(doc(db, TRIP_PATH), {
+      members: arrayUnion(STRANGER),
+      [`roles.${STRANGER}`]: 'viewer',
+    });
+    batch.delete(doc(db, requestPath));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('rejects join requests for a different role than the code gives', async () => {
+    await setInvite({ requireApproval: true });
+    await assertFails(setDoc(doc(dbFor(STRANGER), `${TRIP_PATH}/joinRequests/${STRANGER}`), {
+      uid: STRANGER,
+      code: JOIN_CODE,
+      role: 'editor',
+      status: 'pending',
+      requestedAt: Date.now(),
+    }));
+  });
+
+  it('rejects join requests for someone else or from members', async () => {
+    await assertFails(setDoc(doc(dbFor(STRANGER), `${TRIP_PATH}/joinRequests/friend-uid`), {
+      uid: 'friend-uid',
+      code: JOIN_CODE,
+      role: 'viewer',
+      status: 'joined',
+      requestedAt: Date.now(),
+    }));
+    await assertFails(setDoc(doc(dbFor(EDITOR), `${TRIP_PATH}/joinRequests/${EDITOR}`), {
+      uid: EDITOR,
+      code: JOIN_CODE,
+      role: 'viewer',
+      status: 'joined',
+      requestedAt: Date.now(),
+    }));
+  });
+});
+
+describe('user profiles', () => {
+  const profile = { displayName: 'Jane', photoURL: '', updatedAt: Date.now() };
+
+  it('lets users write only their own profile', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(STRANGER), `${USERS_PATH}/${STRANGER}`), profile));
+    await assertFails(setDoc(doc(dbFor(STRANGER), `${USERS_PATH}/${OWNER}`), profile));
+    await assertFails(setDoc(doc(dbFor(null), `${USERS_PATH}/${STRANGER}`), profile));
+  });
+
+  it('is readable by any signed-in user', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(OWNER), `${USERS_PATH}/${OWNER}`), profile));
+    await assertSucceeds(getDoc(doc(dbFor(EDITOR), `${USERS_PATH}/${OWNER}`)));
+    await assertFails(getDoc(doc(dbFor(null), `${USERS_PATH}/${OWNER}`)));
+  });
+
+  it('rejects unknown fields and overlong names', async () => {
+    const ref = doc(dbFor(STRANGER), `${USERS_PATH}/${STRANGER}`);
+    await assertFails(setDoc(ref, { ...profile, isAdmin: true }));
+    await assertFails(setDoc(ref, { ...profile, displayName: 'x'.repeat(51) }));
+  });
+
+  it('cannot be deleted', async () => {
+    await assertSucceeds(setDoc(doc(dbFor(STRANGER), `${USERS_PATH}/${STRANGER}`), profile));
+    await assertFails(deleteDoc(doc(dbFor(STRANGER), `${USERS_PATH}/${STRANGER}`)));
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Test data shared by the unit tests. Each factory returns a valid record with made-up
+ * defaults; tests override only the fields they're about.
+ */
+import type { DisplayItineraryItem, Expense, ItineraryItem, Task, Trip } from '../src/types';
+
+export function trip(overrides: Partial<Trip> = {}): Trip {
+  return {
+    id: 'trip-1',
+    name: 'Lisbon',
+    startDate: '2026-05-01',
+    endDate: '2026-05-04',
+    ownerId: 'alice',
+    members: ['alice'],
+    joinCode: '',
+    ...overrides,
+  };
+}
+
+export function item(overrides: Partial<ItineraryItem> = {}): ItineraryItem {
+  return {
+    id: 'item-1',
+    type: 'activity',
+    day: '2026-05-02',
+    time: '10:00',
+    location: 'Belém Tower',
+    notes: '',
+    completed: false,
+    ...overrides,
+  };
+}
+
+// Frankfurt to New York, leaving mid-morning
+export function flight(overrides: Partial<ItineraryItem> = {}): ItineraryItem {
+  return item({
+    id: 'flight-1',
+    type: 'flight',
+    time: '10:55',
+    timeZone: 'Europe/Berlin',
+    location: 'Frankfurt (FRA)',
+    departureAirportCode: 'FRA',
+    arrivalLocation: 'New York (JFK)',
+    arrivalAirportCode: 'JFK',
+    arrivalTime: '13:50',
+    arrivalTimeZone: 'America/New_York',
+    flightNumber: 'LH400',
+    ...overrides,
+  });
+}
+
+// An item as grouped by day for display, on its own day
+export function displayItem(overrides: Partial<DisplayItineraryItem> = {}): DisplayItineraryItem {
+  const base = overrides.type === 'flight' ? flight(overrides) : item(overrides);
+  return { ...base, displayDay: overrides.displayDay || base.day };
+}
+
+export function expense(overrides: Partial<Expense> = {}): Expense {
+  return {
+    id: 'expense-1',
+    description: 'Dinner',
+    amount: 60,
+    payer: 'alice',
+    category: 'food',
+    ...overrides,
+  };
+}
+
+export function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    text: 'Book tickets',
+    completed: false,
+    ...overrides,
+  };
+}
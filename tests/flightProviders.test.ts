@@ -0,0 +1,102 @@
+/**
+ * Flight data providers - picking one from the config, and tracking flight status
+ * against the fixture-backed mock
+ */
+import { describe, expect, it, vi } from 'vitest';
+import { lookupFlight } from '../src/services/flight';
+import { getFlightProvider, registerFlightProvider } from '../src/services/flightProviders';
+import { getFlightStatusUpdate, isFlightTrackable } from '../src/services/flightStatus';
+import { createMockFlightProvider } from '../src/services/mockFlightProvider';
+import { zonedTimeToInstant } from '../src/services/timezones';
+import { flight } from './fixtures';
+
+describe('getFlightProvider', () => {
+  it('selects the mock provider by id', () => {
+    expect(getFlightProvider({ provider: 'mock' })?.id).toBe('mock');
+  });
+
+  it('uses AeroDataBox when only its API key is set', () => {
+    expect(getFlightProvider({ aeroDataBoxApiKey: 'key' })?.id).toBe('aerodatabox');
+  });
+
+  it('has no provider without config', () => {
+    expect(getFlightProvider({})).toBeNull();
+  });
+
+  it('has no provider for an unknown id', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getFlightProvider({ provider: 'unknown' })).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('selects a registered provider', async () => {
+    registerFlightProvider('fixtures', () => ({ ...createMockFlightProvider(), id: 'fixtures' }));
+    const provider = getFlightProvider({ provider: 'fixtures' });
+
+    expect(provider?.id).toBe('fixtures');
+    expect((await provider!.lookupFlight('BA117', '2026-05-02'))?.departureAirportCode).toBe('LHR');
+  });
+});
+
+describe('mock flight provider', () => {
+  const provider = createMockFlightProvider();
+
+  it('looks up a fixture by its ICAO flight number', async () => {
+    const info = await provider.lookupFlight('BAW117', '2026-05-02');
+
+    expect(info).toMatchObject({
+      flightNumber: 'BAW117',
+      departureAirportCode: 'LHR',
+      arrivalAirportCode: 'JFK',
+      departureTime: '08:20',
+      departureGate: 'B42',
+      validationSource: 'api',
+    });
+  });
+
+  it('does not know flights outside its fixtures', async () => {
+    expect(await provider.lookupFlight('ZZ999', '2026-05-02')).toBeNull();
+  });
+
+  it('answers lookups before the airport dataset is tried', async () => {
+    const info = await lookupFlight('UA837', 'San Francisco', 'Tokyo', '2026-05-02', provider);
+    expect(info).toMatchObject({ arrivalAirportCode: 'NRT', validationSource: 'api' });
+  });
+});
+
+describe('flight status tracking with the mock provider', () => {
+  const provider = createMockFlightProvider();
+  const now = zonedTimeToInstant('2026-05-02', '09:00', 'Europe/Berlin');
+
+  it('tracks a flight on its day of travel only', () => {
+    expect(isFlightTrackable(flight({}), now)).toBe(true);
+    expect(isFlightTrackable(flight({ day: '2026-05-09' }), now)).toBe(false);
+  });
+
+  it('records a delay and alerts members once', async () => {
+    const item = flight({});
+    const info = await provider.lookupFlight(item.flightNumber!, item.day);
+    const update = getFlightStatusUpdate(item, info!, now);
+
+    expect(update).toMatchObject({
+      status: 'scheduled',
+      departureGate: 'Z25',
+      revisedDepartureTime: '11:40',
+      alert: 'LH400 delayed 45m - now departs 11:40',
+      alertAt: now,
+    });
+
+    // The next poll sees the same answer
+    expect(getFlightStatusUpdate({ ...item, flightStatus: update! }, info!, now + 5 * 60 * 1000)).toBeNull();
+  });
+
+  it('stops tracking a cancelled flight', async () => {
+    const item = flight({ flightNumber: 'AA100', time: '18:30', timeZone: 'America/New_York' });
+    const info = await provider.lookupFlight(item.flightNumber!, item.day);
+    const update = getFlightStatusUpdate(item, info!, now);
+
+    expect(update).toMatchObject({ status: 'cancelled', alert: 'AA100 has been cancelled' });
+    expect(isFlightTrackable({ ...item, flightStatus: update! }, now)).toBe(false);
+  });
+});
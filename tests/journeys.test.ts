@@ -0,0 +1,71 @@
+/**
+ * Flight journeys - which flights count as connections
+ */
+import { describe, expect, it } from 'vitest';
+import { groupFlightJourneys } from '../src/services/journeys';
+import type { ItineraryItem } from '../src/types';
+import { flight } from './fixtures';
+
+// A flight between two airports on the fixture day
+function leg(
+  id: string,
+  from: string,
+  to: string,
+  time: string,
+  arrivalTime: string,
+  zones: { timeZone: string; arrivalTimeZone: string }
+): ItineraryItem {
+  return flight({
+    id,
+    time,
+    arrivalTime,
+    location: from,
+    departureAirportCode: from,
+    arrivalLocation: to,
+    arrivalAirportCode: to,
+    ...zones,
+  });
+}
+
+const LONDON_TO_REYKJAVIK = { timeZone: 'Europe/London', arrivalTimeZone: 'Atlantic/Reykjavik' };
+const REYKJAVIK_TO_NEW_YORK = { timeZone: 'Atlantic/Reykjavik', arrivalTimeZone: 'America/New_York' };
+
+describe('groupFlightJourneys', () => {
+  it('joins a connecting flight to the journey', () => {
+    const journeys = groupFlightJourneys([
+      leg('leg-1', 'LHR', 'KEF', '08:00', '10:00', LONDON_TO_REYKJAVIK),
+      leg('leg-2', 'KEF', 'JFK', '12:00', '14:00', REYKJAVIK_TO_NEW_YORK),
+    ]);
+
+    expect(journeys).toHaveLength(1);
+    expect(journeys[0].legs.map((leg) => leg.id)).toEqual(['leg-1', 'leg-2']);
+    expect(journeys[0].layovers).toEqual([120]);
+  });
+
+  it('keeps a same-day return flight out of the outbound journey', () => {
+    const journeys = groupFlightJourneys([
+      leg('out', 'LHR', 'CDG', '07:00', '09:15', { timeZone: 'Europe/London', arrivalTimeZone: 'Europe/Paris' }),
+      leg('back', 'CDG', 'LHR', '18:00', '18:20', { timeZone: 'Europe/Paris', arrivalTimeZone: 'Europe/London' }),
+    ]);
+
+    expect(journeys.map((journey) => journey.legs.map((leg) => leg.id))).toEqual([['out'], ['back']]);
+  });
+
+  it('keeps a quick turnaround back to the origin as its own journey', () => {
+    const journeys = groupFlightJourneys([
+      leg('out', 'LHR', 'CDG', '07:00', '09:15', { timeZone: 'Europe/London', arrivalTimeZone: 'Europe/Paris' }),
+      leg('back', 'CDG', 'LHR', '10:30', '10:50', { timeZone: 'Europe/Paris', arrivalTimeZone: 'Europe/London' }),
+    ]);
+
+    expect(journeys).toHaveLength(2);
+  });
+
+  it('treats a long wait at the airport as a stay, not a connection', () => {
+    const journeys = groupFlightJourneys([
+      leg('leg-1', 'LHR', 'KEF', '08:00', '10:00', LONDON_TO_REYKJAVIK),
+      leg('leg-2', 'KEF', 'JFK', '21:00', '23:00', REYKJAVIK_TO_NEW_YORK),
+    ]);
+
+    expect(journeys).toHaveLength(2);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Offline writes - forms wait for the server only as long as it is answering
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { onQueuedWriteError, settleWrite } from '../src/services/offline';
+
+describe('settleWrite', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('waits for a write the server confirms', async () => {
+    await expect(settleWrite(Promise.resolve())).resolves.toBeUndefined();
+  });
+
+  it('passes on a write the server rejects straight away', async () => {
+    await expect(settleWrite(Promise.reject(new Error('permission-denied')))).rejects.toThrow('permission-denied');
+  });
+
+  it('stops waiting on a write that is stuck in the queue', async () => {
+    const settled = vi.fn();
+    settleWrite(new Promise(() => {})).then(settled);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(settled).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(settled).toHaveBeenCalled();
+  });
+
+  it('logs a queued write that fails once it syncs', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let fail: (err: Error) => void = () => {};
+    const settled = settleWrite(new Promise((_resolve, reject) => (fail = reject)));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(settled).resolves.toBeUndefined();
+
+    fail(new Error('permission-denied'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(consoleError).toHaveBeenCalledWith('Error syncing queued write:', expect.any(Error));
+  });
+
+  it('tells listeners about a queued write that fails once it syncs', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    const stopListening = onQueuedWriteError(listener);
+    let fail: (err: Error) => void = () => {};
+    settleWrite(new Promise((_resolve, reject) => (fail = reject)));
+    await expect(settleWrite(Promise.reject(new Error('permission-denied')))).rejects.toThrow();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(listener).not.toHaveBeenCalled();
+    fail(new Error('permission-denied'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    stopListening();
+    settleWrite(new Promise((_resolve, reject) => (fail = reject)));
+    await vi.advanceTimersByTimeAsync(5000);
+    fail(new Error('permission-denied'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Bundled airport and airline dataset - lookups beyond the handful of major hubs
+ */
+import { describe, expect, it } from 'vitest';
+import { extractAirportCode, getAirlineName, getAirport, searchAirports } from '../src/services/flight';
+import { inferItemTimeZones } from '../src/services/timezones';
+
+describe('reference data', () => {
+  it('knows airports by IATA and ICAO code', async () => {
+    expect((await getAirport('KEF'))?.tz).toBe('Atlantic/Reykjavik');
+    expect((await getAirport('BIKF'))?.iata).toBe('KEF');
+    // Small airports that only OpenFlights lists
+    expect((await getAirport('PFJ'))?.country).toBe('Iceland');
+  });
+
+  it('finds airport codes in locations', async () => {
+    expect(await extractAirportCode('Reykjavik (KEF)')).toBe('KEF');
+    expect(await extractAirportCode('Keflavik International Airport')).toBe('KEF');
+    expect((await searchAirports('goroka')).map((airport) => airport.code)).toContain('GKA');
+  });
+
+  it('knows airlines by IATA and ICAO code', async () => {
+    expect(await getAirlineName('FI')).toBe('Icelandair');
+    expect(await getAirlineName('ICE')).toBe('Icelandair');
+  });
+
+  it('infers flight time zones from the airports', async () => {
+    const zones = await inferItemTimeZones({ type: 'flight', departureAirportCode: 'KEF', arrivalAirportCode: 'SEZ' });
+    expect(zones).toEqual({ timeZone: 'Atlantic/Reykjavik', arrivalTimeZone: 'Indian/Mahe' });
+  });
+});
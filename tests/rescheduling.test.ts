@@ -0,0 +1,59 @@
+/**
+ * Rescheduling - where a dropped item ends up, and what it pushes back
+ */
+import { describe, expect, it } from 'vitest';
+import { planItemMove } from '../src/services/rescheduling';
+import type { DisplayItineraryItem } from '../src/types';
+import { displayItem } from './fixtures';
+
+const DAY = '2026-05-02';
+
+// Breakfast 09-10, museum 12-13, lunch 13-14
+function day(extra: Partial<DisplayItineraryItem> = {}): DisplayItineraryItem[] {
+  return [
+    displayItem({ id: 'breakfast', location: 'Breakfast', time: '09:00', endTime: '10:00' }),
+    displayItem({ id: 'museum', location: 'Museum', time: '12:00', endTime: '13:00' }),
+    displayItem({ id: 'lunch', location: 'Lunch', time: '13:00', endTime: '14:00', ...extra }),
+  ];
+}
+
+describe('planItemMove', () => {
+  it('keeps the time of an item that fits where it is dropped', () => {
+    const walk = displayItem({ id: 'walk', day: '2026-05-03', time: '10:30', endTime: '11:30' });
+    expect(planItemMove(walk, day(), { day: DAY, index: 1 })).toEqual([
+      { id: 'walk', data: { day: DAY, time: '10:30', endTime: '11:30' } },
+    ]);
+  });
+
+  it('moves an item as little as it can to fit the gap', () => {
+    const walk = displayItem({ id: 'walk', time: '16:00', endTime: '17:00' });
+    expect(planItemMove(walk, [...day(), walk], { day: DAY, index: 1 })).toEqual([
+      { id: 'walk', data: { day: DAY, time: '11:00', endTime: '12:00' } },
+    ]);
+  });
+
+  it('pushes back the activities after a gap too short for it', () => {
+    const tour = displayItem({ id: 'tour', time: '15:00', endTime: '18:00' });
+    expect(planItemMove(tour, [...day(), tour], { day: DAY, index: 1 })).toEqual([
+      { id: 'tour', data: { day: DAY, time: '10:00', endTime: '13:00' } },
+      { id: 'museum', data: { time: '13:00', endTime: '14:00' } },
+      { id: 'lunch', data: { time: '14:00', endTime: '15:00' } },
+    ]);
+  });
+
+  it('stops pushing back at an item booked for its time', () => {
+    const tour = displayItem({ id: 'tour', time: '15:00', endTime: '18:00' });
+    const moves = planItemMove(tour, [...day({ fixedTime: true }), tour], { day: DAY, index: 1 });
+    expect(moves.map((move) => move.id)).toEqual(['tour', 'museum']);
+  });
+
+  it('only changes the day of an untimed item', () => {
+    const shopping = displayItem({ id: 'shopping', day: '2026-05-03', time: '' });
+    expect(planItemMove(shopping, day(), { day: DAY, index: 0 })).toEqual([{ id: 'shopping', data: { day: DAY } }]);
+  });
+
+  it('does nothing when an item is dropped where it was', () => {
+    const items = day();
+    expect(planItemMove(items[1], items, { day: DAY, index: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Route optimization - the order a day's activities are visited in, and their new times
+ */
+import { describe, expect, it } from 'vitest';
+import { canOptimizeDay, optimizeDayRoute } from '../src/services/routeOptimization';
+import { distanceKm } from '../src/services/timezones';
+import type { DisplayItineraryItem } from '../src/types';
+import { displayItem } from './fixtures';
+
+const DAY = '2026-05-02';
+
+// A stop on a road running east, `km` along it, from `time` for `minutes`
+function stop(id: string, km: number, time: string, minutes = 30, overrides: Partial<DisplayItineraryItem> = {}) {
+  const [hours, mins] = time.split(':').map(Number);
+  const end = hours * 60 + mins + minutes;
+  return displayItem({
+    id,
+    location: id,
+    time,
+    endTime: `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`,
+    lat: 0,
+    lng: km / 111.19,
+    ...overrides,
+  });
+}
+
+function order(items: DisplayItineraryItem[]): string[] {
+  return items.map((item) => item.id);
+}
+
+describe('canOptimizeDay', () => {
+  it('needs at least three stops that can move', () => {
+    const booked = { fixedTime: true };
+    expect(canOptimizeDay([stop('a', 0, '09:00'), stop('b', 1, '10:00'), stop('c', 2, '11:00', 30, booked)])).toBe(false);
+    expect(canOptimizeDay([stop('a', 0, '09:00'), stop('b', 1, '10:00'), stop('c', 2, '11:00')])).toBe(true);
+  });
+});
+
+describe('optimizeDayRoute', () => {
+  it('leaves a day that is already in the best order', () => {
+    expect(optimizeDayRoute(DAY, [stop('a', 0, '09:00'), stop('b', 1, '10:00'), stop('c', 2, '11:00')])).toBeNull();
+  });
+
+  it('visits stops in the shortest order, in the day\'s time slots', () => {
+    const plan = optimizeDayRoute(DAY, [
+      stop('a', 0, '09:00'),
+      stop('c', 2, '10:00'),
+      stop('b', 1, '11:00'),
+      stop('d', 3, '12:00'),
+    ])!;
+
+    expect(order(plan.after)).toEqual(['a', 'b', 'c', 'd']);
+    expect(plan.after.map((item) => item.time)).toEqual(['09:00', '10:00', '11:00', '12:00']);
+    expect(plan.distanceBeforeKm).toBeCloseTo(5, 1);
+    expect(plan.distanceAfterKm).toBeCloseTo(3, 1);
+    expect(plan.moves).toEqual([
+      { id: 'b', data: { time: '10:00', endTime: '10:30' } },
+      { id: 'c', data: { time: '11:00', endTime: '11:30' } },
+    ]);
+  });
+
+  it('keeps booked items where and when they are', () => {
+    const plan = optimizeDayRoute(DAY, [
+      stop('a', 0, '09:00'),
+      stop('c', 2, '10:00'),
+      stop('b', 1, '11:00'),
+      stop('booked', 10, '12:00', 60, { fixedTime: true }),
+      stop('e', 12, '14:00'),
+      stop('d', 11, '15:00'),
+    ])!;
+
+    expect(order(plan.after)).toEqual(['a', 'b', 'c', 'booked', 'd', 'e']);
+    expect(plan.moves.map((move) => move.id)).not.toContain('booked');
+  });
+
+  it('finds the shortest order for long days too', () => {
+    // More stops than are solved exactly, listed out of order
+    const kms = [5, 0, 9, 2, 7, 1, 8, 3, 6, 4];
+    const items = kms.map((km, index) => stop(`km${km}`, km, `${String(8 + index).padStart(2, '0')}:00`));
+
+    const plan = optimizeDayRoute(DAY, items)!;
+    expect(plan.distanceAfterKm).toBeCloseTo(distanceKm(0, 0, 0, 9 / 111.19), 3);
+    const visited = order(plan.after);
+    expect([visited, [...visited].reverse()]).toContainEqual(kms.map((_, km) => `km${km}`));
+  });
+
+  it('moves stops earlier to finish before the next fixed item', () => {
+    const plan = optimizeDayRoute(DAY, [
+      stop('a', 0, '09:00'),
+      stop('c', 2, '09:30', 90),
+      stop('b', 1, '11:00'),
+      stop('lunch', 3, '12:00', 60, { fixedTime: true }),
+    ])!;
+
+    const [a, b, c] = plan.after;
+    expect(order(plan.after)).toEqual(['a', 'b', 'c', 'lunch']);
+    expect(a.time).toBe('09:00');
+    expect(b.time >= a.endTime!).toBe(true);
+    expect(c.time >= b.endTime!).toBe(true);
+    expect(c.endTime! <= '12:00').toBe(true);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Routes saved with a trip - when they're used instead of asking the provider again
+ */
+import { describe, expect, it } from 'vitest';
+import { estimateRoute, getRouteKey, isStoredRouteFresh } from '../src/services/routing';
+
+const belem = { lat: 38.6916, lng: -9.216 };
+const jeronimos = { lat: 38.6979, lng: -9.2064 };
+
+describe('saved routes', () => {
+  it('are keyed by the places and the mode', () => {
+    expect(getRouteKey(belem, jeronimos, 'walk')).toBe('walk:38.69160,-9.21600>38.69790,-9.20640');
+    expect(getRouteKey(belem, jeronimos, 'drive')).not.toBe(getRouteKey(belem, jeronimos, 'walk'));
+    expect(getRouteKey(jeronimos, belem, 'walk')).not.toBe(getRouteKey(belem, jeronimos, 'walk'));
+  });
+
+  it('are used for a month', () => {
+    const fetchedAt = Date.UTC(2026, 4, 1);
+    const route = { ...estimateRoute(belem, jeronimos, 'walk'), fetchedAt };
+    expect(isStoredRouteFresh(route, Date.UTC(2026, 4, 20))).toBe(true);
+    expect(isStoredRouteFresh(route, Date.UTC(2026, 5, 1))).toBe(false);
+  });
+});
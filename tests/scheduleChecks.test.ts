@@ -0,0 +1,132 @@
+/**
+ * Schedule checks - what gets flagged in a day's plan
+ */
+import { describe, expect, it } from 'vitest';
+import { groupFlightJourneys } from '../src/services/journeys';
+import { checkSchedule, groupWarningsByItem, getScheduleWarningKey } from '../src/services/scheduleChecks';
+import type { TravelLeg } from '../src/services/travelLegs';
+import { zonedTimeToInstant } from '../src/services/timezones';
+import type { DisplayItineraryItem } from '../src/types';
+import { displayItem, trip } from './fixtures';
+
+const DAY = '2026-05-02';
+const ZONE = 'Europe/Lisbon';
+const TRIP = trip();
+
+function byDay(...items: DisplayItineraryItem[]): Record<string, DisplayItineraryItem[]> {
+  return { [DAY]: items };
+}
+
+// A flight from Lisbon as it is shown on its departure day
+function departure(time: string): DisplayItineraryItem {
+  const flight = displayItem({
+    id: 'flight-1',
+    type: 'flight',
+    time,
+    timeZone: ZONE,
+    location: 'Lisbon (LIS)',
+    departureAirportCode: 'LIS',
+    flightNumber: 'TP1350',
+    arrivalTime: '20:00',
+    arrivalTimeZone: 'Europe/London',
+  });
+  return { ...flight, journey: groupFlightJourneys([flight])[0], flightPhase: 'departure' };
+}
+
+describe('checkSchedule', () => {
+  it('has nothing to say about a plan that works', () => {
+    const warnings = checkSchedule(
+      byDay(
+        displayItem({ time: '10:00', endTime: '11:00', timeZone: ZONE }),
+        displayItem({ id: 'item-2', location: 'Lunch', time: '12:00', timeZone: ZONE })
+      ),
+      TRIP
+    );
+    expect(warnings).toEqual([]);
+  });
+
+  it('flags items that overlap', () => {
+    const warnings = checkSchedule(
+      byDay(
+        displayItem({ time: '10:00', endTime: '12:00', timeZone: ZONE }),
+        displayItem({ id: 'item-2', location: 'Lunch', time: '11:30', timeZone: ZONE })
+      ),
+      TRIP
+    );
+    expect(warnings).toMatchObject([
+      { kind: 'overlap', itemId: 'item-2', relatedItemId: 'item-1', message: 'Lunch overlaps with Belém Tower' },
+    ]);
+  });
+
+  it('flags items that start together, even without end times', () => {
+    const warnings = checkSchedule(
+      byDay(displayItem({ timeZone: ZONE }), displayItem({ id: 'item-2', location: 'Lunch', timeZone: ZONE })),
+      TRIP
+    );
+    expect(warnings.map((warning) => warning.kind)).toEqual(['overlap']);
+  });
+
+  it('flags an activity that ends too close to a departure', () => {
+    const warnings = checkSchedule(byDay(displayItem({ time: '12:00', endTime: '13:00', timeZone: ZONE }), departure('14:00')), TRIP);
+    expect(warnings).toMatchObject([
+      {
+        kind: 'airport-buffer',
+        itemId: 'item-1',
+        relatedItemId: 'flight-1',
+        message: 'Belém Tower is only 1h before TP1350 departs - allow 2h for the airport',
+      },
+    ]);
+  });
+
+  it('leaves enough time for the airport alone', () => {
+    expect(checkSchedule(byDay(displayItem({ time: '09:00', endTime: '11:00', timeZone: ZONE }), departure('14:00')), TRIP)).toEqual([]);
+  });
+
+  it('flags a leg that gets to the next item late', () => {
+    const first = displayItem({ time: '10:00', endTime: '11:00', timeZone: ZONE });
+    const second = displayItem({ id: 'item-2', location: 'Sintra', time: '11:15', timeZone: ZONE });
+    const leg: TravelLeg = {
+      fromItemId: first.id,
+      toItemId: second.id,
+      from: { lat: 38.69, lng: -9.22 },
+      to: { lat: 38.8, lng: -9.39 },
+      mode: 'drive',
+      departAt: zonedTimeToInstant(DAY, '11:00', ZONE),
+      arriveBy: zonedTimeToInstant(DAY, '11:15', ZONE),
+      route: { mode: 'drive', durationMinutes: 40, distanceKm: 25, path: [], estimated: false },
+    };
+
+    const warnings = checkSchedule(byDay(first, second), TRIP, { [DAY]: [leg] });
+    expect(warnings).toMatchObject([{ kind: 'travel-time', itemId: 'item-2', relatedItemId: 'item-1' }]);
+    expect(warnings[0].message).toMatch(/you'd be 25m late$/);
+  });
+
+  it('flags an activity far from where you are staying', () => {
+    const hotel = displayItem({ id: 'hotel', location: 'Hotel Avenida', category: 'lodging', time: '', lat: 38.72, lng: -9.14 });
+    const porto = displayItem({ location: 'Porto', lat: 41.15, lng: -8.61, timeZone: ZONE });
+
+    const warnings = checkSchedule(byDay(hotel, porto), TRIP);
+    expect(warnings).toMatchObject([{ kind: 'far-from-lodging', itemId: 'item-1', relatedItemId: 'hotel' }]);
+    expect(warnings[0].message).toMatch(/^Porto is \d+ km from Hotel Avenida, where you're staying$/);
+  });
+
+  it('flags items outside the trip dates', () => {
+    const late = displayItem({ day: '2026-05-06', timeZone: ZONE });
+    const warnings = checkSchedule({ '2026-05-06': [late] }, TRIP);
+    expect(warnings).toMatchObject([{ kind: 'outside-trip', message: 'Belém Tower is after the trip ends' }]);
+  });
+});
+
+describe('groupWarningsByItem', () => {
+  it('shows a clash on both items, and distance from lodging only on the activity', () => {
+    const grouped = groupWarningsByItem([
+      { id: 'a', kind: 'overlap', day: DAY, itemId: 'item-2', relatedItemId: 'item-1', message: '' },
+      { id: 'b', kind: 'far-from-lodging', day: DAY, itemId: 'item-3', relatedItemId: 'hotel', message: '' },
+    ]);
+
+    expect(grouped.get(getScheduleWarningKey('item-1', DAY))?.map((warning) => warning.id)).toEqual(['a']);
+    expect(grouped.get(getScheduleWarningKey('item-2', DAY))?.map((warning) => warning.id)).toEqual(['a']);
+    expect(grouped.get(getScheduleWarningKey('item-3', DAY))?.map((warning) => warning.id)).toEqual(['b']);
+    expect(grouped.has(getScheduleWarningKey('hotel', DAY))).toBe(false);
+  });
+});
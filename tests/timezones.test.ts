@@ -0,0 +1,107 @@
+/**
+ * Time zones - converting local times, and when items end and flights land
+ */
+import { describe, expect, it } from 'vitest';
+import {
+  formatDuration,
+  formatItemTime,
+  getActivityEnd,
+  getDurationMinutes,
+  getFlightArrival,
+  instantToZonedTime,
+  zonedTimeToInstant,
+} from '../src/services/timezones';
+import { flight, item } from './fixtures';
+
+describe('zonedTimeToInstant', () => {
+  it('reads a local time in its zone', () => {
+    expect(zonedTimeToInstant('2026-05-02', '10:00', 'Europe/Lisbon')).toBe(Date.UTC(2026, 4, 2, 9, 0));
+    expect(zonedTimeToInstant('2026-01-02', '10:00', 'Europe/Lisbon')).toBe(Date.UTC(2026, 0, 2, 10, 0));
+  });
+
+  it('reads a time without a zone as UTC', () => {
+    expect(zonedTimeToInstant('2026-05-02', '10:00')).toBe(Date.UTC(2026, 4, 2, 10, 0));
+  });
+
+  it('uses the offset in force after a DST change', () => {
+    // Clocks in London go forward at 01:00 on 29 March 2026
+    expect(zonedTimeToInstant('2026-03-29', '00:30', 'Europe/London')).toBe(Date.UTC(2026, 2, 29, 0, 30));
+    expect(zonedTimeToInstant('2026-03-29', '03:00', 'Europe/London')).toBe(Date.UTC(2026, 2, 29, 2, 0));
+  });
+
+  it('round-trips through instantToZonedTime', () => {
+    const instant = zonedTimeToInstant('2026-05-02', '23:45', 'Asia/Tokyo');
+    expect(instantToZonedTime(instant, 'Asia/Tokyo')).toEqual({ day: '2026-05-02', time: '23:45' });
+    expect(instantToZonedTime(instant, 'America/New_York')).toEqual({ day: '2026-05-02', time: '10:45' });
+  });
+});
+
+describe('getFlightArrival', () => {
+  it('lands on the day of departure', () => {
+    expect(getFlightArrival(flight())).toEqual({
+      day: '2026-05-02',
+      instant: zonedTimeToInstant('2026-05-02', '13:50', 'America/New_York'),
+    });
+  });
+
+  it('lands the next day on an overnight flight', () => {
+    const overnight = flight({ time: '23:35', timeZone: 'Asia/Singapore', arrivalTime: '06:00', arrivalTimeZone: 'America/New_York' });
+    expect(getFlightArrival(overnight)?.day).toBe('2026-05-03');
+  });
+
+  it('lands the day before when it crosses the date line eastwards', () => {
+    const transpacific = flight({ time: '09:55', timeZone: 'Australia/Sydney', arrivalTime: '06:45', arrivalTimeZone: 'America/Los_Angeles' });
+    expect(getFlightArrival(transpacific)?.day).toBe('2026-05-02');
+    expect(getFlightArrival(transpacific)!.instant).toBeGreaterThan(zonedTimeToInstant('2026-05-02', '09:55', 'Australia/Sydney'));
+  });
+
+  it('takes a stored arrival day over working it out', () => {
+    const arrival = getFlightArrival(flight({ arrivalDay: '2026-05-04' }));
+    expect(arrival).toEqual({ day: '2026-05-04', instant: zonedTimeToInstant('2026-05-04', '13:50', 'America/New_York') });
+  });
+
+  it('has no arrival without an arrival time', () => {
+    expect(getFlightArrival(flight({ arrivalTime: undefined }))).toBeNull();
+  });
+});
+
+describe('getActivityEnd', () => {
+  it('ends on the same day', () => {
+    expect(getActivityEnd(item({ endTime: '11:30', timeZone: 'Europe/Lisbon' }))).toEqual({
+      day: '2026-05-02',
+      instant: zonedTimeToInstant('2026-05-02', '11:30', 'Europe/Lisbon'),
+    });
+  });
+
+  it('ends after midnight when the end time is earlier than the start', () => {
+    expect(getActivityEnd(item({ time: '21:00', endTime: '01:00' }))?.day).toBe('2026-05-03');
+  });
+
+  it('has no end without an end time', () => {
+    expect(getActivityEnd(item())).toBeNull();
+  });
+});
+
+describe('durations', () => {
+  it('counts minutes past midnight', () => {
+    expect(getDurationMinutes('10:00', '11:30')).toBe(90);
+    expect(getDurationMinutes('23:30', '00:15')).toBe(45);
+  });
+
+  it('formats minutes as hours and minutes', () => {
+    expect(formatDuration(45)).toBe('45m');
+    expect(formatDuration(120)).toBe('2h');
+    expect(formatDuration(135)).toBe('2h 15m');
+  });
+});
+
+describe('formatItemTime', () => {
+  it('shows the time as entered, with its zone, without a display zone', () => {
+    expect(formatItemTime(item({ timeZone: 'Europe/Lisbon' }), 'time', null)).toBe('10:00 GMT+1');
+  });
+
+  it('converts to the display zone and marks a different day', () => {
+    const evening = item({ time: '20:00', timeZone: 'America/New_York' });
+    expect(formatItemTime(evening, 'time', 'Europe/Lisbon')).toBe('01:00 +1');
+  });
+});
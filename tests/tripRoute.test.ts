@@ -0,0 +1,70 @@
+/**
+ * Trip route - flights and inter-city transport, in the order they happen
+ */
+import { describe, expect, it } from 'vitest';
+import type { Airport } from '../src/services/referenceData';
+import { getTripRoute } from '../src/services/tripRoute';
+import { flight, item } from './fixtures';
+
+function airport(code: string, name: string, lat: number, lng: number): Airport {
+  return { code, iata: code, icao: '', name, city: '', country: '', lat, lng, tz: '' };
+}
+
+const AIRPORTS = new Map([
+  ['FRA', airport('FRA', 'Frankfurt am Main Airport', 50.03, 8.56)],
+  ['JFK', airport('JFK', 'John F Kennedy International Airport', 40.64, -73.78)],
+  ['LIS', airport('LIS', 'Humberto Delgado Airport', 38.77, -9.13)],
+]);
+
+describe('getTripRoute', () => {
+  it('places flights at their airports from the dataset', () => {
+    const { segments, airports } = getTripRoute([flight()], AIRPORTS);
+
+    expect(segments).toMatchObject([
+      {
+        kind: 'flight',
+        from: { code: 'FRA', name: 'Frankfurt am Main Airport', lat: 50.03, lng: 8.56 },
+        to: { code: 'JFK', lat: 40.64, lng: -73.78 },
+      },
+    ]);
+    expect(airports.map((place) => place.code)).toEqual(['FRA', 'JFK']);
+  });
+
+  it('uses the coordinates saved on the flight over the dataset', () => {
+    const { segments } = getTripRoute([flight({ lat: 50, lng: 8.5 })], AIRPORTS);
+    expect(segments[0].from).toMatchObject({ code: 'FRA', lat: 50, lng: 8.5 });
+  });
+
+  it('leaves out flights it can\'t place, until the dataset is loaded', () => {
+    expect(getTripRoute([flight()], null).segments).toEqual([]);
+  });
+
+  it('lists each airport once, in the order flights happen', () => {
+    const { segments, airports } = getTripRoute(
+      [
+        flight({ id: 'home', day: '2026-05-09', location: 'New York (JFK)', departureAirportCode: 'JFK', arrivalAirportCode: 'LIS' }),
+        flight({ id: 'out' }),
+      ],
+      AIRPORTS
+    );
+
+    expect(segments.map((segment) => segment.item.id)).toEqual(['out', 'home']);
+    expect(airports.map((place) => place.code)).toEqual(['FRA', 'JFK', 'LIS']);
+  });
+
+  it('draws transport to the next place in another city', () => {
+    const train = item({ id: 'train', location: 'Lisbon Santa Apolónia', category: 'transport', time: '09:00', lat: 38.71, lng: -9.12 });
+    const porto = item({ id: 'porto', location: 'Livraria Lello', time: '13:00', lat: 41.15, lng: -8.61 });
+
+    expect(getTripRoute([porto, train], AIRPORTS).segments).toMatchObject([
+      { kind: 'ground', item: { id: 'train' }, from: { name: 'Lisbon Santa Apolónia' }, to: { name: 'Livraria Lello' } },
+    ]);
+  });
+
+  it('leaves out transport within a city', () => {
+    const tram = item({ id: 'tram', location: 'Tram 28', category: 'transport', time: '09:00', lat: 38.71, lng: -9.13 });
+    const castle = item({ id: 'castle', location: 'São Jorge Castle', time: '10:00', lat: 38.71, lng: -9.13 });
+
+    expect(getTripRoute([tram, castle], AIRPORTS).segments).toEqual([]);
+  });
+});
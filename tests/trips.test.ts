@@ -0,0 +1,53 @@
+/**
+ * Trip dates - moving a trip and its items
+ */
+import { describe, expect, it } from 'vitest';
+import { groupFlightJourneys } from '../src/services/journeys';
+import { daysBetween, shiftDate, shiftItemDates } from '../src/services/trips';
+import { flight, item } from './fixtures';
+
+describe('shiftDate', () => {
+  it('moves across month ends and DST changes', () => {
+    expect(shiftDate('2026-03-28', 3)).toBe('2026-03-31');
+    expect(shiftDate('2026-05-01', -1)).toBe('2026-04-30');
+    expect(daysBetween('2026-03-28', '2026-04-02')).toBe(5);
+  });
+});
+
+describe('shiftItemDates', () => {
+  it('moves an item\'s day', () => {
+    expect(shiftItemDates(item(), 7)).toEqual({ day: '2026-05-09' });
+  });
+
+  it('moves the day a stay ends', () => {
+    const stay = item({ category: 'lodging', day: '2026-05-01', endDay: '2026-05-04' });
+    expect(shiftItemDates(stay, 7)).toEqual({ day: '2026-05-08', endDay: '2026-05-11' });
+  });
+
+  it('moves the day a flight lands', () => {
+    const overnight = flight({ day: '2026-05-02', arrivalDay: '2026-05-03' });
+    expect(shiftItemDates(overnight, -2)).toEqual({ day: '2026-04-30', arrivalDay: '2026-05-01' });
+  });
+
+  it('keeps connecting flights together when the trip moves', () => {
+    const reykjavik = 'Atlantic/Reykjavik';
+    const first = flight({
+      id: 'leg-1',
+      arrivalAirportCode: 'KEF',
+      arrivalTime: '23:30',
+      arrivalTimeZone: reykjavik,
+      arrivalDay: '2026-05-02',
+    });
+    const second = flight({
+      id: 'leg-2',
+      day: '2026-05-03',
+      time: '01:00',
+      timeZone: reykjavik,
+      departureAirportCode: 'KEF',
+      arrivalTime: '03:00',
+    });
+    const moved = [first, second].map((leg) => ({ ...leg, ...shiftItemDates(leg, 30) }));
+
+    expect(groupFlightJourneys(moved).map((journey) => journey.legs.length)).toEqual([2]);
+  });
+});
@@ -1,7 +1,29 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Builds the service worker (src/sw.js) with the list of built files to cache when it installs.
+// Its version is a hash of that list and the worker itself, so each deploy that changes
+// either one gets a new worker and shell cache.
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const template = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8')
+      const builtFiles = JSON.stringify(Object.keys(bundle).sort().map((fileName) => `/${fileName}`))
+      const version = createHash('sha256').update(template).update(builtFiles).digest('hex').slice(0, 12)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template.replace('__BUILD_VERSION__', version).replace('__BUILT_FILES__', builtFiles),
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })